@@ -3,6 +3,8 @@ import {BrowserRouter as Router, Navigate, Route, Routes, useLocation, useNaviga
 import './App.css';
 import AdminLogin from './components/AdminLogin';
 import BuildingsManagement from './components/BuildingsManagement';
+import BuildingStackView from './components/BuildingStackView';
+import BeaconFleetHealth from './components/BeaconFleetHealth';
 import Dashboard from './components/Dashboard';
 import {FloorEditor} from './components/FloorEditor';
 import LoadBalancerSimulation from './components/LoadBalancerSimulation';
@@ -19,8 +21,11 @@ const ROUTES = {
   DASHBOARD: '/dashboard',
   BUILDINGS: '/buildings',
   LOAD_BALANCER: '/load-balancer',
+  BEACON_HEALTH: '/beacon-health',
   FLOOR_EDITOR: '/floor-editor/:floorId',
   FLOOR_EDITOR_PATH: (floorId: string) => `/floor-editor/${floorId}`,
+  BUILDING_VIEW: '/building-view/:buildingId',
+  BUILDING_VIEW_PATH: (buildingId: string) => `/building-view/${buildingId}`,
 } as const;
 
 // UI Constants
@@ -135,6 +140,12 @@ function AppContent() {
     navigate(ROUTES.LOAD_BALANCER);
   };
 
+  const handleNavigateToBeaconHealth = () => {
+    logger.userAction('Navigate to beacon fleet health clicked');
+    logger.navigationChange('Navigating to', ROUTES.BEACON_HEALTH);
+    navigate(ROUTES.BEACON_HEALTH);
+  };
+
   const handleNavigateToFloorEditor = (floorId: string | number) => {
     const floorIdString = floorId.toString();
     logger.userAction('Navigate to floor editor clicked', { floorId, floorIdString });
@@ -143,6 +154,13 @@ function AppContent() {
     navigate(route);
   };
 
+  const handleNavigateToBuildingView = (buildingId: string | number) => {
+    const route = ROUTES.BUILDING_VIEW_PATH(buildingId.toString());
+    logger.userAction('Navigate to building view clicked', { buildingId });
+    logger.navigationChange('Navigating to', route);
+    navigate(route);
+  };
+
   // Component lifecycle logging
   useEffect(() => {
     logger.info('AppContent component mounted');
@@ -196,6 +214,7 @@ function AppContent() {
                 onLogout={handleLogout}
                 onNavigateToBuildings={handleNavigateToBuildings}
                 onNavigateToLoadBalancer={handleNavigateToLoadBalancer}
+                onNavigateToBeaconHealth={handleNavigateToBeaconHealth}
               />
             ) : (
               <Navigate to={ROUTES.LOGIN} replace />
@@ -209,6 +228,7 @@ function AppContent() {
               <BuildingsManagement 
                 onBack={handleNavigateToDashboard}
                 onFloorEdit={handleNavigateToFloorEditor}
+                onBuildingView={handleNavigateToBuildingView}
               />
             ) : (
               <Navigate to={ROUTES.LOGIN} replace />
@@ -227,6 +247,32 @@ function AppContent() {
             )
           } 
         />
+        <Route 
+          path={ROUTES.BEACON_HEALTH} 
+          element={
+            token ? (
+              <BeaconFleetHealth 
+                onBack={handleNavigateToDashboard}
+              />
+            ) : (
+              <Navigate to={ROUTES.LOGIN} replace />
+            )
+          } 
+        />
+        <Route 
+          path={ROUTES.BUILDING_VIEW} 
+          element={
+            token ? (
+              <BuildingStackView
+                buildingId={Number(location.pathname.split('/').pop()) || 0}
+                onBack={handleNavigateToBuildings}
+                onFloorEdit={handleNavigateToFloorEditor}
+              />
+            ) : (
+              <Navigate to={ROUTES.LOGIN} replace />
+            )
+          } 
+        />
         <Route 
           path={ROUTES.FLOOR_EDITOR} 
           element={
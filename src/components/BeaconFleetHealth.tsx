@@ -0,0 +1,244 @@
+import React, {useEffect} from 'react';
+import {UI_MESSAGES} from '../constants/ui';
+import {FleetSortKey, useBeaconFleetHealth} from '../hooks';
+import {BEACON_HEALTH_COLORS, BEACON_HEALTH_LABELS, BeaconHealthStatus, describeSilence} from '../utils/beaconHealth';
+import {createLogger} from '../utils/logger';
+import {Button, Container, Header} from './common';
+import FloorHealthMap from './FloorHealthMap';
+import './BeaconFleetHealth.css';
+
+const logger = createLogger('BeaconFleetHealth');
+
+interface BeaconFleetHealthProps {
+  onBack: () => void;
+}
+
+const STATUS_ORDER: BeaconHealthStatus[] = ['critical', 'silent', 'low-battery', 'healthy', 'inactive'];
+const SILENT_HOUR_OPTIONS = [1, 6, 12, 24, 48, 72, 168];
+
+const SORT_LABELS: Record<FleetSortKey, string> = {
+  urgency: 'Urgency',
+  battery: 'Battery',
+  lastSeen: 'Last seen',
+  name: 'Name',
+};
+
+const BeaconFleetHealth: React.FC<BeaconFleetHealthProps> = ({ onBack }) => {
+  const {
+    buildings,
+    floors,
+    allFloors,
+    health,
+    statusCounts,
+    batteryDistribution,
+    settings,
+    buildingId,
+    mapFloorId,
+    mapFloorHealth,
+    sortKey,
+    updatingBeaconId,
+    isLoading,
+    error,
+    updateSettings,
+    selectBuilding,
+    setMapFloorId,
+    setSortKey,
+    refresh,
+    markBatteryReplaced,
+    exportWorkList
+  } = useBeaconFleetHealth();
+
+  useEffect(() => {
+    logger.info('BeaconFleetHealth component mounted');
+    return () => {
+      logger.info('BeaconFleetHealth component unmounted');
+    };
+  }, []);
+
+  const floorsById = new Map(allFloors.map(f => [f.id, f]));
+  const buildingsById = new Map(buildings.map(b => [b.id, b]));
+  const locationOf = (floorId: number) => {
+    const floor = floorsById.get(floorId);
+    if (!floor) return `Floor ${floorId}`;
+    return `${buildingsById.get(floor.buildingId)?.name ?? 'Unknown building'} · ${floor.name}`;
+  };
+  const largestBucket = Math.max(1, ...batteryDistribution.map(b => b.count));
+  const needsAttention = statusCounts['critical'] + statusCounts['silent'] + statusCounts['low-battery'];
+
+  return (
+    <Container variant="PAGE">
+      <Header
+        title={UI_MESSAGES.FLEET_HEALTH_TITLE}
+        actions={
+          <div className="fleet-health-header-actions">
+            <Button variant="SECONDARY" onClick={refresh}>
+              {UI_MESSAGES.FLEET_HEALTH_REFRESH}
+            </Button>
+            <Button variant="PRIMARY" onClick={exportWorkList} disabled={needsAttention === 0}>
+              {UI_MESSAGES.FLEET_HEALTH_EXPORT}
+            </Button>
+            <Button variant="SECONDARY" onClick={onBack}>
+              {UI_MESSAGES.BUILDINGS_BACK_BUTTON}
+            </Button>
+          </div>
+        }
+      />
+
+      {error && <div className="fleet-health-error">{error}</div>}
+
+      <div className="fleet-health-content">
+        <section className="fleet-health-section fleet-health-controls">
+          <label>
+            Building
+            <select
+              value={buildingId ?? ''}
+              onChange={(e) => selectBuilding(e.target.value ? Number(e.target.value) : null)}
+            >
+              <option value="">{UI_MESSAGES.FLEET_HEALTH_ALL_BUILDINGS}</option>
+              {buildings.map(b => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Low battery below {settings.lowBatteryThreshold}%
+            <input
+              type="range"
+              min={5}
+              max={50}
+              step={5}
+              value={settings.lowBatteryThreshold}
+              onChange={(e) => updateSettings({ lowBatteryThreshold: Number(e.target.value) })}
+            />
+          </label>
+          <label>
+            Silent after
+            <select
+              value={settings.silentHours}
+              onChange={(e) => updateSettings({ silentHours: Number(e.target.value) })}
+            >
+              {SILENT_HOUR_OPTIONS.map(hours => (
+                <option key={hours} value={hours}>{hours < 48 ? `${hours} h` : `${hours / 24} days`}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        {isLoading ? (
+          <div className="fleet-health-status">{UI_MESSAGES.FLEET_HEALTH_LOADING}</div>
+        ) : (
+          <>
+            <section className="fleet-health-summary">
+              {STATUS_ORDER.map(status => (
+                <div key={status} className="fleet-health-summary-card" style={{ borderColor: BEACON_HEALTH_COLORS[status] }}>
+                  <span className="fleet-health-summary-count">{statusCounts[status]}</span>
+                  <span>{BEACON_HEALTH_LABELS[status]}</span>
+                </div>
+              ))}
+            </section>
+
+            <div className="fleet-health-columns">
+              <section className="fleet-health-section">
+                <h2>Battery distribution</h2>
+                <div className="fleet-health-histogram">
+                  {batteryDistribution.map(bucket => (
+                    <div key={bucket.from} className="fleet-health-bar" title={`${bucket.from}–${bucket.to}%: ${bucket.count} beacons`}>
+                      <span className="fleet-health-bar-count">{bucket.count || ''}</span>
+                      <div
+                        className={`fleet-health-bar-fill ${bucket.from < settings.lowBatteryThreshold ? 'low' : ''}`}
+                        style={{ height: `${(bucket.count / largestBucket) * 100}%` }}
+                      />
+                      <span className="fleet-health-bar-label">{bucket.from}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="fleet-health-section">
+                <div className="fleet-health-section-header">
+                  <h2>Floor map</h2>
+                  <select
+                    value={mapFloorId ?? ''}
+                    onChange={(e) => setMapFloorId(e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">{UI_MESSAGES.FLEET_HEALTH_SELECT_FLOOR}</option>
+                    {floors.map(f => (
+                      <option key={f.id} value={f.id}>{locationOf(f.id)}</option>
+                    ))}
+                  </select>
+                </div>
+                {mapFloorId !== null ? (
+                  <FloorHealthMap key={mapFloorId} floorId={mapFloorId} health={mapFloorHealth} />
+                ) : (
+                  <div className="fleet-health-status">{UI_MESSAGES.FLEET_HEALTH_MAP_HINT}</div>
+                )}
+              </section>
+            </div>
+
+            <section className="fleet-health-section">
+              <div className="fleet-health-section-header">
+                <h2>Beacons ({health.length})</h2>
+                <label>
+                  Sort by
+                  <select value={sortKey} onChange={(e) => setSortKey(e.target.value as FleetSortKey)}>
+                    {(Object.keys(SORT_LABELS) as FleetSortKey[]).map(key => (
+                      <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {health.length === 0 ? (
+                <div className="fleet-health-status">{UI_MESSAGES.FLEET_HEALTH_NO_BEACONS}</div>
+              ) : (
+                <table className="fleet-health-table">
+                  <thead>
+                    <tr>
+                      <th>Status</th>
+                      <th>Beacon</th>
+                      <th>Location</th>
+                      <th>Battery</th>
+                      <th>Last seen</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {health.map(h => (
+                      <tr key={h.beacon.properties.id}>
+                        <td>
+                          <span className="fleet-health-dot" style={{ backgroundColor: BEACON_HEALTH_COLORS[h.status] }} />
+                          {BEACON_HEALTH_LABELS[h.status]}
+                        </td>
+                        <td>{h.beacon.properties.name}</td>
+                        <td>
+                          <button type="button" className="fleet-health-link" onClick={() => setMapFloorId(h.beacon.properties.floor_id)}>
+                            {locationOf(h.beacon.properties.floor_id)}
+                          </button>
+                        </td>
+                        <td>{h.beacon.properties.battery_level}%</td>
+                        <td>{describeSilence(h.hoursSilent)}</td>
+                        <td>
+                          {(h.status === 'low-battery' || h.status === 'critical') && (
+                            <Button
+                              variant="SECONDARY"
+                              size="SMALL"
+                              onClick={() => markBatteryReplaced(h.beacon)}
+                              disabled={updatingBeaconId === h.beacon.properties.id}
+                            >
+                              {UI_MESSAGES.FLEET_HEALTH_BATTERY_REPLACED}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </Container>
+  );
+};
+
+export default BeaconFleetHealth;
@@ -0,0 +1,219 @@
+import React from 'react';
+import {UI_MESSAGES} from '../constants/ui';
+import {useBeaconIdAllocation} from '../hooks';
+import {Building} from '../interfaces/Building';
+import {Floor} from '../interfaces/Floor';
+import {BeaconIdTuple, ReallocationReason, getFloorMajorRange} from '../utils/beaconIdAllocation';
+import {createLogger} from '../utils/logger';
+import {Button} from './common';
+
+const logger = createLogger('BeaconIdManager');
+
+interface BeaconIdManagerProps {
+  building: Building;
+  floors: Floor[];
+  onClose: () => void;
+}
+
+const MAJORS_PER_FLOOR_OPTIONS = [1, 2, 4, 8, 16, 32];
+
+const REASON_LABELS: Record<ReallocationReason, string> = {
+  'duplicate': 'Duplicate',
+  'missing': 'No ID',
+  'outside-scheme': 'Outside scheme',
+};
+
+const formatTuple = (tuple: BeaconIdTuple | null) =>
+  tuple ? `${tuple.uuid.slice(0, 8)}… / ${tuple.major} / ${tuple.minor}` : '—';
+
+const BeaconIdManager: React.FC<BeaconIdManagerProps> = ({ building, floors, onClose }) => {
+  const {
+    allocation,
+    buildingBeacons,
+    conflicts,
+    outsideSchemeCount,
+    plan,
+    duplicatesOnly,
+    isLoading,
+    isApplying,
+    error,
+    regenerateUuid,
+    setMajorsPerFloor,
+    setDuplicatesOnly,
+    planReallocation,
+    discardPlan,
+    applyPlan,
+    downloadProvisioningSheet
+  } = useBeaconIdAllocation(building, floors);
+
+  logger.debug('BeaconIdManager rendered', { buildingId: building.id, conflictCount: conflicts.length, planSize: plan?.length });
+
+  const floorName = (floorId: number) => floors.find(f => f.id === floorId)?.name ?? `Floor ${floorId}`;
+  const sortedFloors = [...floors].sort((a, b) => a.floorNumber - b.floorNumber);
+  // A block size read off the saved beacons may not be one of the usual options
+  const majorsPerFloorOptions = allocation && !MAJORS_PER_FLOOR_OPTIONS.includes(allocation.majorsPerFloor)
+    ? [...MAJORS_PER_FLOOR_OPTIONS, allocation.majorsPerFloor].sort((a, b) => a - b)
+    : MAJORS_PER_FLOOR_OPTIONS;
+
+  const handleRegenerateUuid = () => {
+    if (buildingBeacons.length > 0 && !window.confirm(UI_MESSAGES.BEACON_IDS_REGENERATE_CONFIRM)) return;
+    regenerateUuid();
+  };
+
+  const handleMajorsPerFloorChange = (value: number) => {
+    if (buildingBeacons.length > 0 && !window.confirm(UI_MESSAGES.BEACON_IDS_RESIZE_CONFIRM)) return;
+    setMajorsPerFloor(value);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content beacon-id-manager">
+        <div className="beacon-id-header">
+          <h3>{UI_MESSAGES.BEACON_IDS_TITLE} - {building.name}</h3>
+          <Button variant="SECONDARY" size="SMALL" onClick={onClose} disabled={isApplying}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_CLOSE}
+          </Button>
+        </div>
+
+        {isLoading && <div className="beacon-id-status">{UI_MESSAGES.BEACON_IDS_LOADING}</div>}
+        {error && <div className="buildings-error">{error}</div>}
+
+        {allocation && (
+          <>
+            <div className="beacon-id-section">
+              <h4>Scheme</h4>
+              <div className="beacon-id-uuid">
+                <span>UUID</span>
+                <code>{allocation.uuid.toUpperCase()}</code>
+                <Button variant="SECONDARY" size="SMALL" onClick={handleRegenerateUuid} disabled={isApplying}>
+                  {UI_MESSAGES.BEACON_IDS_REGENERATE_UUID}
+                </Button>
+              </div>
+              <label className="beacon-id-majors">
+                Majors per floor
+                <select
+                  value={allocation.majorsPerFloor}
+                  disabled={isApplying}
+                  onChange={(e) => handleMajorsPerFloorChange(Number(e.target.value))}
+                >
+                  {majorsPerFloorOptions.map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="beacon-id-status">{UI_MESSAGES.BEACON_IDS_SCHEME_SOURCE}</div>
+              <table className="beacon-id-table">
+                <thead>
+                  <tr><th>Floor</th><th>Majors</th><th>Beacons</th></tr>
+                </thead>
+                <tbody>
+                  {sortedFloors.map(floor => {
+                    const range = getFloorMajorRange(allocation, floor.id);
+                    return (
+                      <tr key={floor.id}>
+                        <td>{floor.floorNumber}: {floor.name}</td>
+                        <td>{range ? `${range.first}–${range.last}` : '—'}</td>
+                        <td>{buildingBeacons.filter(b => b.properties.floor_id === floor.id).length}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="beacon-id-section">
+              <h4>Duplicates</h4>
+              {conflicts.length === 0 ? (
+                <div className="beacon-id-status">{UI_MESSAGES.BEACON_IDS_NO_DUPLICATES}</div>
+              ) : (
+                <ul className="beacon-id-conflicts">
+                  {conflicts.map(conflict => (
+                    <li key={`${conflict.tuple.uuid}/${conflict.tuple.major}/${conflict.tuple.minor}`}>
+                      <code>{formatTuple(conflict.tuple)}</code>
+                      {' '}
+                      {conflict.beacons.map(b => `${b.properties.name} (${floorName(b.properties.floor_id)})`).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {outsideSchemeCount > 0 && (
+                <div className="beacon-id-status">
+                  {outsideSchemeCount} of {buildingBeacons.length} beacons have no ID or one outside the scheme.
+                </div>
+              )}
+            </div>
+
+            <div className="beacon-id-section">
+              <h4>Re-allocation</h4>
+              <div className="beacon-id-wizard-controls">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={!duplicatesOnly}
+                    disabled={isApplying}
+                    onChange={(e) => setDuplicatesOnly(!e.target.checked)}
+                  />
+                  Also renumber beacons outside the scheme
+                </label>
+                <Button variant="PRIMARY" size="SMALL" onClick={planReallocation} disabled={isApplying}>
+                  {UI_MESSAGES.BEACON_IDS_PLAN}
+                </Button>
+              </div>
+
+              {plan && (
+                plan.length === 0 ? (
+                  <div className="beacon-id-status">{UI_MESSAGES.BEACON_IDS_NOTHING_TO_CHANGE}</div>
+                ) : (
+                  <>
+                    <table className="beacon-id-table">
+                      <thead>
+                        <tr><th>Beacon</th><th>Floor</th><th>Reason</th><th>From</th><th>To</th></tr>
+                      </thead>
+                      <tbody>
+                        {plan.map(step => (
+                          <tr key={step.beacon.properties.id}>
+                            <td>{step.beacon.properties.name}</td>
+                            <td>{floorName(step.beacon.properties.floor_id)}</td>
+                            <td>{REASON_LABELS[step.reason]}</td>
+                            <td><code>{formatTuple(step.from)}</code></td>
+                            <td><code>{formatTuple(step.to)}</code></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="beacon-id-status">{UI_MESSAGES.BEACON_IDS_REFLASH_NOTE}</div>
+                    <div className="form-actions">
+                      <Button variant="SECONDARY" size="SMALL" onClick={discardPlan} disabled={isApplying}>
+                        {UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_DISCARD}
+                      </Button>
+                      <Button variant="PRIMARY" size="SMALL" onClick={applyPlan} disabled={isApplying}>
+                        {isApplying ? UI_MESSAGES.BEACON_IDS_APPLYING : `${UI_MESSAGES.BEACON_IDS_APPLY} (${plan.length})`}
+                      </Button>
+                    </div>
+                  </>
+                )
+              )}
+            </div>
+
+            <div className="beacon-id-section">
+              <h4>Provisioning</h4>
+              <div className="beacon-id-wizard-controls">
+                <span>{UI_MESSAGES.BEACON_IDS_SHEET_HINT}</span>
+                <Button
+                  variant="SECONDARY"
+                  size="SMALL"
+                  onClick={downloadProvisioningSheet}
+                  disabled={buildingBeacons.length === 0 || isApplying}
+                >
+                  {UI_MESSAGES.BEACON_IDS_DOWNLOAD_SHEET}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BeaconIdManager;
@@ -0,0 +1,201 @@
+import React, {useEffect, useRef, useState} from 'react';
+import {config, GeoJSONSource, LngLatBounds, Map, MapMouseEvent} from '@maptiler/sdk';
+import '@maptiler/sdk/dist/maptiler-sdk.css';
+import {MAPTILER_API_KEY, MAPTILER_STYLE_URL} from '../constants/api';
+import {UI_MESSAGES} from '../constants/ui';
+import {useBuildingStack} from '../hooks';
+import {StackedFeatureProperties} from '../utils/buildingStack';
+import {createLogger} from '../utils/logger';
+import {Button, Container, Header} from './common';
+import './BuildingStackView.css';
+
+const logger = createLogger('BuildingStackView');
+
+const STACK_SOURCE = 'building-stack';
+const SLAB_LAYER = 'building-stack-slabs';
+const CONTENT_LAYER = 'building-stack-content';
+const FLOOR_SPACING_OPTIONS = [3, 4, 6, 8, 12];
+
+interface BuildingStackViewProps {
+  buildingId: number;
+  onBack: () => void;
+  onFloorEdit: (floorId: string | number) => void;
+}
+
+const formatFloorNumber = (floorNumber: number) =>
+  floorNumber < 0 ? `B${Math.abs(floorNumber)}` : floorNumber === 0 ? 'G' : `${floorNumber}`;
+
+/**
+ * All floors of a building stacked in 3D, with elevator and stairs links drawn as columns
+ * between them. Clicking a floor opens it in the floor editor.
+ */
+const BuildingStackView: React.FC<BuildingStackViewProps> = ({ buildingId, onBack, onFloorEdit }) => {
+  const {
+    building,
+    floors,
+    features,
+    hiddenFloorIds,
+    floorSpacing,
+    verticalConnectionCount,
+    isLoading,
+    error,
+    toggleFloor,
+    showAllFloors,
+    setFloorSpacing
+  } = useBuildingStack(buildingId);
+
+  const container = useRef<HTMLDivElement>(null);
+  const map = useRef<Map | null>(null);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const hasFramed = useRef(false);
+  // The click handler is bound once, at map load
+  const onFloorEditRef = useRef(onFloorEdit);
+  onFloorEditRef.current = onFloorEdit;
+
+  useEffect(() => {
+    if (!container.current || !MAPTILER_API_KEY) return;
+    logger.info('BuildingStackView map initializing', { buildingId });
+    config.apiKey = MAPTILER_API_KEY;
+
+    const mapInstance = new Map({
+      container: container.current,
+      style: MAPTILER_STYLE_URL,
+      center: [50.142335, 26.313387],
+      zoom: 18,
+      pitch: 60,
+      bearing: -20,
+    });
+    map.current = mapInstance;
+
+    mapInstance.on('load', () => {
+      mapInstance.addSource(STACK_SOURCE, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+      // Slabs are see-through so lower floors stay visible under upper ones
+      mapInstance.addLayer({
+        id: SLAB_LAYER,
+        type: 'fill-extrusion',
+        source: STACK_SOURCE,
+        filter: ['==', ['get', 'kind'], 'slab'],
+        paint: {
+          'fill-extrusion-color': ['get', 'color'],
+          'fill-extrusion-base': ['get', 'base'],
+          'fill-extrusion-height': ['get', 'height'],
+          'fill-extrusion-opacity': 0.35,
+        },
+      });
+      mapInstance.addLayer({
+        id: CONTENT_LAYER,
+        type: 'fill-extrusion',
+        source: STACK_SOURCE,
+        filter: ['!=', ['get', 'kind'], 'slab'],
+        paint: {
+          'fill-extrusion-color': ['get', 'color'],
+          'fill-extrusion-base': ['get', 'base'],
+          'fill-extrusion-height': ['get', 'height'],
+          'fill-extrusion-opacity': 0.85,
+        },
+      });
+
+      const openFloor = (e: MapMouseEvent & { features?: GeoJSON.Feature[] }) => {
+        const properties = e.features?.[0]?.properties as StackedFeatureProperties | undefined;
+        if (!properties || properties.kind === 'connector') return;
+        logger.userAction('Floor opened from stacked view', { floorId: properties.floorId });
+        onFloorEditRef.current(properties.floorId);
+      };
+      [SLAB_LAYER, CONTENT_LAYER].forEach(layer => {
+        mapInstance.on('click', layer, openFloor);
+        mapInstance.on('mouseenter', layer, () => { mapInstance.getCanvas().style.cursor = 'pointer'; });
+        mapInstance.on('mouseleave', layer, () => { mapInstance.getCanvas().style.cursor = ''; });
+      });
+
+      setIsMapLoaded(true);
+    });
+
+    return () => {
+      setIsMapLoaded(false);
+      map.current = null;
+      mapInstance.remove();
+    };
+  }, [buildingId]);
+
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance || !isMapLoaded) return;
+
+    (mapInstance.getSource(STACK_SOURCE) as GeoJSONSource).setData({ type: 'FeatureCollection', features });
+
+    // Frame the building once, when its floors first arrive
+    if (!hasFramed.current && !isLoading && features.length > 0) {
+      const corners = features.flatMap(f =>
+        (f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates).flatMap(rings => rings[0]));
+      const bounds = corners.reduce(
+        (b, c) => b.extend([c[0], c[1]]),
+        new LngLatBounds([corners[0][0], corners[0][1]], [corners[0][0], corners[0][1]])
+      );
+      mapInstance.fitBounds(bounds, { padding: 80, maxZoom: 20, pitch: 60, bearing: -20, duration: 0 });
+      hasFramed.current = true;
+    }
+  }, [features, isMapLoaded, isLoading]);
+
+  return (
+    <Container variant="PAGE">
+      <Header
+        title={`${UI_MESSAGES.BUILDING_STACK_TITLE}${building ? ` - ${building.name}` : ''}`}
+        actions={
+          <Button variant="SECONDARY" onClick={onBack}>
+            {UI_MESSAGES.BUILDING_STACK_BACK}
+          </Button>
+        }
+      />
+
+      {error && <div className="building-stack-error">{error}</div>}
+
+      <div className="building-stack-content">
+        <aside className="building-stack-sidebar">
+          <h3>Floors</h3>
+          {isLoading && <div className="building-stack-status">{UI_MESSAGES.BUILDING_STACK_LOADING}</div>}
+          <ul className="building-stack-floors">
+            {[...floors].reverse().map(floor => (
+              <li key={floor.id}>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenFloorIds.has(floor.id)}
+                    onChange={() => toggleFloor(floor.id)}
+                  />
+                  {formatFloorNumber(floor.floorNumber)}: {floor.name}
+                </label>
+                <button type="button" className="building-stack-open" onClick={() => onFloorEdit(floor.id)}>
+                  {UI_MESSAGES.BUILDING_STACK_OPEN_FLOOR}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {hiddenFloorIds.size > 0 && (
+            <Button variant="SECONDARY" size="SMALL" onClick={showAllFloors}>
+              {UI_MESSAGES.BUILDING_STACK_SHOW_ALL}
+            </Button>
+          )}
+          <label className="building-stack-spacing">
+            Floor spacing
+            <select value={floorSpacing} onChange={(e) => setFloorSpacing(Number(e.target.value))}>
+              {FLOOR_SPACING_OPTIONS.map(spacing => (
+                <option key={spacing} value={spacing}>{spacing} m</option>
+              ))}
+            </select>
+          </label>
+          <div className="building-stack-status">
+            {verticalConnectionCount} vertical links between floors. {UI_MESSAGES.BUILDING_STACK_HINT}
+          </div>
+        </aside>
+
+        {MAPTILER_API_KEY ? (
+          <div ref={container} className="building-stack-map" />
+        ) : (
+          <div className="building-stack-status">MapTiler API key is not set</div>
+        )}
+      </div>
+    </Container>
+  );
+};
+
+export default BuildingStackView;
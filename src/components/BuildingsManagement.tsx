@@ -3,8 +3,11 @@ import {API_BASE_URL, API_ENDPOINTS} from '../constants/api';
 import {UI_MESSAGES} from '../constants/ui';
 import {buildingsApi, floorsApi} from '../utils/api';
 import {createLogger} from '../utils/logger';
+import {ValidationError} from '../utils/validation';
+import {CloneFloorLayoutError, FloorEditorService} from '../services/FloorEditorService';
 import './BuildingsManagement.css';
 import {Button, Card, Container, Header, Input} from './common';
+import BeaconIdManager from './BeaconIdManager';
 import {Building} from "../interfaces/Building";
 import {Floor} from "../interfaces/Floor";
 
@@ -13,6 +16,7 @@ const logger = createLogger('BuildingsManagement');
 interface BuildingsManagementProps {
   onBack: () => void;
   onFloorEdit: (floorId: string | number) => void;
+  onBuildingView: (buildingId: number) => void;
 }
 
 interface BuildingFormData {
@@ -25,7 +29,7 @@ interface FloorFormData {
   floorNumber: number;
 }
 
-const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFloorEdit }) => {
+const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFloorEdit, onBuildingView }) => {
   const [buildings, setBuildings] = useState<Building[]>([]);
   const [selectedBuilding, setSelectedBuilding] = useState<Building | null>(null);
   const [floors, setFloors] = useState<Floor[]>([]);
@@ -37,6 +41,8 @@ const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFlo
   const [buildingFormData, setBuildingFormData] = useState<BuildingFormData>({ name: '', description: '' });
   const [floorFormData, setFloorFormData] = useState<FloorFormData>({ name: '', floorNumber: 0 });
   const [error, setError] = useState<string | null>(null);
+  const [showBeaconIds, setShowBeaconIds] = useState(false);
+  const [cloningFloorId, setCloningFloorId] = useState<number | null>(null);
 
   useEffect(() => {
     logger.info('BuildingsManagement component mounted');
@@ -209,6 +215,43 @@ const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFlo
     }
   };
 
+  // The copy goes on top of the building; its name and number can be changed afterwards
+  const handleCloneFloor = async (floor: Floor) => {
+    if (!selectedBuilding || !window.confirm(UI_MESSAGES.FLOORS_CLONE_CONFIRM)) return;
+
+    logger.userAction('Floor layout clone confirmed', { floorId: floor.id });
+    setError(null);
+    setCloningFloorId(floor.id);
+
+    let newFloor: Floor | null = null;
+    try {
+      newFloor = await floorsApi.create({
+        name: `${floor.name} (copy)`,
+        floorNumber: Math.max(...floors.map(f => f.floorNumber)) + 1,
+        buildingId: selectedBuilding.id,
+      });
+      const result = await FloorEditorService.cloneFloorLayout(floor.id, newFloor.id);
+      logger.info('Floor cloned successfully', { floorId: floor.id, newFloorId: newFloor.id, result });
+      await loadFloors(selectedBuilding);
+    } catch (error) {
+      logger.error('Failed to clone floor', error as Error);
+      const leftover = error instanceof CloneFloorLayoutError ? error.leftover : null;
+      if (leftover) {
+        setError(`${UI_MESSAGES.FLOORS_CLONE_PARTIAL_ERROR} ${leftover.polygons} polygons, ${leftover.beacons} beacons, ${leftover.nodes} route nodes.`);
+      } else {
+        // Nothing is left on the new floor, so it goes too; one that wasn't empty is never touched
+        if (newFloor && !(error instanceof ValidationError)) {
+          await floorsApi.delete(newFloor.id).catch(deleteError =>
+            logger.error('Failed to delete the empty cloned floor', deleteError as Error, { floorId: newFloor?.id }));
+        }
+        setError(UI_MESSAGES.FLOORS_CLONE_ERROR);
+      }
+      await loadFloors(selectedBuilding);
+    } finally {
+      setCloningFloorId(null);
+    }
+  };
+
   const startEditBuilding = (building: Building) => {
     logger.userAction('Start editing building', { buildingId: building.id });
     setEditingBuilding(building);
@@ -325,12 +368,30 @@ const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFlo
           <div className="floors-section">
             <div className="section-header">
               <h2>{UI_MESSAGES.FLOORS_TITLE} - {selectedBuilding.name}</h2>
-              <Button 
-                variant="PRIMARY" 
-                onClick={() => setShowFloorForm(true)}
-              >
-                {UI_MESSAGES.FLOORS_ADD_FLOOR_BUTTON}
-              </Button>
+              <div className="section-header-actions">
+                <Button 
+                  variant="SECONDARY" 
+                  onClick={() => onBuildingView(selectedBuilding.id)}
+                  disabled={floors.length === 0}
+                >
+                  {UI_MESSAGES.FLOORS_STACK_VIEW_BUTTON}
+                </Button>
+                <Button 
+                  variant="SECONDARY" 
+                  onClick={() => {
+                    logger.userAction('Beacon ID manager opened', { buildingId: selectedBuilding.id });
+                    setShowBeaconIds(true);
+                  }}
+                >
+                  {UI_MESSAGES.FLOORS_BEACON_IDS_BUTTON}
+                </Button>
+                <Button 
+                  variant="PRIMARY" 
+                  onClick={() => setShowFloorForm(true)}
+                >
+                  {UI_MESSAGES.FLOORS_ADD_FLOOR_BUTTON}
+                </Button>
+              </div>
             </div>
 
             {floors.length === 0 ? (
@@ -359,6 +420,14 @@ const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFlo
                         >
                           {UI_MESSAGES.FLOORS_EDIT_BUTTON}
                         </Button>
+                        <Button 
+                          variant="SECONDARY" 
+                          size="SMALL"
+                          onClick={() => handleCloneFloor(floor)}
+                          disabled={cloningFloorId !== null}
+                        >
+                          {cloningFloorId === floor.id ? UI_MESSAGES.FLOORS_CLONING : UI_MESSAGES.FLOORS_CLONE_BUTTON}
+                        </Button>
                         <Button 
                           variant="DANGER" 
                           size="SMALL"
@@ -414,6 +483,15 @@ const BuildingsManagement: React.FC<BuildingsManagementProps> = ({ onBack, onFlo
         </div>
       )}
 
+      {/* Beacon ID Manager Modal */}
+      {showBeaconIds && selectedBuilding && (
+        <BeaconIdManager
+          building={selectedBuilding}
+          floors={floors}
+          onClose={() => setShowBeaconIds(false)}
+        />
+      )}
+
       {/* Floor Form Modal */}
       {showFloorForm && (
         <div className="modal-overlay">
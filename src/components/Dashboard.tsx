@@ -10,9 +10,10 @@ interface DashboardProps {
   onLogout: () => void;
   onNavigateToBuildings: () => void;
   onNavigateToLoadBalancer: () => void;
+  onNavigateToBeaconHealth: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ onLogout, onNavigateToBuildings, onNavigateToLoadBalancer }) => {
+const Dashboard: React.FC<DashboardProps> = ({ onLogout, onNavigateToBuildings, onNavigateToLoadBalancer, onNavigateToBeaconHealth }) => {
   // Component lifecycle logging
   useEffect(() => {
     logger.info('Dashboard component mounted');
@@ -58,6 +59,12 @@ const Dashboard: React.FC<DashboardProps> = ({ onLogout, onNavigateToBuildings,
     onNavigateToLoadBalancer();
   };
 
+  const handleBeaconHealthClick = () => {
+    logger.userAction('Beacon Fleet Health card clicked');
+    logger.info('Navigating to Beacon Fleet Health');
+    onNavigateToBeaconHealth();
+  };
+
   logger.debug('Dashboard component rendering');
 
   return (
@@ -112,6 +119,12 @@ const Dashboard: React.FC<DashboardProps> = ({ onLogout, onNavigateToBuildings,
             onClick={handleBuildingsClick}
           />
 
+          <Card
+            title={UI_MESSAGES.CARD_BEACON_HEALTH_TITLE}
+            description={UI_MESSAGES.CARD_BEACON_HEALTH_DESC}
+            onClick={handleBeaconHealthClick}
+          />
+
           <Card
             title={UI_MESSAGES.CARD_PROJECT_MANAGEMENT_TITLE}
             description={UI_MESSAGES.CARD_PROJECT_MANAGEMENT_DESC}
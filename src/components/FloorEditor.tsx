@@ -1,40 +1,169 @@
-import { config, Map, Marker, Point } from "@maptiler/sdk";
-import { MapClickEvent } from "../types/common";
+import { config, Map, Marker, Point, Popup } from "@maptiler/sdk";
+import { Coordinates, MapClickEvent, MapMouseDownEvent } from "../types/common";
 import "@maptiler/sdk/dist/maptiler-sdk.css";
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { MAPTILER_API_KEY, MAPTILER_STYLE_URL } from "../constants/api";
 import { UI_MESSAGES } from "../constants/ui";
-import { beaconsApi, floorsApi, polygonsApi, routeNodesApi } from "../utils/api";
+import { beaconsApi, floorsApi, poiCategoriesApi, polygonsApi, routeNodesApi } from "../utils/api";
 import { createLogger } from "../utils/logger";
-import { convertPointsToCoordinates, isCloseToFirstPoint, findNodeNearCoordinates } from "../utils/mapUtils";
-import { renderPolygons, renderBeacons, renderRouteNodes, renderConnections, clearMapData } from "../utils/mapRenderer";
+import {
+    calculateGeodesicDistance,
+    convertPointsToCoordinates,
+    formatDistance,
+    findNodeNearCoordinates
+} from "../utils/mapUtils";
+import { findClosestNode } from "../utils/pathfinding";
+import {
+    renderPolygons,
+    renderPolygonVertexHandles,
+    renderPolygonShapeEditor,
+    renderBeacons,
+    renderRouteNodes,
+    renderConnections,
+    renderRoutePath,
+    renderFloorPlanOverlay,
+    renderFloorPlanCornerHandles,
+    renderFloorPlanControlPoints,
+    renderWalkwayGraphPreview,
+    renderCoverageHeatmap,
+    renderBeaconGhosts,
+    removeFloorPlanOverlay,
+    clearMapData,
+    findEdgeAtPoint,
+    setEdgeHovered,
+    openActionPopup,
+    MapPopupAction,
+    renderSelectionShape,
+    clearSelectionShape,
+    renderRuler,
+    clearRuler,
+    getItemsBottomLayerId
+} from "../utils/mapRenderer";
 import { useMapState } from "../hooks/useMapState";
 import { useDrawingState } from "../hooks/useDrawingState";
 import { useDialogState } from "../hooks/useDialogState";
+import { useChangeQueue } from "../hooks/useChangeQueue";
+import { useEditHistory } from "../hooks/useEditHistory";
+import { useRouteTester } from "../hooks/useRouteTester";
+import { useRuler } from "../hooks/useRuler";
+import { useGraphValidation } from "../hooks/useGraphValidation";
+import { useFloorPlanOverlay } from "../hooks/useFloorPlanOverlay";
+import { useSnapping } from "../hooks/useSnapping";
+import { useWalkwayGraph } from "../hooks/useWalkwayGraph";
+import { useBeaconCoverage } from "../hooks/useBeaconCoverage";
+import { useBeaconPlacement } from "../hooks/useBeaconPlacement";
+import { useShafts } from "../hooks/useShafts";
+import { usePolygonShapeEditor } from "../hooks/usePolygonShapeEditor";
+import { useLayerVisibility } from "../hooks/useLayerVisibility";
+import { SnapCandidates, SnapResult } from "../utils/snapping";
+import { getRenderedCorners } from "../utils/floorPlanOverlay";
+import { GraphFinding } from "../utils/graphValidator";
+import { applyChangeQueue, isTemporaryId } from "../utils/changeQueue";
+import {
+    LayoutDiff,
+    ParsedFloorLayout,
+    buildLayoutImportCommand,
+    floorLayoutToFeatureCollection,
+    parseFloorLayoutFeatureCollection
+} from "../utils/floorLayoutGeoJson";
+import { buildWalkwayGraphCommand } from "../utils/walkwayGraph";
+import { Shaft, ShaftDetails, getShaftLinks, planShaftDetailEdits, planShaftRelink } from "../utils/shafts";
+import { EdgeAttributeValues, buildEdgeAttributesCommand, getNodeAccessibility } from "../utils/routeAccessibility";
+import { Edge, buildDeleteEdgesCommand, buildSplitEdgeCommand, getEdgeLength, isSameEdge, toggleEdge } from "../utils/edgeEditing";
+import {
+    BulkNodeUpdate,
+    BulkPolygonUpdate,
+    BulkTransform,
+    SelectableType,
+    buildBulkDeleteCommand,
+    buildBulkNodeUpdateCommand,
+    buildBulkPolygonUpdateCommand,
+    buildBulkTransformCommand,
+    buildMergePolygonsCommand,
+    SelectableLayout,
+    applyHiddenItems,
+    findItemsInRing,
+    getMergedPolygonParts,
+    getSelectedEntities,
+    getSelectedIds,
+    keepExistingItems,
+    toggleSelectionItem
+} from "../utils/bulkEdit";
+import {
+    LayoutClipboard,
+    PasteOffset,
+    SAME_FLOOR_PASTE_OFFSET,
+    buildPasteCommand,
+    copyLayout,
+    describeLayout,
+    loadLayoutClipboard,
+    saveLayoutClipboard
+} from "../utils/layoutClipboard";
+import {
+    findPartContainingRing,
+    getAllRings,
+    getGeometryVertices,
+    getPolygonLabelPoint,
+    getPolygonParts,
+    isPointInGeometry,
+    replacePolygonPart,
+} from "../utils/polygonGeometry";
+import { hasBlockingIssue, validatePolygonGeometry } from "../utils/polygonValidation";
+import {
+    HistoryCommand,
+    combineCommands,
+    connectNodesCommand,
+    createEntityCommand,
+    deleteEntityCommand,
+    disconnectNodesCommand,
+    editEntityCommand,
+} from "../utils/editHistory";
 import "./FloorEditor.css";
 import BeaconDialog from "./FloorEditor/BeaconDialog";
-import DrawingToolbar from "./FloorEditor/DrawingToolbar";
+import DrawingToolbar, { DrawingTool } from "./FloorEditor/DrawingToolbar";
 import ActionsSection from "./FloorEditor/ActionsSection";
 import LayersPanel from "./FloorEditor/LayersPanel";
 import MapContainer from "./FloorEditor/MapContainer";
 import PolygonDialog from "./FloorEditor/PolygonDialog";
 import RouteNodeDialog from "./FloorEditor/RouteNodeDialog";
+import EdgeDialog from "./FloorEditor/EdgeDialog";
 import MultiFloorNodeDialog, { NodeType } from "./FloorEditor/MultiFloorNodeDialog";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import ChangeQueueDialog from "./FloorEditor/ChangeQueueDialog";
+import RouteTestPanel from "./FloorEditor/RouteTestPanel";
+import BulkEditPanel from "./FloorEditor/BulkEditPanel";
+import PolygonShapePanel from "./FloorEditor/PolygonShapePanel";
+import GraphValidationPanel from "./FloorEditor/GraphValidationPanel";
+import ImportLayoutDialog from "./FloorEditor/ImportLayoutDialog";
+import FloorPlanPanel from "./FloorEditor/FloorPlanPanel";
+import WalkwayGraphPanel from "./FloorEditor/WalkwayGraphPanel";
+import CoveragePanel from "./FloorEditor/CoveragePanel";
+import BeaconPlacementPanel from "./FloorEditor/BeaconPlacementPanel";
+import SnapSettingsBar from "./FloorEditor/SnapSettingsBar";
+import { useQuery } from "@tanstack/react-query";
 import { Button, Container, Header } from "./common";
 import { FloorEditorProps } from "../interfaces/FloorEditorProps";
 import { Polygon, PolygonBuilder } from "../interfaces/Polygon";
-import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { RouteNode, RouteNodeBuilder, normalizeRouteNodeConnections } from "../interfaces/RouteNode";
 import { Beacon, BeaconBuilder } from "../interfaces/Beacon";
-import { useEntityMutations } from "./FloorEditor/useEntityMutations";
 import { Floor } from "../interfaces/Floor";
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { PoiCategory } from "../interfaces/PoiCategory";
+import { OBJECT_TYPES } from "./FloorEditor/enums/OBJECT_TYPES";
 
 const logger = createLogger("FloorEditor");
 
+// Select-mode clicks this close to a node marker (in pixels) belong to the node, not its edges
+const NODE_CLICK_RADIUS_PX = 12;
+
+// A box or lasso dragged shorter than this (in pixels) was meant as a click
+const MIN_SELECTION_DRAG_PX = 4;
+
+// Tools that place points and therefore snap
+const SNAPPING_TOOLS: DrawingTool[] = ["poi", "cut", "nodes", "elevatorStairs", "beacons", "ruler"];
+
 export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) => {
     logger.info("FloorEditor component starting", { floorId, floorIdType: typeof floorId });
 
-    const queryClient = useQueryClient();
     const mapContainer = useRef<HTMLDivElement>(null);
     const map = useRef<Map | null>(null);
 
@@ -42,14 +171,35 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
     const mapState = useMapState();
     const drawingState = useDrawingState();
     const dialogState = useDialogState();
+    const changeQueue = useChangeQueue(floorId);
+    const history = useEditHistory(floorId, changeQueue.enqueue);
+    const floorPlan = useFloorPlanOverlay(floorId);
+    const snapping = useSnapping();
+    const shapeEditor = usePolygonShapeEditor();
+    const layerVisibility = useLayerVisibility(floorId);
 
     // Additional state
     const [layerFilter, setLayerFilter] = useState<"polygons" | "beacons" | "nodes">("polygons");
     const [isRecalculatingPoiNodes, setIsRecalculatingPoiNodes] = useState(false);
+    const [showChangeQueue, setShowChangeQueue] = useState(false);
+    const [layoutImport, setLayoutImport] = useState<{ fileName: string; parsed: ParsedFloorLayout } | null>(null);
+    // Shared by every floor editor, so items copied on one floor can be pasted onto another
+    const [clipboard, setClipboard] = useState<LayoutClipboard | null>(loadLayoutClipboard);
 
     // Refs for avoiding stale closures
     const nodesRef = useRef<RouteNode[]>([]);
+    const polygonsRef = useRef<Polygon[]>([]);
+    const beaconsRef = useRef<Beacon[]>([]);
+    // What the map shows; clicks, snapping and box selection only find what is shown
+    const shownLayoutRef = useRef<SelectableLayout>({ polygons: [], beacons: [], nodes: [] });
     const nodesLoadingRef = useRef(true);
+    const floorPlanMarkers = useRef<Marker[]>([]);
+    const edgePopup = useRef<Popup | null>(null);
+    // Shows the length of the edge under the pointer
+    const edgeLengthTooltip = useRef<Popup | null>(null);
+    const hoveredEdge = useRef<Edge | null>(null);
+    // Screen points of the box or lasso being dragged out in select mode
+    const selectionDrag = useRef<{ mode: "box" | "lasso"; points: { x: number; y: number }[] } | null>(null);
 
     // Data queries
     const { data: floor, isLoading: loading, isError: error } = useQuery<Floor>({
@@ -63,17 +213,17 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         enabled: !!floor?.buildingId,
     });
 
-    const { data: polygons = [] } = useQuery<Polygon[]>({
+    const { data: serverPolygons = [] } = useQuery<Polygon[]>({
         queryKey: ['pois', floorId],
         queryFn: () => polygonsApi.getByFloor(floorId.toString()),
     });
 
-    const { data: beacons = [] } = useQuery<Beacon[]>({
+    const { data: serverBeacons = [] } = useQuery<Beacon[]>({
         queryKey: ['beacons', floorId],
         queryFn: () => beaconsApi.getByFloor(floorId.toString()),
     });
 
-    const { data: nodes = [], isLoading: nodesLoading, error: nodesError, isError: nodesIsError, refetch: refetchNodes } = useQuery<RouteNode[]>({
+    const { data: serverNodes = [], isLoading: nodesLoading } = useQuery<RouteNode[]>({
         queryKey: ['routeNodes', floorId],
         queryFn: async () => {
             logger.info("🔄 REACT QUERY STARTING", { floorId, timestamp: new Date().toISOString() });
@@ -99,27 +249,100 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         retry: 1,
         refetchOnMount: true,
         refetchOnWindowFocus: false,
-        select: (data) => {
-            return data.map(node => ({
-                ...node,
-                properties: {
-                    ...node.properties,
-                    connections: node.properties.connected_node_ids || node.properties.connections || []
-                }
-            }));
+        select: (data) => data.map(normalizeRouteNodeConnections)
+    });
+
+    // Server data with the pending (uncommitted) changes applied on top
+    const { polygons, beacons, nodes } = useMemo(
+        () => applyChangeQueue({ polygons: serverPolygons, beacons: serverBeacons, nodes: serverNodes }, changeQueue.queue, floorId),
+        [serverPolygons, serverBeacons, serverNodes, changeQueue.queue, floorId]
+    );
+
+    // Stable reference so the import preview only re-diffs when the staged layout actually changes
+    const currentLayout = useMemo(() => ({ polygons, beacons, nodes }), [polygons, beacons, nodes]);
+
+    // Hiding is applied last and only to what is displayed, so it never ends up in a queued change
+    const shownLayout = useMemo(
+        () => applyHiddenItems(currentLayout, layerVisibility.hiddenKeys),
+        [currentLayout, layerVisibility.hiddenKeys]
+    );
+
+    const selectedEntities = useMemo(
+        () => getSelectedEntities(drawingState.selectedItems, currentLayout),
+        [drawingState.selectedItems, currentLayout]
+    );
+
+    const { setSelectedItems, selectedItemsRef } = drawingState;
+    useEffect(() => {
+        const remaining = keepExistingItems(selectedItemsRef.current, currentLayout);
+        if (remaining.length !== selectedItemsRef.current.length) {
+            setSelectedItems(remaining);
         }
+    }, [currentLayout, setSelectedItems, selectedItemsRef]);
+
+    // Only needed to recategorise selected polygons
+    const { data: poiCategories = [] } = useQuery<PoiCategory[]>({
+        queryKey: ['poiCategories'],
+        queryFn: () => poiCategoriesApi.getAll(),
+        enabled: selectedEntities.polygons.length > 0,
     });
 
+    const shafts = useShafts(floorId, buildingFloors, nodes, changeQueue.queue);
+    const routeTester = useRouteTester(floorId, buildingFloors, nodes, shafts.closedNodeIds);
+    const ruler = useRuler();
+    const { getShaftForNode } = shafts;
+    const graphValidation = useGraphValidation(floorId, buildingFloors, nodes, changeQueue.queue);
+    const walkwayGraph = useWalkwayGraph(floorId, polygons);
+    const beaconCoverage = useBeaconCoverage(polygons, beacons);
+    const beaconPlacement = useBeaconPlacement(floorId, polygons, beacons, beaconCoverage.settings);
+
     // Update refs to avoid stale closures
     useEffect(() => {
         nodesRef.current = nodes;
+        polygonsRef.current = polygons;
+        beaconsRef.current = beacons;
+        shownLayoutRef.current = shownLayout;
         nodesLoadingRef.current = nodesLoading;
-    }, [nodes, nodesLoading]);
+    }, [nodes, polygons, beacons, shownLayout, nodesLoading]);
 
-    // Entity mutations
-    const poisMutations = useEntityMutations('pois', polygonsApi);
-    const beaconsMutations = useEntityMutations('beacons', beaconsApi);
-    const routeNodesMutations = useEntityMutations('routeNodes', routeNodesApi);
+    // An open edge popup describes the graph as it was, and edits can remove selected edges
+    const { setSelectedEdges, selectedEdgesRef } = drawingState;
+    useEffect(() => {
+        edgePopup.current?.remove();
+        edgePopup.current = null;
+        const remaining = selectedEdgesRef.current.filter(([a, b]) =>
+            nodes.some(n => n.properties.id === a && n.properties.connections.includes(b)));
+        if (remaining.length !== selectedEdgesRef.current.length) {
+            setSelectedEdges(remaining);
+        }
+    }, [nodes, drawingState.activeTool, setSelectedEdges, selectedEdgesRef]);
+
+    // Reshaping belongs to select mode and ends if the polygon goes away (undo, delete)
+    const { draft: shapeDraft, close: closeShapeEditor } = shapeEditor;
+    useEffect(() => {
+        if (shapeDraft && (drawingState.activeTool !== "select" || !polygons.some(p => p.properties.id === shapeDraft.polygonId))) {
+            closeShapeEditor();
+        }
+    }, [shapeDraft, drawingState.activeTool, polygons, closeShapeEditor]);
+
+    // The aligned floor plan is the closest thing to a building outline the editor has
+    const buildingFootprint = floorPlan.overlay?.locked ? [...getRenderedCorners(floorPlan.overlay)] : null;
+    const shapeIssues = shapeDraft
+        ? validatePolygonGeometry(shapeDraft.parts, {
+            type: shapeDraft.type,
+            polygonId: shapeDraft.polygonId,
+            floorPolygons: polygons,
+            footprint: buildingFootprint,
+        })
+        : [];
+    const isShapeValid = !!shapeDraft && !hasBlockingIssue(shapeIssues);
+    const pendingPolygonIssues = dialogState.showPolygonDialog && !drawingState.editingPolygonId
+        ? validatePolygonGeometry([convertPointsToCoordinates(drawingState.pendingPolygonPoints)], {
+            type: "Room",
+            floorPolygons: polygons,
+            footprint: buildingFootprint,
+        })
+        : [];
 
     // Map initialization
     const initializeMap = useCallback(() => {
@@ -144,6 +367,8 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             });
 
             map.current = mapInstance;
+            // Shift-drag draws a selection box instead of zooming to one
+            mapInstance.boxZoom.disable();
 
             mapInstance.on("load", () => {
                 if (mapState.mapLoadTimeout.current) {
@@ -162,7 +387,13 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 }
             });
 
-            mapInstance.on("click", handleMapClick);
+            // Bound once, so each listener calls the latest render's handler
+            mapInstance.on("click", (e) => mapHandlers.current.handleMapClick(e));
+            mapInstance.on("contextmenu", (e) => mapHandlers.current.handleMapContextMenu(e));
+            mapInstance.on("mousedown", (e) => mapHandlers.current.handleMapMouseDown(e));
+            mapInstance.on("mouseup", (e) => mapHandlers.current.finishSelectionDrag(e));
+            mapInstance.on("mousemove", (e) => mapHandlers.current.handleMapMouseMove(e));
+            mapInstance.on("mouseout", () => mapHandlers.current.handleMapMouseOut());
 
             mapState.mapLoadTimeout.current = setTimeout(() => {
                 if (mapState.mapLoading) {
@@ -178,11 +409,189 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         }
     }, [mapState]);
 
+    // Snapping for the tools that place points. Only refs are read, since the map handlers are bound once.
+    const getSnapCandidates = (): SnapCandidates | null => {
+        const currentTool = drawingState.activeToolRef.current;
+        if (!SNAPPING_TOOLS.includes(currentTool)) {
+            return null;
+        }
+
+        const shown = shownLayoutRef.current;
+        const visiblePolygons = shown.polygons.filter(p => p.properties.is_visible);
+        // Corners and sides of holes and extra parts snap like those of the outline
+        const vertices: Coordinates[] = visiblePolygons.flatMap(p =>
+            getGeometryVertices(p.geometry).map(point => [point[0], point[1]] as Coordinates));
+        const edges: Array<[Coordinates, Coordinates]> = visiblePolygons.flatMap(p => getAllRings(p.geometry).flatMap(ring =>
+            ring.slice(1).map((point, i) => [[ring[i][0], ring[i][1]], [point[0], point[1]]] as [Coordinates, Coordinates])));
+        const candidates: SnapCandidates = {
+            vertices,
+            edges,
+            nodes: shown.nodes
+                .filter(n => n.properties.is_visible && n.geometry)
+                .map(n => ({ id: n.properties.id, coordinates: n.geometry!.coordinates })),
+            beacons: shown.beacons
+                .filter(b => b.properties.is_visible && b.geometry)
+                .map(b => ({ id: b.properties.id, coordinates: b.geometry!.coordinates as Coordinates })),
+        };
+
+        if (currentTool === "poi" || currentTool === "cut") {
+            const pendingPoints: Coordinates[] = drawingState.pendingPolygonPointsRef.current.map(p => [p.x, p.y]);
+            candidates.firstPoint = pendingPoints.length >= 3 ? pendingPoints[0] : null;
+            candidates.previousPoint = pendingPoints[pendingPoints.length - 1] ?? null;
+            candidates.vertices = [...candidates.vertices, ...pendingPoints.slice(1)];
+        } else if (currentTool === "nodes") {
+            const selectedNodeId = drawingState.selectedNodeForConnectionRef.current;
+            candidates.previousPoint = nodesRef.current.find(n => n.properties.id === selectedNodeId)?.geometry?.coordinates ?? null;
+        } else if (currentTool === "ruler") {
+            const lastPoint = ruler.pointsRef.current[ruler.pointsRef.current.length - 1];
+            candidates.previousPoint = lastPoint ? [lastPoint[0], lastPoint[1]] : null;
+        }
+
+        return candidates;
+    };
+
+    const snapToolPoint = (lng: number, lat: number, originalEvent: MouseEvent): SnapResult | null => {
+        const candidates = getSnapCandidates();
+        if (!map.current || !candidates) return null;
+        return snapping.snap(map.current, [lng, lat], candidates, originalEvent.altKey);
+    };
+
+    // In select mode edges light up under the pointer, so it is clear they can be clicked
+    const updateHoveredEdge = (edge: Edge | null) => {
+        const previous = hoveredEdge.current;
+        if (!map.current || (previous && edge && isSameEdge(previous, edge)) || previous === edge) return;
+        if (previous) setEdgeHovered(map.current, previous, false);
+        if (edge) setEdgeHovered(map.current, edge, true);
+        hoveredEdge.current = edge;
+        map.current.getCanvas().style.cursor = edge ? "pointer" : "";
+        showEdgeLength(edge);
+    };
+
+    const showEdgeLength = (edge: Edge | null) => {
+        edgeLengthTooltip.current?.remove();
+        edgeLengthTooltip.current = null;
+        const from = edge && nodesRef.current.find(n => n.properties.id === edge[0])?.geometry?.coordinates;
+        const to = edge && nodesRef.current.find(n => n.properties.id === edge[1])?.geometry?.coordinates;
+        if (!map.current || !from || !to) return;
+
+        edgeLengthTooltip.current = new Popup({ closeButton: false, closeOnClick: false, className: "edge-length-tooltip" })
+            .setLngLat([(from[0] + to[0]) / 2, (from[1] + to[1]) / 2])
+            .setText(formatDistance(calculateGeodesicDistance(from, to)))
+            .addTo(map.current);
+    };
+
+    const findEdgeUnderPointer = (point: { x: number; y: number }): Edge | null => {
+        if (!map.current) return null;
+        const mapInstance = map.current;
+        // Edges meet at node markers; the pointer there is meant for the node
+        const onNode = shownLayoutRef.current.nodes.some(n => {
+            if (!n.properties.is_visible || !n.geometry) return false;
+            const projected = mapInstance.project(n.geometry.coordinates);
+            return Math.hypot(projected.x - point.x, projected.y - point.y) < NODE_CLICK_RADIUS_PX;
+        });
+        return onNode ? null : findEdgeAtPoint(mapInstance, point);
+    };
+
+    // In select mode, shift-drag selects everything inside a box and alt-drag inside a lasso
+    const handleMapMouseDown = (e: MapMouseDownEvent) => {
+        if (drawingState.activeToolRef.current !== "select") return;
+        if (!e.originalEvent.shiftKey && !e.originalEvent.altKey) return;
+
+        // Keeps the map from panning while the shape is dragged out
+        e.preventDefault();
+        selectionDrag.current = { mode: e.originalEvent.shiftKey ? "box" : "lasso", points: [e.point] };
+    };
+
+    const getSelectionRing = (): number[][] => {
+        const drag = selectionDrag.current;
+        if (!map.current || !drag) return [];
+        const mapInstance = map.current;
+        const first = drag.points[0];
+        const last = drag.points[drag.points.length - 1];
+        const screenRing = drag.mode === "box"
+            ? [first, { x: last.x, y: first.y }, last, { x: first.x, y: last.y }]
+            : drag.points;
+        const ring = screenRing.map(p => {
+            const { lng, lat } = mapInstance.unproject([p.x, p.y]);
+            return [lng, lat];
+        });
+        return [...ring, ring[0]];
+    };
+
+    const updateSelectionDrag = (e: MapClickEvent) => {
+        const drag = selectionDrag.current;
+        if (!map.current || !drag) return;
+        // The button was let go outside the map, where no mouseup reaches it
+        if (e.originalEvent.buttons === 0) {
+            finishSelectionDrag(e);
+            return;
+        }
+
+        if (drag.mode === "box") {
+            drag.points = [drag.points[0], e.point];
+        } else {
+            drag.points = [...drag.points, e.point];
+        }
+        renderSelectionShape(map.current, getSelectionRing());
+    };
+
+    const finishSelectionDrag = (e: MapClickEvent) => {
+        const drag = selectionDrag.current;
+        if (!map.current || !drag) return;
+
+        const start = drag.points[0];
+        const isClick = Math.hypot(e.point.x - start.x, e.point.y - start.y) < MIN_SELECTION_DRAG_PX && drag.points.length < 3;
+        const ring = getSelectionRing();
+        selectionDrag.current = null;
+        clearSelectionShape(map.current);
+        if (isClick || ring.length < 4) return;
+
+        const items = findItemsInRing(ring, shownLayoutRef.current);
+        logger.userAction("Items selected on the map", { mode: drag.mode, count: items.length });
+        drawingState.setSelectedItem(null);
+        drawingState.setSelectedItems(items);
+    };
+
+    const handleMapMouseMove = (e: MapClickEvent) => {
+        if (!map.current) return;
+        if (selectionDrag.current) {
+            updateSelectionDrag(e);
+            return;
+        }
+        updateHoveredEdge(drawingState.activeToolRef.current === "select" ? findEdgeUnderPointer(e.point) : null);
+        const snap = snapToolPoint(e.lngLat.lng, e.lngLat.lat, e.originalEvent);
+        // The ruler's last segment follows the pointer until the next click
+        if (drawingState.activeToolRef.current === "ruler" && ruler.pointsRef.current.length > 0) {
+            renderRuler(map.current, [...ruler.pointsRef.current, snap ? snap.coordinates : [e.lngLat.lng, e.lngLat.lat]]);
+        }
+        if (snap) {
+            snapping.showIndicator(map.current, snap);
+        } else {
+            snapping.hideIndicator(map.current);
+        }
+    };
+
+    const handleMapMouseOut = () => {
+        if (!map.current) return;
+        snapping.hideIndicator(map.current);
+        updateHoveredEdge(null);
+    };
+
     // Map click handler
-    const handleMapClick = useCallback((e: MapClickEvent) => {
+    const { pickMapPoint } = floorPlan;
+    const { addPoint: addRulerPoint } = ruler;
+    const handleMapClick = (e: MapClickEvent) => {
         if (!map.current) return;
 
-        const { lng, lat } = e.lngLat;
+        // While aligning the floor plan, clicks place its control points instead of using the tool
+        if (pickMapPoint(e.lngLat.lng, e.lngLat.lat)) return;
+
+        const snap = snapToolPoint(e.lngLat.lng, e.lngLat.lat, e.originalEvent);
+        const [lng, lat] = snap ? snap.coordinates : [e.lngLat.lng, e.lngLat.lat];
+        // A click on a node picks it even with snapping turned off, so nodes are never stacked
+        const snappedNodeId = snap?.kind === "node"
+            ? snap.targetId
+            : findNodeNearCoordinates(shownLayoutRef.current.nodes, e.lngLat.lng, e.lngLat.lat)?.properties.id;
         const currentTool = drawingState.activeToolRef.current;
 
         switch (currentTool) {
@@ -190,16 +599,85 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 handleBeaconClick(lng, lat);
                 break;
             case "nodes":
-                handleNodeClick(lng, lat);
+                handleNodeClick(lng, lat, snappedNodeId);
                 break;
             case "elevatorStairs":
-                handleElevatorStairsClick(lng, lat);
+                handleElevatorStairsClick(lng, lat, snappedNodeId);
                 break;
             case "poi":
-                handlePolygonClick(lng, lat);
+            case "cut":
+                handlePolygonClick(lng, lat, snap?.kind === "first-point");
+                break;
+            case "route":
+                handleRouteClick(lng, lat);
+                break;
+            case "ruler":
+                addRulerPoint([lng, lat]);
+                break;
+            case "select":
+                handleSelectClick(e.point, [e.lngLat.lng, e.lngLat.lat], e.originalEvent.shiftKey);
                 break;
         }
-    }, [drawingState]);
+    };
+
+    // Right-clicking an edge in select mode opens its context menu
+    const handleMapContextMenu = (e: MapClickEvent) => {
+        if (drawingState.activeToolRef.current !== "select") return;
+        const edge = findEdgeUnderPointer(e.point);
+        if (!edge) return;
+
+        e.originalEvent.preventDefault();
+        logger.userAction("Edge context menu opened", { nodeId1: edge[0], nodeId2: edge[1] });
+        drawingState.setSelectedEdges([edge]);
+        showEdgePopup([e.lngLat.lng, e.lngLat.lat], edge, [
+            { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_SPLIT, onClick: () => splitEdge(edge) },
+            { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_EDIT, onClick: () => dialogState.openEdgeDialog(edge[0], edge[1]) },
+            { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_DELETE, onClick: () => deleteEdges([edge]), danger: true },
+        ]);
+    };
+
+    // Drag-to-move handlers (select mode only)
+    const handleNodeMoved = useCallback((id: number, lng: number, lat: number) => {
+        const node = nodes.find(n => n.properties.id === id);
+        if (!node) return;
+
+        // An elevator or stairs node drags its whole shaft along, on every floor it serves
+        const shaft = getShaftForNode(id);
+        if (shaft && shaft.nodes.length > 1) {
+            history.execute(combineCommands(`Move ${shaft.name}`, shaft.nodes.map(member =>
+                editEntityCommand(OBJECT_TYPES.NODE, member, RouteNodeBuilder.fromRouteNode(member).setLocation(lng, lat).build())
+            )));
+            return;
+        }
+
+        const moved = RouteNodeBuilder.fromRouteNode(node).setLocation(lng, lat).build();
+        history.execute(editEntityCommand(OBJECT_TYPES.NODE, node, moved, "Move route node"));
+    }, [nodes, history, getShaftForNode]);
+
+    const handleBeaconMoved = useCallback((id: number, lng: number, lat: number) => {
+        const beacon = beacons.find(b => b.properties.id === id);
+        if (!beacon) return;
+
+        const moved = BeaconBuilder.fromBeacon(beacon).setGeometry(lng, lat).build();
+        history.execute(editEntityCommand(OBJECT_TYPES.BEACON, beacon, moved, "Move beacon"));
+    }, [beacons, history]);
+
+    const handlePolygonReshaped = useCallback((id: number, parts: number[][][][]) => {
+        const polygon = polygons.find(p => p.properties.id === id);
+        if (!polygon) return;
+
+        const reshaped = PolygonBuilder.fromPolygon(polygon).setParts(parts).build();
+        history.execute(editEntityCommand(OBJECT_TYPES.POLYGON, polygon, reshaped, "Move polygon vertex"));
+    }, [polygons, history]);
+
+    const { moveVertex, insertVertex, removeVertex, translate, rotate } = shapeEditor;
+    const shapeEditorHandlers = useMemo(() => ({
+        onVertexMove: moveVertex,
+        onVertexInsert: insertVertex,
+        onVertexRemove: removeVertex,
+        onTranslate: translate,
+        onRotate: rotate,
+    }), [moveVertex, insertVertex, removeVertex, translate, rotate]);
 
     // Map data update
     const updateMapData = useCallback(() => {
@@ -217,45 +695,187 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             return;
         }
 
-        const selectedItemId = drawingState.selectedItem?.type === "polygon" ? drawingState.selectedItem.id :
-                              drawingState.selectedItem?.type === "beacon" ? drawingState.selectedItem.id :
-                              drawingState.selectedItem?.type === "node" ? drawingState.selectedItem.id : undefined;
+        const highlighted = drawingState.selectedItem
+            ? [...drawingState.selectedItems, drawingState.selectedItem]
+            : drawingState.selectedItems;
+        const isMoveEnabled = drawingState.activeTool === "select";
+
+        // A polygon being reshaped is drawn from its draft instead
+        const renderedPolygons = shapeDraft
+            ? shownLayout.polygons.filter(p => p.properties.id !== shapeDraft.polygonId)
+            : shownLayout.polygons;
 
         try {
-            renderPolygons(map.current, polygons, {
+            renderPolygons(map.current, renderedPolygons, {
                 mapMarkers: mapState.mapMarkers,
                 mapLayers: mapState.mapLayers,
                 mapSources: mapState.mapSources
-            }, selectedItemId);
+            }, getSelectedIds(highlighted, "polygon"));
+
+            // Above the polygons so coverage inside rooms stays visible, below everything else
+            if (beaconCoverage.coverage) {
+                renderCoverageHeatmap(map.current, beaconCoverage.coverage, beaconCoverage.mode, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                });
+            }
 
-            renderBeacons(map.current, beacons, {
-                mapMarkers: mapState.mapMarkers,
-                mapLayers: mapState.mapLayers,
-                mapSources: mapState.mapSources
-            }, selectedItemId);
+            const selectedPolygon = drawingState.selectedItem?.type === "polygon"
+                ? renderedPolygons.find(p => p.properties.id === drawingState.selectedItem!.id)
+                : undefined;
+            if (isMoveEnabled && selectedPolygon) {
+                renderPolygonVertexHandles(map.current, selectedPolygon, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                }, handlePolygonReshaped);
+            }
 
-            renderRouteNodes(map.current, nodes, {
+            renderBeacons(map.current, shownLayout.beacons, {
                 mapMarkers: mapState.mapMarkers,
                 mapLayers: mapState.mapLayers,
                 mapSources: mapState.mapSources
-            }, drawingState.selectedNodeForConnection, selectedItemId);
+            }, getSelectedIds(highlighted, "beacon"), isMoveEnabled ? handleBeaconMoved : undefined);
+
+            if (beaconPlacement.proposal) {
+                renderBeaconGhosts(map.current, beaconPlacement.proposal.positions, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                });
+            }
 
-            renderConnections(map.current, nodes, {
+            renderRouteNodes(map.current, shownLayout.nodes, {
                 mapMarkers: mapState.mapMarkers,
                 mapLayers: mapState.mapLayers,
                 mapSources: mapState.mapSources
-            });
+            }, drawingState.selectedNodeForConnection, getSelectedIds(highlighted, "node"), isMoveEnabled ? handleNodeMoved : undefined);
+
+            renderConnections(map.current, shownLayout.nodes, drawingState.selectedEdges);
+            // The hovered edge may have been edited or removed; the next pointer move finds it again
+            if (hoveredEdge.current) {
+                setEdgeHovered(map.current, hoveredEdge.current, false);
+            }
+            hoveredEdge.current = null;
+            edgeLengthTooltip.current?.remove();
+            edgeLengthTooltip.current = null;
+            map.current.getCanvas().style.cursor = "";
+
+            if (drawingState.activeTool === "route" && routeTester.result) {
+                renderRoutePath(map.current, routeTester.result.nodes, routeTester.result.totalDistance, floorId, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                });
+            }
+
+            if (walkwayGraph.preview) {
+                renderWalkwayGraphPreview(map.current, walkwayGraph.preview, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                });
+            }
+
+            if (shapeDraft) {
+                renderPolygonShapeEditor(map.current, shapeDraft.parts, shapeDraft.partIndex, isShapeValid, {
+                    mapMarkers: mapState.mapMarkers,
+                    mapLayers: mapState.mapLayers,
+                    mapSources: mapState.mapSources
+                }, shapeEditorHandlers);
+            }
         } catch (error) {
             console.error('Error rendering map data:', error);
         }
-    }, [mapState, drawingState, polygons, beacons, nodes]);
+    }, [mapState, drawingState, shownLayout, routeTester.result, walkwayGraph.preview, beaconCoverage.coverage, beaconCoverage.mode, beaconPlacement.proposal, floorId, handleNodeMoved, handleBeaconMoved, handlePolygonReshaped, shapeDraft, isShapeValid, shapeEditorHandlers]);
 
     // Click handlers
     const handleBeaconClick = useCallback((lng: number, lat: number) => {
         dialogState.openBeaconDialog(`Beacon ${beacons.length + 1}`, { lng, lat });
     }, [beacons.length, dialogState]);
 
-    const handleNodeClick = useCallback(async (lng: number, lat: number) => {
+    const closeEdgePopup = () => {
+        edgePopup.current?.remove();
+        edgePopup.current = null;
+    };
+
+    const describeEdgeNode = (nodeId: number) => {
+        const nodeType = nodesRef.current.find(n => n.properties.id === nodeId)?.properties.node_type;
+        return nodeType ? `#${nodeId} (${nodeType})` : `#${nodeId}`;
+    };
+
+    const showEdgePopup = (lngLat: [number, number], edge: Edge, actions: MapPopupAction[]) => {
+        if (!map.current) return;
+        closeEdgePopup();
+        const length = getEdgeLength(nodesRef.current, edge);
+        edgePopup.current = openActionPopup(
+            map.current,
+            lngLat,
+            `${UI_MESSAGES.FLOOR_EDITOR_EDGE_TITLE} ${describeEdgeNode(edge[0])} – ${describeEdgeNode(edge[1])}`,
+            length === null ? [] : [`${UI_MESSAGES.FLOOR_EDITOR_EDGE_LENGTH}: ${formatDistance(length)}`],
+            actions
+        );
+    };
+
+    const showEdgeSelectionPopup = (lngLat: [number, number], edges: Edge[]) => {
+        if (!map.current) return;
+        closeEdgePopup();
+        const totalLength = edges.reduce((sum, edge) => sum + (getEdgeLength(nodesRef.current, edge) ?? 0), 0);
+        edgePopup.current = openActionPopup(
+            map.current,
+            lngLat,
+            `${edges.length} ${UI_MESSAGES.FLOOR_EDITOR_EDGES_SELECTED}`,
+            [`${UI_MESSAGES.FLOOR_EDITOR_EDGE_TOTAL_LENGTH}: ${formatDistance(totalLength)}`],
+            [
+                { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_CLEAR_SELECTION, onClick: () => drawingState.setSelectedEdges([]) },
+                { label: `${UI_MESSAGES.FLOOR_EDITOR_EDGE_DELETE_SELECTED} (${edges.length})`, onClick: () => deleteEdges(edges), danger: true },
+            ]
+        );
+    };
+
+    const deleteEdges = (edges: Edge[]) => {
+        logger.userAction("Connections deleted", { count: edges.length });
+        history.execute(buildDeleteEdgesCommand(nodesRef.current, edges));
+        drawingState.setSelectedEdges([]);
+    };
+
+    const splitEdge = ([nodeId1, nodeId2]: Edge) => {
+        const node1 = nodesRef.current.find(n => n.properties.id === nodeId1);
+        const node2 = nodesRef.current.find(n => n.properties.id === nodeId2);
+        if (!node1?.geometry || !node2?.geometry) return;
+
+        logger.userAction("Connection split", { nodeId1, nodeId2 });
+        history.execute(buildSplitEdgeCommand(node1, node2, changeQueue.nextTemporaryId()));
+        drawingState.setSelectedEdges([]);
+    };
+
+    // In select mode, clicking an edge selects it and shows its details; shift-click adds to the selection
+    const handleSelectClick = (point: { x: number; y: number }, lngLat: [number, number], addToSelection: boolean) => {
+        const edge = findEdgeUnderPointer(point);
+        if (!edge) {
+            closeEdgePopup();
+            drawingState.setSelectedEdges([]);
+            return;
+        }
+
+        logger.userAction("Edge clicked", { nodeId1: edge[0], nodeId2: edge[1], addToSelection });
+        const selection = addToSelection ? toggleEdge(drawingState.selectedEdgesRef.current, edge) : [edge];
+        drawingState.setSelectedEdges(selection);
+
+        if (selection.length > 1) {
+            showEdgeSelectionPopup(lngLat, selection);
+        } else if (selection.length === 1) {
+            showEdgePopup(lngLat, selection[0], [
+                { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_EDIT, onClick: () => dialogState.openEdgeDialog(selection[0][0], selection[0][1]) },
+                { label: UI_MESSAGES.FLOOR_EDITOR_EDGE_DELETE, onClick: () => deleteEdges(selection), danger: true },
+            ]);
+        } else {
+            closeEdgePopup();
+        }
+    };
+
+    const handleNodeClick = (lng: number, lat: number, snappedNodeId?: number) => {
         const currentNodes = nodesRef.current;
         const currentNodesLoading = nodesLoadingRef.current;
         
@@ -264,29 +884,26 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             return;
         }
         
-        const clickedNode = findNodeNearCoordinates(currentNodes, lng, lat);
+        const clickedNode = currentNodes.find(n => n.properties.id === snappedNodeId);
         const currentSelectedNode = drawingState.selectedNodeForConnectionRef.current;
 
         if (clickedNode) {
-            if (currentSelectedNode && currentSelectedNode !== clickedNode.properties.id) {
-                try {
-                    await routeNodesApi.addConnection(currentSelectedNode, clickedNode.properties.id);
-                    refetchNodes();
-                } catch (error) {
-                    logger.error("Failed to connect nodes", error as Error);
-                    alert("Failed to connect nodes. Please try again.");
-                }
+            const alreadyConnected = clickedNode.properties.connections.includes(currentSelectedNode ?? NaN);
+            if (currentSelectedNode && currentSelectedNode !== clickedNode.properties.id && !alreadyConnected) {
+                history.execute(connectNodesCommand(currentSelectedNode, clickedNode.properties.id));
             } else {
                 drawingState.setSelectedNodeForConnection(clickedNode.properties.id);
             }
         } else {
             try {
                 if (currentSelectedNode) {
-                    const newNodeId = await createNewNode(lng, lat, currentSelectedNode);
-                    drawingState.setSelectedNodeForConnection(newNodeId);
+                    const { nodeId, command } = createNewNode(lng, lat, currentSelectedNode);
+                    history.execute(command);
+                    drawingState.setSelectedNodeForConnection(nodeId);
                 } else if (currentNodes.length === 0) {
-                    const newNodeId = await createNewNode(lng, lat, null);
-                    drawingState.setSelectedNodeForConnection(newNodeId);
+                    const { nodeId, command } = createNewNode(lng, lat, null);
+                    history.execute(command);
+                    drawingState.setSelectedNodeForConnection(nodeId);
                 } else {
                     alert("Please click on an existing node first to connect the new node to it.");
                 }
@@ -295,11 +912,10 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 alert("Failed to create node. Please try again.");
             }
         }
-    }, [drawingState, refetchNodes]);
+    };
 
-    const handleElevatorStairsClick = useCallback(async (lng: number, lat: number) => {
-        const currentNodes = nodesRef.current;
-        const clickedNode = findNodeNearCoordinates(currentNodes, lng, lat);
+    const handleElevatorStairsClick = useCallback(async (lng: number, lat: number, snappedNodeId?: number) => {
+        const clickedNode = nodesRef.current.find(n => n.properties.id === snappedNodeId);
 
         if (clickedNode) {
             drawingState.setSelectedNodeForConnection(clickedNode.properties.id);
@@ -308,13 +924,14 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         }
     }, [drawingState, dialogState]);
 
-    const handlePolygonClick = useCallback((lng: number, lat: number) => {
+    const handlePolygonClick = (lng: number, lat: number, closesPolygon: boolean) => {
         const newPoint: Point = { x: lng, y: lat } as Point;
 
-        if (
-            drawingState.pendingPolygonPointsRef.current.length >= 3 &&
-            isCloseToFirstPoint(lng, lat, drawingState.pendingPolygonPointsRef.current[0])
-        ) {
+        if (closesPolygon && drawingState.activeToolRef.current === "cut") {
+            cutHole();
+            return;
+        }
+        if (closesPolygon) {
             // Close polygon and show dialog
             dialogState.openPolygonDialog();
             return;
@@ -330,29 +947,88 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
 
         // Add visual feedback for the point (implement addPolygonPointMarker)
         addPolygonPointMarker(lng, lat, updatedPoints.length - 1);
-    }, [drawingState, dialogState]);
+    };
 
-    // Create new node helper
-    const createNewNode = async (lng: number, lat: number, connectToNodeId: number | null): Promise<number> => {
+    // Test route endpoints can be a node or a POI; a POI routes from its closest node
+    const handleRouteClick = useCallback((lng: number, lat: number) => {
+        const currentNodes = nodesRef.current;
+        const clickedNode = findNodeNearCoordinates(shownLayoutRef.current.nodes, lng, lat);
+
+        if (clickedNode) {
+            routeTester.selectEndpoint({
+                nodeId: clickedNode.properties.id,
+                floorId,
+                label: `Node #${clickedNode.properties.id}`,
+            });
+            return;
+        }
+
+        const clickedPoi = shownLayoutRef.current.polygons.find(p =>
+            p.properties.is_visible &&
+            p.properties.type !== "Wall" &&
+            isPointInGeometry([lng, lat], p.geometry)
+        );
+        const closestNode = clickedPoi && findClosestNode(currentNodes, getPolygonLabelPoint(clickedPoi.geometry));
+
+        if (clickedPoi && closestNode) {
+            routeTester.selectEndpoint({ nodeId: closestNode.properties.id, floorId, label: clickedPoi.properties.name });
+        } else {
+            alert(UI_MESSAGES.FLOOR_EDITOR_ROUTE_NO_NODE);
+        }
+    }, [floorId, routeTester]);
+
+    // Create new node helper - builds the command that stages the node under a temporary ID
+    const createNewNode = (
+        lng: number,
+        lat: number,
+        connectToNodeId: number | null,
+        nodeType?: NodeType,
+        targetFloorId: number = floorId,
+        shaftDetails?: ShaftDetails
+    ): { nodeId: number; command: HistoryCommand } => {
+        const newNodeId = changeQueue.nextTemporaryId();
         const newNodeData = new RouteNodeBuilder()
-            .setFloorId(floorId)
+            .setId(newNodeId)
+            .setFloorId(targetFloorId)
             .setLocation(lng, lat)
             .setIsVisible(true)
+            .setNodeType(nodeType)
+            .setShaftName(shaftDetails?.name.trim() || undefined)
+            .setOutOfService(shaftDetails?.outOfService)
             .build();
 
-        const createdNode = await routeNodesMutations.create.mutateAsync({ data: newNodeData });
-        const newNodeId = createdNode?.id || createdNode?.properties?.id;
+        const commands = [createEntityCommand(OBJECT_TYPES.NODE, newNodeData)];
+        if (connectToNodeId) {
+            commands.push(connectNodesCommand(newNodeId, connectToNodeId));
+        }
+
+        return { nodeId: newNodeId, command: combineCommands("Add route node", commands) };
+    };
 
-        if (!newNodeId) {
-            throw new Error("Backend didn't return node ID");
+    // A ring drawn with the cut tool becomes a hole in the smallest polygon that holds all of it
+    const cutHole = () => {
+        const [ring] = convertPointsToCoordinates(drawingState.pendingPolygonPointsRef.current);
+        drawingState.resetPolygonDrawing();
+        mapState.clearTempDrawing(map.current);
+
+        const target = findPartContainingRing(shownLayoutRef.current.polygons.filter(p => p.properties.is_visible), ring);
+        if (!target) {
+            alert(UI_MESSAGES.FLOOR_EDITOR_CUT_OUTSIDE);
+            return;
         }
 
-        if (connectToNodeId) {
-            await routeNodesApi.addConnection(newNodeId, connectToNodeId);
+        const { polygon, partIndex } = target;
+        const parts = getPolygonParts(polygon.geometry);
+        const cutParts = replacePolygonPart(parts, partIndex, [...parts[partIndex], ring]);
+        const blocking = validatePolygonGeometry(cutParts, { type: polygon.properties.type }).filter(issue => issue.blocking);
+        if (blocking.length > 0) {
+            alert(`${UI_MESSAGES.FLOOR_EDITOR_CUT_INVALID}\n${blocking.map(issue => issue.message).join("\n")}`);
+            return;
         }
 
-        await refetchNodes();
-        return newNodeId;
+        logger.userAction("Hole cut", { polygonId: polygon.properties.id, partIndex });
+        const cut = PolygonBuilder.fromPolygon(polygon).setParts(cutParts).validateGeometry().build();
+        history.execute(editEntityCommand(OBJECT_TYPES.POLYGON, polygon, cut, "Cut hole"));
     };
 
     // Placeholder for polygon point marker (implement based on original)
@@ -380,6 +1056,7 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
 
     // Save handlers
     const handlePolygonSave = async () => {
+        if (hasBlockingIssue(pendingPolygonIssues)) return;
         dialogState.updateSaveStatus("saving");
 
         try {
@@ -387,10 +1064,11 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 const polygon = polygons.find((p) => p.properties.id === drawingState.editingPolygonId);
                 if (polygon) {
                     const updated = PolygonBuilder.fromPolygon(polygon).setName(dialogState.polygonName).build();
-                    await poisMutations.update.mutateAsync({ data: updated });
+                    history.execute(editEntityCommand(OBJECT_TYPES.POLYGON, polygon, updated, "Rename polygon"));
                 }
             } else {
                 const newPolygon = new PolygonBuilder()
+                    .setId(changeQueue.nextTemporaryId())
                     .setFloorId(floorId)
                     .setName(dialogState.polygonName)
                     .setDescription("")
@@ -399,11 +1077,10 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     .setColor("#3b82f6")
                     .setCategoryId(null)
                     .setGeometry(convertPointsToCoordinates(drawingState.pendingPolygonPoints))
+                    .validateGeometry()
                     .build();
 
-                const { id, ...propertiesWithoutId } = newPolygon.properties;
-                const polygonForCreation = { ...newPolygon, properties: propertiesWithoutId };
-                await poisMutations.create.mutateAsync({ data: polygonForCreation });
+                history.execute(createEntityCommand(OBJECT_TYPES.POLYGON, newPolygon));
             }
 
             dialogState.updateSaveStatus("success");
@@ -416,6 +1093,36 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         }
     };
 
+    const handlePolygonDialogCancel = () => {
+        dialogState.closePolygonDialog();
+        drawingState.setEditingPolygonId(null);
+    };
+
+    // Reshaping happens on the map, in select mode, with the polygon selected
+    const handleEditPolygonShape = () => {
+        const polygon = polygons.find(p => p.properties.id === drawingState.editingPolygonId);
+        handlePolygonDialogCancel();
+        if (!polygon) return;
+
+        if (drawingState.activeTool !== "select") {
+            drawingState.handleToolChange("select");
+        }
+        drawingState.setSelectedItem({ type: "polygon", id: polygon.properties.id });
+        shapeEditor.start(polygon);
+    };
+
+    const handlePolygonShapeSave = () => {
+        const draft = shapeEditor.draft;
+        const polygon = draft && polygons.find(p => p.properties.id === draft.polygonId);
+        if (!draft || !isShapeValid) return;
+
+        if (polygon) {
+            const reshaped = PolygonBuilder.fromPolygon(polygon).setParts(draft.parts).validateGeometry().build();
+            history.execute(editEntityCommand(OBJECT_TYPES.POLYGON, polygon, reshaped, "Edit polygon shape"));
+        }
+        shapeEditor.close();
+    };
+
     const handleBeaconSave = async () => {
         dialogState.updateSaveStatus("saving");
 
@@ -424,10 +1131,11 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 const beacon = beacons.find((b) => b.properties.id === dialogState.editingBeaconId);
                 if (beacon) {
                     const updated = BeaconBuilder.fromBeacon(beacon).setName(dialogState.beaconName).build();
-                    await beaconsMutations.update.mutateAsync({ data: updated });
+                    history.execute(editEntityCommand(OBJECT_TYPES.BEACON, beacon, updated, "Rename beacon"));
                 }
             } else if (dialogState.pendingBeaconLocation) {
                 const newBeacon = new BeaconBuilder()
+                    .setId(changeQueue.nextTemporaryId())
                     .setFloorId(floorId)
                     .setName(dialogState.beaconName)
                     .setGeometry(dialogState.pendingBeaconLocation.lng, dialogState.pendingBeaconLocation.lat)
@@ -436,9 +1144,7 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     .setBatteryLevel(100)
                     .build();
 
-                const { id, ...propertiesWithoutId } = newBeacon.properties;
-                const beaconForCreation = { ...newBeacon, properties: propertiesWithoutId };
-                await beaconsMutations.create.mutateAsync({ data: beaconForCreation });
+                history.execute(createEntityCommand(OBJECT_TYPES.BEACON, newBeacon));
             }
 
             dialogState.updateSaveStatus("success");
@@ -456,8 +1162,14 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             if (dialogState.editingNodeId) {
                 const node = nodes.find((n) => n.properties.id === dialogState.editingNodeId);
                 if (node) {
-                    const updated = RouteNodeBuilder.fromRouteNode(node).setLevel(dialogState.nodeLevel).build();
-                    await routeNodesMutations.update.mutateAsync({ data: updated });
+                    const { hasRamp, hasEscalator, hasDoor } = dialogState.nodeAccessibility;
+                    const updated = RouteNodeBuilder.fromRouteNode(node)
+                        .setLevel(dialogState.nodeLevel)
+                        .setHasRamp(hasRamp)
+                        .setHasEscalator(hasEscalator)
+                        .setHasDoor(hasDoor)
+                        .build();
+                    history.execute(editEntityCommand(OBJECT_TYPES.NODE, node, updated, "Edit route node"));
                 }
             }
 
@@ -469,62 +1181,126 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         }
     };
 
+    const editingEdgeNodes = useMemo(() => {
+        if (!dialogState.editingEdge) return null;
+        const node1 = nodes.find(n => n.properties.id === dialogState.editingEdge!.nodeId1);
+        const node2 = nodes.find(n => n.properties.id === dialogState.editingEdge!.nodeId2);
+        return node1 && node2 ? [node1, node2] as const : null;
+    }, [dialogState.editingEdge, nodes]);
+
+    const handleEdgeSave = (values: EdgeAttributeValues) => {
+        if (!editingEdgeNodes) return;
+
+        try {
+            history.execute(buildEdgeAttributesCommand(editingEdgeNodes[0], editingEdgeNodes[1], values));
+            dialogState.closeEdgeDialog();
+        } catch (error) {
+            logger.error("Failed to save edge attributes", error as Error);
+            dialogState.updateSaveStatus("error", "Failed to save edge: " + (error as Error).message);
+        }
+    };
+
+    const floorNumberOf = (targetFloorId: number) =>
+        buildingFloors.find(f => f.id === targetFloorId)?.floorNumber ?? 0;
+
+    const editingShaft = dialogState.editingShaftId
+        ? shafts.shafts.find(s => s.id === dialogState.editingShaftId) ?? null
+        : null;
+    const editingNodeShaft = dialogState.editingNodeId ? shafts.getShaftForNode(dialogState.editingNodeId) : null;
+
+    const handleManageShaft = () => {
+        const node = nodes.find(n => n.properties.id === dialogState.editingNodeId);
+        if (!node?.geometry || !editingNodeShaft) return;
+
+        const [lng, lat] = node.geometry.coordinates;
+        dialogState.closeNodeDialog();
+        dialogState.openMultiFloorNodeDialog({ lng, lat }, editingNodeShaft.id);
+    };
+
+    // Shaft edit: add nodes for newly served floors, delete dropped ones, relink what remains and
+    // store the shaft's details on every node it keeps
+    const handleShaftSave = (shaft: Shaft, selectedFloors: number[], details: ShaftDetails) => {
+        const { lng, lat } = dialogState.pendingMultiFloorLocation!;
+        const selected = new Set(selectedFloors);
+        const kept = shaft.nodes.filter(n => selected.has(n.properties.floor_id));
+        const removed = shaft.nodes.filter(n => !selected.has(n.properties.floor_id));
+        const members = kept.map(n => ({ id: n.properties.id, floorId: n.properties.floor_id }));
+        const commands: HistoryCommand[] = [];
+
+        try {
+            dialogState.updateSaveStatus("saving");
+
+            // Staged before the relinking, whose connection changes they must not overwrite
+            planShaftDetailEdits(kept, details).forEach(({ before, after }) =>
+                commands.push(editEntityCommand(OBJECT_TYPES.NODE, before, after)));
+            selectedFloors.filter(id => !shaft.floorIds.includes(id)).forEach(targetFloorId => {
+                const { nodeId, command } = createNewNode(lng, lat, null, shaft.type, targetFloorId, details);
+                members.push({ id: nodeId, floorId: targetFloorId });
+                commands.push(command);
+            });
+            removed.forEach(node => commands.push(deleteEntityCommand(OBJECT_TYPES.NODE, node)));
+
+            const orderedIds = members
+                .sort((a, b) => floorNumberOf(a.floorId) - floorNumberOf(b.floorId))
+                .map(m => m.id);
+            const { connect, disconnect } = planShaftRelink(shaft.type, orderedIds, kept);
+            connect.forEach(([a, b]) => commands.push(connectNodesCommand(a, b)));
+            disconnect.forEach(([a, b]) => commands.push(disconnectNodesCommand(a, b)));
+
+            if (commands.length > 0) {
+                history.execute(combineCommands(`Edit ${shaft.name}`, commands));
+            }
+
+            dialogState.updateSaveStatus("success");
+            dialogState.closeMultiFloorNodeDialog();
+        } catch (error) {
+            logger.error("Failed to update shaft", error as Error);
+            dialogState.updateSaveStatus("error", "Failed to update shaft: " + (error as Error).message);
+        }
+    };
+
     // Multi-floor node save handler
-    const handleMultiFloorNodeSave = async (nodeType: NodeType, selectedFloors: number[]) => {
+    const handleMultiFloorNodeSave = async (nodeType: NodeType, selectedFloors: number[], details: ShaftDetails) => {
         if (!dialogState.pendingMultiFloorLocation) return;
 
+        if (editingShaft) {
+            handleShaftSave(editingShaft, selectedFloors, details);
+            return;
+        }
+
         const { lng, lat } = dialogState.pendingMultiFloorLocation;
         const currentSelectedNode = drawingState.selectedNodeForConnectionRef.current;
+        // Lowest floor first, so stairs link each floor to its neighbours
+        const orderedFloors = [...selectedFloors].sort((a, b) => floorNumberOf(a) - floorNumberOf(b));
 
         try {
             dialogState.updateSaveStatus("saving");
             const createdNodeIds: number[] = [];
+            const commands: HistoryCommand[] = [];
 
-            for (const targetFloorId of selectedFloors) {
+            for (const targetFloorId of orderedFloors) {
                 let connectToNodeId: number | null = null;
                 if (targetFloorId === floorId && currentSelectedNode) {
                     connectToNodeId = currentSelectedNode;
                 }
 
-                const newNodeData = new RouteNodeBuilder()
-                    .setFloorId(targetFloorId)
-                    .setLocation(lng, lat)
-                    .setIsVisible(true)
-                    .setNodeType(nodeType)
-                    .build();
-
-                const createdNode = await routeNodesMutations.create.mutateAsync({ data: newNodeData });
-                const newNodeId = createdNode?.id || createdNode?.properties?.id;
-
-                if (!newNodeId) {
-                    throw new Error("Backend didn't return node ID");
-                }
-
-                createdNodeIds.push(newNodeId);
-
-                if (connectToNodeId) {
-                    await routeNodesApi.addConnection(newNodeId, connectToNodeId);
-                }
+                const { nodeId, command } = createNewNode(lng, lat, connectToNodeId, nodeType, targetFloorId);
+                createdNodeIds.push(nodeId);
+                commands.push(command);
             }
 
             // Connect multi-floor nodes to each other
-            if (createdNodeIds.length > 1) {
-                for (let i = 0; i < createdNodeIds.length; i++) {
-                    const currentNodeId = createdNodeIds[i];
-                    const otherNodeIds = createdNodeIds.filter(id => id !== currentNodeId);
-
-                    for (const otherNodeId of otherNodeIds) {
-                        await routeNodesApi.addConnection(currentNodeId, otherNodeId);
-                    }
-                }
-            }
+            getShaftLinks(nodeType, createdNodeIds).forEach(([a, b]) => {
+                commands.push(connectNodesCommand(a, b));
+            });
+
+            history.execute(combineCommands(`Add ${nodeType} nodes`, commands));
 
             dialogState.updateSaveStatus("success");
             dialogState.closeMultiFloorNodeDialog();
-            refetchNodes();
 
             // Auto-select the newly created node on current floor
-            const currentFloorNodeIndex = selectedFloors.indexOf(floorId);
+            const currentFloorNodeIndex = orderedFloors.indexOf(floorId);
             if (currentFloorNodeIndex !== -1) {
                 const currentFloorNodeId = createdNodeIds[currentFloorNodeIndex];
                 drawingState.setSelectedNodeForConnection(currentFloorNodeId);
@@ -541,16 +1317,11 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         dialogState.updateSaveStatus("saving");
 
         try {
-            switch (type) {
-                case "polygon":
-                    await poisMutations.delete.mutateAsync(id);
-                    break;
-                case "beacon":
-                    await beaconsMutations.delete.mutateAsync(id);
-                    break;
-                case "node":
-                    await routeNodesMutations.delete.mutateAsync(id);
-                    break;
+            const entity = type === "polygon" ? polygons.find(p => p.properties.id === id) :
+                           type === "beacon" ? beacons.find(b => b.properties.id === id) :
+                           nodes.find(n => n.properties.id === id);
+            if (entity) {
+                history.execute(deleteEntityCommand(type, entity));
             }
             dialogState.updateSaveStatus("success");
         } catch (error) {
@@ -565,50 +1336,96 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
 
     // Layer visibility toggle
     const toggleLayerVisibility = (type: "polygon" | "beacon" | "node", id: number) => {
-        logger.userAction("Layer visibility toggled", { type, id });
+        layerVisibility.toggle({ type, id });
+    };
 
-        switch (type) {
-            case "polygon":
-                queryClient.setQueryData<Polygon[]>(['pois', floorId], (old = []) => {
-                    return old.map(polygon => {
-                        if (polygon.properties.id === id) {
-                            const newVisible = !polygon.properties.is_visible;
-                            logger.userAction("Polygon visibility toggled", { id, newVisible });
-                            return PolygonBuilder.fromPolygon(polygon).setIsVisible(newVisible).build();
-                        }
-                        return polygon;
-                    });
-                });
-                break;
+    // Bulk operations on the shift-click, box or lasso selection
+    const handleBulkDelete = () => {
+        history.execute(buildBulkDeleteCommand(selectedEntities));
+        drawingState.setSelectedItems([]);
+    };
 
-            case "beacon":
-                queryClient.setQueryData<Beacon[]>(['beacons', floorId], (old = []) => {
-                    return old.map(beacon => {
-                        if (beacon.properties.id === id) {
-                            const newVisible = !beacon.properties.is_visible;
-                            logger.userAction("Beacon visibility toggled", { id, newVisible });
-                            return BeaconBuilder.fromBeacon(beacon).setIsVisible(newVisible).build();
-                        }
-                        return beacon;
-                    });
-                });
-                break;
+    // Like the single-item toggle, this only changes what the editor shows
+    const handleBulkVisibility = (visible: boolean) => {
+        layerVisibility.setHidden(drawingState.selectedItems, !visible);
+    };
 
-            case "node":
-                queryClient.setQueryData<RouteNode[]>(['routeNodes', floorId], (old = []) => {
-                    return old.map(node => {
-                        if (node.properties.id === id) {
-                            const newVisible = !node.properties.is_visible;
-                            logger.userAction("Node visibility toggled", { id, newVisible });
-                            return RouteNodeBuilder.fromRouteNode(node).setIsVisible(newVisible).build();
-                        }
-                        return node;
-                    });
-                });
-                break;
+    // Elevator and stairs nodes take the rest of their shaft along, as when dragged
+    const handleBulkTransform = (transform: BulkTransform) => {
+        history.execute(buildBulkTransformCommand(selectedEntities, transform, node =>
+            (getShaftForNode(node.properties.id)?.nodes ?? []).filter(member => member.properties.id !== node.properties.id)
+        ));
+    };
+
+    const handleBulkNodeUpdate = (update: BulkNodeUpdate) => {
+        history.execute(buildBulkNodeUpdateCommand(selectedEntities.nodes, update));
+    };
+
+    const handleBulkPolygonUpdate = (update: BulkPolygonUpdate) => {
+        history.execute(buildBulkPolygonUpdateCommand(selectedEntities.polygons, update));
+    };
+
+    const handleMergePolygons = () => {
+        const [target] = selectedEntities.polygons;
+        const blocking = validatePolygonGeometry(getMergedPolygonParts(selectedEntities.polygons), { type: target.properties.type })
+            .filter(issue => issue.blocking);
+        if (blocking.length > 0) {
+            alert(`${UI_MESSAGES.FLOOR_EDITOR_BULK_MERGE_INVALID}\n${blocking.map(issue => issue.message).join("\n")}`);
+            return;
         }
+
+        history.execute(buildMergePolygonsCommand(selectedEntities.polygons));
+        drawingState.setSelectedItems([{ type: "polygon", id: target.properties.id }]);
     };
 
+    // Copy, paste and duplicate work on the bulk selection, or the single selected item without one
+    const { selectedItem, selectedItems, setSelectedItem, handleToolChange, activeToolRef } = drawingState;
+    const { execute } = history;
+    const { nextTemporaryId } = changeQueue;
+    const canPaste = !!clipboard && clipboard.buildingId === floor?.buildingId;
+
+    const getCopiedSelection = useCallback(() => {
+        const items = selectedItems.length > 0 ? selectedItems : selectedItem ? [selectedItem] : [];
+        return items.length > 0 ? copyLayout(getSelectedEntities(items, currentLayout)) : null;
+    }, [selectedItems, selectedItem, currentLayout]);
+
+    // The pasted copies become the selection, ready to be moved into place
+    const pasteLayout = useCallback((layout: FloorLayoutData, offset: PasteOffset) => {
+        const { command, items } = buildPasteCommand(layout, floorId, offset, nextTemporaryId);
+        execute(command);
+        if (activeToolRef.current !== "select") {
+            handleToolChange("select");
+        }
+        setSelectedItem(null);
+        setSelectedItems(items);
+    }, [floorId, nextTemporaryId, execute, activeToolRef, handleToolChange, setSelectedItem, setSelectedItems]);
+
+    const handleCopy = useCallback((): boolean => {
+        const layout = getCopiedSelection();
+        if (!layout || !floor) return false;
+        const copied = { buildingId: floor.buildingId, floorId, layout };
+        logger.userAction("Selection copied", { floorId, polygons: layout.polygons.length, beacons: layout.beacons.length, nodes: layout.nodes.length });
+        saveLayoutClipboard(copied);
+        setClipboard(copied);
+        return true;
+    }, [getCopiedSelection, floor, floorId]);
+
+    // On another floor the copy lands in place, so it lines up with the floor it came from
+    const handlePaste = useCallback((): boolean => {
+        if (!clipboard || clipboard.buildingId !== floor?.buildingId) return false;
+        logger.userAction("Clipboard pasted", { floorId, sourceFloorId: clipboard.floorId });
+        pasteLayout(clipboard.layout, clipboard.floorId === floorId ? SAME_FLOOR_PASTE_OFFSET : { east: 0, north: 0 });
+        return true;
+    }, [clipboard, floor, floorId, pasteLayout]);
+
+    const handleDuplicate = useCallback((): boolean => {
+        const layout = getCopiedSelection();
+        if (!layout) return false;
+        logger.userAction("Selection duplicated", { floorId });
+        pasteLayout(layout, SAME_FLOOR_PASTE_OFFSET);
+        return true;
+    }, [getCopiedSelection, floorId, pasteLayout]);
+
     // Edit handler
     const handleEditItem = (type: "polygon" | "beacon" | "node", id: number, e: React.MouseEvent<HTMLButtonElement>) => {
         e.stopPropagation();
@@ -618,6 +1435,7 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 const polygon = polygons.find((p) => p.properties.id === id);
                 if (polygon) {
                     dialogState.openPolygonDialog(polygon.properties.name, id);
+                    drawingState.setEditingPolygonId(id);
                     drawingState.setSelectedItem({ type, id });
                 }
                 break;
@@ -631,7 +1449,7 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             case "node":
                 const node = nodes.find((n) => n.properties.id === id);
                 if (node) {
-                    dialogState.openNodeDialog(`Node ${node.properties.id}`, id, node.properties.level);
+                    dialogState.openNodeDialog(`Node ${node.properties.id}`, id, node.properties.level, getNodeAccessibility(node));
                     drawingState.setSelectedItem({ type, id });
                 }
                 break;
@@ -639,8 +1457,20 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
     };
 
     // Layer item click handler
-    const handleLayerItemClick = (type: "polygon" | "beacon" | "node", id: number) => {
-        logger.userAction("Layer item clicked", { type, id });
+    const handleLayerItemClick = (type: SelectableType, id: number, addToSelection = false) => {
+        logger.userAction("Layer item clicked", { type, id, addToSelection });
+
+        // Shift-click builds up a selection for bulk operations, starting from the item already selected
+        if (addToSelection) {
+            const current = drawingState.selectedItems.length === 0 && drawingState.selectedItem
+                ? [drawingState.selectedItem]
+                : drawingState.selectedItems;
+            drawingState.setSelectedItems(toggleSelectionItem(current, { type, id }));
+            drawingState.setSelectedItem(null);
+            drawingState.setActiveTool("select");
+            return;
+        }
+        drawingState.setSelectedItems([]);
         
         // Set the selected item for highlighting
         drawingState.setSelectedItem({ type, id });
@@ -654,12 +1484,8 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 switch (type) {
                     case "polygon":
                         const polygon = polygons.find(p => p.properties.id === id);
-                        if (polygon && polygon.geometry.coordinates[0].length > 0) {
-                            // Calculate center of polygon
-                            const ring = polygon.geometry.coordinates[0];
-                            const centerX = ring.reduce((sum, point) => sum + point[0], 0) / ring.length;
-                            const centerY = ring.reduce((sum, point) => sum + point[1], 0) / ring.length;
-                            coordinates = [centerX, centerY];
+                        if (polygon && getGeometryVertices(polygon.geometry).length > 0) {
+                            coordinates = getPolygonLabelPoint(polygon.geometry);
                         }
                         break;
                         
@@ -711,6 +1537,137 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         }
     };
 
+    // Graph validation handlers
+    const handleFindingClick = (finding: GraphFinding) => {
+        handleLayerItemClick("node", finding.nodeIds[0]);
+    };
+
+    const handleFixFinding = (finding: GraphFinding) => {
+        if (!finding.fix) return;
+        logger.userAction("Graph finding fixed", { findingId: finding.id, kind: finding.kind });
+        history.execute(finding.fix);
+    };
+
+    // GeoJSON layout handlers
+    const handleExportLayout = () => {
+        if (!floor) return;
+
+        const featureCollection = floorLayoutToFeatureCollection(currentLayout, floor);
+        const blob = new Blob([JSON.stringify(featureCollection, null, 2)], { type: 'application/geo+json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${floor.name}-layout.geojson`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        logger.userAction("Floor layout exported", { floorId, featureCount: featureCollection.features.length });
+    };
+
+    const handleImportLayout = async (file: File) => {
+        try {
+            const parsed = parseFloorLayoutFeatureCollection(JSON.parse(await file.text()), floorId);
+            logger.userAction("Floor layout file loaded", { floorId, fileName: file.name, errorCount: parsed.errors.length });
+            setLayoutImport({ fileName: file.name, parsed });
+        } catch (error) {
+            logger.error("Failed to read floor layout file", error as Error);
+            dialogState.updateSaveStatus("error", `${UI_MESSAGES.FLOOR_EDITOR_IMPORT_INVALID_FILE} ${(error as Error).message}`);
+        }
+    };
+
+    const handleConfirmImport = (diff: LayoutDiff) => {
+        if (!layoutImport) return;
+
+        const { command, droppedConnections } = buildLayoutImportCommand(
+            diff,
+            layoutImport.parsed.layout,
+            currentLayout,
+            changeQueue.nextTemporaryId
+        );
+        if (droppedConnections > 0) {
+            logger.warn("Imported connections to nodes outside the file were skipped", { droppedConnections });
+        }
+        history.execute(command);
+        logger.userAction("Floor layout import staged", {
+            floorId,
+            added: diff.added.length,
+            updated: diff.updated.length,
+            removed: diff.removed.length
+        });
+        setLayoutImport(null);
+    };
+
+    const handleAcceptWalkwayGraph = () => {
+        if (!walkwayGraph.preview) return;
+
+        history.execute(buildWalkwayGraphCommand(walkwayGraph.preview, changeQueue.nextTemporaryId));
+        logger.userAction("Walkway graph staged", {
+            floorId,
+            nodeCount: walkwayGraph.preview.nodes.length,
+            edgeCount: walkwayGraph.preview.edgeCount
+        });
+        walkwayGraph.discard();
+    };
+
+    // Floor plan handlers
+    const handleFloorPlanUpload = (file: File, pdfPageNumber: number) => {
+        if (!map.current) return;
+
+        // New plans start out in the middle of what the user is looking at
+        const bounds = map.current.getBounds();
+        floorPlan.upload(file, pdfPageNumber, {
+            west: bounds.getWest(),
+            south: bounds.getSouth(),
+            east: bounds.getEast(),
+            north: bounds.getNorth()
+        });
+    };
+
+    // Change queue commit handler
+    const handleCommitChanges = async () => {
+        dialogState.updateSaveStatus("saving");
+        const result = await changeQueue.commit();
+        history.remapIds(result.idMap);
+
+        // Keep the connection chain going on the node the server just created
+        const selectedNode = drawingState.selectedNodeForConnectionRef.current;
+        if (isTemporaryId(selectedNode)) {
+            drawingState.setSelectedNodeForConnection(result.idMap.get(selectedNode!) ?? null);
+        }
+        if (drawingState.selectedItem && isTemporaryId(drawingState.selectedItem.id)) {
+            const committedId = result.idMap.get(drawingState.selectedItem.id);
+            drawingState.setSelectedItem(committedId ? { ...drawingState.selectedItem, id: committedId } : null);
+        }
+        if (drawingState.selectedItems.some(item => isTemporaryId(item.id))) {
+            drawingState.setSelectedItems(drawingState.selectedItems
+                .map(item => ({ ...item, id: result.idMap.get(item.id) ?? item.id }))
+                .filter(item => !isTemporaryId(item.id)));
+        }
+
+        if (result.error) {
+            dialogState.updateSaveStatus("error", UI_MESSAGES.FLOOR_EDITOR_SAVE_ERROR);
+        } else {
+            dialogState.updateSaveStatus("success");
+            setShowChangeQueue(false);
+        }
+    };
+
+    // Discarding queued changes directly would leave the history pointing at changes that no longer exist
+    const handleDiscardChange = (itemId: number) => {
+        changeQueue.discard(itemId);
+        history.clear();
+    };
+
+    const handleDiscardAllChanges = () => {
+        changeQueue.discardAll();
+        history.clear();
+    };
+
+    const latestMapHandlers = { handleMapClick, handleMapContextMenu, handleMapMouseDown, finishSelectionDrag, handleMapMouseMove, handleMapMouseOut };
+    const mapHandlers = useRef(latestMapHandlers);
+    mapHandlers.current = latestMapHandlers;
+
     // Effects
     useEffect(() => {
         if (!loading && mapContainer.current && !map.current) {
@@ -722,11 +1679,85 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
         if (mapState.mapLoadedSuccessfully && !mapState.mapLoading) {
             updateMapData();
         }
-    }, [polygons, beacons, nodes, drawingState.selectedNodeForConnection, mapState.mapLoadedSuccessfully, mapState.mapLoading, updateMapData]);
+    }, [polygons, beacons, nodes, drawingState.selectedNodeForConnection, drawingState.activeTool, drawingState.selectedItem, drawingState.selectedItems, drawingState.selectedEdges, routeTester.result, walkwayGraph.preview, beaconCoverage.coverage, beaconCoverage.mode, beaconPlacement.proposal, shapeDraft, mapState.mapLoadedSuccessfully, mapState.mapLoading, updateMapData]);
 
+    // The snap indicator belongs to the tool that showed it
+    const { hideIndicator } = snapping;
+    useEffect(() => {
+        if (map.current) {
+            hideIndicator(map.current);
+        }
+    }, [drawingState.activeTool, hideIndicator]);
+
+    // The ruler only measures while its tool is active; leaving the tool throws the points away
+    const { points: rulerPoints, clear: clearRulerPoints } = ruler;
+    useEffect(() => {
+        if (!map.current || !mapState.mapLoadedSuccessfully) return;
+        if (drawingState.activeTool !== "ruler") {
+            clearRulerPoints();
+            clearRuler(map.current);
+        } else if (rulerPoints.length > 0) {
+            renderRuler(map.current, rulerPoints);
+        } else {
+            clearRuler(map.current);
+        }
+    }, [drawingState.activeTool, rulerPoints, clearRulerPoints, mapState.mapLoadedSuccessfully]);
+
+    // The floor plan is drawn apart from the floor's items, which are redrawn far more often
+    const { overlay: floorPlanOverlay, controlPoints: floorPlanControlPoints, moveCorner: moveFloorPlanCorner } = floorPlan;
+    useEffect(() => {
+        const mapInstance = map.current;
+        if (!mapInstance || !mapState.mapLoadedSuccessfully) return;
+
+        floorPlanMarkers.current.forEach(marker => marker.remove());
+        floorPlanMarkers.current = [];
+
+        if (!floorPlanOverlay) {
+            removeFloorPlanOverlay(mapInstance);
+            return;
+        }
+
+        const corners = getRenderedCorners(floorPlanOverlay);
+        renderFloorPlanOverlay(mapInstance, floorPlanOverlay.imageUrl, corners, floorPlanOverlay.opacity, getItemsBottomLayerId(mapInstance));
+
+        if (floorPlanControlPoints) {
+            floorPlanMarkers.current = renderFloorPlanControlPoints(mapInstance, floorPlanControlPoints);
+        } else if (!floorPlanOverlay.locked) {
+            floorPlanMarkers.current = renderFloorPlanCornerHandles(mapInstance, corners, moveFloorPlanCorner);
+        }
+    }, [floorPlanOverlay, floorPlanControlPoints, moveFloorPlanCorner, mapState.mapLoadedSuccessfully]);
+
+    // Undo/redo and clipboard keyboard shortcuts, ignored while typing in a form field
+    const { undo, redo } = history;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                redo();
+            } else if ((key === "c" && handleCopy()) || (key === "v" && handlePaste()) || (key === "d" && handleDuplicate())) {
+                // Only handled shortcuts are kept from the browser, so copying page text still works
+                e.preventDefault();
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [undo, redo, handleCopy, handlePaste, handleDuplicate]);
+
+    const { cleanup: cleanupMapState } = mapState;
     useEffect(() => {
         return () => {
-            mapState.cleanup();
+            cleanupMapState();
             if (map.current) {
                 try {
                     map.current.remove();
@@ -735,7 +1766,7 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 }
             }
         };
-    }, []); // Empty dependency array - only cleanup on unmount
+    }, [cleanupMapState]); // cleanupMapState is stable, so this only runs on unmount
 
     if (loading) {
         return (
@@ -758,6 +1789,22 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                         {dialogState.saveStatus === "saving" && <span className="save-status saving">Saving...</span>}
                         {dialogState.saveStatus === "success" && <span className="save-status success">Saved successfully!</span>}
                         {dialogState.saveError && <span className="save-status error">{dialogState.saveError}</span>}
+                        {changeQueue.storageError && <span className="save-status error">{changeQueue.storageError}</span>}
+                        {changeQueue.pendingCount > 0 && (
+                            <span className="unsaved-changes-indicator" title={UI_MESSAGES.FLOOR_EDITOR_UNSAVED_CHANGES}>
+                                {changeQueue.pendingCount} pending {changeQueue.pendingCount === 1 ? "change" : "changes"}
+                            </span>
+                        )}
+                        <Button variant="SECONDARY" onClick={() => setShowChangeQueue(true)}>
+                            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_REVIEW}
+                        </Button>
+                        <Button
+                            variant="PRIMARY"
+                            onClick={handleCommitChanges}
+                            disabled={changeQueue.pendingCount === 0 || changeQueue.isCommitting}
+                        >
+                            {changeQueue.isCommitting ? UI_MESSAGES.FLOOR_EDITOR_SAVE_IN_PROGRESS : UI_MESSAGES.FLOOR_EDITOR_QUEUE_COMMIT}
+                        </Button>
                         <Button variant="SECONDARY" onClick={onBack}>{UI_MESSAGES.FLOOR_EDITOR_BACK_BUTTON}</Button>
                     </div>
                 }
@@ -770,6 +1817,88 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     floorId={floorId}
                     onRecalculatePoiNodes={handleRecalculatePoiNodes}
                     isRecalculatingPoiNodes={isRecalculatingPoiNodes}
+                    onValidateGraph={graphValidation.run}
+                    isValidatingGraph={graphValidation.isLoading}
+                    onExportLayout={handleExportLayout}
+                    onImportLayout={handleImportLayout}
+                    onToggleCoverage={beaconCoverage.toggle}
+                    isCoverageVisible={beaconCoverage.isVisible}
+                    onOptimizeBeacons={beaconPlacement.open}
+                    onGenerateWalkway={walkwayGraph.generate}
+                    isGeneratingWalkway={walkwayGraph.isGenerating}
+                    onPaste={handlePaste}
+                    pasteDescription={canPaste ? describeLayout(clipboard!.layout) : null}
+                />
+
+                {beaconCoverage.isVisible && (
+                    <CoveragePanel
+                        coverage={beaconCoverage.coverage}
+                        isLoading={beaconCoverage.isLoading}
+                        error={beaconCoverage.error}
+                        mode={beaconCoverage.mode}
+                        settings={beaconCoverage.settings}
+                        onModeChange={beaconCoverage.setMode}
+                        onSettingsChange={beaconCoverage.updateSettings}
+                        onClose={beaconCoverage.toggle}
+                    />
+                )}
+
+                {beaconPlacement.isOpen && (
+                    <BeaconPlacementPanel
+                        beaconTypes={beaconPlacement.beaconTypes}
+                        target={beaconPlacement.target}
+                        proposal={beaconPlacement.proposal}
+                        isOptimizing={beaconPlacement.isOptimizing}
+                        isAccepting={beaconPlacement.isAccepting}
+                        error={beaconPlacement.error}
+                        onTargetChange={beaconPlacement.updateTarget}
+                        onOptimize={beaconPlacement.optimize}
+                        onAccept={beaconPlacement.accept}
+                        onDiscard={beaconPlacement.discard}
+                        onClose={beaconPlacement.close}
+                    />
+                )}
+
+                {(walkwayGraph.preview || walkwayGraph.isGenerating || walkwayGraph.error) && (
+                    <WalkwayGraphPanel
+                        preview={walkwayGraph.preview}
+                        isGenerating={walkwayGraph.isGenerating}
+                        error={walkwayGraph.error}
+                        minCorridorWidth={walkwayGraph.minCorridorWidth}
+                        hasExistingNodes={nodes.length > 0}
+                        onMinCorridorWidthChange={walkwayGraph.setMinCorridorWidth}
+                        onRegenerate={walkwayGraph.generate}
+                        onAccept={handleAcceptWalkwayGraph}
+                        onDiscard={walkwayGraph.discard}
+                    />
+                )}
+
+                {graphValidation.isOpen && (
+                    <GraphValidationPanel
+                        findings={graphValidation.findings}
+                        isLoading={graphValidation.isLoading}
+                        error={graphValidation.error}
+                        onFindingClick={handleFindingClick}
+                        onFix={handleFixFinding}
+                        onRerun={graphValidation.run}
+                        onClose={graphValidation.close}
+                    />
+                )}
+
+                <FloorPlanPanel
+                    overlay={floorPlan.overlay}
+                    isLoading={floorPlan.isLoading}
+                    error={floorPlan.error}
+                    controlPoints={floorPlan.controlPoints}
+                    onUpload={handleFloorPlanUpload}
+                    onRemove={floorPlan.remove}
+                    onOpacityChange={floorPlan.setOpacity}
+                    onRotationChange={floorPlan.setRotation}
+                    onLockedChange={floorPlan.setLocked}
+                    onStartControlPoints={floorPlan.startControlPoints}
+                    onCancelControlPoints={floorPlan.cancelControlPoints}
+                    onPickImagePoint={floorPlan.pickImagePoint}
+                    onApplyControlPoints={floorPlan.applyControlPoints}
                 />
 
                 <DrawingToolbar
@@ -785,15 +1914,11 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     onClearAll={async () => {
                         dialogState.updateSaveStatus("saving");
                         try {
-                            for (const polygon of polygons) {
-                                await poisMutations.delete.mutateAsync(polygon.properties.id);
-                            }
-                            for (const beacon of beacons) {
-                                await beaconsMutations.delete.mutateAsync(beacon.properties.id);
-                            }
-                            for (const node of nodes) {
-                                await routeNodesMutations.delete.mutateAsync(node.properties.id);
-                            }
+                            history.execute(combineCommands(UI_MESSAGES.FLOOR_EDITOR_CLEAR_ALL, [
+                                ...polygons.map(polygon => deleteEntityCommand(OBJECT_TYPES.POLYGON, polygon)),
+                                ...beacons.map(beacon => deleteEntityCommand(OBJECT_TYPES.BEACON, beacon)),
+                                ...nodes.map(node => deleteEntityCommand(OBJECT_TYPES.NODE, node)),
+                            ]));
                             dialogState.updateSaveStatus("success");
                         } catch (error) {
                             logger.error("Failed to clear all data", error as Error);
@@ -803,8 +1928,68 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     nodesCount={nodes.length}
                     selectedNodeForConnection={drawingState.selectedNodeForConnection}
                     lastPlacedNodeId={drawingState.lastPlacedNodeId}
+                    hasRouteStart={!!routeTester.start && !routeTester.end}
+                    rulerMeasurement={ruler.measurement}
+                    onClearRuler={ruler.clear}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    undoLabel={history.undoLabel}
+                    redoLabel={history.redoLabel}
+                    onUndo={history.undo}
+                    onRedo={history.redo}
                 />
 
+                {SNAPPING_TOOLS.includes(drawingState.activeTool) && (
+                    <SnapSettingsBar settings={snapping.settings} onChange={snapping.updateSettings} />
+                )}
+
+                {drawingState.activeTool === "route" && (
+                    <RouteTestPanel
+                        currentFloorId={floorId}
+                        floors={buildingFloors}
+                        start={routeTester.start}
+                        end={routeTester.end}
+                        result={routeTester.result}
+                        isRouting={routeTester.isRouting}
+                        error={routeTester.error}
+                        accessibleOnly={routeTester.accessibleOnly}
+                        onAccessibleOnlyChange={routeTester.setAccessibleOnly}
+                        onSelectEnd={routeTester.selectEnd}
+                        onReset={routeTester.reset}
+                    />
+                )}
+
+                {shapeEditor.draft && (
+                    <PolygonShapePanel
+                        name={shapeEditor.draft.name}
+                        vertexCount={shapeEditor.draft.parts[shapeEditor.draft.partIndex].reduce((sum, ring) => sum + ring.length - 1, 0)}
+                        partIndex={shapeEditor.draft.partIndex}
+                        partCount={shapeEditor.draft.parts.length}
+                        onSelectPart={shapeEditor.selectPart}
+                        onRemovePart={shapeEditor.removePart}
+                        issues={shapeIssues}
+                        onSave={handlePolygonShapeSave}
+                        onCancel={shapeEditor.close}
+                    />
+                )}
+
+                {drawingState.activeTool === "select" && drawingState.selectedItems.length > 0 && (
+                    <BulkEditPanel
+                        selection={drawingState.selectedItems}
+                        selected={selectedEntities}
+                        categories={poiCategories}
+                        onDelete={handleBulkDelete}
+                        onVisibilityChange={handleBulkVisibility}
+                        onTransform={handleBulkTransform}
+                        onNodeUpdate={handleBulkNodeUpdate}
+                        onPolygonUpdate={handleBulkPolygonUpdate}
+                        onMergePolygons={handleMergePolygons}
+                        onCopy={handleCopy}
+                        onDuplicate={handleDuplicate}
+                        onClear={() => drawingState.setSelectedItems([])}
+                    />
+                )}
+
                 <div className="editor-main">
                     <MapContainer
                         mapRef={mapContainer}
@@ -815,11 +2000,12 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                     />
 
                     <LayersPanel
-                        polygons={polygons}
-                        beacons={beacons}
-                        nodes={nodes}
+                        polygons={shownLayout.polygons}
+                        beacons={shownLayout.beacons}
+                        nodes={shownLayout.nodes}
                         layerFilter={layerFilter}
                         selectedItem={drawingState.selectedItem}
+                        selectedItems={drawingState.selectedItems}
                         onFilterChange={setLayerFilter}
                         onLayerItemClick={handleLayerItemClick}
                         onToggleVisibility={toggleLayerVisibility}
@@ -833,12 +2019,14 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
             <PolygonDialog
                 show={dialogState.showPolygonDialog}
                 polygonName={dialogState.polygonName}
+                issues={pendingPolygonIssues}
                 isWallMode={false}
                 isEditing={!!drawingState.editingPolygonId}
                 onNameChange={dialogState.setPolygonName}
                 onWallModeChange={() => {}}
                 onSave={handlePolygonSave}
-                onCancel={dialogState.closePolygonDialog}
+                onEditShape={handleEditPolygonShape}
+                onCancel={handlePolygonDialogCancel}
             />
 
             <BeaconDialog
@@ -857,17 +2045,54 @@ export const FloorEditor: React.FC<FloorEditorProps> = ({ floorId, onBack }) =>
                 level={dialogState.nodeLevel}
                 onNameChange={dialogState.setNodeName}
                 onLevelChange={dialogState.setNodeLevel}
+                accessibility={dialogState.editingNodeId ? dialogState.nodeAccessibility : undefined}
+                onAccessibilityChange={dialogState.setNodeAccessibility}
+                shaftFloorNames={editingNodeShaft
+                    ? buildingFloors.filter(f => editingNodeShaft.floorIds.includes(f.id)).map(f => f.name)
+                    : undefined}
+                isShaftLoading={shafts.isLoading}
+                onManageShaft={editingNodeShaft ? handleManageShaft : undefined}
                 onSave={handleNodeSave}
                 onCancel={dialogState.closeNodeDialog}
             />
 
+            <EdgeDialog
+                show={!!dialogState.editingEdge}
+                node1={editingEdgeNodes?.[0] ?? null}
+                node2={editingEdgeNodes?.[1] ?? null}
+                onSave={handleEdgeSave}
+                onCancel={dialogState.closeEdgeDialog}
+            />
+
             <MultiFloorNodeDialog
                 show={dialogState.showMultiFloorNodeDialog}
                 currentFloorId={floorId}
                 availableFloors={buildingFloors}
+                shaft={editingShaft}
                 onSave={handleMultiFloorNodeSave}
                 onCancel={dialogState.closeMultiFloorNodeDialog}
             />
+
+            <ImportLayoutDialog
+                show={!!layoutImport}
+                fileName={layoutImport?.fileName ?? ''}
+                parsed={layoutImport?.parsed ?? null}
+                currentFloorId={floorId}
+                currentLayout={currentLayout}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setLayoutImport(null)}
+            />
+
+            <ChangeQueueDialog
+                show={showChangeQueue}
+                queue={changeQueue.queue}
+                isCommitting={changeQueue.isCommitting}
+                commitError={changeQueue.commitError}
+                onDiscard={handleDiscardChange}
+                onDiscardAll={handleDiscardAllChanges}
+                onCommit={handleCommitChanges}
+                onClose={() => setShowChangeQueue(false)}
+            />
         </Container>
     );
 };
\ No newline at end of file
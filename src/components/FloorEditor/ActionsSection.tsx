@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import {createLogger} from '../../utils/logger';
 
 const logger = createLogger('ActionsSection');
@@ -8,13 +8,53 @@ interface ActionsSectionProps {
   floorId: number;
   onRecalculatePoiNodes: () => void;
   isRecalculatingPoiNodes: boolean;
+  // Graph validation button props
+  onValidateGraph: () => void;
+  isValidatingGraph: boolean;
+  // GeoJSON layout import/export props
+  onExportLayout: () => void;
+  onImportLayout: (file: File) => void;
+  // Coverage heatmap toggle props
+  onToggleCoverage: () => void;
+  isCoverageVisible: boolean;
+  // Beacon placement optimizer props
+  onOptimizeBeacons: () => void;
+  // Walkway graph generation props
+  onGenerateWalkway: () => void;
+  isGeneratingWalkway: boolean;
+  // Clipboard paste props
+  onPaste: () => void;
+  pasteDescription: string | null;
 }
 
 const ActionsSection: React.FC<ActionsSectionProps> = ({
   floorId,
   onRecalculatePoiNodes,
-  isRecalculatingPoiNodes
+  isRecalculatingPoiNodes,
+  onValidateGraph,
+  isValidatingGraph,
+  onExportLayout,
+  onImportLayout,
+  onToggleCoverage,
+  isCoverageVisible,
+  onOptimizeBeacons,
+  onGenerateWalkway,
+  isGeneratingWalkway,
+  onPaste,
+  pasteDescription
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = '';
+    if (file) {
+      onImportLayout(file);
+    }
+  };
+
+
   logger.debug('ActionsSection rendered', { 
     floorId 
   });
@@ -37,6 +77,98 @@ const ActionsSection: React.FC<ActionsSectionProps> = ({
             {isRecalculatingPoiNodes ? 'Calculating...' : 'Calculate POI Nodes'}
           </span>
         </button>
+
+        {/* Route Graph Validation Button */}
+        <button
+          className="action-button validate-button"
+          onClick={onValidateGraph}
+          disabled={isValidatingGraph}
+          title="Check the route graph for disconnected nodes, broken connections and missing vertical links"
+        >
+          <span className="action-icon">
+            {isValidatingGraph ? '⏳' : '🩺'}
+          </span>
+          <span className="action-text">
+            {isValidatingGraph ? 'Checking...' : 'Validate Graph'}
+          </span>
+        </button>
+
+        {/* Beacon Coverage Heatmap Toggle */}
+        <button
+          className={`action-button coverage-button ${isCoverageVisible ? 'active' : ''}`}
+          onClick={onToggleCoverage}
+          title="Show the expected beacon signal strength across the floor and where positioning will fail"
+        >
+          <span className="action-icon">📶</span>
+          <span className="action-text">
+            {isCoverageVisible ? 'Hide Coverage' : 'Show Coverage'}
+          </span>
+        </button>
+
+        {/* Beacon Placement Optimizer Button */}
+        <button
+          className="action-button placement-button"
+          onClick={onOptimizeBeacons}
+          title="Propose where to place beacons so every walkable point hears enough of them"
+        >
+          <span className="action-icon">📍</span>
+          <span className="action-text">Optimize Beacons</span>
+        </button>
+
+        {/* Walkway Graph Generation Button */}
+        <button
+          className="action-button walkway-button"
+          onClick={onGenerateWalkway}
+          disabled={isGeneratingWalkway}
+          title="Propose route nodes along the walkable space between polygons, with a door node per room"
+        >
+          <span className="action-icon">
+            {isGeneratingWalkway ? '⏳' : '🕸️'}
+          </span>
+          <span className="action-text">
+            {isGeneratingWalkway ? 'Generating...' : 'Generate Walkway Graph'}
+          </span>
+        </button>
+
+        {/* Clipboard Paste Button */}
+        <button
+          className="action-button paste-button"
+          onClick={onPaste}
+          disabled={!pasteDescription}
+          title={pasteDescription
+            ? `Paste the copied ${pasteDescription} (Ctrl+V)`
+            : 'Copy a selection on any floor of this building first (Ctrl+C)'}
+        >
+          <span className="action-icon">📋</span>
+          <span className="action-text">Paste</span>
+        </button>
+
+        {/* GeoJSON Layout Export Button */}
+        <button
+          className="action-button export-layout-button"
+          onClick={onExportLayout}
+          title="Download this floor's polygons, beacons and route nodes as a GeoJSON file"
+        >
+          <span className="action-icon">📤</span>
+          <span className="action-text">Export GeoJSON</span>
+        </button>
+
+        {/* GeoJSON Layout Import Button */}
+        <button
+          className="action-button import-layout-button"
+          onClick={() => fileInputRef.current?.click()}
+          title="Stage polygons, beacons and route nodes from a GeoJSON file"
+        >
+          <span className="action-icon">📥</span>
+          <span className="action-text">Import GeoJSON</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          onChange={handleFileSelected}
+          style={{ display: 'none' }}
+        />
       </div>
     </div>
   );
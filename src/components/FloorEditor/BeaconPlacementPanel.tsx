@@ -0,0 +1,129 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { BeaconType } from '../../interfaces/BeaconType';
+import { BeaconPlacementProposal } from '../../utils/beaconPlacement';
+import { BeaconPlacementTarget } from '../../hooks/useBeaconPlacement';
+import { Button } from '../common';
+
+const logger = createLogger('BeaconPlacementPanel');
+
+interface BeaconPlacementPanelProps {
+  beaconTypes: BeaconType[];
+  target: BeaconPlacementTarget;
+  proposal: BeaconPlacementProposal | null;
+  isOptimizing: boolean;
+  isAccepting: boolean;
+  error: string | null;
+  onTargetChange: (changes: Partial<BeaconPlacementTarget>) => void;
+  onOptimize: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const BeaconPlacementPanel: React.FC<BeaconPlacementPanelProps> = ({
+  beaconTypes,
+  target,
+  proposal,
+  isOptimizing,
+  isAccepting,
+  error,
+  onTargetChange,
+  onOptimize,
+  onAccept,
+  onDiscard,
+  onClose
+}) => {
+  logger.debug('BeaconPlacementPanel rendered', { proposedCount: proposal?.positions.length, isOptimizing, isAccepting });
+
+  const describeType = (type: BeaconType) => [
+    type.name,
+    type.range_meters ? `${type.range_meters} m` : null,
+    type.transmission_power !== undefined && type.transmission_power !== null ? `${type.transmission_power} dBm` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="beacon-placement-panel">
+      <div className="beacon-placement-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_TITLE}</h3>
+        <div className="beacon-placement-actions">
+          <Button
+            variant="PRIMARY"
+            size="SMALL"
+            onClick={onOptimize}
+            disabled={isOptimizing || isAccepting || target.beaconTypeId === null}
+          >
+            {UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_OPTIMIZE}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onClose} disabled={isAccepting}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_CLOSE}
+          </Button>
+        </div>
+      </div>
+
+      <div className="beacon-placement-controls">
+        <label>
+          Beacon type
+          <select
+            value={target.beaconTypeId ?? ''}
+            onChange={(e) => onTargetChange({ beaconTypeId: e.target.value ? Number(e.target.value) : null })}
+          >
+            <option value="">{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_SELECT_TYPE}</option>
+            {beaconTypes.map(type => (
+              <option key={type.id} value={type.id}>{describeType(type)}</option>
+            ))}
+          </select>
+        </label>
+        <label title="Every walkable point should hear at least this many beacons">
+          Beacons heard everywhere
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={target.minBeaconsHeard}
+            onChange={(e) => onTargetChange({ minBeaconsHeard: Math.min(6, Math.max(1, Number(e.target.value) || 1)) })}
+          />
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={target.keepExisting}
+            onChange={(e) => onTargetChange({ keepExisting: e.target.checked })}
+          />
+          Count existing beacons
+        </label>
+      </div>
+
+      {isOptimizing && <div className="beacon-placement-status">{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_OPTIMIZING}</div>}
+      {isAccepting && <div className="beacon-placement-status">{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_ACCEPTING}</div>}
+      {error && <div className="beacon-placement-status error">{error}</div>}
+
+      {proposal && !isOptimizing && (
+        proposal.positions.length === 0 ? (
+          <div className="beacon-placement-status">{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_NOTHING_NEEDED}</div>
+        ) : (
+          <>
+            <div className="beacon-placement-result">
+              <span>
+                <strong>{proposal.positions.length}</strong> beacons proposed, target met on {percent(proposal.coveredBefore)} → {percent(proposal.coveredAfter)} of the floor
+                {proposal.unreachable > 0 && <> ({percent(proposal.unreachable)} can't be reached)</>}
+              </span>
+              <Button variant="PRIMARY" size="SMALL" onClick={onAccept} disabled={isAccepting}>
+                {UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_ACCEPT} ({proposal.positions.length})
+              </Button>
+              <Button variant="SECONDARY" size="SMALL" onClick={onDiscard} disabled={isAccepting}>
+                {UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_DISCARD}
+              </Button>
+            </div>
+            <div className="beacon-placement-status">{UI_MESSAGES.FLOOR_EDITOR_PLACEMENT_IMMEDIATE}</div>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default BeaconPlacementPanel;
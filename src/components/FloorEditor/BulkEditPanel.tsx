@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { PoiCategory } from '../../interfaces/PoiCategory';
+import {
+  BULK_NODE_TYPES,
+  BulkNodeUpdate,
+  BulkPolygonUpdate,
+  BulkTransform,
+  SelectableLayout,
+  SelectionItem,
+  describeSelection
+} from '../../utils/bulkEdit';
+import { Button } from '../common';
+
+const logger = createLogger('BulkEditPanel');
+
+interface BulkEditPanelProps {
+  selection: SelectionItem[];
+  selected: SelectableLayout;
+  categories: PoiCategory[];
+  onDelete: () => void;
+  onVisibilityChange: (visible: boolean) => void;
+  onTransform: (transform: BulkTransform) => void;
+  onNodeUpdate: (update: BulkNodeUpdate) => void;
+  onPolygonUpdate: (update: BulkPolygonUpdate) => void;
+  onMergePolygons: () => void;
+  onCopy: () => void;
+  onDuplicate: () => void;
+  onClear: () => void;
+}
+
+// Select values standing for "leave as it is" and "clear it"
+const KEEP = '';
+const NONE = 'none';
+
+const BulkEditPanel: React.FC<BulkEditPanelProps> = ({
+  selection,
+  selected,
+  categories,
+  onDelete,
+  onVisibilityChange,
+  onTransform,
+  onNodeUpdate,
+  onPolygonUpdate,
+  onMergePolygons,
+  onCopy,
+  onDuplicate,
+  onClear
+}) => {
+  const [transform, setTransform] = useState<BulkTransform>({ east: 0, north: 0, rotation: 0 });
+  const [nodeType, setNodeType] = useState(KEEP);
+  const [level, setLevel] = useState('');
+  const [color, setColor] = useState<string | null>(null);
+  const [categoryId, setCategoryId] = useState(KEEP);
+  // The operation waiting for confirmation, with the summary shown for it
+  const [pending, setPending] = useState<{ summary: string; run: () => void } | null>(null);
+
+  logger.debug('BulkEditPanel rendered', { selectionCount: selection.length });
+
+  const description = describeSelection(selection);
+  const nodeCount = selected.nodes.length;
+  const polygonCount = selected.polygons.length;
+
+  const confirm = (summary: string, run: () => void) => setPending({ summary, run });
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    logger.userAction('Bulk operation confirmed', { summary: pending.summary });
+    pending.run();
+    setPending(null);
+  };
+
+  const requestTransform = () => {
+    const moves = transform.east !== 0 || transform.north !== 0;
+    const move = `${transform.east} m east and ${transform.north} m north`;
+    const rotate = `${transform.rotation}° clockwise`;
+    const summary = !moves ? `Rotate ${description} ${rotate}` :
+      transform.rotation === 0 ? `Move ${description} ${move}` :
+      `Move ${description} ${move}, rotated ${rotate}`;
+    confirm(summary, () => onTransform(transform));
+  };
+
+  const requestNodeUpdate = () => {
+    const update: BulkNodeUpdate = {
+      ...(nodeType !== KEEP && { nodeType: nodeType === NONE ? null : nodeType }),
+      ...(level.trim() !== '' && { level: Number(level) }),
+    };
+    const parts = [
+      update.nodeType !== undefined ? `type ${update.nodeType ?? 'none'}` : null,
+      update.level !== undefined ? `level ${update.level}` : null,
+    ].filter(Boolean);
+    confirm(`Set ${parts.join(' and ')} on ${nodeCount} route node${nodeCount === 1 ? '' : 's'}`, () => onNodeUpdate(update));
+  };
+
+  const requestPolygonUpdate = () => {
+    const category = categories.find(c => String(c.id) === categoryId);
+    const update: BulkPolygonUpdate = {
+      ...(color !== null && { color }),
+      ...(categoryId !== KEEP && { categoryId: category?.id ?? null }),
+    };
+    const parts = [
+      update.color !== undefined ? `colour ${update.color}` : null,
+      update.categoryId !== undefined ? `category ${category?.name ?? 'none'}` : null,
+    ].filter(Boolean);
+    confirm(`Set ${parts.join(' and ')} on ${polygonCount} polygon${polygonCount === 1 ? '' : 's'}`, () => onPolygonUpdate(update));
+  };
+
+  const isTransformSet = transform.east !== 0 || transform.north !== 0 || transform.rotation !== 0;
+  const isLevelValid = level.trim() === '' || Number.isInteger(Number(level));
+
+  return (
+    <div className="bulk-edit-panel">
+      <div className="bulk-edit-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_BULK_TITLE}</h3>
+        <span className="bulk-edit-summary">{description}</span>
+        <div className="bulk-edit-actions">
+          <Button variant="SECONDARY" size="SMALL" onClick={onCopy}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_COPY}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onDuplicate}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_DUPLICATE}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={() => confirm(`Hide ${description}`, () => onVisibilityChange(false))}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_HIDE}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={() => confirm(`Show ${description}`, () => onVisibilityChange(true))}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_SHOW}
+          </Button>
+          <Button variant="DANGER" size="SMALL" onClick={() => confirm(`Delete ${description}`, onDelete)}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_DELETE}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onClear}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDGE_CLEAR_SELECTION}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bulk-edit-controls">
+        <label>
+          East
+          <input
+            type="number"
+            step={0.5}
+            value={transform.east}
+            onChange={(e) => setTransform({ ...transform, east: Number(e.target.value) || 0 })}
+          />
+          m
+        </label>
+        <label>
+          North
+          <input
+            type="number"
+            step={0.5}
+            value={transform.north}
+            onChange={(e) => setTransform({ ...transform, north: Number(e.target.value) || 0 })}
+          />
+          m
+        </label>
+        <label title="Clockwise, about the centre of the selection">
+          Rotate
+          <input
+            type="number"
+            step={5}
+            value={transform.rotation}
+            onChange={(e) => setTransform({ ...transform, rotation: Number(e.target.value) || 0 })}
+          />
+          °
+        </label>
+        <Button variant="SECONDARY" size="SMALL" onClick={requestTransform} disabled={!isTransformSet}>
+          {UI_MESSAGES.FLOOR_EDITOR_BULK_APPLY}
+        </Button>
+      </div>
+
+      {nodeCount > 0 && (
+        <div className="bulk-edit-controls">
+          <span className="bulk-edit-group">Route nodes ({nodeCount})</span>
+          <label>
+            Type
+            <select value={nodeType} onChange={(e) => setNodeType(e.target.value)}>
+              <option value={KEEP}>{UI_MESSAGES.FLOOR_EDITOR_BULK_KEEP}</option>
+              <option value={NONE}>None</option>
+              {BULK_NODE_TYPES.map(type => (
+                <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Level
+            <input
+              type="number"
+              step={1}
+              value={level}
+              placeholder={UI_MESSAGES.FLOOR_EDITOR_BULK_KEEP}
+              onChange={(e) => setLevel(e.target.value)}
+            />
+          </label>
+          <Button
+            variant="SECONDARY"
+            size="SMALL"
+            onClick={requestNodeUpdate}
+            disabled={(nodeType === KEEP && level.trim() === '') || !isLevelValid}
+          >
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_APPLY}
+          </Button>
+        </div>
+      )}
+
+      {polygonCount > 0 && (
+        <div className="bulk-edit-controls">
+          <span className="bulk-edit-group">Polygons ({polygonCount})</span>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={color !== null}
+              onChange={(e) => setColor(e.target.checked ? selected.polygons[0].properties.color : null)}
+            />
+            Colour
+          </label>
+          <input
+            type="color"
+            value={color ?? selected.polygons[0].properties.color}
+            disabled={color === null}
+            onChange={(e) => setColor(e.target.value)}
+          />
+          <label>
+            Category
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+              <option value={KEEP}>{UI_MESSAGES.FLOOR_EDITOR_BULK_KEEP}</option>
+              <option value={NONE}>None</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </label>
+          <Button
+            variant="SECONDARY"
+            size="SMALL"
+            onClick={requestPolygonUpdate}
+            disabled={color === null && categoryId === KEEP}
+          >
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_APPLY}
+          </Button>
+          {polygonCount >= 2 && (
+            <Button
+              variant="SECONDARY"
+              size="SMALL"
+              onClick={() => confirm(`Merge ${polygonCount} polygons into "${selected.polygons[0].properties.name}"`, onMergePolygons)}
+            >
+              {UI_MESSAGES.FLOOR_EDITOR_BULK_MERGE}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {pending && (
+        <div className="bulk-edit-confirm">
+          <span>{pending.summary}?</span>
+          <Button variant="PRIMARY" size="SMALL" onClick={handleConfirm}>
+            {UI_MESSAGES.FLOOR_EDITOR_BULK_CONFIRM}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={() => setPending(null)}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkEditPanel;
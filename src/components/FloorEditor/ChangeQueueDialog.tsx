@@ -0,0 +1,93 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { describeChange, sortForCommit } from '../../utils/changeQueue';
+import { ChangeQueueItem } from '../../interfaces/ChangeQueueItem';
+import { Button } from '../common';
+
+const logger = createLogger('ChangeQueueDialog');
+
+interface ChangeQueueDialogProps {
+  show: boolean;
+  queue: ChangeQueueItem[];
+  isCommitting: boolean;
+  commitError: string | null;
+  onDiscard: (itemId: number) => void;
+  onDiscardAll: () => void;
+  onCommit: () => void;
+  onClose: () => void;
+}
+
+const ChangeQueueDialog: React.FC<ChangeQueueDialogProps> = ({
+  show,
+  queue,
+  isCommitting,
+  commitError,
+  onDiscard,
+  onDiscardAll,
+  onCommit,
+  onClose
+}) => {
+  logger.debug('ChangeQueueDialog rendered', { show, pendingCount: queue.length, isCommitting });
+
+  if (!show) return null;
+
+  // Show changes in the order they will be committed
+  const orderedQueue = sortForCommit(queue);
+
+  const handleDiscardAll = () => {
+    if (window.confirm(UI_MESSAGES.FLOOR_EDITOR_QUEUE_CONFIRM_DISCARD)) {
+      onDiscardAll();
+    }
+  };
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog-content change-queue-dialog">
+        <h2>{UI_MESSAGES.FLOOR_EDITOR_QUEUE_TITLE} ({queue.length})</h2>
+
+        {commitError && (
+          <div className="change-queue-error">
+            {UI_MESSAGES.FLOOR_EDITOR_SAVE_ERROR} {commitError}
+          </div>
+        )}
+
+        {orderedQueue.length === 0 ? (
+          <div className="no-layers-message">{UI_MESSAGES.FLOOR_EDITOR_QUEUE_EMPTY}</div>
+        ) : (
+          <ol className="change-queue-list">
+            {orderedQueue.map(item => (
+              <li key={item.id} className={`change-queue-item change-${item.type}`}>
+                <span className="change-queue-description">{describeChange(item)}</span>
+                <span className="change-queue-time">{new Date(item.createdAt).toLocaleTimeString()}</span>
+                <button
+                  className="layer-action-button delete-button"
+                  onClick={() => onDiscard(item.id)}
+                  disabled={isCommitting}
+                  title="Discard this change"
+                >
+                  ❌
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="dialog-buttons">
+          <Button variant="DANGER" onClick={handleDiscardAll} disabled={isCommitting || queue.length === 0}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_DISCARD_ALL}
+          </Button>
+          <Button variant="SECONDARY" onClick={onClose} disabled={isCommitting}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_CLOSE}
+          </Button>
+          <Button variant="PRIMARY" onClick={onCommit} disabled={isCommitting || queue.length === 0}>
+            {isCommitting ? UI_MESSAGES.FLOOR_EDITOR_SAVE_IN_PROGRESS :
+             commitError ? UI_MESSAGES.FLOOR_EDITOR_QUEUE_RETRY : UI_MESSAGES.FLOOR_EDITOR_QUEUE_COMMIT}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeQueueDialog;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { CoverageDisplayMode, CoverageMap, CoverageSettings, MIN_BEACONS_FOR_POSITIONING } from '../../utils/beaconCoverage';
+import { Button } from '../common';
+
+const logger = createLogger('CoveragePanel');
+
+interface CoveragePanelProps {
+  coverage: CoverageMap | null;
+  isLoading: boolean;
+  error: string | null;
+  mode: CoverageDisplayMode;
+  settings: CoverageSettings;
+  onModeChange: (mode: CoverageDisplayMode) => void;
+  onSettingsChange: (changes: Partial<CoverageSettings>) => void;
+  onClose: () => void;
+}
+
+const SIGNAL_LEGEND = [
+  { color: '#ef4444', label: '≥ -55 dBm' },
+  { color: '#eab308', label: '-65' },
+  { color: '#22c55e', label: '-75' },
+  { color: '#3b82f6', label: '-85' },
+  { color: '#1e3a8a', label: '≤ -100' },
+];
+
+const COUNT_LEGEND = [
+  { color: '#1e293b', label: '0' },
+  { color: '#64748b', label: '1' },
+  { color: '#94a3b8', label: '2' },
+  { color: '#22c55e', label: `${MIN_BEACONS_FOR_POSITIONING}-4` },
+  { color: '#15803d', label: '5+' },
+];
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({
+  coverage,
+  isLoading,
+  error,
+  mode,
+  settings,
+  onModeChange,
+  onSettingsChange,
+  onClose
+}) => {
+  logger.debug('CoveragePanel rendered', { mode, cellCount: coverage?.cells.length, isLoading });
+
+  const legend = mode === 'signal' ? SIGNAL_LEGEND : COUNT_LEGEND;
+
+  return (
+    <div className="coverage-panel">
+      <div className="coverage-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_COVERAGE_TITLE}</h3>
+        {coverage && (
+          <span className="coverage-summary">
+            {coverage.beaconCount} active beacons, {Math.round(coverage.deadZoneRatio * 100)}% dead zone
+          </span>
+        )}
+        <div className="coverage-actions">
+          <button
+            className={`tool-button ${mode === 'signal' ? 'active' : ''}`}
+            onClick={() => onModeChange('signal')}
+          >
+            Signal strength
+          </button>
+          <button
+            className={`tool-button ${mode === 'count' ? 'active' : ''}`}
+            onClick={() => onModeChange('count')}
+          >
+            Beacons heard
+          </button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onClose}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_CLOSE}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && <div className="coverage-status">{UI_MESSAGES.FLOOR_EDITOR_COVERAGE_LOADING}</div>}
+      {error && <div className="coverage-status error">{error}</div>}
+
+      <div className="coverage-controls">
+        <div className="coverage-legend">
+          {legend.map(entry => (
+            <span key={entry.label} className="coverage-legend-item">
+              <span className="coverage-swatch" style={{ backgroundColor: entry.color }} />
+              {entry.label}
+            </span>
+          ))}
+          <span className="coverage-legend-item">
+            <span className="coverage-swatch dead-zone" />
+            {UI_MESSAGES.FLOOR_EDITOR_COVERAGE_DEAD_ZONE}
+          </span>
+        </div>
+        <label title="Signal lost for every Wall polygon between a beacon and the receiver">
+          Wall loss
+          <input
+            type="number"
+            min={0}
+            max={30}
+            value={settings.wallAttenuation}
+            onChange={(e) => onSettingsChange({ wallAttenuation: Math.min(30, Math.max(0, Number(e.target.value) || 0)) })}
+          />
+          dB
+        </label>
+        <label title="Weakest signal a phone can still use for positioning">
+          Sensitivity
+          <input
+            type="number"
+            min={-110}
+            max={-60}
+            value={settings.sensitivity}
+            onChange={(e) => onSettingsChange({ sensitivity: Math.min(-60, Math.max(-110, Number(e.target.value) || -90)) })}
+          />
+          dBm
+        </label>
+      </div>
+
+      {coverage && coverage.untypedBeaconCount > 0 && (
+        <div className="coverage-status">
+          {coverage.untypedBeaconCount} {coverage.untypedBeaconCount === 1 ? 'beacon has' : 'beacons have'} no type; {UI_MESSAGES.FLOOR_EDITOR_COVERAGE_UNTYPED}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoveragePanel;
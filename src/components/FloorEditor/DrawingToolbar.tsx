@@ -2,11 +2,13 @@ import React from 'react';
 import {UI_MESSAGES} from '../../constants/ui';
 import {createLogger} from '../../utils/logger';
 import {Button} from '../common';
+import {RulerMeasurement} from '../../hooks/useRuler';
+import {formatBearing, formatDistance} from '../../utils/mapUtils';
 
 const logger = createLogger('DrawingToolbar');
 
 // Drawing tool types
-export type DrawingTool = 'select' | 'pan' | 'poi' | 'beacons' | 'nodes' | 'elevatorStairs';
+export type DrawingTool = 'select' | 'pan' | 'poi' | 'cut' | 'beacons' | 'nodes' | 'elevatorStairs' | 'route' | 'ruler';
 
 interface DrawingToolbarProps {
   activeTool: DrawingTool;
@@ -19,6 +21,18 @@ interface DrawingToolbarProps {
   nodesCount: number;
   selectedNodeForConnection: number | null;
   lastPlacedNodeId: number | null;
+  // Route test state
+  hasRouteStart: boolean;
+  // Ruler state
+  rulerMeasurement: RulerMeasurement;
+  onClearRuler: () => void;
+  // History state
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
@@ -30,7 +44,16 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
   onClearAll,
   nodesCount,
   selectedNodeForConnection,
-  lastPlacedNodeId
+  lastPlacedNodeId,
+  hasRouteStart,
+  rulerMeasurement,
+  onClearRuler,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo
 }) => {
   logger.debug('DrawingToolbar rendered', { activeTool, isDrawingPolygon, pendingPolygonPoints });
 
@@ -41,12 +64,21 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
         <div className="tool-instruction">
           {activeTool === 'poi' && !isDrawingPolygon && '📍 Click on the map to start drawing a polygon'}
           {activeTool === 'poi' && isDrawingPolygon && `📍 Drawing polygon (${pendingPolygonPoints} points). Click near start to finish.`}
+          {activeTool === 'cut' && '✂️ ' + (isDrawingPolygon
+            ? `${UI_MESSAGES.FLOOR_EDITOR_CUT_INSTRUCTION_DRAWING} (${pendingPolygonPoints} points)`
+            : UI_MESSAGES.FLOOR_EDITOR_CUT_INSTRUCTION_START)}
           {activeTool === 'beacons' && '📡 Click on the map to add beacons'}
           {activeTool === 'nodes' && nodesCount === 0 && '🔗 ' + UI_MESSAGES.FLOOR_EDITOR_NODES_INSTRUCTION_EMPTY}
           {activeTool === 'nodes' && nodesCount > 0 && !selectedNodeForConnection && !lastPlacedNodeId && '🔗 ' + UI_MESSAGES.FLOOR_EDITOR_NODES_INSTRUCTION_SELECT}
           {activeTool === 'nodes' && selectedNodeForConnection && '🔗 ' + UI_MESSAGES.FLOOR_EDITOR_NODES_SELECTED}
           {activeTool === 'nodes' && !selectedNodeForConnection && lastPlacedNodeId && '🔗 ' + UI_MESSAGES.FLOOR_EDITOR_NODES_CHAINING}
           {activeTool === 'elevatorStairs' && '🏢 Click on the map to place an elevator or stairs node'}
+          {activeTool === 'route' && '🧭 ' + (hasRouteStart ? UI_MESSAGES.FLOOR_EDITOR_ROUTE_INSTRUCTION_END : UI_MESSAGES.FLOOR_EDITOR_ROUTE_INSTRUCTION_START)}
+          {activeTool === 'ruler' && rulerMeasurement.points === 0 && '📏 ' + UI_MESSAGES.FLOOR_EDITOR_RULER_INSTRUCTION_START}
+          {activeTool === 'ruler' && rulerMeasurement.points === 1 && '📏 ' + UI_MESSAGES.FLOOR_EDITOR_RULER_INSTRUCTION_NEXT}
+          {activeTool === 'ruler' && rulerMeasurement.lastSegment &&
+            `📏 ${UI_MESSAGES.FLOOR_EDITOR_RULER_TOTAL}: ${formatDistance(rulerMeasurement.totalLength)} · ` +
+            `${UI_MESSAGES.FLOOR_EDITOR_RULER_LAST_SEGMENT}: ${formatDistance(rulerMeasurement.lastSegment.length)}, ${formatBearing(rulerMeasurement.lastSegment.bearing)}`}
         </div>
       )}
       
@@ -78,6 +110,15 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
           {UI_MESSAGES.FLOOR_EDITOR_TOOL_POI}
         </button>
         
+        <button 
+          className={`tool-button ${activeTool === 'cut' ? 'active' : ''}`}
+          onClick={() => onToolChange('cut')}
+          title={UI_MESSAGES.FLOOR_EDITOR_TOOL_CUT}
+        >
+          <span className="tool-icon">✂️</span>
+          {UI_MESSAGES.FLOOR_EDITOR_TOOL_CUT}
+        </button>
+        
         <button 
           className={`tool-button ${activeTool === 'beacons' ? 'active' : ''}`}
           onClick={() => onToolChange('beacons')}
@@ -104,6 +145,46 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
           <span className="tool-icon">🏢</span>
           Elevator/Stairs
         </button>
+
+        <button
+          className={`tool-button ${activeTool === 'route' ? 'active' : ''}`}
+          onClick={() => onToolChange('route')}
+          title={UI_MESSAGES.FLOOR_EDITOR_TOOL_ROUTE}
+        >
+          <span className="tool-icon">🧭</span>
+          {UI_MESSAGES.FLOOR_EDITOR_TOOL_ROUTE}
+        </button>
+
+        <button
+          className={`tool-button ${activeTool === 'ruler' ? 'active' : ''}`}
+          onClick={() => onToolChange('ruler')}
+          title={UI_MESSAGES.FLOOR_EDITOR_TOOL_RULER}
+        >
+          <span className="tool-icon">📏</span>
+          {UI_MESSAGES.FLOOR_EDITOR_TOOL_RULER}
+        </button>
+      </div>
+
+      <div className="tool-group">
+        <button
+          className="tool-button"
+          onClick={onUndo}
+          disabled={!canUndo}
+          title={`${UI_MESSAGES.FLOOR_EDITOR_UNDO}${undoLabel ? `: ${undoLabel}` : ''} (Ctrl+Z)`}
+        >
+          <span className="tool-icon">↩️</span>
+          {UI_MESSAGES.FLOOR_EDITOR_UNDO}
+        </button>
+
+        <button
+          className="tool-button"
+          onClick={onRedo}
+          disabled={!canRedo}
+          title={`${UI_MESSAGES.FLOOR_EDITOR_REDO}${redoLabel ? `: ${redoLabel}` : ''} (Ctrl+Shift+Z)`}
+        >
+          <span className="tool-icon">↪️</span>
+          {UI_MESSAGES.FLOOR_EDITOR_REDO}
+        </button>
       </div>
 
       <div className="tool-group">
@@ -112,6 +193,12 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
             Cancel Drawing
           </Button>
         )}
+
+        {activeTool === 'ruler' && rulerMeasurement.points > 0 && (
+          <Button variant="SECONDARY" onClick={onClearRuler}>
+            {UI_MESSAGES.FLOOR_EDITOR_RULER_CLEAR}
+          </Button>
+        )}
         
         <Button variant="DANGER" onClick={onClearAll}>
           {UI_MESSAGES.FLOOR_EDITOR_CLEAR_ALL}
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import {
+  EdgeAttributeValues,
+  MAX_ACCESSIBLE_SLOPE_PERCENT,
+  MIN_ACCESSIBLE_WIDTH_M,
+  getEdgeAttributes
+} from '../../utils/routeAccessibility';
+import { RouteNode } from '../../interfaces/RouteNode';
+import { Button, Input } from '../common';
+
+const logger = createLogger('EdgeDialog');
+
+interface EdgeDialogProps {
+  show: boolean;
+  node1: RouteNode | null;
+  node2: RouteNode | null;
+  onSave: (values: EdgeAttributeValues) => void;
+  onCancel: () => void;
+}
+
+const parseOptionalNumber = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value);
+
+const EdgeDialog: React.FC<EdgeDialogProps> = ({ show, node1, node2, onSave, onCancel }) => {
+  const [values, setValues] = useState<EdgeAttributeValues | null>(null);
+  const [slope, setSlope] = useState('');
+  const [width, setWidth] = useState('');
+
+  useEffect(() => {
+    if (show && node1 && node2) {
+      // Reset state when dialog opens
+      const current = getEdgeAttributes(node1, node2.properties.id);
+      setValues(current);
+      setSlope(current.slope_percent === null ? '' : String(current.slope_percent));
+      setWidth(current.width_m === null ? '' : String(current.width_m));
+    }
+  }, [show, node1, node2]);
+
+  logger.debug('EdgeDialog rendered', { show, node1: node1?.properties.id, node2: node2?.properties.id });
+
+  if (!show || !node1 || !node2 || !values) return null;
+
+  const slopePercent = parseOptionalNumber(slope);
+  const widthM = parseOptionalNumber(width);
+  const isValid = (slopePercent === null || Number.isFinite(slopePercent)) &&
+    (widthM === null || (Number.isFinite(widthM) && widthM > 0));
+
+  const update = (changes: Partial<EdgeAttributeValues>) => setValues({ ...values, ...changes });
+
+  const handleSave = () => {
+    logger.userAction('Edge accessibility saved', { node1: node1.properties.id, node2: node2.properties.id });
+    onSave({ ...values, slope_percent: slopePercent, width_m: widthM });
+  };
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog-content">
+        <h2>{UI_MESSAGES.FLOOR_EDITOR_EDGE_TITLE} #{node1.properties.id} – #{node2.properties.id}</h2>
+        <div className="dialog-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              checked={values.wheelchair_accessible}
+              onChange={(e) => update({ wheelchair_accessible: e.target.checked })}
+            />
+            Wheelchair accessible
+          </label>
+        </div>
+        <div className="dialog-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              checked={values.has_steps}
+              onChange={(e) => update({ has_steps: e.target.checked })}
+            />
+            Has steps
+          </label>
+        </div>
+        <div className="dialog-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              checked={values.closed}
+              onChange={(e) => update({ closed: e.target.checked })}
+            />
+            {UI_MESSAGES.FLOOR_EDITOR_EDGE_CLOSED}
+          </label>
+        </div>
+        <Input
+          id="edge-slope"
+          name="edge-slope"
+          type="number"
+          label={`Slope (%, accessible up to ${MAX_ACCESSIBLE_SLOPE_PERCENT})`}
+          value={slope}
+          onChange={(e) => setSlope(e.target.value)}
+          placeholder="Unknown"
+        />
+        <Input
+          id="edge-width"
+          name="edge-width"
+          type="number"
+          label={`Width (m, accessible from ${MIN_ACCESSIBLE_WIDTH_M})`}
+          value={width}
+          onChange={(e) => setWidth(e.target.value)}
+          placeholder="Unknown"
+          error={isValid ? undefined : UI_MESSAGES.FLOOR_EDITOR_EDGE_INVALID}
+        />
+        <div style={{ marginTop: '16px' }}>
+          <label htmlFor="edge-direction" style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+            Direction
+          </label>
+          <select
+            id="edge-direction"
+            value={values.one_way_to ?? ''}
+            onChange={(e) => update({ one_way_to: e.target.value === '' ? null : Number(e.target.value) })}
+            style={{
+              width: '100%',
+              padding: '8px 12px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="">Both directions</option>
+            <option value={node2.properties.id}>One-way: #{node1.properties.id} → #{node2.properties.id}</option>
+            <option value={node1.properties.id}>One-way: #{node2.properties.id} → #{node1.properties.id}</option>
+          </select>
+        </div>
+        <div className="dialog-buttons">
+          <Button variant="SECONDARY" onClick={onCancel}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
+          </Button>
+          <Button variant="PRIMARY" onClick={handleSave} disabled={!isValid}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_SAVE}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EdgeDialog;
@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { FLOOR_PLAN_ACCEPT } from '../../utils/floorPlanImage';
+import { FloorPlanControlPoint, FloorPlanOverlay } from '../../utils/floorPlanOverlay';
+import { Button } from '../common';
+
+const logger = createLogger('FloorPlanPanel');
+
+interface FloorPlanPanelProps {
+  overlay: FloorPlanOverlay | null;
+  isLoading: boolean;
+  error: string | null;
+  controlPoints: FloorPlanControlPoint[] | null;
+  onUpload: (file: File, pdfPageNumber: number) => void;
+  onRemove: () => void;
+  onOpacityChange: (opacity: number) => void;
+  onRotationChange: (rotation: number) => void;
+  onLockedChange: (locked: boolean) => void;
+  onStartControlPoints: () => void;
+  onCancelControlPoints: () => void;
+  onPickImagePoint: (x: number, y: number) => void;
+  onApplyControlPoints: () => void;
+}
+
+const FloorPlanPanel: React.FC<FloorPlanPanelProps> = ({
+  overlay,
+  isLoading,
+  error,
+  controlPoints,
+  onUpload,
+  onRemove,
+  onOpacityChange,
+  onRotationChange,
+  onLockedChange,
+  onStartControlPoints,
+  onCancelControlPoints,
+  onPickImagePoint,
+  onApplyControlPoints
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pdfPageNumber, setPdfPageNumber] = useState(1);
+
+  logger.debug('FloorPlanPanel rendered', { hasOverlay: !!overlay, isLoading, isAligning: !!controlPoints });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = '';
+    if (file) {
+      onUpload(file, pdfPageNumber);
+    }
+  };
+
+  // Clicks on the preview are converted to pixels of the full-size image
+  const handlePreviewClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!overlay) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPickImagePoint(
+      (e.clientX - rect.left) / rect.width * overlay.imageWidth,
+      (e.clientY - rect.top) / rect.height * overlay.imageHeight
+    );
+  };
+
+  const nextImagePoint = controlPoints?.findIndex(p => !p.pixel) ?? -1;
+  const nextMapPoint = controlPoints?.findIndex(p => p.pixel && !p.lngLat) ?? -1;
+  const isAlignmentComplete = !!controlPoints && controlPoints.every(p => p.pixel && p.lngLat);
+
+  return (
+    <div className="floor-plan-panel">
+      <div className="floor-plan-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_TITLE}</h3>
+        {overlay && <span className="floor-plan-file">{overlay.fileName}</span>}
+        <div className="floor-plan-actions">
+          <label className="floor-plan-page" title="Page to use when uploading a PDF">
+            PDF page
+            <input
+              type="number"
+              min={1}
+              value={pdfPageNumber}
+              onChange={(e) => setPdfPageNumber(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </label>
+          <Button variant="SECONDARY" size="SMALL" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            {overlay ? UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_REPLACE : UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_UPLOAD}
+          </Button>
+          {overlay && (
+            <Button variant="DANGER" size="SMALL" onClick={onRemove}>
+              {UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_REMOVE}
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={FLOOR_PLAN_ACCEPT}
+            onChange={handleFileSelected}
+            style={{ display: 'none' }}
+          />
+        </div>
+      </div>
+
+      {isLoading && <div className="floor-plan-status">{UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_LOADING}</div>}
+      {error && <div className="floor-plan-status error">{error}</div>}
+
+      {overlay && (
+        <div className="floor-plan-controls">
+          <label>
+            Opacity
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(overlay.opacity * 100)}
+              onChange={(e) => onOpacityChange(Number(e.target.value) / 100)}
+            />
+            <span>{Math.round(overlay.opacity * 100)}%</span>
+          </label>
+          <label>
+            Rotation
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              step={0.5}
+              value={overlay.rotation}
+              disabled={overlay.locked}
+              onChange={(e) => onRotationChange(Number(e.target.value))}
+            />
+            <span>{overlay.rotation}°</span>
+          </label>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={overlay.locked} onChange={(e) => onLockedChange(e.target.checked)} />
+            Lock position
+          </label>
+        </div>
+      )}
+
+      {overlay && !overlay.locked && !controlPoints && (
+        <div className="floor-plan-alignment">
+          <span className="floor-plan-status">{UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_HINT}</span>
+          <Button variant="SECONDARY" size="SMALL" onClick={onStartControlPoints}>
+            {UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_ALIGN}
+          </Button>
+        </div>
+      )}
+
+      {overlay && controlPoints && (
+        <div className="floor-plan-control-points">
+          <div className="floor-plan-status">
+            {nextMapPoint !== -1 && <>Point {nextMapPoint + 1}: {UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_PICK_MAP}</>}
+            {nextMapPoint === -1 && nextImagePoint !== -1 && <>Point {nextImagePoint + 1}: {UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_PICK_IMAGE}</>}
+          </div>
+          <div className="floor-plan-preview">
+            <img
+              src={overlay.imageUrl}
+              alt={overlay.fileName}
+              onClick={handlePreviewClick}
+              className={nextMapPoint === -1 && nextImagePoint !== -1 ? 'picking' : ''}
+            />
+            {controlPoints.map((point, index) => point.pixel && (
+              <span
+                key={index}
+                className="floor-plan-control-point"
+                style={{
+                  left: `${point.pixel[0] / overlay.imageWidth * 100}%`,
+                  top: `${point.pixel[1] / overlay.imageHeight * 100}%`
+                }}
+              >
+                {index + 1}
+              </span>
+            ))}
+          </div>
+          <div className="floor-plan-alignment">
+            <Button variant="PRIMARY" size="SMALL" onClick={onApplyControlPoints} disabled={!isAlignmentComplete}>
+              {UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_APPLY}
+            </Button>
+            <Button variant="SECONDARY" size="SMALL" onClick={onCancelControlPoints}>
+              {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FloorPlanPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { GraphFinding } from '../../utils/graphValidator';
+import { Button } from '../common';
+
+const logger = createLogger('GraphValidationPanel');
+
+interface GraphValidationPanelProps {
+  findings: GraphFinding[];
+  isLoading: boolean;
+  error: string | null;
+  onFindingClick: (finding: GraphFinding) => void;
+  onFix: (finding: GraphFinding) => void;
+  onRerun: () => void;
+  onClose: () => void;
+}
+
+const GraphValidationPanel: React.FC<GraphValidationPanelProps> = ({
+  findings,
+  isLoading,
+  error,
+  onFindingClick,
+  onFix,
+  onRerun,
+  onClose
+}) => {
+  logger.debug('GraphValidationPanel rendered', { findingCount: findings.length, isLoading });
+
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  return (
+    <div className="graph-validation-panel">
+      <div className="graph-validation-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_VALIDATION_TITLE}</h3>
+        {!isLoading && !error && (
+          <span className="graph-validation-summary">
+            {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+          </span>
+        )}
+        <div className="graph-validation-actions">
+          <Button variant="SECONDARY" size="SMALL" onClick={onRerun} disabled={isLoading}>
+            {UI_MESSAGES.FLOOR_EDITOR_VALIDATION_RERUN}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onClose}>
+            {UI_MESSAGES.FLOOR_EDITOR_QUEUE_CLOSE}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && <div className="no-layers-message">{UI_MESSAGES.FLOOR_EDITOR_VALIDATION_LOADING}</div>}
+      {error && <div className="change-queue-error">{UI_MESSAGES.FLOOR_EDITOR_ROUTE_LOAD_ERROR} {error}</div>}
+      {!isLoading && !error && findings.length === 0 && (
+        <div className="no-layers-message">{UI_MESSAGES.FLOOR_EDITOR_VALIDATION_CLEAN}</div>
+      )}
+
+      {!isLoading && findings.length > 0 && (
+        <ul className="graph-validation-list">
+          {findings.map(finding => (
+            <li
+              key={finding.id}
+              className={`graph-validation-item ${finding.severity}`}
+              onClick={() => onFindingClick(finding)}
+              title="Zoom to node"
+            >
+              <span className="graph-validation-icon">{finding.severity === 'error' ? '⛔' : '⚠️'}</span>
+              <span className="graph-validation-message">{finding.message}</span>
+              {finding.fix && (
+                <Button
+                  variant="PRIMARY"
+                  size="SMALL"
+                  onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                    e.stopPropagation();
+                    onFix(finding);
+                  }}
+                >
+                  {finding.fixLabel}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GraphValidationPanel;
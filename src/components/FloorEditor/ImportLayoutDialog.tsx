@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import FloorLayoutData from '../../interfaces/FloorLayoutData';
+import { describeLayoutEntity, diffFloorLayout, LayoutDiff, ParsedFloorLayout } from '../../utils/floorLayoutGeoJson';
+import { Button } from '../common';
+
+const logger = createLogger('ImportLayoutDialog');
+
+interface ImportLayoutDialogProps {
+  show: boolean;
+  fileName: string;
+  parsed: ParsedFloorLayout | null;
+  currentFloorId: number;
+  currentLayout: FloorLayoutData;
+  onConfirm: (diff: LayoutDiff) => void;
+  onCancel: () => void;
+}
+
+const ImportLayoutDialog: React.FC<ImportLayoutDialogProps> = ({
+  show,
+  fileName,
+  parsed,
+  currentFloorId,
+  currentLayout,
+  onConfirm,
+  onCancel
+}) => {
+  const [replace, setReplace] = useState(false);
+
+  useEffect(() => {
+    if (show) {
+      setReplace(false);
+    }
+  }, [show]);
+
+  // A file exported from this floor updates matching items instead of duplicating them
+  const isSameFloor = parsed?.sourceFloorId === currentFloorId;
+
+  const diff = useMemo(
+    () => parsed ? diffFloorLayout(currentLayout, parsed.layout, isSameFloor, replace) : null,
+    [parsed, currentLayout, isSameFloor, replace]
+  );
+
+  logger.debug('ImportLayoutDialog rendered', { show, fileName, isSameFloor, replace });
+
+  if (!show || !parsed || !diff) return null;
+
+  const changeCount = diff.added.length + diff.updated.length + diff.removed.length;
+
+  return (
+    <div className="dialog-overlay">
+      <div className="dialog-content import-layout-dialog">
+        <h2>{UI_MESSAGES.FLOOR_EDITOR_IMPORT_TITLE}</h2>
+        <p className="import-layout-file">
+          {fileName}
+          {isSameFloor ? ` — ${UI_MESSAGES.FLOOR_EDITOR_IMPORT_SAME_FLOOR}` : ''}
+        </p>
+
+        <div className="import-layout-summary">
+          <span className="change-add">{diff.added.length} to add</span>
+          <span className="change-edit">{diff.updated.length} to update</span>
+          <span className="change-delete">{diff.removed.length} to remove</span>
+          <span>{diff.unchangedCount} unchanged</span>
+        </div>
+
+        <label className="checkbox-label">
+          <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+          {UI_MESSAGES.FLOOR_EDITOR_IMPORT_REPLACE}
+        </label>
+
+        {parsed.errors.length > 0 && (
+          <div className="change-queue-error">
+            <strong>{parsed.errors.length} {parsed.errors.length === 1 ? 'feature was' : 'features were'} skipped:</strong>
+            <ul>
+              {parsed.errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <ol className="change-queue-list">
+          {diff.added.map(entry => (
+            <li key={`add-${entry.kind}-${entry.entity.properties.id}`} className="change-queue-item change-add">
+              <span className="change-queue-description">Add {describeLayoutEntity(entry)}</span>
+            </li>
+          ))}
+          {diff.updated.map(({ kind, after }) => (
+            <li key={`edit-${kind}-${after.properties.id}`} className="change-queue-item change-edit">
+              <span className="change-queue-description">Update {describeLayoutEntity({ kind, entity: after })}</span>
+            </li>
+          ))}
+          {diff.removed.map(entry => (
+            <li key={`delete-${entry.kind}-${entry.entity.properties.id}`} className="change-queue-item change-delete">
+              <span className="change-queue-description">Remove {describeLayoutEntity(entry)}</span>
+            </li>
+          ))}
+        </ol>
+
+        <div className="dialog-buttons">
+          <Button variant="SECONDARY" onClick={onCancel}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
+          </Button>
+          <Button variant="PRIMARY" onClick={() => onConfirm(diff)} disabled={changeCount === 0}>
+            {UI_MESSAGES.FLOOR_EDITOR_IMPORT_CONFIRM}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportLayoutDialog;
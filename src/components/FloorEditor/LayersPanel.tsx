@@ -4,6 +4,9 @@ import {createLogger} from '../../utils/logger';
 import {Polygon} from "../../interfaces/Polygon";
 import {Beacon} from "../../interfaces/Beacon";
 import {RouteNode} from "../../interfaces/RouteNode";
+import {SelectionItem, isItemSelected} from "../../utils/bulkEdit";
+import {formatArea, formatDistance} from "../../utils/mapUtils";
+import {getPolygonArea, getPolygonParts, getPolygonPerimeter} from "../../utils/polygonGeometry";
 
 const logger = createLogger('LayersPanel');
 
@@ -12,9 +15,11 @@ interface LayersPanelProps {
   beacons: Beacon[];
   nodes: RouteNode[];
   layerFilter: 'polygons' | 'beacons' | 'nodes';
-  selectedItem: { type: 'polygon' | 'beacon' | 'node', id: number } | null;
+  selectedItem: SelectionItem | null;
+  selectedItems: SelectionItem[];
   onFilterChange: (filter: 'polygons' | 'beacons' | 'nodes') => void;
-  onLayerItemClick: (type: 'polygon' | 'beacon' | 'node', id: number) => void;
+  // Shift-click adds the item to the bulk selection instead
+  onLayerItemClick: (type: 'polygon' | 'beacon' | 'node', id: number, addToSelection: boolean) => void;
   onToggleVisibility: (type: 'polygon' | 'beacon' | 'node', id: number) => void;
   onEditItem: (type: 'polygon' | 'beacon' | 'node', id: number, e: React.MouseEvent<HTMLButtonElement>) => void;
   onDeleteItem: (type: 'polygon' | 'beacon' | 'node', id: number, e: React.MouseEvent<HTMLButtonElement>) => void;
@@ -26,6 +31,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
   nodes,
   layerFilter,
   selectedItem,
+  selectedItems,
   onFilterChange,
   onLayerItemClick,
   onToggleVisibility,
@@ -58,6 +64,9 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
 
   const filteredData = getFilteredData();
 
+  const isSelected = (type: 'polygon' | 'beacon' | 'node', id: number) =>
+    (selectedItem?.type === type && selectedItem?.id === id) || isItemSelected(selectedItems, { type, id });
+
   return (
     <div className="layers-panel">
       <div className="layers-header">
@@ -94,8 +103,8 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             {filteredData.polygons.map(polygon => (
               <div
                   key={polygon.properties.id}
-                  className={`layer-item ${selectedItem?.type === 'polygon' && selectedItem?.id === polygon.properties.id ? 'selected' : ''}`}
-                  onClick={() => onLayerItemClick('polygon', polygon.properties.id)}
+                  className={`layer-item ${isSelected('polygon', polygon.properties.id) ? 'selected' : ''}`}
+                  onClick={(e) => onLayerItemClick('polygon', polygon.properties.id, e.shiftKey)}
               >
                 <button
                   className="visibility-toggle"
@@ -110,6 +119,9 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
                 <div className="layer-color" style={{backgroundColor: polygon.properties.color}}></div>
                 <span className="layer-name">{polygon.properties.name}</span>
                 <span className="layer-type">({polygon.properties.type})</span>
+                <span className="layer-measure" title={UI_MESSAGES.FLOOR_EDITOR_MEASURE_AREA_PERIMETER}>
+                  {formatArea(getPolygonArea(getPolygonParts(polygon.geometry)))} · {formatDistance(getPolygonPerimeter(polygon.geometry))}
+                </span>
                 <div className="layer-actions">
                   <button
                     className="layer-action-button edit-button"
@@ -138,8 +150,8 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             {filteredData.beacons.map(beacon => (
               <div
                   key={beacon.properties.id}
-                  className={`layer-item ${selectedItem?.type === 'beacon' && selectedItem?.id === beacon.properties.id ? 'selected' : ''}`}
-                  onClick={() => onLayerItemClick('beacon', beacon.properties.id)}
+                  className={`layer-item ${isSelected('beacon', beacon.properties.id) ? 'selected' : ''}`}
+                  onClick={(e) => onLayerItemClick('beacon', beacon.properties.id, e.shiftKey)}
               >
                 <button
                   className="visibility-toggle"
@@ -181,8 +193,8 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             {filteredData.nodes.map(node => (
               <div
                   key={node.properties.id}
-                  className={`layer-item ${selectedItem?.type === 'node' && selectedItem?.id === node.properties.id ? 'selected' : ''}`}
-                  onClick={() => onLayerItemClick('node', node.properties.id)}
+                  className={`layer-item ${isSelected('node', node.properties.id) ? 'selected' : ''}`}
+                  onClick={(e) => onLayerItemClick('node', node.properties.id, e.shiftKey)}
               >
                 <button
                   className="visibility-toggle"
@@ -1,18 +1,22 @@
 import React, { useState, useEffect } from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
 import { createLogger } from '../../utils/logger';
-import { Button } from '../common';
+import { Shaft, ShaftDetails, ShaftType } from '../../utils/shafts';
+import { Button, Input } from '../common';
 import { Floor } from '../../interfaces/Floor';
 import './MultiFloorNodeDialog.css';
 
 const logger = createLogger('MultiFloorNodeDialog');
 
-export type NodeType = 'elevator' | 'stairs';
+export type NodeType = ShaftType;
 
 interface MultiFloorNodeDialogProps {
   show: boolean;
   currentFloorId: number;
   availableFloors: Floor[];
-  onSave: (nodeType: NodeType, selectedFloors: number[]) => void;
+  // When set, the dialog edits this shaft's floors and details instead of creating a new one
+  shaft?: Shaft | null;
+  onSave: (nodeType: NodeType, selectedFloors: number[], details: ShaftDetails) => void;
   onCancel: () => void;
 }
 
@@ -20,22 +24,28 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
   show,
   currentFloorId,
   availableFloors,
+  shaft = null,
   onSave,
   onCancel
 }) => {
   const [nodeType, setNodeType] = useState<NodeType>('elevator');
   const [selectedFloors, setSelectedFloors] = useState<Set<number>>(new Set([currentFloorId]));
+  const [name, setName] = useState('');
+  const [outOfService, setOutOfService] = useState(false);
 
   useEffect(() => {
     if (show) {
       // Reset state when dialog opens
-      setNodeType('elevator');
-      setSelectedFloors(new Set([currentFloorId]));
+      setNodeType(shaft?.type ?? 'elevator');
+      setSelectedFloors(new Set(shaft ? shaft.floorIds : [currentFloorId]));
+      setName(shaft?.name ?? '');
+      setOutOfService(shaft?.outOfService ?? false);
     }
-  }, [show, currentFloorId]);
+  }, [show, currentFloorId, shaft]);
 
   logger.debug('MultiFloorNodeDialog rendered', { 
     show, 
+    shaftId: shaft?.id,
     nodeType, 
     selectedFloors: Array.from(selectedFloors),
     availableFloors: availableFloors.length 
@@ -58,20 +68,46 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
 
   const handleSave = () => {
     const floorsArray = Array.from(selectedFloors);
-    logger.userAction('Multi-floor node creation initiated', {
+    logger.userAction(shaft ? 'Shaft update initiated' : 'Multi-floor node creation initiated', {
       nodeType,
       selectedFloors: floorsArray,
-      currentFloorId
+      currentFloorId,
+      shaftId: shaft?.id
     });
-    onSave(nodeType, floorsArray);
+    onSave(nodeType, floorsArray, { name, outOfService });
   };
 
   const sortedFloors = [...availableFloors].sort((a, b) => a.floorNumber - b.floorNumber);
+  const servedFloorNames = sortedFloors.filter(f => shaft?.floorIds.includes(f.id)).map(f => f.name);
+  const typeLabel = nodeType.charAt(0).toUpperCase() + nodeType.slice(1);
 
   return (
     <div className="dialog-overlay">
       <div className="dialog-content">
-        <h2>Create Multi-Floor Node</h2>
+        <h2>{shaft ? `Edit ${shaft.name}` : 'Create Multi-Floor Node'}</h2>
+
+        {shaft && (
+          <div className="form-section">
+            <p className="shaft-served-floors">
+              <strong>{UI_MESSAGES.FLOOR_EDITOR_SHAFT_SERVES}:</strong> {servedFloorNames.join(', ')}
+            </p>
+            <Input
+              id="shaft-name"
+              name="shaft-name"
+              label="Shaft Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <label className="shaft-out-of-service">
+              <input
+                type="checkbox"
+                checked={outOfService}
+                onChange={(e) => setOutOfService(e.target.checked)}
+              />
+              {UI_MESSAGES.FLOOR_EDITOR_SHAFT_OUT_OF_SERVICE}
+            </label>
+          </div>
+        )}
         
         <div className="form-section">
           <h3>Node Type</h3>
@@ -81,6 +117,7 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
                 type="radio"
                 value="elevator"
                 checked={nodeType === 'elevator'}
+                disabled={!!shaft}
                 onChange={(e) => setNodeType(e.target.value as NodeType)}
               />
               <span className="radio-icon">🛗</span>
@@ -91,6 +128,7 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
                 type="radio"
                 value="stairs"
                 checked={nodeType === 'stairs'}
+                disabled={!!shaft}
                 onChange={(e) => setNodeType(e.target.value as NodeType)}
               />
               <span className="radio-icon">🚶</span>
@@ -104,6 +142,7 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
           <p className="form-description">
             Choose which floors this {nodeType} should connect. 
             Current floor ({availableFloors.find(f => f.id === currentFloorId)?.name}) is required.
+            {nodeType === 'stairs' && ` ${UI_MESSAGES.FLOOR_EDITOR_SHAFT_STAIRS_HINT}`}
           </p>
           <div className="floor-selection">
             {sortedFloors.map((floor) => (
@@ -131,9 +170,9 @@ const MultiFloorNodeDialog: React.FC<MultiFloorNodeDialogProps> = ({
           <Button 
             variant="PRIMARY" 
             onClick={handleSave} 
-            disabled={selectedFloors.size < 2}
+            disabled={!shaft && selectedFloors.size < 2}
           >
-            Create {nodeType.charAt(0).toUpperCase() + nodeType.slice(1)} Nodes
+            {shaft ? `Save ${typeLabel}` : `Create ${typeLabel} Nodes`}
           </Button>
         </div>
       </div>
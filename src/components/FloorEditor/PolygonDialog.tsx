@@ -1,7 +1,9 @@
 import React from 'react';
 import { UI_MESSAGES } from '../../constants/ui';
 import { createLogger } from '../../utils/logger';
+import { PolygonIssue, hasBlockingIssue } from '../../utils/polygonValidation';
 import { Button, Input } from '../common';
+import PolygonIssueList from './PolygonIssueList';
 
 const logger = createLogger('PolygonDialog');
 
@@ -10,9 +12,12 @@ interface PolygonDialogProps {
   polygonName: string;
   isWallMode: boolean;
   isEditing?: boolean;
+  // Problems with the drawn outline
+  issues?: PolygonIssue[];
   onNameChange: (value: string) => void;
   onWallModeChange: (isWall: boolean) => void;
   onSave: () => void;
+  onEditShape?: () => void;
   onCancel: () => void;
 }
 
@@ -21,12 +26,14 @@ const PolygonDialog: React.FC<PolygonDialogProps> = ({
   polygonName,
   isWallMode,
   isEditing = false,
+  issues = [],
   onNameChange,
   onWallModeChange,
   onSave,
+  onEditShape,
   onCancel
 }) => {
-  logger.debug('PolygonDialog rendered', { show, polygonName, isWallMode });
+  logger.debug('PolygonDialog rendered', { show, polygonName, isWallMode, issueCount: issues.length });
 
   if (!show) return null;
 
@@ -52,11 +59,17 @@ const PolygonDialog: React.FC<PolygonDialogProps> = ({
             {UI_MESSAGES.FLOOR_EDITOR_POLYGON_IS_WALL_LABEL}
           </label>
         </div>
+        <PolygonIssueList issues={issues} />
         <div className="dialog-buttons">
           <Button variant="SECONDARY" onClick={onCancel}>
             {UI_MESSAGES.FLOOR_EDITOR_POLYGON_CANCEL}
           </Button>
-          <Button variant="PRIMARY" onClick={onSave} disabled={!polygonName.trim()}>
+          {isEditing && onEditShape && (
+            <Button variant="SECONDARY" onClick={onEditShape}>
+              {UI_MESSAGES.FLOOR_EDITOR_POLYGON_EDIT_SHAPE}
+            </Button>
+          )}
+          <Button variant="PRIMARY" onClick={onSave} disabled={!polygonName.trim() || hasBlockingIssue(issues)}>
             {UI_MESSAGES.FLOOR_EDITOR_POLYGON_SAVE}
           </Button>
         </div>
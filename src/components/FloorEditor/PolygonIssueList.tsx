@@ -0,0 +1,26 @@
+import React from 'react';
+import { PolygonIssue } from '../../utils/polygonValidation';
+
+interface PolygonIssueListProps {
+  issues: PolygonIssue[];
+}
+
+// Problems that stop a save in red, the ones fixed on save in amber
+const PolygonIssueList: React.FC<PolygonIssueListProps> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="polygon-issues" role="alert">
+      {issues.map(issue => (
+        <li
+          key={`${issue.code}-${issue.message}`}
+          className={`polygon-issue ${issue.blocking ? 'polygon-issue-error' : 'polygon-issue-warning'}`}
+        >
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PolygonIssueList;
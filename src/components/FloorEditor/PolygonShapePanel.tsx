@@ -0,0 +1,71 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { PolygonIssue, hasBlockingIssue } from '../../utils/polygonValidation';
+import { Button } from '../common';
+import PolygonIssueList from './PolygonIssueList';
+
+const logger = createLogger('PolygonShapePanel');
+
+interface PolygonShapePanelProps {
+  name: string;
+  vertexCount: number;
+  partIndex: number;
+  partCount: number;
+  issues: PolygonIssue[];
+  onSelectPart: (partIndex: number) => void;
+  onRemovePart: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const PolygonShapePanel: React.FC<PolygonShapePanelProps> = ({
+  name,
+  vertexCount,
+  partIndex,
+  partCount,
+  issues,
+  onSelectPart,
+  onRemovePart,
+  onSave,
+  onCancel
+}) => {
+  const isValid = !hasBlockingIssue(issues);
+  logger.debug('PolygonShapePanel rendered', { name, vertexCount, partIndex, partCount, isValid });
+
+  return (
+    <div className="polygon-shape-panel">
+      <div className="polygon-shape-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_SHAPE_TITLE}: {name}</h3>
+        <span className="polygon-shape-summary">{vertexCount} corners</span>
+        <div className="polygon-shape-actions">
+          <Button variant="SECONDARY" size="SMALL" onClick={onCancel}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
+          </Button>
+          <Button variant="PRIMARY" size="SMALL" onClick={onSave} disabled={!isValid}>
+            {UI_MESSAGES.FLOOR_EDITOR_EDIT_SAVE}
+          </Button>
+        </div>
+      </div>
+      {partCount > 1 && (
+        <div className="polygon-shape-parts">
+          <label>
+            {UI_MESSAGES.FLOOR_EDITOR_SHAPE_PART}
+            <select value={partIndex} onChange={(e) => onSelectPart(Number(e.target.value))}>
+              {Array.from({ length: partCount }, (_, i) => (
+                <option key={i} value={i}>{i + 1} of {partCount}</option>
+              ))}
+            </select>
+          </label>
+          <Button variant="DANGER" size="SMALL" onClick={onRemovePart}>
+            {UI_MESSAGES.FLOOR_EDITOR_SHAPE_REMOVE_PART}
+          </Button>
+        </div>
+      )}
+      <p className="polygon-shape-help">{UI_MESSAGES.FLOOR_EDITOR_SHAPE_HELP}</p>
+      <PolygonIssueList issues={issues} />
+    </div>
+  );
+};
+
+export default PolygonShapePanel;
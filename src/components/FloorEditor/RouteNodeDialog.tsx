@@ -1,6 +1,7 @@
 import React from 'react';
 import { UI_MESSAGES } from '../../constants/ui';
 import { createLogger } from '../../utils/logger';
+import { NodeAccessibility } from '../../utils/routeAccessibility';
 import { Button, Input } from '../common';
 
 const logger = createLogger('RouteNodeDialog');
@@ -10,8 +11,15 @@ interface RouteNodeDialogProps {
   nodeName: string;
   isEditing?: boolean;
   level?: number | null;
+  accessibility?: NodeAccessibility;
+  // Floors served by the elevator or stairs shaft this node belongs to, if any
+  shaftFloorNames?: string[];
+  // The shaft's other floors are still loading, so its floor list is incomplete
+  isShaftLoading?: boolean;
   onNameChange: (value: string) => void;
   onLevelChange?: (value: number | null) => void;
+  onAccessibilityChange?: (value: NodeAccessibility) => void;
+  onManageShaft?: () => void;
   onSave: () => void;
   onCancel: () => void;
 }
@@ -21,8 +29,13 @@ const RouteNodeDialog: React.FC<RouteNodeDialogProps> = ({
   nodeName,
   isEditing = false,
   level,
+  accessibility,
+  shaftFloorNames,
+  isShaftLoading = false,
   onNameChange,
   onLevelChange,
+  onAccessibilityChange,
+  onManageShaft,
   onSave,
   onCancel
 }) => {
@@ -72,6 +85,37 @@ const RouteNodeDialog: React.FC<RouteNodeDialogProps> = ({
             <option value="3">Level 3</option>
           </select>
         </div>
+        {accessibility && onAccessibilityChange && (
+          <div style={{ marginTop: '16px' }}>
+            <span style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+              {UI_MESSAGES.FLOOR_EDITOR_NODE_ACCESSIBILITY}
+            </span>
+            {([['hasRamp', 'Ramp'], ['hasEscalator', 'Escalator'], ['hasDoor', 'Door']] as const).map(([key, label]) => (
+              <div className="dialog-checkbox" key={key}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={accessibility[key]}
+                    onChange={(e) => onAccessibilityChange({ ...accessibility, [key]: e.target.checked })}
+                  />
+                  {label}
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+        {shaftFloorNames && onManageShaft && (
+          <div style={{ marginTop: '16px' }}>
+            <p style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#555' }}>
+              {isShaftLoading ? UI_MESSAGES.FLOOR_EDITOR_SHAFT_LOADING : (
+                <><strong>{UI_MESSAGES.FLOOR_EDITOR_SHAFT_SERVES}:</strong> {shaftFloorNames.join(', ')}</>
+              )}
+            </p>
+            <Button variant="SECONDARY" size="SMALL" onClick={onManageShaft} disabled={isShaftLoading}>
+              {UI_MESSAGES.FLOOR_EDITOR_SHAFT_MANAGE}
+            </Button>
+          </div>
+        )}
         <div className="dialog-buttons">
           <Button variant="SECONDARY" onClick={onCancel}>
             {UI_MESSAGES.FLOOR_EDITOR_EDIT_CANCEL}
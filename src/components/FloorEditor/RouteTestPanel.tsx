@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { polygonsApi } from '../../utils/api';
+import { formatDistance } from '../../utils/mapUtils';
+import { getPolygonLabelPoint } from '../../utils/polygonGeometry';
+import { findClosestNode, RouteResult } from '../../utils/pathfinding';
+import { Floor } from '../../interfaces/Floor';
+import { Polygon } from '../../interfaces/Polygon';
+import { RouteEndpoint } from '../../hooks/useRouteTester';
+import { floorRouteNodesQueryOptions } from '../../hooks/useBuildingRouteNodes';
+import { Button } from '../common';
+
+const logger = createLogger('RouteTestPanel');
+
+interface RouteTestPanelProps {
+  currentFloorId: number;
+  floors: Floor[];
+  start: RouteEndpoint | null;
+  end: RouteEndpoint | null;
+  result: RouteResult | null;
+  isRouting: boolean;
+  error: string | null;
+  accessibleOnly: boolean;
+  onAccessibleOnlyChange: (value: boolean) => void;
+  onSelectEnd: (endpoint: RouteEndpoint) => void;
+  onReset: () => void;
+}
+
+const RouteTestPanel: React.FC<RouteTestPanelProps> = ({
+  currentFloorId,
+  floors,
+  start,
+  end,
+  result,
+  isRouting,
+  error,
+  accessibleOnly,
+  onAccessibleOnlyChange,
+  onSelectEnd,
+  onReset
+}) => {
+  const [targetFloorId, setTargetFloorId] = useState<number | null>(null);
+
+  // Destinations on another floor can't be clicked, so they are picked from that floor's POIs and nodes
+  const { data: targetPolygons = [] } = useQuery<Polygon[]>({
+    queryKey: ['pois', targetFloorId],
+    queryFn: () => polygonsApi.getByFloor(targetFloorId!),
+    enabled: targetFloorId !== null,
+  });
+
+  const { data: targetNodes = [] } = useQuery({
+    ...floorRouteNodesQueryOptions(targetFloorId ?? 0),
+    enabled: targetFloorId !== null,
+  });
+
+  logger.debug('RouteTestPanel rendered', { hasStart: !!start, hasEnd: !!end, isRouting, targetFloorId });
+
+  const floorName = (id: number) => floors.find(f => f.id === id)?.name ?? `Floor ${id}`;
+  const otherFloors = [...floors]
+    .filter(f => f.id !== currentFloorId)
+    .sort((a, b) => a.floorNumber - b.floorNumber);
+  const pois = targetPolygons.filter(p => p.properties.type !== 'Wall');
+
+  const handleTargetChange = (value: string) => {
+    if (!value || targetFloorId === null) return;
+    const [kind, rawId] = value.split(':');
+    const id = Number(rawId);
+
+    if (kind === 'poi') {
+      const poi = pois.find(p => p.properties.id === id);
+      if (!poi) return;
+      const closest = findClosestNode(targetNodes, getPolygonLabelPoint(poi.geometry));
+      if (!closest) {
+        alert(UI_MESSAGES.FLOOR_EDITOR_ROUTE_NO_NODE);
+        return;
+      }
+      onSelectEnd({ nodeId: closest.properties.id, floorId: targetFloorId, label: poi.properties.name });
+    } else {
+      onSelectEnd({ nodeId: id, floorId: targetFloorId, label: `Node #${id}` });
+    }
+  };
+
+  const describeEndpoint = (endpoint: RouteEndpoint | null) =>
+    endpoint ? `${endpoint.label} (${floorName(endpoint.floorId)})` : '—';
+
+  return (
+    <div className="route-test-panel">
+      <div className="route-test-endpoints">
+        <div><span className="route-test-label">Start:</span> {describeEndpoint(start)}</div>
+        <div><span className="route-test-label">Destination:</span> {describeEndpoint(end)}</div>
+      </div>
+
+      <label className="route-test-accessible">
+        <input
+          type="checkbox"
+          checked={accessibleOnly}
+          onChange={(e) => onAccessibleOnlyChange(e.target.checked)}
+        />
+        {UI_MESSAGES.FLOOR_EDITOR_ROUTE_ACCESSIBLE_ONLY}
+      </label>
+
+      {start && otherFloors.length > 0 && (
+        <div className="route-test-other-floor">
+          <select
+            value={targetFloorId ?? ''}
+            onChange={(e) => setTargetFloorId(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">Destination on another floor...</option>
+            {otherFloors.map(f => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+
+          {targetFloorId !== null && (
+            <select value="" onChange={(e) => handleTargetChange(e.target.value)}>
+              <option value="">Pick a destination...</option>
+              {pois.map(p => (
+                <option key={`poi-${p.properties.id}`} value={`poi:${p.properties.id}`}>{p.properties.name}</option>
+              ))}
+              {targetNodes.map(n => (
+                <option key={`node-${n.properties.id}`} value={`node:${n.properties.id}`}>
+                  Node #{n.properties.id}{n.properties.node_type ? ` (${n.properties.node_type})` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {isRouting && <div className="route-test-status">{UI_MESSAGES.FLOOR_EDITOR_ROUTE_CALCULATING}</div>}
+      {error && <div className="route-test-status error">{error}</div>}
+      {result && (
+        <div className="route-test-result">
+          <strong>{formatDistance(result.totalDistance)}</strong> over {result.nodes.length} nodes
+          {result.floorIds.length > 1 && (
+            <div>Floors: {result.floorIds.map(floorName).join(' → ')}</div>
+          )}
+        </div>
+      )}
+
+      {(start || end) && (
+        <Button variant="SECONDARY" onClick={onReset}>Clear Route</Button>
+      )}
+    </div>
+  );
+};
+
+export default RouteTestPanel;
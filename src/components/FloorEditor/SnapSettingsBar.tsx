@@ -0,0 +1,61 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { SnapSettings } from '../../utils/snapping';
+
+const logger = createLogger('SnapSettingsBar');
+
+interface SnapSettingsBarProps {
+  settings: SnapSettings;
+  onChange: (changes: Partial<SnapSettings>) => void;
+}
+
+const SNAP_TARGETS: Array<{ key: 'vertices' | 'edges' | 'nodes' | 'beacons' | 'angles'; label: string }> = [
+  { key: 'vertices', label: 'Vertices' },
+  { key: 'edges', label: 'Edges' },
+  { key: 'nodes', label: 'Nodes' },
+  { key: 'beacons', label: 'Beacons' },
+  { key: 'angles', label: '45° angles' },
+];
+
+const SnapSettingsBar: React.FC<SnapSettingsBarProps> = ({ settings, onChange }) => {
+  logger.debug('SnapSettingsBar rendered', { enabled: settings.enabled });
+
+  return (
+    <div className="snap-settings-bar">
+      <button
+        className={`tool-button ${settings.enabled ? 'active' : ''}`}
+        onClick={() => onChange({ enabled: !settings.enabled })}
+        title={UI_MESSAGES.FLOOR_EDITOR_SNAP_HINT}
+      >
+        <span className="tool-icon">🧲</span>
+        {UI_MESSAGES.FLOOR_EDITOR_SNAP}
+      </button>
+
+      {settings.enabled && (
+        <>
+          {SNAP_TARGETS.map(({ key, label }) => (
+            <label key={key} className="checkbox-label">
+              <input type="checkbox" checked={settings[key]} onChange={(e) => onChange({ [key]: e.target.checked })} />
+              {label}
+            </label>
+          ))}
+          <label className="snap-tolerance">
+            Radius
+            <input
+              type="number"
+              min={2}
+              max={50}
+              value={settings.tolerance}
+              onChange={(e) => onChange({ tolerance: Math.min(50, Math.max(2, Number(e.target.value) || 2)) })}
+            />
+            px
+          </label>
+          <span className="snap-hint">{UI_MESSAGES.FLOOR_EDITOR_SNAP_HINT}</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapSettingsBar;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { UI_MESSAGES } from '../../constants/ui';
+import { createLogger } from '../../utils/logger';
+import { WalkwayGraphPreview } from '../../utils/walkwayGraph';
+import { Button } from '../common';
+
+const logger = createLogger('WalkwayGraphPanel');
+
+interface WalkwayGraphPanelProps {
+  preview: WalkwayGraphPreview | null;
+  isGenerating: boolean;
+  error: string | null;
+  minCorridorWidth: number;
+  hasExistingNodes: boolean;
+  onMinCorridorWidthChange: (width: number) => void;
+  onRegenerate: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const WalkwayGraphPanel: React.FC<WalkwayGraphPanelProps> = ({
+  preview,
+  isGenerating,
+  error,
+  minCorridorWidth,
+  hasExistingNodes,
+  onMinCorridorWidthChange,
+  onRegenerate,
+  onAccept,
+  onDiscard
+}) => {
+  logger.debug('WalkwayGraphPanel rendered', { nodeCount: preview?.nodes.length, isGenerating });
+
+  return (
+    <div className="walkway-graph-panel">
+      <div className="walkway-graph-header">
+        <h3>{UI_MESSAGES.FLOOR_EDITOR_WALKWAY_TITLE}</h3>
+        {preview && !isGenerating && (
+          <span className="walkway-graph-summary">
+            {preview.nodes.length} nodes, {preview.edgeCount} connections
+            <span className="walkway-graph-door-swatch" />
+            {preview.doorNodeIds.length} doors
+          </span>
+        )}
+        <div className="walkway-graph-actions">
+          <label className="walkway-graph-width" title="Gaps narrower than this are not treated as walkways">
+            Min. corridor width
+            <input
+              type="number"
+              min={0.5}
+              max={10}
+              step={0.1}
+              value={minCorridorWidth}
+              onChange={(e) => onMinCorridorWidthChange(Math.min(10, Math.max(0.5, Number(e.target.value) || 0.5)))}
+            />
+            m
+          </label>
+          <Button variant="SECONDARY" size="SMALL" onClick={onRegenerate} disabled={isGenerating}>
+            {UI_MESSAGES.FLOOR_EDITOR_WALKWAY_REGENERATE}
+          </Button>
+          <Button variant="PRIMARY" size="SMALL" onClick={onAccept} disabled={isGenerating || !preview || preview.nodes.length === 0}>
+            {UI_MESSAGES.FLOOR_EDITOR_WALKWAY_ACCEPT}
+          </Button>
+          <Button variant="SECONDARY" size="SMALL" onClick={onDiscard}>
+            {UI_MESSAGES.FLOOR_EDITOR_WALKWAY_DISCARD}
+          </Button>
+        </div>
+      </div>
+
+      {isGenerating && <div className="walkway-graph-status">{UI_MESSAGES.FLOOR_EDITOR_WALKWAY_GENERATING}</div>}
+      {error && <div className="walkway-graph-status error">{error}</div>}
+      {preview && hasExistingNodes && <div className="walkway-graph-status">{UI_MESSAGES.FLOOR_EDITOR_WALKWAY_EXISTING_NODES}</div>}
+      {preview && preview.warnings.length > 0 && (
+        <ul className="walkway-graph-warnings">
+          {preview.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WalkwayGraphPanel;
@@ -3,4 +3,6 @@ export const CHANGE_TYPES = {
     ADD: "add",
     EDIT: "edit",
     DELETE: "delete",
+    CONNECT: "connect",
+    DISCONNECT: "disconnect",
 } as const;
\ No newline at end of file
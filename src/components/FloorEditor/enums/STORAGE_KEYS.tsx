@@ -4,4 +4,7 @@ export const STORAGE_KEYS = {
     NODES: "floorEditor_nodes",
     EDGES: "floorEditor_edges",
     CHANGE_QUEUE: "floorEditor_changeQueue",
+    FLOOR_PLAN: "floorEditor_floorPlan",
+    SNAP_SETTINGS: "floorEditor_snapSettings",
+    CLIPBOARD: "floorEditor_clipboard",
 } as const;
@@ -0,0 +1,151 @@
+import React, {useEffect, useRef, useState} from 'react';
+import {config, GeoJSONSource, LngLatBounds, Map, MapMouseEvent, Popup} from '@maptiler/sdk';
+import '@maptiler/sdk/dist/maptiler-sdk.css';
+import {useQuery} from '@tanstack/react-query';
+import {MAPTILER_API_KEY, MAPTILER_STYLE_URL} from '../constants/api';
+import {Polygon} from '../interfaces/Polygon';
+import {polygonsApi} from '../utils/api';
+import {BEACON_HEALTH_COLORS, BEACON_HEALTH_LABELS, BeaconHealth, describeSilence} from '../utils/beaconHealth';
+import {createLogger} from '../utils/logger';
+import {getOuterRings} from '../utils/polygonGeometry';
+
+const logger = createLogger('FloorHealthMap');
+
+const OUTLINE_SOURCE = 'health-floor-outline';
+const BEACON_SOURCE = 'health-beacons';
+
+interface FloorHealthMapProps {
+  floorId: number;
+  health: BeaconHealth[];
+}
+
+/**
+ * The floor's polygons with its beacons coloured by health. Click a beacon for its details.
+ */
+const FloorHealthMap: React.FC<FloorHealthMapProps> = ({ floorId, health }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const map = useRef<Map | null>(null);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  // Only frame the floor once its polygons arrive, so adjusting the health limits keeps the view
+  const framedPolygons = useRef<Polygon[] | null>(null);
+
+  const { data: polygons } = useQuery<Polygon[]>({
+    queryKey: ['polygons', floorId],
+    queryFn: () => polygonsApi.getByFloor(floorId),
+  });
+
+  useEffect(() => {
+    if (!container.current || !MAPTILER_API_KEY) return;
+    config.apiKey = MAPTILER_API_KEY;
+
+    const mapInstance = new Map({
+      container: container.current,
+      style: MAPTILER_STYLE_URL,
+      center: [50.142335, 26.313387],
+      zoom: 18,
+    });
+    map.current = mapInstance;
+
+    mapInstance.on('load', () => {
+      mapInstance.addSource(OUTLINE_SOURCE, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+      mapInstance.addLayer({
+        id: `${OUTLINE_SOURCE}-fill`,
+        type: 'fill',
+        source: OUTLINE_SOURCE,
+        paint: { 'fill-color': '#e5e7eb', 'fill-opacity': 0.5 },
+      });
+      mapInstance.addLayer({
+        id: `${OUTLINE_SOURCE}-line`,
+        type: 'line',
+        source: OUTLINE_SOURCE,
+        paint: { 'line-color': '#6b7280', 'line-width': 1 },
+      });
+
+      mapInstance.addSource(BEACON_SOURCE, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+      mapInstance.addLayer({
+        id: BEACON_SOURCE,
+        type: 'circle',
+        source: BEACON_SOURCE,
+        paint: {
+          'circle-radius': 7,
+          'circle-color': ['get', 'color'],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2,
+        },
+      });
+
+      mapInstance.on('click', BEACON_SOURCE, (e: MapMouseEvent & { features?: GeoJSON.Feature[] }) => {
+        const feature = e.features?.[0];
+        if (!feature || feature.geometry.type !== 'Point') return;
+        const { name, status, battery, lastSeen } = feature.properties as Record<string, string>;
+        // Built from text nodes, since beacon names are user input
+        const content = document.createElement('div');
+        [name, status, `Battery ${battery}%`, `Last seen: ${lastSeen}`].forEach((line, i) => {
+          const row = document.createElement(i === 0 ? 'strong' : 'div');
+          row.textContent = line;
+          content.appendChild(row);
+        });
+        new Popup({ closeButton: false })
+          .setLngLat(feature.geometry.coordinates as [number, number])
+          .setDOMContent(content)
+          .addTo(mapInstance);
+      });
+      mapInstance.on('mouseenter', BEACON_SOURCE, () => { mapInstance.getCanvas().style.cursor = 'pointer'; });
+      mapInstance.on('mouseleave', BEACON_SOURCE, () => { mapInstance.getCanvas().style.cursor = ''; });
+
+      setIsMapLoaded(true);
+    });
+
+    return () => {
+      setIsMapLoaded(false);
+      map.current = null;
+      mapInstance.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance || !isMapLoaded || !polygons) return;
+
+    (mapInstance.getSource(OUTLINE_SOURCE) as GeoJSONSource).setData({
+      type: 'FeatureCollection',
+      features: polygons.map(p => ({ type: 'Feature', geometry: p.geometry, properties: {} })),
+    });
+    const placed = health.filter(h => h.beacon.geometry);
+    (mapInstance.getSource(BEACON_SOURCE) as GeoJSONSource).setData({
+      type: 'FeatureCollection',
+      features: placed.map(h => ({
+        type: 'Feature',
+        geometry: h.beacon.geometry!,
+        properties: {
+          name: h.beacon.properties.name,
+          status: BEACON_HEALTH_LABELS[h.status],
+          color: BEACON_HEALTH_COLORS[h.status],
+          battery: h.beacon.properties.battery_level,
+          lastSeen: describeSilence(h.hoursSilent),
+        },
+      })),
+    });
+
+    const coordinates = [
+      ...polygons.flatMap(p => getOuterRings(p.geometry).flat()),
+      ...placed.map(h => h.beacon.geometry!.coordinates),
+    ];
+    if (coordinates.length > 0 && framedPolygons.current !== polygons) {
+      const bounds = coordinates.reduce(
+        (b, c) => b.extend([c[0], c[1]]),
+        new LngLatBounds([coordinates[0][0], coordinates[0][1]], [coordinates[0][0], coordinates[0][1]])
+      );
+      mapInstance.fitBounds(bounds, { padding: 40, maxZoom: 21, duration: 0 });
+      framedPolygons.current = polygons;
+    }
+    logger.debug('Floor health map updated', { floorId, beaconCount: placed.length, polygonCount: polygons.length });
+  }, [floorId, polygons, health, isMapLoaded]);
+
+  if (!MAPTILER_API_KEY) {
+    return <div className="fleet-health-status">MapTiler API key is not set</div>;
+  }
+  return <div ref={container} className="fleet-health-map" />;
+};
+
+export default FloorHealthMap;
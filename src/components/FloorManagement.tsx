@@ -887,6 +887,7 @@ const FloorManagement: React.FC<FloorManagementProps> = ({ floorId, onBack }) =>
         <POIForm
           poi={state.editing.poi}
           floorId={parseInt(floorId)}
+          floorPolygons={state.entities.pois}
           onSave={handleCreatePOI}
           onUpdate={handleUpdatePOI}
           onCancel={() => setState(prev => ({ ...prev, editing: { ...prev.editing, poi: null } }))}
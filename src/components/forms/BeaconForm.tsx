@@ -1,5 +1,6 @@
 import React, {useEffect, useState} from 'react';
-import {beaconTypesApi} from '../../utils/api';
+import {beaconsApi, beaconTypesApi, floorsApi} from '../../utils/api';
+import {BeaconIdTuple, allocateBeaconIds, beaconIdKey, deriveBuildingAllocation, generateBeaconUuid, getBeaconIdTuple} from '../../utils/beaconIdAllocation';
 import {createLogger} from '../../utils/logger';
 import Button from '../common/Button';
 import Card from '../common/Card';
@@ -45,15 +46,19 @@ const BeaconForm: React.FC<BeaconFormProps> = ({ beacon, floorId, onSave, onUpda
   });
 
   const [beaconTypes, setBeaconTypes] = useState<BeaconType[]>([]);
+  // Every beacon in every building, to catch ID collisions
+  const [allBeacons, setAllBeacons] = useState<Beacon[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const isEditing = !!beacon?.properties.id;
 
-  // Load beacon types on component mount
+  // Load beacon types and existing beacons on component mount
   useEffect(() => {
     loadBeaconTypes();
+    loadAllBeacons();
   }, []);
 
   // Initialize form data when editing
@@ -86,6 +91,23 @@ const BeaconForm: React.FC<BeaconFormProps> = ({ beacon, floorId, onSave, onUpda
     }
   };
 
+  const loadAllBeacons = async () => {
+    try {
+      setAllBeacons(await beaconsApi.getAll());
+    } catch (error) {
+      logger.error('Failed to load beacons for ID checks', error as Error);
+    }
+  };
+
+  // Identities of every other beacon, lower-cased so UUID case doesn't hide a collision
+  const usedIdKeys = () => new Set(
+    allBeacons
+      .filter(b => b.properties.id !== beacon?.properties.id)
+      .map(getBeaconIdTuple)
+      .filter((tuple): tuple is BeaconIdTuple => tuple !== null)
+      .map(beaconIdKey)
+  );
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -112,6 +134,13 @@ const BeaconForm: React.FC<BeaconFormProps> = ({ beacon, floorId, onSave, onUpda
       newErrors.minorId = 'Minor ID must be between 0 and 65535';
     }
 
+    // The (uuid, major, minor) tuple must be unique across all buildings
+    if (!newErrors.uuid && !newErrors.majorId && !newErrors.minorId
+      && formData.uuid && formData.majorId !== null && formData.minorId !== null
+      && usedIdKeys().has(beaconIdKey({ uuid: formData.uuid, major: formData.majorId, minor: formData.minorId }))) {
+      newErrors.minorId = 'Another beacon already uses this UUID, major and minor';
+    }
+
     // Battery level validation
     if (formData.batteryLevel !== null && (formData.batteryLevel < 0 || formData.batteryLevel > 100)) {
       newErrors.batteryLevel = 'Battery level must be between 0 and 100';
@@ -136,12 +165,26 @@ const BeaconForm: React.FC<BeaconFormProps> = ({ beacon, floorId, onSave, onUpda
   };
 
   const generateUUID = () => {
-    const uuid = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-      const r = Math.random() * 16 | 0;
-      const v = c === 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16);
-    });
-    handleInputChange('uuid', uuid);
+    handleInputChange('uuid', generateBeaconUuid());
+  };
+
+  // Takes the next free ID from the building's allocation scheme
+  const autoAssignIds = async () => {
+    setIsAssigning(true);
+    try {
+      const floor = await floorsApi.getById(floorId);
+      const floors = await floorsApi.getByBuilding(floor.buildingId);
+      const allocation = deriveBuildingAllocation(floor.buildingId, floors, allBeacons);
+      const [tuple] = allocateBeaconIds(allocation, floorId, usedIdKeys(), 1);
+      setFormData(prev => ({ ...prev, uuid: tuple.uuid, majorId: tuple.major, minorId: tuple.minor }));
+      setErrors(prev => ({ ...prev, uuid: '', majorId: '', minorId: '' }));
+      logger.userAction('Beacon IDs auto-assigned', { floorId, ...tuple });
+    } catch (error) {
+      logger.error('Failed to auto-assign beacon IDs', error as Error);
+      setErrors(prev => ({ ...prev, minorId: (error as Error).message }));
+    } finally {
+      setIsAssigning(false);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -258,6 +301,18 @@ const BeaconForm: React.FC<BeaconFormProps> = ({ beacon, floorId, onSave, onUpda
             </div>
           </div>
 
+          <div className="form-row">
+            <Button
+              type="button"
+              variant="SECONDARY"
+              onClick={autoAssignIds}
+              disabled={isAssigning}
+              className="auto-assign-ids-btn"
+            >
+              {isAssigning ? 'Assigning...' : 'Auto-assign UUID, major and minor'}
+            </Button>
+          </div>
+
           <div className="form-row">
             <div className="form-group">
               <label htmlFor="majorId">Major ID</label>
@@ -1,4 +1,4 @@
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import {poiCategoriesApi} from '../../utils/api';
 import {createLogger} from '../../utils/logger';
 import Button from '../common/Button';
@@ -7,12 +7,17 @@ import Input from '../common/Input';
 import './POIForm.css';
 import {PoiCategory} from "../../interfaces/PoiCategory";
 import {Polygon} from "../../interfaces/Polygon";
+import {hasBlockingIssue, validatePolygonGeometry} from "../../utils/polygonValidation";
+import {getGeometryVertices, getPolygonArea, getPolygonParts, getPolygonPerimeter} from "../../utils/polygonGeometry";
+import {formatArea, formatDistance} from "../../utils/mapUtils";
 
 const logger = createLogger('POIForm');
 
 interface POIFormProps {
   poi?: Polygon | null;
   floorId: number;
+  // The floor's other POIs, to check the outline against
+  floorPolygons?: Polygon[];
   onSave: (poi: Omit<Polygon, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   onUpdate: (id: number, poi: Partial<Omit<Polygon, 'id' | 'createdAt' | 'updatedAt'>>) => Promise<void>;
   onCancel: () => void;
@@ -58,7 +63,7 @@ const DEFAULT_COLORS = [
   '#6B7280'  // Gray
 ];
 
-const POIForm: React.FC<POIFormProps> = ({ poi, floorId, onSave, onUpdate, onCancel }) => {
+const POIForm: React.FC<POIFormProps> = ({ poi, floorId, floorPolygons = [], onSave, onUpdate, onCancel }) => {
   const [formData, setFormData] = useState<POIFormData>({
     name: '',
     description: '',
@@ -76,6 +81,19 @@ const POIForm: React.FC<POIFormProps> = ({ poi, floorId, onSave, onUpdate, onCan
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const isEditing = !!poi?.properties.id;
+  // Where the form started, so saving untouched stored outlines is never blocked
+  const initialLocation = useRef({ x: 0, y: 0 });
+
+  const geometryIssues = poi?.geometry
+    ? validatePolygonGeometry(getPolygonParts(poi.geometry), {
+        type: poi.properties.type,
+        polygonId: poi.properties.id,
+        floorPolygons,
+      })
+    : [];
+  // Issues only block a save once the location is changed; until then they are warnings
+  const isLocationChanged = formData.x !== initialLocation.current.x || formData.y !== initialLocation.current.y;
+  const blocksSave = isLocationChanged && hasBlockingIssue(geometryIssues);
 
   // Load categories on component mount
   useEffect(() => {
@@ -139,6 +157,10 @@ const POIForm: React.FC<POIFormProps> = ({ poi, floorId, onSave, onUpdate, onCan
       newErrors.y = 'Y coordinate must be between -90 and 90';
     }
 
+    if (blocksSave) {
+      newErrors.geometry = 'The outline has to be fixed in the floor editor before saving';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -348,6 +370,23 @@ const POIForm: React.FC<POIFormProps> = ({ poi, floorId, onSave, onUpdate, onCan
             </div>
           </div>
 
+          {poi?.geometry && getGeometryVertices(poi.geometry).length >= 3 && (
+            <div className="poi-measurements">
+              <span><strong>Area:</strong> {formatArea(getPolygonArea(getPolygonParts(poi.geometry)))}</span>
+              <span><strong>Perimeter:</strong> {formatDistance(getPolygonPerimeter(poi.geometry))}</span>
+            </div>
+          )}
+
+          {geometryIssues.map(issue => (
+            <span
+              key={`${issue.code}-${issue.message}`}
+              className={issue.blocking && isLocationChanged ? 'error-message' : 'warning-message'}
+            >
+              {issue.message}
+            </span>
+          ))}
+          {errors.geometry && <span className="error-message">{errors.geometry}</span>}
+
           <div className="coordinate-help">
             <p>
               <strong>Coordinate Format:</strong> Use decimal degrees (e.g., 50.142200, 26.313300)
@@ -36,7 +36,20 @@ export const UI_MESSAGES = {
   CARD_PROJECT_MANAGEMENT_DESC: 'Access project planning and documentation',
   CARD_BUILDINGS_TITLE: 'Buildings & Floors',
   CARD_BUILDINGS_DESC: 'Manage buildings and floor layouts',
+  CARD_BEACON_HEALTH_TITLE: 'Beacon Fleet Health',
+  CARD_BEACON_HEALTH_DESC: 'Battery levels and silent beacons across all buildings',
   
+  // Beacon Fleet Health
+  FLEET_HEALTH_TITLE: 'Beacon Fleet Health',
+  FLEET_HEALTH_REFRESH: 'Refresh',
+  FLEET_HEALTH_EXPORT: 'Export replacement list',
+  FLEET_HEALTH_LOADING: 'Loading beacons...',
+  FLEET_HEALTH_ALL_BUILDINGS: 'All buildings',
+  FLEET_HEALTH_SELECT_FLOOR: 'Select a floor',
+  FLEET_HEALTH_MAP_HINT: 'Pick a floor, or click a beacon\'s location, to see its beacons on the map.',
+  FLEET_HEALTH_NO_BEACONS: 'No beacons found.',
+  FLEET_HEALTH_BATTERY_REPLACED: 'Battery replaced',
+
   // Buildings Management
   BUILDINGS_TITLE: 'Buildings & Floors Management',
   BUILDINGS_BACK_BUTTON: 'Back to Dashboard',
@@ -63,6 +76,37 @@ export const UI_MESSAGES = {
   FLOORS_EDIT_BUTTON: 'Edit Floor',
   FLOORS_DELETE_BUTTON: 'Delete',
   FLOORS_MANAGE_BUTTON: 'Manage Layout',
+  FLOORS_BEACON_IDS_BUTTON: 'Beacon IDs',
+  FLOORS_STACK_VIEW_BUTTON: '3D View',
+  FLOORS_CLONE_BUTTON: 'Clone Layout',
+  FLOORS_CLONING: 'Cloning...',
+  FLOORS_CLONE_CONFIRM: 'Create a new floor with a copy of this floor\'s polygons, beacons and route nodes? Beacon IDs and links to other floors are not copied.',
+  FLOORS_CLONE_ERROR: 'Cloning the floor failed. Nothing was copied; please try again.',
+  FLOORS_CLONE_PARTIAL_ERROR: 'Cloning the floor failed part way and could not be fully undone. The new floor is incomplete; delete it and try again. Left on it:',
+
+  // Building Stack View
+  BUILDING_STACK_TITLE: 'Building View',
+  BUILDING_STACK_BACK: 'Back to Buildings',
+  BUILDING_STACK_LOADING: 'Loading floors...',
+  BUILDING_STACK_OPEN_FLOOR: 'Open',
+  BUILDING_STACK_SHOW_ALL: 'Show all floors',
+  BUILDING_STACK_HINT: 'Click a floor to open it in the editor; right-drag to tilt and rotate.',
+
+  // Beacon ID Manager
+  BEACON_IDS_TITLE: 'iBeacon IDs',
+  BEACON_IDS_LOADING: 'Loading beacons...',
+  BEACON_IDS_REGENERATE_UUID: 'New UUID',
+  BEACON_IDS_REGENERATE_CONFIRM: 'Beacons already flashed with the current UUID will fall outside the scheme until they are re-allocated and re-flashed. Continue?',
+  BEACON_IDS_RESIZE_CONFIRM: 'Changing the block size moves every floor\'s major range; existing beacons may fall outside the scheme. Continue?',
+  BEACON_IDS_SCHEME_SOURCE: 'The scheme is read from the beacons saved on the server. A new UUID or block size only sticks once a re-allocation using it is applied.',
+  BEACON_IDS_NO_DUPLICATES: 'No duplicate UUID/major/minor combinations.',
+  BEACON_IDS_PLAN: 'Plan re-allocation',
+  BEACON_IDS_NOTHING_TO_CHANGE: 'Every beacon already has a unique ID that fits the scheme.',
+  BEACON_IDS_APPLY: 'Apply',
+  BEACON_IDS_APPLYING: 'Updating beacons...',
+  BEACON_IDS_REFLASH_NOTE: 'Changes are saved right away; the hardware has to be re-flashed to match. Download a provisioning sheet afterwards.',
+  BEACON_IDS_SHEET_HINT: 'A CSV of every beacon in the building with its UUID, major, minor and position, for flashing hardware.',
+  BEACON_IDS_DOWNLOAD_SHEET: 'Download provisioning sheet',
   
   // Floor Form
   FLOOR_FORM_TITLE_ADD: 'Add New Floor',
@@ -92,6 +136,63 @@ export const UI_MESSAGES = {
   FLOOR_EDITOR_NODES_INSTRUCTION_SELECT: 'Click on an existing node to start a chain, then click empty areas to add connected nodes',
   FLOOR_EDITOR_NODES_SELECTED: 'Selected node. Click on empty areas to create a chain of connected nodes',
   FLOOR_EDITOR_NODES_CHAINING: 'Chaining mode: Click on empty areas to add nodes connected to the previous one',
+  FLOOR_EDITOR_TOOL_ROUTE: 'Test Route',
+  FLOOR_EDITOR_TOOL_RULER: 'Ruler',
+  FLOOR_EDITOR_RULER_INSTRUCTION_START: 'Click on the map to start measuring',
+  FLOOR_EDITOR_RULER_INSTRUCTION_NEXT: 'Click the next point to measure to',
+  FLOOR_EDITOR_RULER_TOTAL: 'Total',
+  FLOOR_EDITOR_RULER_LAST_SEGMENT: 'Last segment',
+  FLOOR_EDITOR_RULER_CLEAR: 'Clear Ruler',
+  FLOOR_EDITOR_ROUTE_INSTRUCTION_START: 'Click a route node or POI to set the start of the test route',
+  FLOOR_EDITOR_ROUTE_INSTRUCTION_END: 'Click a route node or POI to set the destination, or pick one on another floor',
+  FLOOR_EDITOR_ROUTE_NOT_FOUND: 'No route exists between the selected start and destination.',
+  FLOOR_EDITOR_ROUTE_NO_ACCESSIBLE: 'No wheelchair accessible route exists between the selected start and destination.',
+  FLOOR_EDITOR_ROUTE_ACCESSIBLE_ONLY: 'Accessible only (no steps, stairs, escalators or steep, narrow or closed passages)',
+  FLOOR_EDITOR_ROUTE_NO_NODE: 'There is no route node or POI at this location.',
+  FLOOR_EDITOR_ROUTE_LOAD_ERROR: 'Failed to load route nodes for the other floors.',
+  FLOOR_EDITOR_ROUTE_CALCULATING: 'Calculating route...',
+  FLOOR_EDITOR_VALIDATION_TITLE: 'Route Graph Check',
+  FLOOR_EDITOR_VALIDATION_LOADING: 'Checking route graph...',
+  FLOOR_EDITOR_VALIDATION_CLEAN: 'No problems found in the route graph.',
+  FLOOR_EDITOR_VALIDATION_RERUN: 'Re-check',
+  FLOOR_EDITOR_IMPORT_TITLE: 'Import GeoJSON Layout',
+  FLOOR_EDITOR_IMPORT_SAME_FLOOR: 'exported from this floor, matching items will be updated',
+  FLOOR_EDITOR_IMPORT_REPLACE: 'Remove items on this floor that are not in the file',
+  FLOOR_EDITOR_IMPORT_CONFIRM: 'Stage Changes',
+  FLOOR_EDITOR_IMPORT_INVALID_FILE: 'The selected file is not a valid GeoJSON floor layout.',
+  FLOOR_EDITOR_FLOOR_PLAN_TITLE: 'Floor Plan',
+  FLOOR_EDITOR_FLOOR_PLAN_UPLOAD: 'Upload floor plan',
+  FLOOR_EDITOR_FLOOR_PLAN_REPLACE: 'Replace image',
+  FLOOR_EDITOR_FLOOR_PLAN_REMOVE: 'Remove',
+  FLOOR_EDITOR_FLOOR_PLAN_LOADING: 'Loading floor plan...',
+  FLOOR_EDITOR_FLOOR_PLAN_HINT: 'Drag the corner handles to fit the plan, or align it with control points.',
+  FLOOR_EDITOR_FLOOR_PLAN_ALIGN: 'Align with control points',
+  FLOOR_EDITOR_FLOOR_PLAN_PICK_IMAGE: 'click it on the plan below',
+  FLOOR_EDITOR_FLOOR_PLAN_PICK_MAP: 'now click where it belongs on the map',
+  FLOOR_EDITOR_FLOOR_PLAN_APPLY: 'Apply alignment',
+  FLOOR_EDITOR_FLOOR_PLAN_NOT_SAVED: 'The floor plan image could not be stored by this browser and will be gone after a reload.',
+  FLOOR_EDITOR_FLOOR_PLAN_POSITION_NOT_SAVED: 'The floor plan position could not be stored by this browser and will be lost after a reload.',
+  FLOOR_EDITOR_SNAP: 'Snap',
+  FLOOR_EDITOR_SNAP_HINT: 'Hold Alt to place a point without snapping',
+  FLOOR_EDITOR_WALKWAY_TITLE: 'Generated Walkway Graph',
+  FLOOR_EDITOR_WALKWAY_GENERATING: 'Generating walkway graph...',
+  FLOOR_EDITOR_WALKWAY_REGENERATE: 'Regenerate',
+  FLOOR_EDITOR_WALKWAY_ACCEPT: 'Accept',
+  FLOOR_EDITOR_WALKWAY_DISCARD: 'Discard',
+  FLOOR_EDITOR_WALKWAY_EXISTING_NODES: 'This floor already has route nodes. The generated graph is added alongside them, not merged.',
+  FLOOR_EDITOR_COVERAGE_TITLE: 'Beacon Coverage',
+  FLOOR_EDITOR_COVERAGE_LOADING: 'Loading beacon types...',
+  FLOOR_EDITOR_COVERAGE_DEAD_ZONE: 'Fewer than 3 beacons heard',
+  FLOOR_EDITOR_COVERAGE_UNTYPED: 'their coverage is estimated for a 0 dBm transmitter.',
+  FLOOR_EDITOR_PLACEMENT_TITLE: 'Beacon Placement',
+  FLOOR_EDITOR_PLACEMENT_OPTIMIZE: 'Propose positions',
+  FLOOR_EDITOR_PLACEMENT_OPTIMIZING: 'Optimizing beacon placement...',
+  FLOOR_EDITOR_PLACEMENT_ACCEPT: 'Create all',
+  FLOOR_EDITOR_PLACEMENT_ACCEPTING: 'Creating beacons...',
+  FLOOR_EDITOR_PLACEMENT_DISCARD: 'Discard',
+  FLOOR_EDITOR_PLACEMENT_SELECT_TYPE: 'Select a beacon type',
+  FLOOR_EDITOR_PLACEMENT_NOTHING_NEEDED: 'The floor already meets the target; no beacons need to be added.',
+  FLOOR_EDITOR_PLACEMENT_IMMEDIATE: 'Accepted beacons are created right away, not staged.',
   FLOOR_EDITOR_ZOOM_IN: 'Zoom in',
   FLOOR_EDITOR_ZOOM_OUT: 'Zoom out',
   FLOOR_EDITOR_RESET_VIEW: 'Reset view',
@@ -102,6 +203,16 @@ export const UI_MESSAGES = {
   FLOOR_EDITOR_POLYGON_IS_WALL_LABEL: 'This is a wall (not a POI)',
   FLOOR_EDITOR_POLYGON_SAVE: 'Save',
   FLOOR_EDITOR_POLYGON_CANCEL: 'Cancel',
+  FLOOR_EDITOR_POLYGON_EDIT_SHAPE: 'Edit Shape',
+  FLOOR_EDITOR_SHAPE_TITLE: 'Editing shape',
+  FLOOR_EDITOR_SHAPE_HELP: 'Drag corners to move them, drag the small side handles to add corners and right-click a corner to delete it. Drag ✥ to move the whole shape and ↻ to rotate it.',
+  FLOOR_EDITOR_SHAPE_PART: 'Part',
+  FLOOR_EDITOR_SHAPE_REMOVE_PART: 'Remove part',
+  FLOOR_EDITOR_TOOL_CUT: 'Cut Hole',
+  FLOOR_EDITOR_CUT_INSTRUCTION_START: 'Click inside a polygon to start drawing the hole',
+  FLOOR_EDITOR_CUT_INSTRUCTION_DRAWING: 'Drawing hole. Click near start to cut it.',
+  FLOOR_EDITOR_CUT_OUTSIDE: 'The hole has to sit entirely inside one polygon.',
+  FLOOR_EDITOR_CUT_INVALID: 'The hole cannot be cut:',
   FLOOR_EDITOR_COORDINATES_LABEL: 'Coordinates:',
   FLOOR_EDITOR_MAP_LOADING: 'Loading map...',
   FLOOR_EDITOR_GEOLOCATION_ERROR: 'Error getting location',
@@ -111,10 +222,49 @@ export const UI_MESSAGES = {
   FLOOR_EDITOR_SAVE_ERROR: 'Some changes could not be saved. Please try again.',
   FLOOR_EDITOR_SAVE_IN_PROGRESS: 'Saving changes...',
   FLOOR_EDITOR_QUEUE_RETRY: 'Retry failed changes',
+  FLOOR_EDITOR_QUEUE_TITLE: 'Pending Changes',
+  FLOOR_EDITOR_QUEUE_EMPTY: 'No pending changes.',
+  FLOOR_EDITOR_QUEUE_REVIEW: 'Review',
+  FLOOR_EDITOR_QUEUE_COMMIT: 'Commit',
+  FLOOR_EDITOR_QUEUE_DISCARD_ALL: 'Discard All',
+  FLOOR_EDITOR_QUEUE_CONFIRM_DISCARD: 'Discard all pending changes? This cannot be undone.',
+  FLOOR_EDITOR_QUEUE_CLOSE: 'Close',
+  FLOOR_EDITOR_QUEUE_NOT_STORED: 'Pending changes could not be stored by this browser. Commit them before reloading or they will be lost.',
+  FLOOR_EDITOR_UNDO: 'Undo',
+  FLOOR_EDITOR_REDO: 'Redo',
   FLOOR_EDITOR_SAMPLE_DATA_INFO: 'Sample data objects will be created as new items in the database.',
   FLOOR_EDITOR_BACKEND_ERROR: 'Backend server error. Please check if the server is running.',
   FLOOR_EDITOR_EDIT_BEACON_TITLE: 'Edit Beacon',
   FLOOR_EDITOR_EDIT_NODE_TITLE: 'Edit Route Node',
+  FLOOR_EDITOR_EDGE_TITLE: 'Edge',
+  FLOOR_EDITOR_EDGE_CLOSED: 'Closed (routes will not use it)',
+  FLOOR_EDITOR_EDGE_INVALID: 'Slope must be a number and width a positive number.',
+  FLOOR_EDITOR_EDGE_LENGTH: 'Length',
+  FLOOR_EDITOR_EDGE_TOTAL_LENGTH: 'Total length',
+  FLOOR_EDITOR_MEASURE_AREA_PERIMETER: 'Area · perimeter',
+  FLOOR_EDITOR_EDGE_EDIT: 'Edit accessibility',
+  FLOOR_EDITOR_EDGE_DELETE: 'Delete connection',
+  FLOOR_EDITOR_EDGE_DELETE_SELECTED: 'Delete connections',
+  FLOOR_EDITOR_EDGE_SPLIT: 'Split at midpoint',
+  FLOOR_EDITOR_EDGES_SELECTED: 'connections selected',
+  FLOOR_EDITOR_EDGE_CLEAR_SELECTION: 'Clear selection',
+  FLOOR_EDITOR_BULK_TITLE: 'Selection',
+  FLOOR_EDITOR_BULK_HIDE: 'Hide',
+  FLOOR_EDITOR_BULK_SHOW: 'Show',
+  FLOOR_EDITOR_BULK_DELETE: 'Delete',
+  FLOOR_EDITOR_BULK_APPLY: 'Apply',
+  FLOOR_EDITOR_BULK_CONFIRM: 'Confirm',
+  FLOOR_EDITOR_BULK_KEEP: 'Unchanged',
+  FLOOR_EDITOR_BULK_COPY: 'Copy (Ctrl+C)',
+  FLOOR_EDITOR_BULK_DUPLICATE: 'Duplicate (Ctrl+D)',
+  FLOOR_EDITOR_BULK_MERGE: 'Merge polygons',
+  FLOOR_EDITOR_BULK_MERGE_INVALID: 'The polygons cannot be merged:',
+  FLOOR_EDITOR_NODE_ACCESSIBILITY: 'Accessibility',
+  FLOOR_EDITOR_SHAFT_MANAGE: 'Manage shaft',
+  FLOOR_EDITOR_SHAFT_SERVES: 'Serves',
+  FLOOR_EDITOR_SHAFT_OUT_OF_SERVICE: 'Out of service (routes will not use it to change floors)',
+  FLOOR_EDITOR_SHAFT_STAIRS_HINT: 'Stairs only link each floor to the next one up and down.',
+  FLOOR_EDITOR_SHAFT_LOADING: 'Loading the other floors of this shaft...',
   FLOOR_EDITOR_EDIT_SAVE: 'Save',
   FLOOR_EDITOR_EDIT_CANCEL: 'Cancel',
 } as const;
@@ -4,4 +4,21 @@
 
 export * from './useMapState';
 export * from './useDrawingState';
-export * from './useDialogState';
\ No newline at end of file
+export * from './useDialogState';
+export * from './useChangeQueue';
+export * from './useEditHistory';
+export * from './useRouteTester';
+export * from './useBuildingRouteNodes';
+export * from './useGraphValidation';
+export * from './useFloorPlanOverlay';
+export * from './useSnapping';
+export * from './useWalkwayGraph';
+export * from './useBeaconCoverage';
+export * from './useBeaconPlacement';
+export * from './useBeaconIdAllocation';
+export * from './useBeaconFleetHealth';
+export * from './useBuildingStack';
+export * from './useShafts';
+export * from './usePolygonShapeEditor';
+export * from './useRuler';
+export * from './useLayerVisibility';
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { useState, useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Beacon } from "../interfaces/Beacon";
+import { BeaconType } from "../interfaces/BeaconType";
+import { Polygon } from "../interfaces/Polygon";
+import { beaconTypesApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import { CoverageDisplayMode, CoverageMap, CoverageSettings, DEFAULT_COVERAGE_SETTINGS, computeCoverage } from "../utils/beaconCoverage";
+
+const logger = createLogger("useBeaconCoverage");
+
+/**
+ * State for the beacon coverage heatmap. Coverage is recomputed from the staged polygons and
+ * beacons while the heatmap is shown, so moving a beacon updates it right away.
+ */
+export function useBeaconCoverage(polygons: Polygon[], beacons: Beacon[]) {
+    const [isVisible, setIsVisible] = useState(false);
+    const [mode, setMode] = useState<CoverageDisplayMode>("signal");
+    const [settings, setSettings] = useState<CoverageSettings>(DEFAULT_COVERAGE_SETTINGS);
+
+    // Range and transmission power come from the beacon types
+    const { data: beaconTypes, isLoading, error } = useQuery<BeaconType[]>({
+        queryKey: ['beaconTypes'],
+        queryFn: () => beaconTypesApi.getAll(),
+        enabled: isVisible,
+    });
+
+    const coverage = useMemo<CoverageMap | null>(() => {
+        if (!isVisible || !beaconTypes) return null;
+        return computeCoverage(polygons, beacons, beaconTypes, settings);
+    }, [isVisible, beaconTypes, polygons, beacons, settings]);
+
+    const toggle = useCallback(() => {
+        logger.userAction("Coverage heatmap toggled");
+        setIsVisible(visible => !visible);
+    }, []);
+
+    const updateSettings = useCallback((changes: Partial<CoverageSettings>) => {
+        setSettings(current => ({ ...current, ...changes }));
+    }, []);
+
+    return {
+        // State
+        isVisible,
+        isLoading,
+        error: error ? (error as Error).message : null,
+        coverage,
+        mode,
+        settings,
+
+        // Methods
+        toggle,
+        setMode,
+        updateSettings
+    };
+}
@@ -0,0 +1,158 @@
+import { useState, useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Beacon } from "../interfaces/Beacon";
+import { Building } from "../interfaces/Building";
+import { Floor } from "../interfaces/Floor";
+import { beaconsApi, buildingsApi, floorsApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import {
+    BeaconHealth,
+    BeaconHealthSettings,
+    BeaconHealthStatus,
+    DEFAULT_BEACON_HEALTH_SETTINGS,
+    assessFleetHealth,
+    buildReplacementWorkList,
+    getBatteryDistribution
+} from "../utils/beaconHealth";
+
+const logger = createLogger("useBeaconFleetHealth");
+
+export type FleetSortKey = "urgency" | "battery" | "lastSeen" | "name";
+
+const compareBy: Record<FleetSortKey, (a: BeaconHealth, b: BeaconHealth) => number> = {
+    urgency: (a, b) => b.urgency - a.urgency,
+    battery: (a, b) => a.beacon.properties.battery_level - b.beacon.properties.battery_level,
+    // Never-seen beacons first, then the longest silent
+    lastSeen: (a, b) => (b.hoursSilent ?? Infinity) - (a.hoursSilent ?? Infinity),
+    name: (a, b) => a.beacon.properties.name.localeCompare(b.beacon.properties.name),
+};
+
+/**
+ * State for the beacon fleet health view: every beacon in every building, rated against the
+ * battery and silence limits the admin sets
+ */
+export function useBeaconFleetHealth() {
+    const queryClient = useQueryClient();
+    const [settings, setSettings] = useState<BeaconHealthSettings>(DEFAULT_BEACON_HEALTH_SETTINGS);
+    const [buildingId, setBuildingId] = useState<number | null>(null);
+    const [mapFloorId, setMapFloorId] = useState<number | null>(null);
+    const [sortKey, setSortKey] = useState<FleetSortKey>("urgency");
+    const [updatingBeaconId, setUpdatingBeaconId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const beaconsQuery = useQuery<Beacon[]>({
+        queryKey: ['beacons', 'all'],
+        queryFn: () => beaconsApi.getAll(),
+    });
+    const { data: buildings = [] } = useQuery<Building[]>({
+        queryKey: ['buildings'],
+        queryFn: () => buildingsApi.getAll(),
+    });
+    const { data: floors = [] } = useQuery<Floor[]>({
+        queryKey: ['floors', 'all'],
+        queryFn: () => floorsApi.getAll(),
+    });
+
+    const visibleFloors = useMemo(
+        () => floors.filter(f => buildingId === null || f.buildingId === buildingId).sort((a, b) => a.floorNumber - b.floorNumber),
+        [floors, buildingId]
+    );
+
+    const beacons = useMemo(() => {
+        const floorIds = new Set(visibleFloors.map(f => f.id));
+        return (beaconsQuery.data ?? []).filter(b => buildingId === null || floorIds.has(b.properties.floor_id));
+    }, [beaconsQuery.data, visibleFloors, buildingId]);
+
+    // Silence is measured from the moment the beacons were fetched, so the view is stable between refreshes
+    const fetchedAt = beaconsQuery.dataUpdatedAt;
+    const health = useMemo(
+        () => assessFleetHealth(beacons, settings, fetchedAt || Date.now()),
+        [beacons, settings, fetchedAt]
+    );
+
+    const sortedHealth = useMemo(() => [...health].sort(compareBy[sortKey]), [health, sortKey]);
+
+    const statusCounts = useMemo(() => {
+        const counts: Record<BeaconHealthStatus, number> = { "healthy": 0, "low-battery": 0, "silent": 0, "critical": 0, "inactive": 0 };
+        health.forEach(h => counts[h.status]++);
+        return counts;
+    }, [health]);
+
+    const batteryDistribution = useMemo(() => getBatteryDistribution(beacons), [beacons]);
+
+    const mapFloorHealth = useMemo(
+        () => health.filter(h => h.beacon.properties.floor_id === mapFloorId),
+        [health, mapFloorId]
+    );
+
+    const updateSettings = useCallback((changes: Partial<BeaconHealthSettings>) => {
+        setSettings(current => ({ ...current, ...changes }));
+    }, []);
+
+    const selectBuilding = useCallback((id: number | null) => {
+        setBuildingId(id);
+        setMapFloorId(null);
+    }, []);
+
+    const refresh = useCallback(() => {
+        logger.userAction("Beacon fleet health refreshed");
+        queryClient.invalidateQueries({ queryKey: ['beacons', 'all'] });
+    }, [queryClient]);
+
+    // Reported straight to the server; the beacon's own next report would overwrite it anyway
+    const markBatteryReplaced = useCallback(async (beacon: Beacon) => {
+        setUpdatingBeaconId(beacon.properties.id);
+        setError(null);
+        try {
+            await beaconsApi.updateBattery(beacon.properties.id, 100);
+            logger.userAction("Beacon battery marked as replaced", { beaconId: beacon.properties.id });
+            queryClient.invalidateQueries({ queryKey: ['beacons'] });
+        } catch (updateError) {
+            logger.error("Failed to update beacon battery", updateError as Error, { beaconId: beacon.properties.id });
+            setError((updateError as Error).message);
+        } finally {
+            setUpdatingBeaconId(null);
+        }
+    }, [queryClient]);
+
+    const exportWorkList = useCallback(() => {
+        const csv = buildReplacementWorkList(health, floors, buildings);
+        const blob = new Blob([csv], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `beacon-replacements-${new Date().toISOString().slice(0, 10)}.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        logger.userAction("Beacon replacement work list exported", { buildingId, settings });
+    }, [health, floors, buildings, buildingId, settings]);
+
+    return {
+        // State
+        buildings,
+        floors: visibleFloors,
+        allFloors: floors,
+        health: sortedHealth,
+        statusCounts,
+        batteryDistribution,
+        settings,
+        buildingId,
+        mapFloorId,
+        mapFloorHealth,
+        sortKey,
+        updatingBeaconId,
+        isLoading: beaconsQuery.isLoading,
+        error: error ?? (beaconsQuery.error ? (beaconsQuery.error as Error).message : null),
+
+        // Methods
+        updateSettings,
+        selectBuilding,
+        setMapFloorId,
+        setSortKey,
+        refresh,
+        markBatteryReplaced,
+        exportWorkList
+    };
+}
@@ -0,0 +1,182 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Beacon } from "../interfaces/Beacon";
+import { Building } from "../interfaces/Building";
+import { Floor } from "../interfaces/Floor";
+import { FloorEditorService } from "../services/FloorEditorService";
+import { beaconsApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import {
+    BeaconIdReassignment,
+    BuildingBeaconAllocation,
+    buildProvisioningSheet,
+    deriveBuildingAllocation,
+    findDuplicateBeaconIds,
+    generateBeaconUuid,
+    isBeaconIdInScheme,
+    planBeaconIdReallocation,
+    resizeFloorMajorRanges
+} from "../utils/beaconIdAllocation";
+
+const logger = createLogger("useBeaconIdAllocation");
+
+/**
+ * State for a building's iBeacon ID manager: its numbering scheme, ID collisions across every
+ * building, and the re-allocation wizard. The scheme is derived from the beacons on the server, and
+ * collisions are checked against all of them, since a phone near two buildings hears both. A scheme
+ * changed here or used for a re-allocation is kept until the building changes, so reloading the
+ * beacons afterwards doesn't swap it back for the one the server's majority still uses.
+ */
+export function useBeaconIdAllocation(building: Building | null, floors: Floor[]) {
+    const queryClient = useQueryClient();
+    const [chosenAllocation, setChosenAllocation] = useState<BuildingBeaconAllocation | null>(null);
+    const [plan, setPlan] = useState<BeaconIdReassignment[] | null>(null);
+    const [duplicatesOnly, setDuplicatesOnly] = useState(true);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { data: allBeacons, isLoading, error: loadError } = useQuery<Beacon[]>({
+        queryKey: ['beacons', 'all'],
+        queryFn: () => beaconsApi.getAll(),
+        enabled: !!building,
+    });
+
+    useEffect(() => {
+        setChosenAllocation(null);
+        setPlan(null);
+        setError(null);
+    }, [building, floors]);
+
+    const derived = useMemo(() => {
+        if (!building || !allBeacons) return { allocation: null, error: null };
+        try {
+            return { allocation: deriveBuildingAllocation(building.id, floors, allBeacons), error: null };
+        } catch (resolveError) {
+            logger.error("Failed to resolve beacon ID scheme", resolveError as Error, { buildingId: building.id });
+            return { allocation: null, error: (resolveError as Error).message };
+        }
+    }, [building, floors, allBeacons]);
+
+    const allocation = chosenAllocation ?? derived.allocation;
+
+    const buildingBeacons = useMemo(() => {
+        const floorIds = new Set(floors.map(f => f.id));
+        return (allBeacons ?? []).filter(b => floorIds.has(b.properties.floor_id));
+    }, [allBeacons, floors]);
+
+    // Only collisions involving this building's beacons are its business
+    const conflicts = useMemo(() => {
+        const buildingBeaconIds = new Set(buildingBeacons.map(b => b.properties.id));
+        return findDuplicateBeaconIds(allBeacons ?? []).filter(c => c.beacons.some(b => buildingBeaconIds.has(b.properties.id)));
+    }, [allBeacons, buildingBeacons]);
+
+    const outsideSchemeCount = useMemo(
+        () => allocation ? buildingBeacons.filter(b => !isBeaconIdInScheme(b, allocation)).length : 0,
+        [allocation, buildingBeacons]
+    );
+
+    // Nothing is stored: a new UUID or block size reaches the server through the re-allocation
+    const updateAllocation = useCallback((next: BuildingBeaconAllocation) => {
+        setChosenAllocation(next);
+        setPlan(null);
+    }, []);
+
+    const regenerateUuid = useCallback(() => {
+        if (!allocation) return;
+        logger.userAction("Building beacon UUID regenerated", { buildingId: allocation.buildingId });
+        updateAllocation({ ...allocation, uuid: generateBeaconUuid() });
+    }, [allocation, updateAllocation]);
+
+    const setMajorsPerFloor = useCallback((majorsPerFloor: number) => {
+        if (!allocation) return;
+        try {
+            setError(null);
+            updateAllocation(resizeFloorMajorRanges(allocation, floors, majorsPerFloor));
+        } catch (resizeError) {
+            setError((resizeError as Error).message);
+        }
+    }, [allocation, floors, updateAllocation]);
+
+    const planReallocation = useCallback(() => {
+        if (!allocation || !allBeacons) return;
+        try {
+            setError(null);
+            logger.userAction("Beacon ID re-allocation planned", { buildingId: allocation.buildingId, duplicatesOnly });
+            setPlan(planBeaconIdReallocation(allocation, buildingBeacons, allBeacons, duplicatesOnly));
+            // The plan's identities use this scheme, whatever the server's beacons suggest once it is applied
+            setChosenAllocation(allocation);
+        } catch (planError) {
+            logger.error("Failed to plan beacon ID re-allocation", planError as Error);
+            setPlan(null);
+            setError((planError as Error).message);
+        }
+    }, [allocation, allBeacons, buildingBeacons, duplicatesOnly]);
+
+    const discardPlan = useCallback(() => {
+        setPlan(null);
+    }, []);
+
+    const applyPlan = useCallback(async () => {
+        if (!plan) return;
+
+        setIsApplying(true);
+        setError(null);
+        let applied = 0;
+
+        try {
+            // One at a time, so a failure leaves a clear split between renumbered and pending beacons
+            for (const { beacon, to } of plan) {
+                await FloorEditorService.updateBeacon(beacon, { uuid: to.uuid, majorId: to.major, minorId: to.minor });
+                applied++;
+            }
+            logger.userAction("Beacon ID re-allocation applied", { buildingId: building?.id, count: applied });
+            setPlan(null);
+        } catch (applyError) {
+            logger.error("Failed to apply beacon ID re-allocation", applyError as Error, { applied });
+            setPlan(plan.slice(applied));
+            setError(`Updated ${applied} of ${plan.length} beacons: ${(applyError as Error).message}`);
+        } finally {
+            setIsApplying(false);
+            if (applied > 0) {
+                queryClient.invalidateQueries({ queryKey: ['beacons'] });
+            }
+        }
+    }, [plan, building, queryClient]);
+
+    const downloadProvisioningSheet = useCallback(() => {
+        if (!building) return;
+
+        const blob = new Blob([buildProvisioningSheet(building, floors, buildingBeacons)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${building.name}-beacon-provisioning.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        logger.userAction("Beacon provisioning sheet downloaded", { buildingId: building.id, beaconCount: buildingBeacons.length });
+    }, [building, floors, buildingBeacons]);
+
+    return {
+        // State
+        allocation,
+        buildingBeacons,
+        conflicts,
+        outsideSchemeCount,
+        plan,
+        duplicatesOnly,
+        isLoading,
+        isApplying,
+        error: error ?? derived.error ?? (loadError ? (loadError as Error).message : null),
+
+        // Methods
+        regenerateUuid,
+        setMajorsPerFloor,
+        setDuplicatesOnly,
+        planReallocation,
+        discardPlan,
+        applyPlan,
+        downloadProvisioningSheet
+    };
+}
@@ -0,0 +1,141 @@
+import { useState, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Beacon } from "../interfaces/Beacon";
+import { BeaconType } from "../interfaces/BeaconType";
+import { Polygon } from "../interfaces/Polygon";
+import { FloorEditorService } from "../services/FloorEditorService";
+import { beaconTypesApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import { CoverageSettings, MIN_BEACONS_FOR_POSITIONING } from "../utils/beaconCoverage";
+import { BeaconPlacementProposal, optimizeBeaconPlacement } from "../utils/beaconPlacement";
+
+const logger = createLogger("useBeaconPlacement");
+
+const MAX_PROPOSED_BEACONS = 200;
+
+export interface BeaconPlacementTarget {
+    beaconTypeId: number | null;
+    minBeaconsHeard: number;
+    keepExisting: boolean;
+}
+
+/**
+ * State for the beacon placement optimizer. Proposed positions are only shown until they are
+ * accepted, which creates all of them on the server right away.
+ */
+export function useBeaconPlacement(floorId: number, polygons: Polygon[], beacons: Beacon[], coverageSettings: CoverageSettings) {
+    const queryClient = useQueryClient();
+    const [isOpen, setIsOpen] = useState(false);
+    const [target, setTarget] = useState<BeaconPlacementTarget>({
+        beaconTypeId: null,
+        minBeaconsHeard: MIN_BEACONS_FOR_POSITIONING,
+        keepExisting: true,
+    });
+    const [proposal, setProposal] = useState<BeaconPlacementProposal | null>(null);
+    const [isOptimizing, setIsOptimizing] = useState(false);
+    const [isAccepting, setIsAccepting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { data: beaconTypes = [] } = useQuery<BeaconType[]>({
+        queryKey: ['beaconTypes'],
+        queryFn: () => beaconTypesApi.getAll(),
+        enabled: isOpen,
+    });
+
+    const open = useCallback(() => setIsOpen(true), []);
+
+    const close = useCallback(() => {
+        setIsOpen(false);
+        setProposal(null);
+        setError(null);
+    }, []);
+
+    const updateTarget = useCallback((changes: Partial<BeaconPlacementTarget>) => {
+        setTarget(current => ({ ...current, ...changes }));
+    }, []);
+
+    const optimize = useCallback(async () => {
+        const beaconType = beaconTypes.find(t => t.id === target.beaconTypeId);
+        if (!beaconType) return;
+
+        setIsOptimizing(true);
+        setError(null);
+
+        try {
+            // Let the spinner paint before the (synchronous) optimization blocks the thread
+            await new Promise(resolve => setTimeout(resolve, 0));
+            logger.userAction("Beacon placement optimization started", { floorId, ...target });
+            setProposal(optimizeBeaconPlacement(polygons, beacons, beaconTypes, {
+                beaconType,
+                minBeaconsHeard: target.minBeaconsHeard,
+                keepExisting: target.keepExisting,
+                maxBeacons: MAX_PROPOSED_BEACONS,
+                settings: coverageSettings,
+            }));
+        } catch (optimizeError) {
+            logger.error("Failed to optimize beacon placement", optimizeError as Error);
+            setProposal(null);
+            setError((optimizeError as Error).message);
+        } finally {
+            setIsOptimizing(false);
+        }
+    }, [floorId, polygons, beacons, beaconTypes, target, coverageSettings]);
+
+    const discard = useCallback(() => {
+        setProposal(null);
+    }, []);
+
+    const accept = useCallback(async () => {
+        if (!proposal) return;
+        const beaconType = beaconTypes.find(t => t.id === proposal.beaconTypeId);
+
+        setIsAccepting(true);
+        setError(null);
+        const numberOffset = beacons.length;
+        let created = 0;
+
+        try {
+            // One at a time, so a failure leaves a clear split between created and still-proposed beacons
+            for (const [lng, lat] of proposal.positions) {
+                await FloorEditorService.createBeacon({
+                    floorId,
+                    name: `${beaconType?.name ?? "Beacon"} ${numberOffset + created + 1}`,
+                    lng,
+                    lat,
+                    beaconTypeId: proposal.beaconTypeId,
+                });
+                created++;
+            }
+            logger.userAction("Proposed beacons accepted", { floorId, count: created });
+            setProposal(null);
+        } catch (acceptError) {
+            logger.error("Failed to create proposed beacons", acceptError as Error, { created });
+            setProposal({ ...proposal, positions: proposal.positions.slice(created) });
+            setError(`Created ${created} of ${proposal.positions.length} beacons: ${(acceptError as Error).message}`);
+        } finally {
+            setIsAccepting(false);
+            if (created > 0) {
+                queryClient.invalidateQueries({ queryKey: ['beacons', floorId] });
+            }
+        }
+    }, [proposal, beaconTypes, beacons.length, floorId, queryClient]);
+
+    return {
+        // State
+        isOpen,
+        beaconTypes,
+        target,
+        proposal,
+        isOptimizing,
+        isAccepting,
+        error,
+
+        // Methods
+        open,
+        close,
+        updateTarget,
+        optimize,
+        discard,
+        accept
+    };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef } from "react";
+import { queryOptions, useQueryClient } from "@tanstack/react-query";
+import { Floor } from "../interfaces/Floor";
+import { RouteNode, normalizeRouteNodeConnections } from "../interfaces/RouteNode";
+import { routeNodesApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useBuildingRouteNodes");
+
+// Other floors' graphs only change when someone edits them, so a short cache is plenty
+const OTHER_FLOOR_STALE_TIME = 30000;
+
+const normalizeFloorNodes = (nodes: RouteNode[]) => nodes.map(normalizeRouteNodeConnections);
+
+/**
+ * Query for another floor's route nodes, shared by every reader so the cache entry under
+ * `['routeNodes', floorId]` always holds the server's response and is normalized the same way.
+ */
+export const floorRouteNodesQueryOptions = (targetFloorId: number) => queryOptions({
+    queryKey: ['routeNodes', targetFloorId],
+    queryFn: () => routeNodesApi.getByFloor(targetFloorId),
+    staleTime: OTHER_FLOOR_STALE_TIME,
+    select: normalizeFloorNodes,
+});
+
+/**
+ * Loads the route nodes of every other floor in the building, for tools that need the whole
+ * graph (multi-floor routing, vertical link checks). Results are shared through the query cache.
+ */
+export function useBuildingRouteNodes(floorId: number, buildingFloors: Floor[]) {
+    const queryClient = useQueryClient();
+
+    // Ref so callers bound once at map init still see the building's floors once they load
+    const buildingFloorsRef = useRef<Floor[]>(buildingFloors);
+    useEffect(() => {
+        buildingFloorsRef.current = buildingFloors;
+    }, [buildingFloors]);
+
+    const loadFloorNodes = useCallback(async (targetFloorId: number): Promise<RouteNode[]> => {
+        // fetchQuery skips `select`, so it is applied here
+        return normalizeFloorNodes(await queryClient.fetchQuery(floorRouteNodesQueryOptions(targetFloorId)));
+    }, [queryClient]);
+
+    const loadOtherFloorNodes = useCallback(async (): Promise<RouteNode[]> => {
+        const otherFloors = buildingFloorsRef.current.filter(f => f.id !== floorId);
+        logger.info("Loading route nodes for other floors", { floorId, floorCount: otherFloors.length });
+        const otherNodes = await Promise.all(otherFloors.map(f => loadFloorNodes(f.id)));
+        return otherNodes.flat();
+    }, [floorId, loadFloorNodes]);
+
+    return {
+        loadFloorNodes,
+        loadOtherFloorNodes
+    };
+}
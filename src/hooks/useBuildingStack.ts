@@ -0,0 +1,101 @@
+import { useState, useCallback, useMemo } from "react";
+import { UseQueryResult, useQueries, useQuery } from "@tanstack/react-query";
+import { Building } from "../interfaces/Building";
+import { Floor } from "../interfaces/Floor";
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { normalizeRouteNodeConnections } from "../interfaces/RouteNode";
+import { getFloorLayoutData } from "../components/FloorEditor/UseFloorLayoutData";
+import { buildingsApi, floorsApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import { DEFAULT_FLOOR_SPACING, StackedFloor, buildStackedFeatures, findVerticalConnections } from "../utils/buildingStack";
+
+const logger = createLogger("useBuildingStack");
+
+// Module level, so the combined result keeps its identity until a layout actually changes
+const combineLayoutResults = (results: UseQueryResult<FloorLayoutData>[]) => ({
+    data: results.map(r => r.data),
+    loadedCount: results.filter(r => r.data).length,
+    error: results.find(r => r.error)?.error ?? null,
+});
+
+/**
+ * Loads every floor of a building with its layout for the stacked building view. Layouts come
+ * from the same cache as the floor editor, so an open editor and this view stay in step.
+ */
+export function useBuildingStack(buildingId: number) {
+    const [hiddenFloorIds, setHiddenFloorIds] = useState<Set<number>>(new Set());
+    const [floorSpacing, setFloorSpacing] = useState(DEFAULT_FLOOR_SPACING);
+
+    const { data: building } = useQuery<Building>({
+        queryKey: ['building', buildingId],
+        queryFn: () => buildingsApi.getById(buildingId),
+        enabled: !!buildingId,
+    });
+
+    const floorsQuery = useQuery<Floor[]>({
+        queryKey: ['buildingFloors', buildingId],
+        queryFn: () => floorsApi.getByBuilding(buildingId),
+        enabled: !!buildingId,
+    });
+
+    const floors = useMemo(
+        () => [...(floorsQuery.data ?? [])].sort((a, b) => a.floorNumber - b.floorNumber),
+        [floorsQuery.data]
+    );
+
+    const layouts = useQueries({
+        queries: floors.map(floor => ({
+            queryKey: ['floorLayout', floor.id],
+            queryFn: () => getFloorLayoutData(floor.id),
+        })),
+        combine: combineLayoutResults,
+    });
+
+    const stacked = useMemo<StackedFloor[]>(
+        () => floors.flatMap((floor, i) => {
+            const layout = layouts.data[i];
+            return layout ? [{ floor, polygons: layout.polygons, nodes: layout.nodes.map(normalizeRouteNodeConnections) }] : [];
+        }),
+        [floors, layouts.data]
+    );
+
+    const features = useMemo(
+        () => buildStackedFeatures(stacked, hiddenFloorIds, floorSpacing),
+        [stacked, hiddenFloorIds, floorSpacing]
+    );
+
+    const verticalConnectionCount = useMemo(
+        () => findVerticalConnections(stacked.flatMap(s => s.nodes)).length,
+        [stacked]
+    );
+
+    const toggleFloor = useCallback((floorId: number) => {
+        const next = new Set(hiddenFloorIds);
+        if (next.has(floorId)) {
+            next.delete(floorId);
+        } else {
+            next.add(floorId);
+        }
+        logger.userAction("Stacked view floor toggled", { floorId, visible: !next.has(floorId) });
+        setHiddenFloorIds(next);
+    }, [hiddenFloorIds]);
+
+    const showAllFloors = useCallback(() => setHiddenFloorIds(new Set()), []);
+
+    return {
+        // State
+        building,
+        floors,
+        features,
+        hiddenFloorIds,
+        floorSpacing,
+        verticalConnectionCount,
+        isLoading: floorsQuery.isLoading || (layouts.loadedCount < floors.length && !layouts.error),
+        error: (floorsQuery.error ?? layouts.error)?.message ?? null,
+
+        // Methods
+        toggleFloor,
+        showAllFloors,
+        setFloorSpacing
+    };
+}
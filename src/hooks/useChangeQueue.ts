@@ -0,0 +1,215 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ChangePayload, ChangeQueueItem, EntityChangeType } from "../interfaces/ChangeQueueItem";
+import { Polygon } from "../interfaces/Polygon";
+import { Beacon } from "../interfaces/Beacon";
+import { RouteNode } from "../interfaces/RouteNode";
+import { beaconsApi, polygonsApi, routeNodesApi } from "../utils/api";
+import { createLogger } from "../utils/logger";
+import {
+    createChangeQueueItem,
+    discardChange,
+    enqueueChange,
+    getNextTemporaryId,
+    getTargetId,
+    isConnectionChange,
+    isTemporaryId,
+    loadChangeQueue,
+    remapChangeIds,
+    saveChangeQueue,
+    sortForCommit,
+} from "../utils/changeQueue";
+import { UI_MESSAGES } from "../constants/ui";
+import { Createable, useEntityMutations } from "../components/FloorEditor/useEntityMutations";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+
+const logger = createLogger("useChangeQueue");
+
+export interface CommitResult {
+    committed: number;
+    failed: ChangeQueueItem | null;
+    error: Error | null;
+    idMap: Map<number, number>;
+}
+
+type Entity = Polygon | Beacon | RouteNode;
+type EntityMutations<T extends Entity> = ReturnType<typeof useEntityMutations<T>>;
+
+const withoutId = <P extends { id: number }>({ id, ...properties }: P): Omit<P, "id"> => properties;
+
+/**
+ * Strips the temporary ID before creation
+ */
+const toCreatePayload = <T extends Entity>(entity: T): Createable<T> => ({
+    type: entity.type,
+    geometry: entity.geometry,
+    properties: withoutId(entity.properties),
+});
+
+/**
+ * Connections are committed separately: a new node starts without any, and an update drops
+ * connections to nodes that do not exist on the server yet
+ */
+const toNodePayload = (type: EntityChangeType, node: RouteNode): RouteNode => {
+    const connections = type === CHANGE_TYPES.ADD ? [] : (node.properties.connections ?? []).filter(c => !isTemporaryId(c));
+    return { ...node, properties: { ...node.properties, connections } };
+};
+
+/**
+ * Creates or updates an entity, returning the server ID of a created one
+ */
+const saveEntity = async <T extends Entity>(mutations: EntityMutations<T>, type: EntityChangeType, entity: T): Promise<number | null> => {
+    if (type === CHANGE_TYPES.EDIT) {
+        await mutations.update.mutateAsync({ data: entity });
+        return null;
+    }
+    const created = await mutations.create.mutateAsync({ data: toCreatePayload(entity) });
+    const newId = created?.id || created?.properties?.id;
+    if (!newId) {
+        throw new Error("Backend didn't return an ID");
+    }
+    return newId;
+};
+
+export function useChangeQueue(floorId: number) {
+    const queryClient = useQueryClient();
+    const [queue, setQueue] = useState<ChangeQueueItem[]>(() => loadChangeQueue(floorId));
+    const [isCommitting, setIsCommitting] = useState(false);
+    const [commitError, setCommitError] = useState<string | null>(null);
+    const [storageError, setStorageError] = useState<string | null>(null);
+
+    // Ref mirrors the queue so handlers created before the last render see the latest changes
+    const queueRef = useRef<ChangeQueueItem[]>(queue);
+    // Temporary IDs are never reused while the editor is open, so undone creations can be redone safely
+    const lastTemporaryIdRef = useRef(0);
+
+    const poisMutations = useEntityMutations<Polygon>('pois', polygonsApi);
+    const beaconsMutations = useEntityMutations<Beacon>('beacons', beaconsApi);
+    const routeNodesMutations = useEntityMutations<RouteNode>('routeNodes', routeNodesApi);
+
+    const updateQueue = useCallback((next: ChangeQueueItem[]) => {
+        queueRef.current = next;
+        setQueue(next);
+        setStorageError(saveChangeQueue(floorId, next) ? null : UI_MESSAGES.FLOOR_EDITOR_QUEUE_NOT_STORED);
+    }, [floorId]);
+
+    // Reload when switching floors
+    useEffect(() => {
+        const stored = loadChangeQueue(floorId);
+        queueRef.current = stored;
+        setQueue(stored);
+        setCommitError(null);
+        setStorageError(null);
+    }, [floorId]);
+
+    const nextTemporaryId = useCallback((): number => {
+        const id = Math.min(getNextTemporaryId(queueRef.current), lastTemporaryIdRef.current - 1);
+        lastTemporaryIdRef.current = id;
+        return id;
+    }, []);
+
+    const enqueue = useCallback((change: ChangePayload): ChangeQueueItem => {
+        const item = createChangeQueueItem(queueRef.current, change);
+        logger.userAction("Change queued", { type: item.type, objectType: item.objectType, itemId: item.id });
+        updateQueue(enqueueChange(queueRef.current, item));
+        return item;
+    }, [updateQueue]);
+
+    const discard = useCallback((itemId: number) => {
+        logger.userAction("Queued change discarded", { itemId });
+        updateQueue(discardChange(queueRef.current, itemId));
+    }, [updateQueue]);
+
+    const discardAll = useCallback(() => {
+        logger.userAction("All queued changes discarded", { count: queueRef.current.length });
+        updateQueue([]);
+        setCommitError(null);
+    }, [updateQueue]);
+
+    const executeChange = useCallback(async (item: ChangeQueueItem): Promise<number | null> => {
+        if (isConnectionChange(item)) {
+            const { nodeId1, nodeId2 } = item.data;
+            if (item.type === CHANGE_TYPES.CONNECT) {
+                await routeNodesApi.addConnection(nodeId1, nodeId2);
+            } else {
+                await routeNodesApi.removeConnection(nodeId1, nodeId2);
+            }
+            return null;
+        }
+
+        if (item.type === CHANGE_TYPES.DELETE) {
+            const mutations = item.objectType === OBJECT_TYPES.POLYGON ? poisMutations :
+                              item.objectType === OBJECT_TYPES.BEACON ? beaconsMutations : routeNodesMutations;
+            await mutations.delete.mutateAsync(item.data.id);
+            return null;
+        }
+
+        if (item.objectType === OBJECT_TYPES.POLYGON) {
+            return saveEntity(poisMutations, item.type, item.data);
+        }
+        if (item.objectType === OBJECT_TYPES.BEACON) {
+            return saveEntity(beaconsMutations, item.type, item.data);
+        }
+        return saveEntity(routeNodesMutations, item.type, toNodePayload(item.type, item.data));
+    }, [poisMutations, beaconsMutations, routeNodesMutations]);
+
+    /**
+     * Replays the queue against the API in dependency order. Stops at the first failure and
+     * keeps the remaining changes (with any server IDs already resolved) for a retry.
+     */
+    const commit = useCallback(async (): Promise<CommitResult> => {
+        const ordered = sortForCommit(queueRef.current);
+        const idMap = new Map<number, number>();
+        let committed = 0;
+
+        logger.info("Committing change queue", { floorId, count: ordered.length });
+        setIsCommitting(true);
+        setCommitError(null);
+
+        try {
+            for (let i = 0; i < ordered.length; i++) {
+                const item = remapChangeIds(ordered[i], idMap);
+                try {
+                    const newId = await executeChange(item);
+                    const targetId = getTargetId(item);
+                    if (newId !== null && targetId !== null) {
+                        idMap.set(targetId, newId);
+                    }
+                    committed++;
+                } catch (error) {
+                    logger.error("Failed to commit queued change", error as Error, { item });
+                    updateQueue(ordered.slice(i).map(q => remapChangeIds(q, idMap)));
+                    setCommitError((error as Error).message);
+                    return { committed, failed: item, error: error as Error, idMap };
+                }
+            }
+
+            updateQueue([]);
+            logger.info("Change queue committed", { floorId, committed });
+            return { committed, failed: null, error: null, idMap };
+        } finally {
+            setIsCommitting(false);
+            queryClient.invalidateQueries({ queryKey: ['routeNodes'] });
+        }
+    }, [floorId, executeChange, updateQueue, queryClient]);
+
+    return {
+        // State
+        queue,
+        pendingCount: queue.length,
+        isCommitting,
+        commitError,
+        storageError,
+
+        // Refs
+        queueRef,
+
+        // Methods
+        nextTemporaryId,
+        enqueue,
+        discard,
+        discardAll,
+        commit
+    };
+}
@@ -1,4 +1,7 @@
 import { useState, useCallback } from "react";
+import { NodeAccessibility } from "../utils/routeAccessibility";
+
+const NO_NODE_ACCESSIBILITY: NodeAccessibility = { hasRamp: false, hasEscalator: false, hasDoor: false };
 
 export interface DialogState {
     // Polygon dialog
@@ -16,10 +19,15 @@ export interface DialogState {
     nodeName: string;
     editingNodeId: number | null;
     nodeLevel: number | null;
+    nodeAccessibility: NodeAccessibility;
     
     // Multi-floor node dialog
     showMultiFloorNodeDialog: boolean;
     pendingMultiFloorLocation: { lng: number; lat: number } | null;
+    editingShaftId: string | null;
+    
+    // Edge dialog
+    editingEdge: { nodeId1: number; nodeId2: number } | null;
     
     // Save status
     saveStatus: "idle" | "saving" | "success" | "error";
@@ -45,6 +53,7 @@ export function useDialogState() {
     const [nodeName, setNodeName] = useState("");
     const [editingNodeId, setEditingNodeId] = useState<number | null>(null);
     const [nodeLevel, setNodeLevel] = useState<number | null>(null);
+    const [nodeAccessibility, setNodeAccessibility] = useState<NodeAccessibility>(NO_NODE_ACCESSIBILITY);
     
     // Multi-floor node dialog state
     const [showMultiFloorNodeDialog, setShowMultiFloorNodeDialog] = useState(false);
@@ -52,6 +61,10 @@ export function useDialogState() {
         lng: number;
         lat: number;
     } | null>(null);
+    const [editingShaftId, setEditingShaftId] = useState<string | null>(null);
+    
+    // Edge dialog state
+    const [editingEdge, setEditingEdge] = useState<{ nodeId1: number; nodeId2: number } | null>(null);
     
     // Save status
     const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
@@ -84,10 +97,16 @@ export function useDialogState() {
         setEditingBeaconId(null);
     }, []);
 
-    const openNodeDialog = useCallback((name: string = "", editingId: number | null = null, level: number | null = null) => {
+    const openNodeDialog = useCallback((
+        name: string = "",
+        editingId: number | null = null,
+        level: number | null = null,
+        accessibility: NodeAccessibility = NO_NODE_ACCESSIBILITY
+    ) => {
         setNodeName(name);
         setEditingNodeId(editingId);
         setNodeLevel(level);
+        setNodeAccessibility(accessibility);
         setShowNodeDialog(true);
     }, []);
 
@@ -96,16 +115,27 @@ export function useDialogState() {
         setNodeName("");
         setEditingNodeId(null);
         setNodeLevel(null);
+        setNodeAccessibility(NO_NODE_ACCESSIBILITY);
     }, []);
 
-    const openMultiFloorNodeDialog = useCallback((location: { lng: number; lat: number }) => {
+    const openMultiFloorNodeDialog = useCallback((location: { lng: number; lat: number }, shaftId: string | null = null) => {
         setPendingMultiFloorLocation(location);
+        setEditingShaftId(shaftId);
         setShowMultiFloorNodeDialog(true);
     }, []);
 
     const closeMultiFloorNodeDialog = useCallback(() => {
         setShowMultiFloorNodeDialog(false);
         setPendingMultiFloorLocation(null);
+        setEditingShaftId(null);
+    }, []);
+
+    const openEdgeDialog = useCallback((nodeId1: number, nodeId2: number) => {
+        setEditingEdge({ nodeId1, nodeId2 });
+    }, []);
+
+    const closeEdgeDialog = useCallback(() => {
+        setEditingEdge(null);
     }, []);
 
     const updateSaveStatus = useCallback((status: "idle" | "saving" | "success" | "error", error: string | null = null) => {
@@ -147,6 +177,8 @@ export function useDialogState() {
         setEditingNodeId,
         nodeLevel,
         setNodeLevel,
+        nodeAccessibility,
+        setNodeAccessibility,
         openNodeDialog,
         closeNodeDialog,
         
@@ -155,9 +187,15 @@ export function useDialogState() {
         setShowMultiFloorNodeDialog,
         pendingMultiFloorLocation,
         setPendingMultiFloorLocation,
+        editingShaftId,
         openMultiFloorNodeDialog,
         closeMultiFloorNodeDialog,
         
+        // Edge dialog
+        editingEdge,
+        openEdgeDialog,
+        closeEdgeDialog,
+        
         // Save status
         saveStatus,
         setSaveStatus,
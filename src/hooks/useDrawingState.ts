@@ -1,6 +1,8 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Point } from "@maptiler/sdk";
 import { DrawingTool } from "../components/FloorEditor/DrawingToolbar";
+import { Edge } from "../utils/edgeEditing";
+import { SelectionItem } from "../utils/bulkEdit";
 
 export interface DrawingState {
     activeTool: DrawingTool;
@@ -11,7 +13,9 @@ export interface DrawingState {
     editingPolygonId: number | null;
     selectedNodeForConnection: number | null;
     lastPlacedNodeId: number | null;
-    selectedItem: { type: "polygon" | "beacon" | "node"; id: number } | null;
+    selectedItem: SelectionItem | null;
+    selectedItems: SelectionItem[];
+    selectedEdges: Edge[];
 }
 
 export function useDrawingState() {
@@ -37,10 +41,12 @@ export function useDrawingState() {
     const lastPlacedNodeIdRef = useRef<number | null>(null);
     
     // Selection state
-    const [selectedItem, setSelectedItem] = useState<{
-        type: "polygon" | "beacon" | "node";
-        id: number;
-    } | null>(null);
+    const [selectedItem, setSelectedItem] = useState<SelectionItem | null>(null);
+    // Everything picked by shift-click, box or lasso select, for bulk operations
+    const [selectedItems, setSelectedItemsState] = useState<SelectionItem[]>([]);
+    const selectedItemsRef = useRef<SelectionItem[]>([]);
+    const [selectedEdges, setSelectedEdgesState] = useState<Edge[]>([]);
+    const selectedEdgesRef = useRef<Edge[]>([]);
 
     // Update refs when state changes - using useEffect instead of callback to avoid unnecessary re-renders
     useEffect(() => {
@@ -51,9 +57,20 @@ export function useDrawingState() {
         lastPlacedNodeIdRef.current = lastPlacedNodeId;
     }, [activeTool, pendingPolygonPoints, isDrawingPolygon, selectedNodeForConnection, lastPlacedNodeId]);
 
+    // Kept in step with their refs right away, so shift-clicks in quick succession all count
+    const setSelectedEdges = useCallback((edges: Edge[]) => {
+        selectedEdgesRef.current = edges;
+        setSelectedEdgesState(edges);
+    }, []);
+
+    const setSelectedItems = useCallback((items: SelectionItem[]) => {
+        selectedItemsRef.current = items;
+        setSelectedItemsState(items);
+    }, []);
+
     const handleToolChange = useCallback((tool: DrawingTool) => {
-        // If switching away from POI tool, clear any polygon drawing state
-        if (activeTool === "poi" && tool !== "poi" && isDrawingPolygonRef.current) {
+        // If switching away from a polygon drawing tool (POI or cut), clear any polygon drawing state
+        if ((activeTool === "poi" || activeTool === "cut") && tool !== activeTool && isDrawingPolygonRef.current) {
             isDrawingPolygonRef.current = false;
             pendingPolygonPointsRef.current = [];
             setIsDrawingPolygon(false);
@@ -71,7 +88,9 @@ export function useDrawingState() {
         setActiveTool(tool);
         activeToolRef.current = tool;
         setSelectedItem(null);
-    }, [activeTool]);
+        setSelectedItems([]);
+        setSelectedEdges([]);
+    }, [activeTool, setSelectedEdges, setSelectedItems]);
 
     const resetPolygonDrawing = useCallback(() => {
         isDrawingPolygonRef.current = false;
@@ -110,6 +129,10 @@ export function useDrawingState() {
         setLastPlacedNodeId,
         selectedItem,
         setSelectedItem,
+        selectedItems,
+        setSelectedItems,
+        selectedEdges,
+        setSelectedEdges,
         
         // Refs
         activeToolRef,
@@ -117,6 +140,8 @@ export function useDrawingState() {
         isDrawingPolygonRef,
         selectedNodeForConnectionRef,
         lastPlacedNodeIdRef,
+        selectedItemsRef,
+        selectedEdgesRef,
         
         // Methods
         handleToolChange,
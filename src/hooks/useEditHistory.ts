@@ -0,0 +1,96 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { ChangePayload } from "../interfaces/ChangeQueueItem";
+import { createLogger } from "../utils/logger";
+import { HistoryChange, HistoryCommand, orderHistoryChanges, remapCommandIds } from "../utils/editHistory";
+
+const logger = createLogger("useEditHistory");
+
+const MAX_HISTORY = 100;
+
+type Enqueue = (change: ChangePayload) => unknown;
+
+/**
+ * Undo/redo stack for floor editor operations. Every step is applied by staging changes in the
+ * change queue, so undoing a committed operation stages its inverse for the next commit while
+ * undoing an uncommitted one simply cancels the pending changes.
+ */
+export function useEditHistory(floorId: number, enqueue: Enqueue) {
+    const undoStack = useRef<HistoryCommand[]>([]);
+    const redoStack = useRef<HistoryCommand[]>([]);
+    // Stacks live in refs so handlers bound once at map init see them; the counter triggers re-renders
+    const [, setVersion] = useState(0);
+
+    const notify = useCallback(() => setVersion(v => v + 1), []);
+
+    const applyChanges = useCallback((changes: HistoryChange[]) => {
+        for (const change of orderHistoryChanges(changes)) {
+            enqueue(change);
+        }
+    }, [enqueue]);
+
+    const clear = useCallback(() => {
+        undoStack.current = [];
+        redoStack.current = [];
+        notify();
+    }, [notify]);
+
+    // History does not carry over between floors
+    useEffect(() => {
+        clear();
+    }, [floorId, clear]);
+
+    const execute = useCallback((command: HistoryCommand) => {
+        logger.userAction("Command executed", { label: command.label });
+        applyChanges(command.changes);
+        undoStack.current = [...undoStack.current, command].slice(-MAX_HISTORY);
+        redoStack.current = [];
+        notify();
+    }, [applyChanges, notify]);
+
+    const undo = useCallback(() => {
+        const command = undoStack.current[undoStack.current.length - 1];
+        if (!command) return;
+
+        logger.userAction("Command undone", { label: command.label });
+        applyChanges(command.inverse);
+        undoStack.current = undoStack.current.slice(0, -1);
+        redoStack.current = [...redoStack.current, command];
+        notify();
+    }, [applyChanges, notify]);
+
+    const redo = useCallback(() => {
+        const command = redoStack.current[redoStack.current.length - 1];
+        if (!command) return;
+
+        logger.userAction("Command redone", { label: command.label });
+        applyChanges(command.changes);
+        redoStack.current = redoStack.current.slice(0, -1);
+        undoStack.current = [...undoStack.current, command];
+        notify();
+    }, [applyChanges, notify]);
+
+    // Temporary IDs recorded in the history are replaced once the server has assigned real ones
+    const remapIds = useCallback((idMap: Map<number, number>) => {
+        if (idMap.size === 0) return;
+        undoStack.current = undoStack.current.map(c => remapCommandIds(c, idMap));
+        redoStack.current = redoStack.current.map(c => remapCommandIds(c, idMap));
+    }, []);
+
+    const lastUndo = undoStack.current[undoStack.current.length - 1];
+    const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+    return {
+        // State
+        canUndo: !!lastUndo,
+        canRedo: !!lastRedo,
+        undoLabel: lastUndo?.label ?? null,
+        redoLabel: lastRedo?.label ?? null,
+
+        // Methods
+        execute,
+        undo,
+        redo,
+        remapIds,
+        clear
+    };
+}
@@ -0,0 +1,186 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { UI_MESSAGES } from "../constants/ui";
+import { createLogger } from "../utils/logger";
+import { loadFloorPlanImage } from "../utils/floorPlanImage";
+import {
+    CONTROL_POINT_COUNT,
+    FloorPlanControlPoint,
+    FloorPlanOverlay,
+    LngLatTuple,
+    MapBounds,
+    fitCornersToControlPoints,
+    fitImageToBounds,
+    loadFloorPlanOverlay,
+    moveRenderedCorner,
+    saveFloorPlanImage,
+    saveFloorPlanOverlay,
+} from "../utils/floorPlanOverlay";
+
+const logger = createLogger("useFloorPlanOverlay");
+
+const emptyControlPoints = (): FloorPlanControlPoint[] =>
+    Array.from({ length: CONTROL_POINT_COUNT }, () => ({ pixel: null, lngLat: null }));
+
+/**
+ * The floor plan image shown under the editor and its georeference. Everything is remembered per
+ * floor in the browser, so the plan is back in place the next time the floor is opened.
+ */
+export function useFloorPlanOverlay(floorId: number) {
+    const [overlay, setOverlay] = useState<FloorPlanOverlay | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [controlPoints, setControlPoints] = useState<FloorPlanControlPoint[] | null>(null);
+
+    // Ref so the map click handler (bound once) knows whether a click is meant for a control point
+    const controlPointsRef = useRef<FloorPlanControlPoint[] | null>(null);
+
+    const updateControlPoints = useCallback((next: FloorPlanControlPoint[] | null) => {
+        controlPointsRef.current = next;
+        setControlPoints(next);
+    }, []);
+
+    // Reload when switching floors
+    useEffect(() => {
+        let isCurrent = true;
+        setOverlay(null);
+        setError(null);
+        updateControlPoints(null);
+        // A plan uploaded while the stored one was loading wins
+        loadFloorPlanOverlay(floorId).then(stored => {
+            if (isCurrent) setOverlay(current => current ?? stored);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, [floorId, updateControlPoints]);
+
+    const updateOverlay = useCallback((next: FloorPlanOverlay | null) => {
+        setOverlay(next);
+        if (!saveFloorPlanOverlay(floorId, next)) {
+            setError(UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_POSITION_NOT_SAVED);
+        }
+    }, [floorId]);
+
+    const upload = useCallback(async (file: File, pdfPageNumber: number, bounds: MapBounds) => {
+        setIsLoading(true);
+        setError(null);
+        updateControlPoints(null);
+
+        try {
+            const image = await loadFloorPlanImage(file, pdfPageNumber);
+            logger.userAction("Floor plan uploaded", { floorId, fileName: file.name, width: image.width, height: image.height });
+            // The plan still works for this session when it is too large to remember
+            if (!(await saveFloorPlanImage(floorId, image.dataUrl))) {
+                setError(UI_MESSAGES.FLOOR_EDITOR_FLOOR_PLAN_NOT_SAVED);
+            }
+            updateOverlay({
+                floorId,
+                fileName: file.name,
+                imageUrl: image.dataUrl,
+                imageWidth: image.width,
+                imageHeight: image.height,
+                corners: fitImageToBounds(bounds, image.width, image.height),
+                rotation: 0,
+                opacity: 0.6,
+                locked: false,
+            });
+        } catch (uploadError) {
+            logger.error("Failed to load floor plan", uploadError as Error, { floorId, fileName: file.name });
+            setError((uploadError as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [floorId, updateOverlay, updateControlPoints]);
+
+    const remove = useCallback(() => {
+        logger.userAction("Floor plan removed", { floorId });
+        updateControlPoints(null);
+        updateOverlay(null);
+    }, [floorId, updateOverlay, updateControlPoints]);
+
+    const setOpacity = useCallback((opacity: number) => {
+        if (overlay) updateOverlay({ ...overlay, opacity });
+    }, [overlay, updateOverlay]);
+
+    const setRotation = useCallback((rotation: number) => {
+        if (overlay && !overlay.locked) updateOverlay({ ...overlay, rotation });
+    }, [overlay, updateOverlay]);
+
+    const setLocked = useCallback((locked: boolean) => {
+        if (!overlay) return;
+        if (locked) updateControlPoints(null);
+        updateOverlay({ ...overlay, locked });
+    }, [overlay, updateOverlay, updateControlPoints]);
+
+    const moveCorner = useCallback((index: number, lng: number, lat: number) => {
+        if (!overlay || overlay.locked) return;
+        updateOverlay({ ...overlay, corners: moveRenderedCorner(overlay, index, [lng, lat]) });
+    }, [overlay, updateOverlay]);
+
+    // Control point alignment: pick a pixel on the plan, then where it belongs on the map, three times
+    const startControlPoints = useCallback(() => {
+        updateControlPoints(emptyControlPoints());
+    }, [updateControlPoints]);
+
+    const cancelControlPoints = useCallback(() => {
+        updateControlPoints(null);
+    }, [updateControlPoints]);
+
+    const pickImagePoint = useCallback((x: number, y: number) => {
+        const current = controlPointsRef.current;
+        if (!current) return;
+
+        const index = current.findIndex(p => !p.pixel);
+        if (index === -1) return;
+        updateControlPoints(current.map((p, i) => i === index ? { ...p, pixel: [x, y] } : p));
+    }, [updateControlPoints]);
+
+    /**
+     * Takes a map click as a control point when one is waiting for its map position.
+     * Returns false when the click is not meant for the floor plan.
+     */
+    const pickMapPoint = useCallback((lng: number, lat: number): boolean => {
+        const current = controlPointsRef.current;
+        if (!current) return false;
+
+        const index = current.findIndex(p => p.pixel && !p.lngLat);
+        if (index === -1) return false;
+        const lngLat: LngLatTuple = [lng, lat];
+        updateControlPoints(current.map((p, i) => i === index ? { ...p, lngLat } : p));
+        return true;
+    }, [updateControlPoints]);
+
+    const applyControlPoints = useCallback(() => {
+        if (!overlay || !controlPoints) return;
+
+        try {
+            const corners = fitCornersToControlPoints(controlPoints, overlay.imageWidth, overlay.imageHeight);
+            logger.userAction("Floor plan aligned to control points", { floorId });
+            updateOverlay({ ...overlay, corners, rotation: 0 });
+            updateControlPoints(null);
+        } catch (fitError) {
+            setError((fitError as Error).message);
+        }
+    }, [overlay, controlPoints, floorId, updateOverlay, updateControlPoints]);
+
+    return {
+        // State
+        overlay,
+        isLoading,
+        error,
+        controlPoints,
+
+        // Methods
+        upload,
+        remove,
+        setOpacity,
+        setRotation,
+        setLocked,
+        moveCorner,
+        startControlPoints,
+        cancelControlPoints,
+        pickImagePoint,
+        pickMapPoint,
+        applyControlPoints
+    };
+}
@@ -0,0 +1,78 @@
+import { useState, useCallback, useMemo } from "react";
+import { Floor } from "../interfaces/Floor";
+import { RouteNode } from "../interfaces/RouteNode";
+import { ChangeQueueItem } from "../interfaces/ChangeQueueItem";
+import { createLogger } from "../utils/logger";
+import { applyChangeQueue } from "../utils/changeQueue";
+import { GraphFinding, validateRouteGraph } from "../utils/graphValidator";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { useBuildingRouteNodes } from "./useBuildingRouteNodes";
+
+const logger = createLogger("useGraphValidation");
+
+/**
+ * Runs the route graph linter for a floor. Other floors are loaded once per run; findings are
+ * recomputed from the staged graph as fixes are applied, so fixed problems drop off the list.
+ */
+export function useGraphValidation(floorId: number, buildingFloors: Floor[], nodes: RouteNode[], queue: ChangeQueueItem[]) {
+    const { loadOtherFloorNodes } = useBuildingRouteNodes(floorId, buildingFloors);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [otherFloorNodes, setOtherFloorNodes] = useState<RouteNode[] | null>(null);
+
+    const run = useCallback(async () => {
+        setIsOpen(true);
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            setOtherFloorNodes(await loadOtherFloorNodes());
+        } catch (loadError) {
+            // Without the other floors every vertical link would look dangling, so don't validate at all
+            logger.error("Failed to load other floors for validation", loadError as Error);
+            setOtherFloorNodes(null);
+            setError((loadError as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [loadOtherFloorNodes]);
+
+    const close = useCallback(() => {
+        setIsOpen(false);
+        setOtherFloorNodes(null);
+        setError(null);
+    }, []);
+
+    const findings = useMemo<GraphFinding[]>(() => {
+        if (!isOpen || !otherFloorNodes) return [];
+
+        // Multi-floor nodes created from this floor are staged here too, and staged connects,
+        // disconnects and deletes also touch the other floors' side of vertical links
+        const pendingOtherFloorNodes: RouteNode[] = queue.flatMap(item =>
+            item.type === CHANGE_TYPES.ADD && item.objectType === OBJECT_TYPES.NODE && item.data.properties.floor_id !== floorId
+                ? [{ ...item.data, properties: { ...item.data.properties, connections: [] } }]
+                : []);
+        const stagedOtherFloorNodes = applyChangeQueue(
+            { polygons: [], beacons: [], nodes: [...otherFloorNodes, ...pendingOtherFloorNodes] },
+            queue,
+            floorId
+        ).nodes;
+        const result = validateRouteGraph(nodes, stagedOtherFloorNodes);
+        logger.info("Route graph validated", { floorId, findingCount: result.length });
+        return result;
+    }, [isOpen, otherFloorNodes, nodes, queue, floorId]);
+
+    return {
+        // State
+        isOpen,
+        isLoading,
+        error,
+        findings,
+
+        // Methods
+        run,
+        close
+    };
+}
@@ -0,0 +1,53 @@
+import { useState, useCallback, useEffect } from "react";
+import { createLogger } from "../utils/logger";
+import { SelectionItem, getSelectionItemKey } from "../utils/bulkEdit";
+
+const logger = createLogger("useLayerVisibility");
+
+/**
+ * Items hidden from the map through the layers panel or the bulk edit panel. Hiding is a view
+ * setting: it is kept apart from the staged layout, so it is never queued or committed, and it
+ * works the same for saved items, new items and items with pending edits.
+ */
+export function useLayerVisibility(floorId: number) {
+    const [hiddenKeys, setHiddenKeys] = useState<ReadonlySet<string>>(() => new Set());
+
+    // Everything shows again on another floor
+    useEffect(() => {
+        setHiddenKeys(new Set());
+    }, [floorId]);
+
+    const setHidden = useCallback((items: SelectionItem[], hidden: boolean) => {
+        logger.userAction("Layer visibility changed", { hidden, count: items.length });
+        setHiddenKeys(current => {
+            const next = new Set(current);
+            items.forEach(item => {
+                if (hidden) {
+                    next.add(getSelectionItemKey(item));
+                } else {
+                    next.delete(getSelectionItemKey(item));
+                }
+            });
+            return next;
+        });
+    }, []);
+
+    const toggle = useCallback((item: SelectionItem) => {
+        logger.userAction("Layer visibility toggled", { ...item });
+        setHiddenKeys(current => {
+            const next = new Set(current);
+            const key = getSelectionItemKey(item);
+            if (!next.delete(key)) next.add(key);
+            return next;
+        });
+    }, []);
+
+    return {
+        // State
+        hiddenKeys,
+
+        // Methods
+        setHidden,
+        toggle
+    };
+}
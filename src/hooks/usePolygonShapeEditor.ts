@@ -0,0 +1,115 @@
+import { useState, useCallback } from "react";
+import { Polygon, PolygonType } from "../interfaces/Polygon";
+import { createLogger } from "../utils/logger";
+import {
+    getPartArea,
+    getPolygonParts,
+    getRingCenter,
+    insertRingVertex,
+    moveRingVertex,
+    removeRingVertex,
+    replacePolygonPart,
+    rotateRings,
+    translateRings,
+} from "../utils/polygonGeometry";
+
+const logger = createLogger("usePolygonShapeEditor");
+
+export interface PolygonShapeDraft {
+    polygonId: number;
+    name: string;
+    type: PolygonType;
+    // Rings of every part, outer ring first; a plain polygon has one part
+    parts: number[][][][];
+    // The part whose corners have handles
+    partIndex: number;
+}
+
+/**
+ * The draft with one ring of the active part replaced, or unchanged when `update` gives none
+ */
+const updateRing = (draft: PolygonShapeDraft | null, ringIndex: number, update: (ring: number[][]) => number[][] | null) => {
+    const rings = draft?.parts[draft.partIndex];
+    const ring = rings?.[ringIndex] && update(rings[ringIndex]);
+    if (!draft || !rings || !ring) return draft;
+    return { ...draft, parts: replacePolygonPart(draft.parts, draft.partIndex, rings.map((r, i) => (i === ringIndex ? ring : r))) };
+};
+
+/**
+ * Reshaping an existing polygon. Changes stay in a draft until the editor saves it as one
+ * undoable edit, so a half-finished shape never reaches the change queue.
+ */
+export function usePolygonShapeEditor() {
+    const [draft, setDraft] = useState<PolygonShapeDraft | null>(null);
+
+    const start = useCallback((polygon: Polygon) => {
+        const parts = getPolygonParts(polygon.geometry).map(rings => rings.map(ring => ring.map(point => [...point])));
+        // Start on the largest part, usually the one the user means
+        const partIndex = parts.reduce((best, rings, i) => (getPartArea(rings) > getPartArea(parts[best]) ? i : best), 0);
+        logger.userAction("Polygon shape editing started", { polygonId: polygon.properties.id, parts: parts.length });
+        setDraft({
+            polygonId: polygon.properties.id,
+            name: polygon.properties.name,
+            type: polygon.properties.type,
+            parts,
+            partIndex,
+        });
+    }, []);
+
+    const selectPart = useCallback((partIndex: number) => {
+        setDraft(current => current && partIndex >= 0 && partIndex < current.parts.length ? { ...current, partIndex } : current);
+    }, []);
+
+    // Drops the active part; the last part can't be removed
+    const removePart = useCallback(() => {
+        setDraft(current => current && current.parts.length > 1
+            ? { ...current, parts: replacePolygonPart(current.parts, current.partIndex, null), partIndex: 0 }
+            : current);
+    }, []);
+
+    const moveVertex = useCallback((ringIndex: number, index: number, point: number[]) => {
+        setDraft(current => updateRing(current, ringIndex, ring => moveRingVertex(ring, index, point)));
+    }, []);
+
+    const insertVertex = useCallback((ringIndex: number, afterIndex: number, point: number[]) => {
+        setDraft(current => updateRing(current, ringIndex, ring => insertRingVertex(ring, afterIndex, point)));
+    }, []);
+
+    // A ring keeps at least three corners; removing one more is ignored
+    const removeVertex = useCallback((ringIndex: number, index: number) => {
+        setDraft(current => updateRing(current, ringIndex, ring => removeRingVertex(ring, index)));
+    }, []);
+
+    // Moving and turning take every part along, so the polygon keeps its shape
+    const translate = useCallback((from: number[], to: number[]) => {
+        setDraft(current => current && { ...current, parts: current.parts.map(rings => translateRings(rings, from, to)) });
+    }, []);
+
+    const rotate = useCallback((degrees: number) => {
+        setDraft(current => {
+            if (!current) return current;
+            const center = getRingCenter(current.parts[current.partIndex][0]);
+            return { ...current, parts: current.parts.map(rings => rotateRings(rings, center, degrees)) };
+        });
+    }, []);
+
+    const close = useCallback(() => {
+        setDraft(null);
+    }, []);
+
+    return {
+        // State
+        draft,
+
+        // Methods
+        start,
+        selectPart,
+        removePart,
+        moveVertex,
+        insertVertex,
+        removeVertex,
+        translate,
+        rotate,
+        close
+    };
+}
@@ -0,0 +1,148 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Floor } from "../interfaces/Floor";
+import { RouteNode } from "../interfaces/RouteNode";
+import { UI_MESSAGES } from "../constants/ui";
+import { createLogger } from "../utils/logger";
+import { findShortestPath, RouteResult } from "../utils/pathfinding";
+import { useBuildingRouteNodes } from "./useBuildingRouteNodes";
+
+const logger = createLogger("useRouteTester");
+
+export interface RouteEndpoint {
+    nodeId: number;
+    floorId: number;
+    label: string;
+}
+
+/**
+ * State for the "Test Route" tool: the picked start and destination and the A* result between them.
+ * Other floors of the building are loaded only when the route may have to leave the current floor.
+ * Shafts that are out of service are not used to change floors; in accessible mode only edges and
+ * nodes a wheelchair can pass are used.
+ */
+export function useRouteTester(floorId: number, buildingFloors: Floor[], nodes: RouteNode[], closedNodeIds: Set<number>) {
+    const { loadOtherFloorNodes } = useBuildingRouteNodes(floorId, buildingFloors);
+    const [start, setStart] = useState<RouteEndpoint | null>(null);
+    const [end, setEnd] = useState<RouteEndpoint | null>(null);
+    const [result, setResult] = useState<RouteResult | null>(null);
+    const [isRouting, setIsRouting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [accessibleOnly, setAccessibleOnlyState] = useState(false);
+
+    // Refs so the map click handler (bound once) always sees the current selection and graph
+    const startRef = useRef<RouteEndpoint | null>(null);
+    const endRef = useRef<RouteEndpoint | null>(null);
+    const nodesRef = useRef<RouteNode[]>(nodes);
+    const closedNodeIdsRef = useRef<Set<number>>(closedNodeIds);
+    const accessibleOnlyRef = useRef(false);
+
+    useEffect(() => {
+        nodesRef.current = nodes;
+        closedNodeIdsRef.current = closedNodeIds;
+    }, [nodes, closedNodeIds]);
+
+    const computeRoute = useCallback(async (from: RouteEndpoint, to: RouteEndpoint) => {
+        setIsRouting(true);
+        setError(null);
+        setResult(null);
+
+        try {
+            // The current floor uses the staged (uncommitted) graph; other floors come from the server
+            let graph = nodesRef.current;
+            const knownIds = new Set(graph.map(n => n.properties.id));
+            const leavesFloor = from.floorId !== floorId || to.floorId !== floorId ||
+                graph.some(n => n.properties.connections.some(id => !knownIds.has(id)));
+
+            if (leavesFloor) {
+                try {
+                    graph = [...graph, ...await loadOtherFloorNodes()];
+                } catch (loadError) {
+                    logger.error("Failed to load other floors", loadError as Error);
+                    setError(UI_MESSAGES.FLOOR_EDITOR_ROUTE_LOAD_ERROR);
+                    return;
+                }
+            }
+
+            const route = findShortestPath(graph, from.nodeId, to.nodeId, {
+                closedNodeIds: closedNodeIdsRef.current,
+                accessibleOnly: accessibleOnlyRef.current,
+            });
+            logger.userAction("Test route calculated", {
+                from: from.nodeId,
+                to: to.nodeId,
+                accessibleOnly: accessibleOnlyRef.current,
+                found: !!route,
+                totalDistance: route?.totalDistance,
+            });
+
+            setResult(route);
+            if (!route) {
+                setError(accessibleOnlyRef.current
+                    ? UI_MESSAGES.FLOOR_EDITOR_ROUTE_NO_ACCESSIBLE
+                    : UI_MESSAGES.FLOOR_EDITOR_ROUTE_NOT_FOUND);
+            }
+        } finally {
+            setIsRouting(false);
+        }
+    }, [floorId, loadOtherFloorNodes]);
+
+    const selectStart = useCallback((endpoint: RouteEndpoint) => {
+        startRef.current = endpoint;
+        endRef.current = null;
+        setStart(endpoint);
+        setEnd(null);
+        setResult(null);
+        setError(null);
+    }, []);
+
+    const selectEnd = useCallback((endpoint: RouteEndpoint) => {
+        if (!startRef.current) return;
+        endRef.current = endpoint;
+        setEnd(endpoint);
+        computeRoute(startRef.current, endpoint);
+    }, [computeRoute]);
+
+    // Map clicks alternate between picking the start and the destination
+    const selectEndpoint = useCallback((endpoint: RouteEndpoint) => {
+        if (!startRef.current || endRef.current) {
+            selectStart(endpoint);
+        } else {
+            selectEnd(endpoint);
+        }
+    }, [selectStart, selectEnd]);
+
+    const setAccessibleOnly = useCallback((value: boolean) => {
+        accessibleOnlyRef.current = value;
+        setAccessibleOnlyState(value);
+        // Re-run an existing route under the new rules
+        if (startRef.current && endRef.current) {
+            computeRoute(startRef.current, endRef.current);
+        }
+    }, [computeRoute]);
+
+    const reset = useCallback(() => {
+        startRef.current = null;
+        endRef.current = null;
+        setStart(null);
+        setEnd(null);
+        setResult(null);
+        setError(null);
+    }, []);
+
+    return {
+        // State
+        start,
+        end,
+        result,
+        isRouting,
+        error,
+        accessibleOnly,
+
+        // Methods
+        selectEndpoint,
+        selectStart,
+        selectEnd,
+        setAccessibleOnly,
+        reset
+    };
+}
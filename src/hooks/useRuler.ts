@@ -0,0 +1,61 @@
+import { useState, useCallback, useMemo, useRef } from "react";
+import { createLogger } from "../utils/logger";
+import { calculateGeodesicBearing, calculateGeodesicDistance, calculatePathLength } from "../utils/mapUtils";
+
+const logger = createLogger("useRuler");
+
+export interface RulerMeasurement {
+    points: number;
+    // Metres along the whole path
+    totalLength: number;
+    // The last segment, once there are two points
+    lastSegment: { length: number; bearing: number } | null;
+}
+
+/**
+ * State for the ruler tool: the points clicked so far, as [lng, lat]. Nothing measured is ever
+ * saved, so the points live here rather than in the change queue.
+ */
+export function useRuler() {
+    const [points, setPointsState] = useState<number[][]>([]);
+    // Ref so the map handlers (bound once) can draw the segment following the pointer
+    const pointsRef = useRef<number[][]>([]);
+
+    const setPoints = useCallback((next: number[][]) => {
+        pointsRef.current = next;
+        setPointsState(next);
+    }, []);
+
+    const addPoint = useCallback((point: number[]) => {
+        setPoints([...pointsRef.current, [point[0], point[1]]]);
+    }, [setPoints]);
+
+    const clear = useCallback(() => {
+        if (pointsRef.current.length === 0) return;
+        logger.userAction("Ruler cleared", { points: pointsRef.current.length });
+        setPoints([]);
+    }, [setPoints]);
+
+    const measurement = useMemo((): RulerMeasurement => {
+        const last = points.length >= 2 ? [points[points.length - 2], points[points.length - 1]] as [number[], number[]] : null;
+        return {
+            points: points.length,
+            totalLength: calculatePathLength(points),
+            lastSegment: last && {
+                length: calculateGeodesicDistance([last[0][0], last[0][1]], [last[1][0], last[1][1]]),
+                bearing: calculateGeodesicBearing([last[0][0], last[0][1]], [last[1][0], last[1][1]]),
+            },
+        };
+    }, [points]);
+
+    return {
+        // State
+        points,
+        pointsRef,
+        measurement,
+
+        // Methods
+        addPoint,
+        clear
+    };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react";
+import { UseQueryResult, useQueries } from "@tanstack/react-query";
+import { Floor } from "../interfaces/Floor";
+import { RouteNode } from "../interfaces/RouteNode";
+import { ChangeQueueItem } from "../interfaces/ChangeQueueItem";
+import { applyChangeQueue } from "../utils/changeQueue";
+import { Shaft, findShafts, getClosedShaftNodeIds, isShaftNode } from "../utils/shafts";
+import { floorRouteNodesQueryOptions } from "./useBuildingRouteNodes";
+
+const combineFloorNodes = (results: UseQueryResult<RouteNode[]>[]) => ({
+    data: results.map(r => r.data),
+    // Stays incomplete after a failed load too: a shaft missing floors must not be edited
+    isComplete: results.every(r => r.data !== undefined),
+});
+
+/**
+ * The elevator and stair shafts that reach the current floor, built from the whole building's
+ * staged graph. Other floors are only loaded once this floor has an elevator or stairs node.
+ */
+export function useShafts(floorId: number, buildingFloors: Floor[], nodes: RouteNode[], queue: ChangeQueueItem[]) {
+    const hasShaftNodes = nodes.some(isShaftNode);
+    const otherFloors = useMemo(() => buildingFloors.filter(f => f.id !== floorId), [buildingFloors, floorId]);
+
+    const otherFloorNodes = useQueries({
+        queries: otherFloors.map(floor => ({
+            ...floorRouteNodesQueryOptions(floor.id),
+            enabled: hasShaftNodes,
+        })),
+        combine: combineFloorNodes,
+    });
+
+    // Shaft edits stage changes to other floors' nodes in this floor's queue, so apply it per floor
+    const stagedOtherFloorNodes = useMemo<RouteNode[]>(
+        () => otherFloors.flatMap((floor, i) => {
+            const serverNodes = otherFloorNodes.data[i] ?? [];
+            return applyChangeQueue({ polygons: [], beacons: [], nodes: serverNodes }, queue, floor.id).nodes;
+        }),
+        [otherFloors, otherFloorNodes.data, queue]
+    );
+
+    const shafts = useMemo<Shaft[]>(
+        () => findShafts([...nodes, ...stagedOtherFloorNodes], buildingFloors)
+            .filter(shaft => shaft.floorIds.includes(floorId)),
+        [nodes, stagedOtherFloorNodes, buildingFloors, floorId]
+    );
+
+    const closedNodeIds = useMemo(() => getClosedShaftNodeIds(shafts), [shafts]);
+
+    const getShaftForNode = useCallback(
+        (nodeId: number) => shafts.find(shaft => shaft.nodes.some(n => n.properties.id === nodeId)) ?? null,
+        [shafts]
+    );
+
+    return {
+        // State
+        shafts,
+        closedNodeIds,
+        isLoading: hasShaftNodes && !otherFloorNodes.isComplete,
+
+        // Methods
+        getShaftForNode
+    };
+}
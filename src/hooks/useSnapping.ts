@@ -0,0 +1,69 @@
+import { useState, useCallback, useRef } from "react";
+import { Map, Marker } from "@maptiler/sdk";
+import { Coordinates } from "../types/common";
+import { createLogger } from "../utils/logger";
+import { clearSnapIndicator, renderSnapIndicator } from "../utils/mapRenderer";
+import {
+    SnapCandidates,
+    SnapResult,
+    SnapSettings,
+    hitTestOnly,
+    loadSnapSettings,
+    saveSnapSettings,
+    snapPoint,
+} from "../utils/snapping";
+
+const logger = createLogger("useSnapping");
+
+/**
+ * Snapping for the drawing tools. Settings are remembered across sessions; holding Alt while
+ * moving or clicking bypasses snapping for that point.
+ */
+export function useSnapping() {
+    const [settings, setSettings] = useState<SnapSettings>(loadSnapSettings);
+
+    // Refs so the map handlers (bound once) see the latest settings and reuse one indicator
+    const settingsRef = useRef<SnapSettings>(settings);
+    const indicatorRef = useRef<Marker | null>(null);
+
+    const updateSettings = useCallback((changes: Partial<SnapSettings>) => {
+        const next = { ...settingsRef.current, ...changes };
+        logger.userAction("Snap settings changed", changes);
+        settingsRef.current = next;
+        setSettings(next);
+        saveSnapSettings(next);
+    }, []);
+
+    const snap = useCallback((map: Map, cursor: Coordinates, candidates: SnapCandidates, bypass: boolean): SnapResult => {
+        const current = settingsRef.current;
+        return snapPoint(cursor, candidates, current.enabled && !bypass ? current : hitTestOnly(current), {
+            project: (coordinates) => map.project(coordinates),
+            unproject: (point) => map.unproject([point.x, point.y]).toArray() as Coordinates,
+        });
+    }, []);
+
+    const showIndicator = useCallback((map: Map, result: SnapResult) => {
+        if (!result.kind) {
+            clearSnapIndicator(map, indicatorRef.current);
+            indicatorRef.current = null;
+            return;
+        }
+        indicatorRef.current = renderSnapIndicator(map, result, indicatorRef.current);
+    }, []);
+
+    const hideIndicator = useCallback((map: Map) => {
+        clearSnapIndicator(map, indicatorRef.current);
+        indicatorRef.current = null;
+    }, []);
+
+    return {
+        // State
+        settings,
+
+        // Methods
+        updateSettings,
+        snap,
+        showIndicator,
+        hideIndicator
+    };
+}
@@ -0,0 +1,53 @@
+import { useState, useCallback } from "react";
+import { Polygon } from "../interfaces/Polygon";
+import { createLogger } from "../utils/logger";
+import { DEFAULT_WALKWAY_OPTIONS, WalkwayGraphPreview, generateWalkwayGraph } from "../utils/walkwayGraph";
+
+const logger = createLogger("useWalkwayGraph");
+
+/**
+ * State for the "Generate walkway graph" action. The generated graph is only a preview until the
+ * editor accepts it and stages it through the change queue.
+ */
+export function useWalkwayGraph(floorId: number, polygons: Polygon[]) {
+    const [preview, setPreview] = useState<WalkwayGraphPreview | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [minCorridorWidth, setMinCorridorWidth] = useState(DEFAULT_WALKWAY_OPTIONS.minCorridorWidth);
+
+    const generate = useCallback(async () => {
+        setIsGenerating(true);
+        setError(null);
+
+        try {
+            // Let the spinner paint before the (synchronous) generation blocks the thread
+            await new Promise(resolve => setTimeout(resolve, 0));
+            logger.userAction("Walkway graph generation started", { floorId, polygonCount: polygons.length, minCorridorWidth });
+            setPreview(generateWalkwayGraph(polygons, floorId, { ...DEFAULT_WALKWAY_OPTIONS, minCorridorWidth }));
+        } catch (generateError) {
+            logger.error("Failed to generate walkway graph", generateError as Error);
+            setPreview(null);
+            setError((generateError as Error).message);
+        } finally {
+            setIsGenerating(false);
+        }
+    }, [floorId, polygons, minCorridorWidth]);
+
+    const discard = useCallback(() => {
+        setPreview(null);
+        setError(null);
+    }, []);
+
+    return {
+        // State
+        preview,
+        isGenerating,
+        error,
+        minCorridorWidth,
+
+        // Methods
+        generate,
+        discard,
+        setMinCorridorWidth
+    };
+}
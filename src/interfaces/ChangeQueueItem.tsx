@@ -1,9 +1,47 @@
 import {OBJECT_TYPES} from "../components/FloorEditor/enums/OBJECT_TYPES";
 import {CHANGE_TYPES} from "../components/FloorEditor/enums/CHANGE_TYPES";
+import {Polygon} from "./Polygon";
+import {Beacon} from "./Beacon";
+import {RouteNode} from "./RouteNode";
 
-export interface ChangeQueueItem {
+export type ChangeType = (typeof CHANGE_TYPES)[keyof typeof CHANGE_TYPES];
+export type ChangeObjectType = (typeof OBJECT_TYPES)[keyof typeof OBJECT_TYPES];
+
+export interface ConnectionChange {
+    nodeId1: number;
+    nodeId2: number;
+}
+
+/**
+ * The entity each object type stands for
+ */
+export interface ChangeEntities {
+    [OBJECT_TYPES.POLYGON]: Polygon;
+    [OBJECT_TYPES.BEACON]: Beacon;
+    [OBJECT_TYPES.NODE]: RouteNode;
+}
+
+export type EntityChangeType = typeof CHANGE_TYPES.ADD | typeof CHANGE_TYPES.EDIT;
+export type ConnectionChangeType = typeof CHANGE_TYPES.CONNECT | typeof CHANGE_TYPES.DISCONNECT;
+
+type EntityChange<O extends ChangeObjectType> = {
+    type: EntityChangeType;
+    objectType: O;
+    data: ChangeEntities[O]; // the whole entity as it should be saved
+};
+
+/**
+ * A change as handed to the change queue: the entity for add/edit, { id } for delete, or
+ * { nodeId1, nodeId2 } for connect/disconnect
+ */
+export type ChangePayload =
+    | EntityChange<typeof OBJECT_TYPES.POLYGON>
+    | EntityChange<typeof OBJECT_TYPES.BEACON>
+    | EntityChange<typeof OBJECT_TYPES.NODE>
+    | { type: typeof CHANGE_TYPES.DELETE; objectType: ChangeObjectType; data: { id: number } }
+    | { type: ConnectionChangeType; objectType: typeof OBJECT_TYPES.NODE; data: ConnectionChange };
+
+export type ChangeQueueItem = ChangePayload & {
     id: number; // unique for queue
-    type: (typeof CHANGE_TYPES)[keyof typeof CHANGE_TYPES];
-    objectType: (typeof OBJECT_TYPES)[keyof typeof OBJECT_TYPES];
-    data: any; // the object data (for add/edit), or { id } for delete
-}
\ No newline at end of file
+    createdAt: string; // ISO date string
+};
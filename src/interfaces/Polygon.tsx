@@ -1,3 +1,12 @@
+import {
+    findSelfIntersection,
+    getPolygonParts,
+    getRingVertices,
+    isRingWithin,
+    normalizeRings,
+    toPolygonGeometry,
+} from "../utils/polygonGeometry";
+
 export type PolygonType = "Room" | "Stairs" | "Elevator" | "Wall";
 
 export interface PolygonProperties {
@@ -11,13 +20,15 @@ export interface PolygonProperties {
     category_id: number | null;
 }
 
+// Rooms with courtyards or atriums have holes, and one room can be split into several parts
+export type PolygonGeometry =
+    | { type: "Polygon"; coordinates: number[][][] }
+    | { type: "MultiPolygon"; coordinates: number[][][][] };
+
 export interface Polygon {
     type: "Feature";
     properties: PolygonProperties;
-    geometry: {
-        type: "Polygon";
-        coordinates: number[][][];
-    };
+    geometry: PolygonGeometry;
 }
 
 export class PolygonBuilder {
@@ -30,10 +41,7 @@ export class PolygonBuilder {
         color: "#000000",
         category_id: 0,
     };
-    private _geometry!: {
-        type: "Polygon";
-        coordinates: number[][][];
-    };
+    private _geometry!: PolygonGeometry;
     private _isCreating: boolean = true;
 
     public static fromPolygon(polygon: Polygon): PolygonBuilder {
@@ -46,7 +54,7 @@ export class PolygonBuilder {
         res.setIsVisible(polygon.properties.is_visible);
         res.setColor(polygon.properties.color);
         res.setCategoryId(polygon.properties.category_id);
-        res.setGeometry(polygon.geometry.coordinates);
+        res.setParts(getPolygonParts(polygon.geometry));
         res._isCreating = false; // This is an existing object
         return res;
     }
@@ -92,18 +100,14 @@ export class PolygonBuilder {
         return this;
     }
 
+    // Stores closed copies, so the caller's rings are never changed
     public setGeometry(coordinates: number[][][]): this {
-        const ring = coordinates[0];
-        const first = ring[0];
-        const last = ring[ring.length - 1];
+        return this.setParts([coordinates]);
+    }
 
-        if (first[0] !== last[0] || first[1] !== last[1]) {
-            ring.push([...first]); // Use a shallow copy to avoid reference issues
-        }
-        this._geometry = {
-            type: "Polygon",
-            coordinates,
-        };
+    // One list of rings per part; several parts make a MultiPolygon
+    public setParts(parts: number[][][][]): this {
+        this._geometry = toPolygonGeometry(parts.map(normalizeRings));
         return this;
     }
 
@@ -121,20 +125,53 @@ export class PolygonBuilder {
         if (!this._geometry || !this._geometry.coordinates || this._geometry.coordinates.length === 0) {
             throw new Error("Polygon geometry is required");
         }
-        const ring = this._geometry.coordinates[0];
-        if (!ring || ring.length < 3) {
-            throw new Error("Polygon must have at least 3 points");
-        }
-        
-        // Validate coordinate format
-        ring.forEach((point: number[], index: number) => {
-            if (!Array.isArray(point) || point.length !== 2) {
-                throw new Error(`Point ${index + 1} must be [longitude, latitude]`);
-            }
-            if (typeof point[0] !== 'number' || typeof point[1] !== 'number') {
-                throw new Error(`Point ${index + 1} must contain valid numbers`);
+        getPolygonParts(this._geometry).forEach(rings => {
+            const ring = rings[0];
+            if (!ring || ring.length < 3) {
+                throw new Error("Polygon must have at least 3 points");
             }
+            rings.forEach(r => r.forEach((point: number[], index: number) => {
+                if (!Array.isArray(point) || point.length !== 2) {
+                    throw new Error(`Point ${index + 1} must be [longitude, latitude]`);
+                }
+                if (typeof point[0] !== 'number' || typeof point[1] !== 'number') {
+                    throw new Error(`Point ${index + 1} must contain valid numbers`);
+                }
+            }));
+        });
+    }
+
+    /**
+     * Checks the shape itself: distinct corners, no crossing sides, holes inside their outer ring.
+     * Only new or reshaped outlines go through this, so stored polygons that predate the checks
+     * can still be renamed, hidden, moved or copied.
+     */
+    public validateGeometry(): this {
+        if (!this._geometry) {
+            throw new Error("Polygon geometry is required");
+        }
+        const parts = getPolygonParts(this._geometry);
+        parts.forEach((rings, partIndex) => {
+            const part = parts.length > 1 ? `Part ${partIndex + 1}: ` : "";
+            rings.forEach((ring, ringIndex) => this.validateRing(ring, ringIndex === 0 ? part : `${part}Hole ${ringIndex}: `));
+            rings.slice(1).forEach((hole, holeIndex) => {
+                if (!isRingWithin(hole, rings[0])) {
+                    throw new Error(`${part}Hole ${holeIndex + 1} must sit inside the outer ring`);
+                }
+            });
         });
+        return this;
+    }
+
+    private validateRing(ring: number[][], label: string): void {
+        if (!ring || getRingVertices(ring).length < 3) {
+            throw new Error(`${label}Polygon must have at least 3 distinct points`);
+        }
+
+        const intersection = findSelfIntersection(ring);
+        if (intersection) {
+            throw new Error(`${label}Polygon outline crosses itself (sides from points ${intersection[0] + 1} and ${intersection[1] + 1})`);
+        }
     }
 
     public build(): Polygon {
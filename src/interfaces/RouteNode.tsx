@@ -1,3 +1,16 @@
+/**
+ * Accessibility of one edge, stored on both of its nodes under the other node's ID
+ */
+export interface EdgeAttributes {
+    node_id: number; // The node at the other end of the edge
+    wheelchair_accessible: boolean;
+    has_steps: boolean;
+    slope_percent: number | null;
+    width_m: number | null;
+    one_way_to: number | null; // Travel is only allowed towards this node
+    closed: boolean;
+}
+
 export interface RouteNode {
     type: "Feature";
     geometry: {
@@ -12,9 +25,43 @@ export interface RouteNode {
         connected_node_ids?: number[]; // Backend uses this name
         node_type?: string; // Node type (elevator, stairs, waypoint, etc.)
         level?: number | null; // Level (1, 2, 3, or null for none)
+        edge_attributes?: EdgeAttributes[]; // Only edges that have been described
+        has_ramp?: boolean;
+        has_escalator?: boolean;
+        has_door?: boolean;
+        shaft_name?: string; // Name of the elevator or stairs shaft the node belongs to
+        out_of_service?: boolean; // The node's shaft is out of service
     }
 }
 
+/**
+ * The backend returns edges as `connected_node_ids`; the editor works with `connections`
+ */
+export function normalizeRouteNodeConnections(node: RouteNode): RouteNode {
+    return {
+        ...node,
+        properties: {
+            ...node.properties,
+            connections: node.properties.connected_node_ids || node.properties.connections || []
+        }
+    };
+}
+
+/**
+ * Points edge attributes at new node IDs. Edges whose other node has no new ID are dropped.
+ */
+export function remapEdgeAttributeIds(
+    edgeAttributes: EdgeAttributes[],
+    mapId: (id: number) => number | undefined
+): EdgeAttributes[] {
+    return edgeAttributes.flatMap(edge => {
+        const nodeId = mapId(edge.node_id);
+        if (nodeId === undefined) return [];
+        const oneWayTo = edge.one_way_to === null ? null : mapId(edge.one_way_to) ?? null;
+        return [{ ...edge, node_id: nodeId, one_way_to: oneWayTo }];
+    });
+}
+
 export class RouteNodeBuilder {
     private _id?: number;
     private _floorId!: number;
@@ -23,6 +70,12 @@ export class RouteNodeBuilder {
     private _connections: number[] = [];
     private _nodeType?: string;
     private _level?: number | null;
+    private _edgeAttributes: EdgeAttributes[] = [];
+    private _hasRamp?: boolean;
+    private _hasEscalator?: boolean;
+    private _hasDoor?: boolean;
+    private _shaftName?: string;
+    private _outOfService?: boolean;
     private _isCreating: boolean = true; // Flag to indicate if we're creating a new object
 
     public static fromRouteNode(node: RouteNode): RouteNodeBuilder {
@@ -34,6 +87,12 @@ export class RouteNodeBuilder {
         builder._connections = [...(node.properties.connections || node.properties.connected_node_ids || [])];
         builder._nodeType = node.properties.node_type;
         builder._level = node.properties.level;
+        builder._edgeAttributes = [...(node.properties.edge_attributes ?? [])];
+        builder._hasRamp = node.properties.has_ramp;
+        builder._hasEscalator = node.properties.has_escalator;
+        builder._hasDoor = node.properties.has_door;
+        builder._shaftName = node.properties.shaft_name;
+        builder._outOfService = node.properties.out_of_service;
         builder._isCreating = false; // This is an existing object
         return builder;
     }
@@ -94,6 +153,36 @@ export class RouteNodeBuilder {
         return this;
     }
 
+    public setEdgeAttributes(edgeAttributes: EdgeAttributes[]): this {
+        this._edgeAttributes = [...edgeAttributes];
+        return this;
+    }
+
+    public setHasRamp(hasRamp: boolean | undefined): this {
+        this._hasRamp = hasRamp;
+        return this;
+    }
+
+    public setHasEscalator(hasEscalator: boolean | undefined): this {
+        this._hasEscalator = hasEscalator;
+        return this;
+    }
+
+    public setHasDoor(hasDoor: boolean | undefined): this {
+        this._hasDoor = hasDoor;
+        return this;
+    }
+
+    public setShaftName(shaftName: string | undefined): this {
+        this._shaftName = shaftName;
+        return this;
+    }
+
+    public setOutOfService(outOfService: boolean | undefined): this {
+        this._outOfService = outOfService;
+        return this;
+    }
+
     public validate(): void {
         // Only validate ID for existing objects (updates), not for new objects (creates)
         if (!this._isCreating && (this._id === undefined || this._id === null)) {
@@ -105,6 +194,14 @@ export class RouteNodeBuilder {
         if (this._geometry && (!Array.isArray(this._geometry.coordinates) || this._geometry.coordinates.length !== 2)) {
             throw new Error("RouteNode geometry coordinates must be an array of [x, y]");
         }
+        this._edgeAttributes.forEach(edge => {
+            if (edge.slope_percent !== null && !Number.isFinite(edge.slope_percent)) {
+                throw new Error("RouteNode edge slope must be a number");
+            }
+            if (edge.width_m !== null && (!Number.isFinite(edge.width_m) || edge.width_m <= 0)) {
+                throw new Error("RouteNode edge width must be a positive number");
+            }
+        });
     }
 
     public build(): RouteNode {
@@ -119,6 +216,12 @@ export class RouteNodeBuilder {
                 connections: this._connections,
                 ...(this._nodeType && { node_type: this._nodeType }),
                 ...(this._level !== undefined && { level: this._level }),
+                ...(this._edgeAttributes.length > 0 && { edge_attributes: this._edgeAttributes }),
+                ...(this._hasRamp !== undefined && { has_ramp: this._hasRamp }),
+                ...(this._hasEscalator !== undefined && { has_escalator: this._hasEscalator }),
+                ...(this._hasDoor !== undefined && { has_door: this._hasDoor }),
+                ...(this._shaftName && { shaft_name: this._shaftName }),
+                ...(this._outOfService !== undefined && { out_of_service: this._outOfService }),
             } as any // Type assertion needed because id is now optional
         };
     }
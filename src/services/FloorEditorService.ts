@@ -1,9 +1,12 @@
-import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { RouteNode, RouteNodeBuilder, remapEdgeAttributeIds } from "../interfaces/RouteNode";
 import { Polygon, PolygonBuilder } from "../interfaces/Polygon";
 import { Beacon, BeaconBuilder } from "../interfaces/Beacon";
 import { beaconsApi, polygonsApi, routeNodesApi } from "../utils/api";
 import { createLogger } from "../utils/logger";
-import { convertPointsToCoordinates } from "../utils/mapUtils";
+import { ValidationError } from "../utils/validation";
+import { convertPointsToCoordinates, generateEdgeKey } from "../utils/mapUtils";
+import { ShaftType, getShaftLinks } from "../utils/shafts";
+import { getFloorLayoutData } from "../components/FloorEditor/UseFloorLayoutData";
 import { Point } from "@maptiler/sdk";
 
 const logger = createLogger("FloorEditorService");
@@ -40,14 +43,34 @@ export interface CreateBeaconOptions {
 }
 
 export interface CreateMultiFloorNodesOptions {
-    floorIds: number[];
+    floorIds: number[]; // lowest floor first
     lng: number;
     lat: number;
-    nodeType: string;
+    nodeType: ShaftType;
     currentFloorId: number;
     connectToNodeId?: number | null;
 }
 
+export interface CloneFloorLayoutResult {
+    polygons: number;
+    beacons: number;
+    nodes: number;
+    connections: number;
+}
+
+export type ClonedEntityCounts = Omit<CloneFloorLayoutResult, "connections">;
+
+/**
+ * A floor layout copy that failed. What it had created is deleted again; `leftover` counts what
+ * could not be, and is null when the target floor was left as it was.
+ */
+export class CloneFloorLayoutError extends Error {
+    constructor(message: string, public leftover: ClonedEntityCounts | null) {
+        super(message);
+        this.name = 'CloneFloorLayoutError';
+    }
+}
+
 export class FloorEditorService {
     /**
      * Creates a new route node with optional connection
@@ -116,16 +139,9 @@ export class FloorEditorService {
                 createdNodeIds.push(nodeId);
             }
 
-            // Step 2: Connect all multi-floor nodes to each other (vertical connections)
-            if (createdNodeIds.length > 1) {
-                for (let i = 0; i < createdNodeIds.length; i++) {
-                    const currentNodeId = createdNodeIds[i];
-                    const otherNodeIds = createdNodeIds.filter(id => id !== currentNodeId);
-
-                    for (const otherNodeId of otherNodeIds) {
-                        await routeNodesApi.addConnection(currentNodeId, otherNodeId);
-                    }
-                }
+            // Step 2: Connect the nodes vertically (elevators all-to-all, stairs floor to floor)
+            for (const [nodeId1, nodeId2] of getShaftLinks(nodeType, createdNodeIds)) {
+                await routeNodesApi.addConnection(nodeId1, nodeId2);
             }
 
             logger.info("Multi-floor nodes created successfully", { createdNodeIds });
@@ -250,7 +266,7 @@ export class FloorEditorService {
     /**
      * Updates a beacon using the builder pattern
      */
-    static async updateBeacon(beacon: Beacon, updates: Partial<{ name: string; isActive: boolean; batteryLevel: number }>): Promise<Beacon> {
+    static async updateBeacon(beacon: Beacon, updates: Partial<{ name: string; isActive: boolean; batteryLevel: number; uuid: string; majorId: number; minorId: number }>): Promise<Beacon> {
         logger.info("Updating beacon", { beaconId: beacon.properties.id, updates });
 
         try {
@@ -259,6 +275,9 @@ export class FloorEditorService {
             if (updates.name !== undefined) builder = builder.setName(updates.name);
             if (updates.isActive !== undefined) builder = builder.setIsActive(updates.isActive);
             if (updates.batteryLevel !== undefined) builder = builder.setBatteryLevel(updates.batteryLevel);
+            if (updates.uuid !== undefined) builder = builder.setUuid(updates.uuid);
+            if (updates.majorId !== undefined) builder = builder.setMajorId(updates.majorId);
+            if (updates.minorId !== undefined) builder = builder.setMinorId(updates.minorId);
 
             const updatedBeacon = builder.build();
             const result = await beaconsApi.update(beacon.properties.id, updatedBeacon);
@@ -322,6 +341,129 @@ export class FloorEditorService {
         }
     }
 
+    /**
+     * Copies everything on one floor onto another, straight to the server. Connections between the
+     * floor's nodes are recreated; links to other floors (shafts) are not. Beacons are copied without
+     * their UUID, major and minor, which must stay unique. The target floor must be empty, and a copy
+     * that fails part way is undone, so a retry starts from scratch.
+     */
+    static async cloneFloorLayout(sourceFloorId: number, targetFloorId: number): Promise<CloneFloorLayoutResult> {
+        logger.info("Cloning floor layout", { sourceFloorId, targetFloorId });
+
+        try {
+            const [layout, target] = await Promise.all([getFloorLayoutData(sourceFloorId), getFloorLayoutData(targetFloorId)]);
+            if (target.polygons.length > 0 || target.beacons.length > 0 || target.nodes.length > 0) {
+                throw new ValidationError("The target floor already has polygons, beacons or route nodes");
+            }
+
+            const withoutId = <T extends { properties: { id: number } }>(entity: T) => {
+                const { id, ...properties } = entity.properties;
+                return { ...entity, properties };
+            };
+            const created = { polygons: [] as number[], beacons: [] as number[], nodes: [] as number[] };
+
+            try {
+                for (const polygon of layout.polygons) {
+                    const createdPolygon = await polygonsApi.create(withoutId(PolygonBuilder.fromPolygon(polygon).setFloorId(targetFloorId).build()));
+                    created.polygons.push(createdPolygon.properties.id);
+                }
+
+                for (const beacon of layout.beacons) {
+                    const createdBeacon = await beaconsApi.create(withoutId(BeaconBuilder.fromBeacon(beacon)
+                        .setFloorId(targetFloorId)
+                        .setUuid(null)
+                        .setMajorId(null)
+                        .setMinorId(null)
+                        .setLastSeen(null)
+                        .build()));
+                    created.beacons.push(createdBeacon.properties.id);
+                }
+
+                // Nodes are created bare first: connections and edge descriptions need the new IDs of both ends
+                const idMap = new Map<number, number>();
+                for (const node of layout.nodes) {
+                    const createdNode = await routeNodesApi.create(withoutId(RouteNodeBuilder.fromRouteNode(node)
+                        .setFloorId(targetFloorId)
+                        .setConnections([])
+                        .setEdgeAttributes([])
+                        .build()));
+                    const newNodeId = createdNode?.properties?.id;
+                    if (!newNodeId) {
+                        throw new Error("Backend didn't return node ID");
+                    }
+                    created.nodes.push(newNodeId);
+                    idMap.set(node.properties.id, newNodeId);
+                }
+
+                // Edge descriptions go in before any connection, so these updates can't drop one
+                for (const node of layout.nodes) {
+                    const nodeId = idMap.get(node.properties.id)!;
+                    const edgeAttributes = remapEdgeAttributeIds(node.properties.edge_attributes ?? [], id => idMap.get(id));
+                    if (edgeAttributes.length === 0) continue;
+                    await routeNodesApi.update(nodeId, RouteNodeBuilder.fromRouteNode(node)
+                        .setId(nodeId)
+                        .setFloorId(targetFloorId)
+                        .setConnections([])
+                        .setEdgeAttributes(edgeAttributes)
+                        .build());
+                }
+
+                const connected = new Set<string>();
+                for (const node of layout.nodes) {
+                    const nodeId = idMap.get(node.properties.id)!;
+                    for (const connectedId of node.properties.connections) {
+                        const otherId = idMap.get(connectedId);
+                        if (otherId === undefined || connected.has(generateEdgeKey(nodeId, otherId))) continue;
+                        connected.add(generateEdgeKey(nodeId, otherId));
+                        await routeNodesApi.addConnection(nodeId, otherId);
+                    }
+                }
+
+                const result = {
+                    polygons: layout.polygons.length,
+                    beacons: layout.beacons.length,
+                    nodes: layout.nodes.length,
+                    connections: connected.size,
+                };
+                logger.info("Floor layout cloned successfully", { sourceFloorId, targetFloorId, result });
+                return result;
+            } catch (copyError) {
+                logger.error("Floor layout copy failed, undoing it", copyError as Error, { targetFloorId });
+                const leftover = await FloorEditorService.deleteClonedEntities(created);
+                throw new CloneFloorLayoutError((copyError as Error).message, leftover);
+            }
+        } catch (error) {
+            logger.error("Failed to clone floor layout", error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes what a failed floor clone created, nodes first. Returns what could not be deleted, or
+     * null when everything was.
+     */
+    private static async deleteClonedEntities(created: { polygons: number[]; beacons: number[]; nodes: number[] }): Promise<ClonedEntityCounts | null> {
+        const deleteAll = async (ids: number[], remove: (id: number) => Promise<void>) => {
+            let failed = 0;
+            for (const id of ids) {
+                try {
+                    await remove(id);
+                } catch (error) {
+                    logger.error("Failed to delete cloned entity", error as Error, { id });
+                    failed++;
+                }
+            }
+            return failed;
+        };
+
+        const leftover = {
+            nodes: await deleteAll(created.nodes, id => routeNodesApi.delete(id)),
+            beacons: await deleteAll(created.beacons, id => beaconsApi.delete(id)),
+            polygons: await deleteAll(created.polygons, id => polygonsApi.delete(id)),
+        };
+        return leftover.nodes + leftover.beacons + leftover.polygons > 0 ? leftover : null;
+    }
+
     /**
      * Recalculates closest nodes for all POIs on a floor
      */
@@ -45,6 +45,13 @@ export interface MapClickEvent {
     originalEvent: MouseEvent;
 }
 
+/**
+ * A map mouse event whose default map behaviour (such as drag panning) can be cancelled
+ */
+export interface MapMouseDownEvent extends MapClickEvent {
+    preventDefault: () => void;
+}
+
 // API response types
 export interface ApiResponse<T = unknown> {
     data: T;
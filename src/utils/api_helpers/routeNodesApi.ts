@@ -1,7 +1,7 @@
 // Route Node API functions
 import {FloorScopedApi} from "../abstract_classes/floorScopedApi";
 import {API_ENDPOINTS} from "../../constants/api";
-import {RouteNode} from "../../interfaces/RouteNode";
+import {RouteNode, RouteNodeBuilder} from "../../interfaces/RouteNode";
 import {logger} from "../api";
 import {apiRequest} from "./apiRequest";
 
@@ -36,6 +36,19 @@ export class RouteNodesApi extends FloorScopedApi<RouteNode> {
         logger.info('Successfully added connection between nodes', { nodeId1, nodeId2 });
     }
 
+    // Remove bidirectional connection between two nodes. The backend has no endpoint for this,
+    // so each node is saved again with the other dropped from its connections.
+    async removeConnection(nodeId1: number, nodeId2: number): Promise<void> {
+        logger.info('Removing connection between nodes', { nodeId1, nodeId2 });
+
+        for (const [nodeId, otherId] of [[nodeId1, nodeId2], [nodeId2, nodeId1]]) {
+            const node = await this.getById(nodeId);
+            await this.update(nodeId, RouteNodeBuilder.fromRouteNode(node).removeConnection(otherId).build());
+        }
+
+        logger.info('Successfully removed connection between nodes', { nodeId1, nodeId2 });
+    }
+
     // getByType(nodeType: string): Promise<RouteNode[]> {
     //     logger.info('Fetching route nodes by type', {nodeType});
     //     return apiRequest<RouteNode[]>(API_ENDPOINTS.ROUTE_NODES_BY_TYPE(nodeType));
@@ -0,0 +1,130 @@
+import { Beacon } from "../interfaces/Beacon";
+import { BeaconType } from "../interfaces/BeaconType";
+import { Polygon, PolygonBuilder, PolygonType } from "../interfaces/Polygon";
+import {
+    DEFAULT_COVERAGE_SETTINGS,
+    computeCoverage,
+    createFloorRadioModel,
+    estimateRssi,
+    getRadioProfile
+} from "./beaconCoverage";
+
+const FLOOR_ID = 1;
+
+// Roughly one metre in each direction near [50, 26]
+const METRE_LNG = 1 / 100000;
+const METRE_LAT = 1 / 111000;
+const at = (x: number, y: number): [number, number] => [50 + x * METRE_LNG, 26 + y * METRE_LAT];
+
+const rectangle = (id: number, [x1, y1, x2, y2]: number[], type: PolygonType): Polygon => new PolygonBuilder()
+    .setId(id)
+    .setFloorId(FLOOR_ID)
+    .setName(`Polygon ${id}`)
+    .setType(type)
+    .setGeometry([[at(x1, y1), at(x2, y1), at(x2, y2), at(x1, y2), at(x1, y1)]])
+    .build();
+
+const beacon = (id: number, [x, y]: number[], extra: Partial<Beacon["properties"]> = {}): Beacon => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: at(x, y) },
+    properties: { id, floor_id: FLOOR_ID, name: `Beacon ${id}`, is_active: true, is_visible: true, battery_level: 100, ...extra },
+});
+
+const beaconType: BeaconType = {
+    id: 4,
+    name: "Long range",
+    transmission_power: 4,
+    range_meters: 50,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+};
+
+const room = rectangle(1, [0, 0, 10, 10], "Room");
+
+describe("getRadioProfile", () => {
+    it("assumes a 0 dBm beacon with indoor path loss when the type is unknown", () => {
+        expect(getRadioProfile(undefined, -90)).toEqual({ rssiAtOneMeter: -59, pathLossExponent: 2.5 });
+    });
+
+    it("fits the path loss so the signal reaches the sensitivity at the stated range", () => {
+        const profile = getRadioProfile(beaconType, -90);
+
+        expect(profile.rssiAtOneMeter).toBe(-55);
+        expect(estimateRssi(profile, 50, 0, 6)).toBeCloseTo(-90);
+    });
+
+    it("keeps the path loss realistic for implausible ranges", () => {
+        expect(getRadioProfile({ ...beaconType, range_meters: 100000 }, -90).pathLossExponent).toBe(1.5);
+    });
+});
+
+describe("estimateRssi", () => {
+    const profile = { rssiAtOneMeter: -59, pathLossExponent: 2 };
+
+    it("loses 10 · n dB per tenfold distance and a fixed loss per wall", () => {
+        expect(estimateRssi(profile, 10, 0, 6)).toBeCloseTo(-79);
+        expect(estimateRssi(profile, 10, 2, 6)).toBeCloseTo(-91);
+    });
+
+    it("treats anything closer than a metre as one metre away", () => {
+        expect(estimateRssi(profile, 0.2, 0, 6)).toBe(-59);
+    });
+});
+
+describe("createFloorRadioModel", () => {
+    it("needs at least a triangle of coordinates", () => {
+        expect(createFloorRadioModel([], [at(0, 0), at(1, 1)], DEFAULT_COVERAGE_SETTINGS)).toBeNull();
+    });
+
+    it("subtracts the wall loss for every wall the signal passes through", () => {
+        const shape: number[] = [4, 0, 6, 10];
+        const withWall = createFloorRadioModel([room, rectangle(2, shape, "Wall")], [], DEFAULT_COVERAGE_SETTINGS)!;
+        const withoutWall = createFloorRadioModel([room, rectangle(2, shape, "Room")], [], DEFAULT_COVERAGE_SETTINGS)!;
+        const profile = getRadioProfile(undefined, DEFAULT_COVERAGE_SETTINGS.sensitivity);
+        const receiver = withWall.projection.toLocal(at(8, 5));
+
+        const blocked = withWall.rssiAt(withWall.createTransmitter(at(2, 5), profile), receiver)!;
+        const open = withoutWall.rssiAt(withoutWall.createTransmitter(at(2, 5), profile), receiver)!;
+
+        expect(open - blocked).toBeCloseTo(DEFAULT_COVERAGE_SETTINGS.wallAttenuation);
+    });
+
+    it("doesn't sample receivers inside walls", () => {
+        const model = createFloorRadioModel([room, rectangle(2, [4, 0, 6, 10], "Wall")], [], DEFAULT_COVERAGE_SETTINGS)!;
+        const wallStart = model.projection.toLocal(at(4, 0)).x;
+        const wallEnd = model.projection.toLocal(at(6, 0)).x;
+
+        expect(model.samples.length).toBeGreaterThan(0);
+        expect(model.samples.some(p => p.x > wallStart && p.x < wallEnd)).toBe(false);
+    });
+
+    it("hears nothing beyond a beacon's reach", () => {
+        const model = createFloorRadioModel([rectangle(1, [0, 0, 100, 10], "Room")], [], DEFAULT_COVERAGE_SETTINGS)!;
+        const transmitter = model.createTransmitter(at(0, 5), getRadioProfile(undefined, DEFAULT_COVERAGE_SETTINGS.sensitivity));
+
+        expect(model.rssiAt(transmitter, model.projection.toLocal(at(5, 5)))).not.toBeNull();
+        expect(model.rssiAt(transmitter, model.projection.toLocal(at(90, 5)))).toBeNull();
+    });
+});
+
+describe("computeCoverage", () => {
+    it("has no dead zones where three beacons are heard everywhere", () => {
+        const coverage = computeCoverage([room], [beacon(1, [2, 2]), beacon(2, [8, 2]), beacon(3, [5, 8])], []);
+
+        expect(coverage?.beaconCount).toBe(3);
+        expect(coverage?.deadZoneRatio).toBe(0);
+        expect(coverage?.cells.every(c => c.heardCount === 3 && c.bestRssi !== null)).toBe(true);
+    });
+
+    it("counts the whole floor as dead with fewer than three active beacons", () => {
+        const coverage = computeCoverage([room], [
+            beacon(1, [2, 2]),
+            beacon(2, [8, 2], { beacon_type_id: beaconType.id }),
+            beacon(3, [5, 8], { is_active: false }),
+        ], [beaconType]);
+
+        expect(coverage?.beaconCount).toBe(2);
+        expect(coverage?.untypedBeaconCount).toBe(1);
+        expect(coverage?.deadZoneRatio).toBe(1);
+    });
+});
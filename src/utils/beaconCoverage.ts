@@ -0,0 +1,267 @@
+import { Beacon } from "../interfaces/Beacon";
+import { BeaconType } from "../interfaces/BeaconType";
+import { Polygon } from "../interfaces/Polygon";
+import { createLogger } from "./logger";
+import { LocalPoint, convexHull, createLocalProjection, isPointInLocalRing } from "./mapUtils";
+import { getAllRings, getOuterRings } from "./polygonGeometry";
+
+const logger = createLogger("beaconCoverage");
+
+// Trilateration needs at least this many beacons in range to fix a position
+export const MIN_BEACONS_FOR_POSITIONING = 3;
+
+export interface CoverageSettings {
+    // Signal lost per wall between beacon and receiver, in dB
+    wallAttenuation: number;
+    // Weakest RSSI (dBm) a phone can still use
+    sensitivity: number;
+}
+
+export const DEFAULT_COVERAGE_SETTINGS: CoverageSettings = {
+    wallAttenuation: 6,
+    sensitivity: -90,
+};
+
+/**
+ * How a beacon's signal fades with distance: RSSI(d) = rssiAtOneMeter - 10 · n · log10(d)
+ */
+export interface BeaconRadioProfile {
+    rssiAtOneMeter: number;
+    pathLossExponent: number;
+}
+
+// What the heatmap colours: strongest expected RSSI, or number of beacons heard
+export type CoverageDisplayMode = "signal" | "count";
+
+export interface CoverageCell {
+    // Closed ring of the cell's square, ready to draw
+    ring: number[][];
+    // Strongest expected RSSI at the cell's centre, null when no beacon is heard
+    bestRssi: number | null;
+    heardCount: number;
+}
+
+export interface CoverageMap {
+    cells: CoverageCell[];
+    cellSize: number;
+    // Share of the floor (0-1) where fewer than MIN_BEACONS_FOR_POSITIONING beacons are heard
+    deadZoneRatio: number;
+    beaconCount: number;
+    // Active beacons without a known type, estimated with the default radio profile
+    untypedBeaconCount: number;
+}
+
+// Transmission power assumed for beacons without a type, in dBm
+const DEFAULT_TRANSMISSION_POWER = 0;
+// Typical loss between the radio and a phone 1 m away; a 0 dBm beacon reads about -59 dBm at 1 m
+const ONE_METER_LOSS = 59;
+// Indoor path loss exponent used when a type does not state its range
+const DEFAULT_PATH_LOSS_EXPONENT = 2.5;
+const MAX_CELLS = 12000;
+const MIN_CELL_SIZE = 0.5;
+
+/**
+ * Derives a beacon's radio profile from its type. A stated range is taken as the distance at
+ * which the signal drops to the receiver sensitivity in open space, which fixes the exponent.
+ */
+export function getRadioProfile(beaconType: BeaconType | undefined, sensitivity: number): BeaconRadioProfile {
+    const rssiAtOneMeter = (beaconType?.transmission_power ?? DEFAULT_TRANSMISSION_POWER) - ONE_METER_LOSS;
+    const range = beaconType?.range_meters;
+    if (!range || range <= 1 || rssiAtOneMeter <= sensitivity) {
+        return { rssiAtOneMeter, pathLossExponent: DEFAULT_PATH_LOSS_EXPONENT };
+    }
+    const pathLossExponent = (rssiAtOneMeter - sensitivity) / (10 * Math.log10(range));
+    return { rssiAtOneMeter, pathLossExponent: Math.min(6, Math.max(1.5, pathLossExponent)) };
+}
+
+const segmentsIntersect = (a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint): boolean => {
+    const orientation = (p: LocalPoint, q: LocalPoint, r: LocalPoint) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+    return orientation(a, b, c) !== orientation(a, b, d) && orientation(c, d, a) !== orientation(c, d, b);
+};
+
+interface LocalWall {
+    ring: LocalPoint[];
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * Counts the walls a straight signal path passes through. Passing through a wall polygon means
+ * crossing its outline twice, so every two crossings are one wall.
+ */
+const countWalls = (from: LocalPoint, to: LocalPoint, walls: LocalWall[]): number => {
+    const minX = Math.min(from.x, to.x);
+    const maxX = Math.max(from.x, to.x);
+    const minY = Math.min(from.y, to.y);
+    const maxY = Math.max(from.y, to.y);
+
+    return walls.reduce((count, wall) => {
+        if (wall.maxX < minX || wall.minX > maxX || wall.maxY < minY || wall.minY > maxY) return count;
+        let crossings = 0;
+        wall.ring.forEach((a, i) => {
+            if (segmentsIntersect(from, to, a, wall.ring[(i + 1) % wall.ring.length])) crossings++;
+        });
+        return count + Math.ceil(crossings / 2);
+    }, 0);
+};
+
+/**
+ * Expected RSSI (dBm) at `distance` metres behind `walls` walls
+ */
+export function estimateRssi(profile: BeaconRadioProfile, distance: number, walls: number, wallAttenuation: number): number {
+    return profile.rssiAtOneMeter - 10 * profile.pathLossExponent * Math.log10(Math.max(1, distance)) - walls * wallAttenuation;
+}
+
+/**
+ * A beacon placed on the floor model
+ */
+export interface Transmitter {
+    position: LocalPoint;
+    profile: BeaconRadioProfile;
+    // Beyond this even an unobstructed signal is too weak to hear
+    reach: number;
+}
+
+/**
+ * The floor on a local metre plane: where receivers can stand (a grid of sample points inside
+ * the floor's outline, skipping wall interiors) and which walls a signal has to pass through
+ */
+export interface FloorRadioModel {
+    projection: ReturnType<typeof createLocalProjection>;
+    samples: LocalPoint[];
+    cellSize: number;
+    createTransmitter: (coordinates: number[], profile: BeaconRadioProfile) => Transmitter;
+    // Expected RSSI at a point, or null when the beacon can't be heard there
+    rssiAt: (transmitter: Transmitter, point: LocalPoint) => number | null;
+}
+
+/**
+ * Builds the radio model for a floor. The outline is the hull of the polygons plus
+ * `extraCoordinates` (typically the beacons), sampled with at most about `maxSamples` points.
+ */
+export function createFloorRadioModel(
+    polygons: Polygon[],
+    extraCoordinates: number[][],
+    settings: CoverageSettings,
+    maxSamples: number = MAX_CELLS
+): FloorRadioModel | null {
+    const footprintCoordinates = [...polygons.flatMap(p => getOuterRings(p.geometry).flat()), ...extraCoordinates];
+    if (footprintCoordinates.length < 3) return null;
+
+    const origin: [number, number] = [
+        footprintCoordinates.reduce((sum, c) => sum + c[0], 0) / footprintCoordinates.length,
+        footprintCoordinates.reduce((sum, c) => sum + c[1], 0) / footprintCoordinates.length,
+    ];
+    const projection = createLocalProjection(origin);
+
+    // Every ring of a wall blocks the signal, the edges of its holes as much as its outline
+    const walls: LocalWall[] = polygons
+        .filter(p => p.properties.type === "Wall")
+        .flatMap(p => getAllRings(p.geometry).filter(ring => ring.length >= 4))
+        .map(coordinates => {
+            const ring = coordinates.slice(0, -1).map(projection.toLocal);
+            return {
+                ring,
+                minX: Math.min(...ring.map(q => q.x)),
+                minY: Math.min(...ring.map(q => q.y)),
+                maxX: Math.max(...ring.map(q => q.x)),
+                maxY: Math.max(...ring.map(q => q.y)),
+            };
+        });
+
+    const hull = convexHull(footprintCoordinates.map(projection.toLocal));
+    const xs = hull.map(p => p.x);
+    const ys = hull.map(p => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX;
+    const height = Math.max(...ys) - minY;
+    const cellSize = Math.max(MIN_CELL_SIZE, Math.sqrt(width * height / maxSamples));
+
+    const samples: LocalPoint[] = [];
+    for (let y = minY + cellSize / 2; y < minY + height; y += cellSize) {
+        for (let x = minX + cellSize / 2; x < minX + width; x += cellSize) {
+            const point = { x, y };
+            if (isPointInLocalRing(point, hull) && !walls.some(w => isPointInLocalRing(point, w.ring))) {
+                samples.push(point);
+            }
+        }
+    }
+
+    return {
+        projection,
+        samples,
+        cellSize,
+        createTransmitter: (coordinates, profile) => ({
+            position: projection.toLocal(coordinates),
+            profile,
+            reach: Math.pow(10, (profile.rssiAtOneMeter - settings.sensitivity) / (10 * profile.pathLossExponent)),
+        }),
+        rssiAt: ({ position, profile, reach }, point) => {
+            const distance = Math.hypot(position.x - point.x, position.y - point.y);
+            if (distance > reach) return null;
+            const rssi = estimateRssi(profile, distance, countWalls(position, point, walls), settings.wallAttenuation);
+            return rssi >= settings.sensitivity ? rssi : null;
+        },
+    };
+}
+
+/**
+ * Estimates signal strength and the number of audible beacons over a grid covering the floor,
+ * using a log-distance path loss model plus a fixed loss per `Wall` polygon crossed.
+ */
+export function computeCoverage(
+    polygons: Polygon[],
+    beacons: Beacon[],
+    beaconTypes: BeaconType[],
+    settings: CoverageSettings = DEFAULT_COVERAGE_SETTINGS
+): CoverageMap | null {
+    const placedBeacons = beacons.filter(b => b.properties.is_active && b.geometry);
+    const model = createFloorRadioModel(polygons, placedBeacons.map(b => b.geometry!.coordinates), settings);
+    if (!model) return null;
+
+    const typesById = new Map(beaconTypes.map(t => [t.id, t]));
+    const transmitters = placedBeacons.map(b => model.createTransmitter(
+        b.geometry!.coordinates,
+        getRadioProfile(typesById.get(b.properties.beacon_type_id ?? -1), settings.sensitivity)
+    ));
+
+    const { projection, cellSize } = model;
+    const half = cellSize / 2;
+    let deadCells = 0;
+    const cells: CoverageCell[] = model.samples.map(({ x, y }) => {
+        let bestRssi: number | null = null;
+        let heardCount = 0;
+        transmitters.forEach(transmitter => {
+            const rssi = model.rssiAt(transmitter, { x, y });
+            if (rssi === null) return;
+            heardCount++;
+            bestRssi = bestRssi === null ? rssi : Math.max(bestRssi, rssi);
+        });
+        if (heardCount < MIN_BEACONS_FOR_POSITIONING) deadCells++;
+
+        return {
+            ring: [
+                projection.toLngLat({ x: x - half, y: y - half }),
+                projection.toLngLat({ x: x + half, y: y - half }),
+                projection.toLngLat({ x: x + half, y: y + half }),
+                projection.toLngLat({ x: x - half, y: y + half }),
+                projection.toLngLat({ x: x - half, y: y - half }),
+            ],
+            bestRssi,
+            heardCount,
+        };
+    });
+
+    const result: CoverageMap = {
+        cells,
+        cellSize,
+        deadZoneRatio: cells.length ? deadCells / cells.length : 0,
+        beaconCount: transmitters.length,
+        untypedBeaconCount: placedBeacons.filter(b => !typesById.has(b.properties.beacon_type_id ?? -1)).length,
+    };
+    logger.info("Beacon coverage computed", { cellCount: cells.length, cellSize, deadZoneRatio: result.deadZoneRatio });
+    return result;
+}
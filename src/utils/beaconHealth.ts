@@ -0,0 +1,151 @@
+import { Beacon } from "../interfaces/Beacon";
+import { Building } from "../interfaces/Building";
+import { Floor } from "../interfaces/Floor";
+import { toCsv } from "./csv";
+
+export interface BeaconHealthSettings {
+    // Battery percentage below which a beacon is due for replacement
+    lowBatteryThreshold: number;
+    // A beacon not heard from for longer than this is considered silent
+    silentHours: number;
+}
+
+export const DEFAULT_BEACON_HEALTH_SETTINGS: BeaconHealthSettings = {
+    lowBatteryThreshold: 20,
+    silentHours: 24,
+};
+
+export type BeaconHealthStatus = "healthy" | "low-battery" | "silent" | "critical" | "inactive";
+
+export const BEACON_HEALTH_COLORS: Record<BeaconHealthStatus, string> = {
+    "healthy": "#16a34a",
+    "low-battery": "#f59e0b",
+    "silent": "#ea580c",
+    "critical": "#dc2626",
+    "inactive": "#9ca3af",
+};
+
+export const BEACON_HEALTH_LABELS: Record<BeaconHealthStatus, string> = {
+    "healthy": "Healthy",
+    "low-battery": "Low battery",
+    "silent": "Silent",
+    "critical": "Silent, low battery",
+    "inactive": "Inactive",
+};
+
+export interface BeaconHealth {
+    beacon: Beacon;
+    status: BeaconHealthStatus;
+    // Hours since the last heartbeat, null when the beacon has never been heard from
+    hoursSilent: number | null;
+    // Higher needs attention sooner; 0 for healthy and inactive beacons
+    urgency: number;
+}
+
+export interface BatteryBucket {
+    from: number;
+    to: number;
+    count: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Silent beacons stop ranking higher once they have been silent this many times the limit
+const MAX_SILENCE_FACTOR = 10;
+
+/**
+ * Rates a beacon's health. A silent beacon is already failing, so it always outranks one that
+ * only has a low battery; within each group the emptier or longer-silent beacon comes first.
+ */
+export function assessBeaconHealth(beacon: Beacon, settings: BeaconHealthSettings, now: number): BeaconHealth {
+    const lastSeen = beacon.properties.last_seen ? Date.parse(beacon.properties.last_seen) : NaN;
+    const hoursSilent = isNaN(lastSeen) ? null : Math.max(0, (now - lastSeen) / HOUR_MS);
+
+    if (!beacon.properties.is_active) {
+        return { beacon, status: "inactive", hoursSilent, urgency: 0 };
+    }
+
+    const battery = beacon.properties.battery_level;
+    const isLowBattery = battery < settings.lowBatteryThreshold;
+    const isSilent = hoursSilent === null || hoursSilent > settings.silentHours;
+
+    const batteryUrgency = isLowBattery ? 50 + 100 * (settings.lowBatteryThreshold - battery) / settings.lowBatteryThreshold : 0;
+    const silenceUrgency = !isSilent ? 0 : hoursSilent === null
+        ? 150 + 5 * MAX_SILENCE_FACTOR
+        : 150 + 5 * Math.min(MAX_SILENCE_FACTOR, hoursSilent / settings.silentHours);
+
+    const status: BeaconHealthStatus = isSilent && isLowBattery ? "critical"
+        : isSilent ? "silent"
+        : isLowBattery ? "low-battery"
+        : "healthy";
+    return { beacon, status, hoursSilent, urgency: batteryUrgency + silenceUrgency };
+}
+
+/**
+ * Rates every beacon, most urgent first
+ */
+export function assessFleetHealth(beacons: Beacon[], settings: BeaconHealthSettings, now: number): BeaconHealth[] {
+    return beacons
+        .map(beacon => assessBeaconHealth(beacon, settings, now))
+        .sort((a, b) => b.urgency - a.urgency || a.beacon.properties.battery_level - b.beacon.properties.battery_level);
+}
+
+/**
+ * Counts active beacons per battery band; the top band includes 100 %
+ */
+export function getBatteryDistribution(beacons: Beacon[], bucketSize: number = 10): BatteryBucket[] {
+    const buckets: BatteryBucket[] = [];
+    for (let from = 0; from < 100; from += bucketSize) {
+        buckets.push({ from, to: Math.min(100, from + bucketSize), count: 0 });
+    }
+    beacons
+        .filter(b => b.properties.is_active)
+        .forEach(b => {
+            const level = Math.min(100, Math.max(0, b.properties.battery_level));
+            buckets[Math.min(buckets.length - 1, Math.floor(level / bucketSize))].count++;
+        });
+    return buckets;
+}
+
+export function describeSilence(hoursSilent: number | null): string {
+    if (hoursSilent === null) return "Never seen";
+    if (hoursSilent < 1) return "Just now";
+    if (hoursSilent < 48) return `${Math.round(hoursSilent)} h ago`;
+    return `${Math.round(hoursSilent / 24)} days ago`;
+}
+
+/**
+ * A CSV of every beacon needing a visit, most urgent first, for the technicians replacing
+ * batteries and hardware
+ */
+export function buildReplacementWorkList(health: BeaconHealth[], floors: Floor[], buildings: Building[]): string {
+    const floorsById = new Map(floors.map(f => [f.id, f]));
+    const buildingsById = new Map(buildings.map(b => [b.id, b]));
+    const header = ["Priority", "Building", "Floor", "Beacon ID", "Beacon name", "Problem", "Battery (%)", "Last seen", "UUID", "Major", "Minor", "Longitude", "Latitude", "Done"];
+
+    const rows = health
+        .filter(h => h.status !== "healthy" && h.status !== "inactive")
+        .sort((a, b) => b.urgency - a.urgency)
+        .map((h, i) => {
+            const { properties, geometry } = h.beacon;
+            const floor = floorsById.get(properties.floor_id);
+            const [lng, lat] = geometry?.coordinates ?? [null, null];
+            return [
+                i + 1,
+                floor ? buildingsById.get(floor.buildingId)?.name : undefined,
+                floor?.name,
+                properties.id,
+                properties.name,
+                BEACON_HEALTH_LABELS[h.status],
+                properties.battery_level,
+                properties.last_seen ?? "Never",
+                properties.uuid?.toUpperCase(),
+                properties.major_id,
+                properties.minor_id,
+                lng?.toFixed(7),
+                lat?.toFixed(7),
+                "",
+            ];
+        });
+
+    return toCsv([header, ...rows]);
+}
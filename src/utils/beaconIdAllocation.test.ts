@@ -0,0 +1,166 @@
+import { webcrypto } from "crypto";
+import { Beacon } from "../interfaces/Beacon";
+import { Floor } from "../interfaces/Floor";
+import { ValidationError } from "./validation";
+import {
+    BuildingBeaconAllocation,
+    allocateBeaconIds,
+    assignFloorMajorRanges,
+    beaconIdKey,
+    deriveBuildingAllocation,
+    findDuplicateBeaconIds,
+    generateBeaconUuid,
+    planBeaconIdReallocation
+} from "./beaconIdAllocation";
+
+const UUID = "f7826da6-4fa2-4e98-8024-bc5b71e0893e";
+const OTHER_UUID = "b9407f30-f5f8-466e-aff9-25556b57fe6d";
+
+const floor = (id: number, floorNumber: number): Floor => ({ id, name: `Floor ${floorNumber}`, floorNumber, buildingId: 1 });
+const floors = [floor(10, 0), floor(11, 1), floor(12, 2)];
+
+const beacon = (id: number, floorId: number, uuid: string | null, major: number | null, minor: number | null): Beacon => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50, 26] },
+    properties: {
+        id,
+        floor_id: floorId,
+        name: `Beacon ${id}`,
+        uuid,
+        major_id: major,
+        minor_id: minor,
+        is_active: true,
+        is_visible: true,
+        battery_level: 100,
+    },
+});
+
+const allocation: BuildingBeaconAllocation = {
+    buildingId: 1,
+    uuid: UUID,
+    majorsPerFloor: 4,
+    floorMajorStart: { 10: 1, 11: 5, 12: 9 },
+};
+
+describe("generateBeaconUuid", () => {
+    // jsdom has no Web Crypto; browsers and Node share the same API
+    beforeAll(() => {
+        Object.defineProperty(globalThis, "crypto", { value: webcrypto, configurable: true });
+    });
+
+    it("generates random version 4 UUIDs", () => {
+        const uuid = generateBeaconUuid();
+
+        expect(uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(generateBeaconUuid()).not.toBe(uuid);
+    });
+});
+
+describe("findDuplicateBeaconIds", () => {
+    it("groups beacons advertising the same identity, whatever the UUID's case", () => {
+        const conflicts = findDuplicateBeaconIds([
+            beacon(1, 10, UUID, 1, 1),
+            beacon(2, 11, UUID.toUpperCase(), 1, 1),
+            beacon(3, 10, UUID, 1, 2),
+            beacon(4, 10, null, 1, 1),
+        ]);
+
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].tuple).toEqual({ uuid: UUID, major: 1, minor: 1 });
+        expect(conflicts[0].beacons.map(b => b.properties.id)).toEqual([1, 2]);
+    });
+
+    it("ignores beacons whose identity isn't complete", () => {
+        expect(findDuplicateBeaconIds([beacon(1, 10, UUID, 1, null), beacon(2, 10, UUID, 1, null)])).toEqual([]);
+    });
+});
+
+describe("assignFloorMajorRanges", () => {
+    it("gives floors without a block the next free ones, in floor order", () => {
+        const result = assignFloorMajorRanges({ ...allocation, floorMajorStart: { 11: 1 } }, [floor(12, 2), floor(11, 1), floor(10, 0)]);
+
+        expect(result.floorMajorStart).toEqual({ 11: 1, 10: 5, 12: 9 });
+    });
+
+    it("refuses to run past the last major", () => {
+        const crowded = { ...allocation, majorsPerFloor: 30000, floorMajorStart: {} };
+
+        expect(() => assignFloorMajorRanges(crowded, floors)).toThrow(ValidationError);
+        expect(assignFloorMajorRanges(crowded, floors.slice(0, 2)).floorMajorStart).toEqual({ 10: 1, 11: 30001 });
+    });
+});
+
+describe("deriveBuildingAllocation", () => {
+    it("reads each floor's block off the beacons already saved", () => {
+        const result = deriveBuildingAllocation(1, floors, [
+            beacon(1, 10, UUID, 1, 1),
+            beacon(2, 10, UUID, 2, 1),
+            beacon(3, 11, UUID, 11, 1),
+        ]);
+
+        expect(result).toEqual({ buildingId: 1, uuid: UUID, majorsPerFloor: 10, floorMajorStart: { 10: 1, 11: 11, 12: 21 } });
+    });
+
+    it("prefers a UUID no other building uses", () => {
+        const result = deriveBuildingAllocation(1, floors, [
+            beacon(1, 10, OTHER_UUID, 1, 1),
+            beacon(2, 10, OTHER_UUID, 1, 2),
+            beacon(3, 11, UUID, 5, 1),
+            beacon(4, 99, OTHER_UUID, 1, 3),
+        ]);
+
+        expect(result.uuid).toBe(UUID);
+    });
+});
+
+describe("allocateBeaconIds", () => {
+    it("hands out the lowest unused identities on the floor, starting at minor 1", () => {
+        const used = new Set([beaconIdKey({ uuid: UUID, major: 5, minor: 1 }), beaconIdKey({ uuid: UUID, major: 5, minor: 3 })]);
+
+        expect(allocateBeaconIds(allocation, 11, used, 3)).toEqual([
+            { uuid: UUID, major: 5, minor: 2 },
+            { uuid: UUID, major: 5, minor: 4 },
+            { uuid: UUID, major: 5, minor: 5 },
+        ]);
+    });
+
+    it("needs the floor to have a block", () => {
+        expect(() => allocateBeaconIds(allocation, 99, new Set(), 1)).toThrow(ValidationError);
+    });
+});
+
+describe("planBeaconIdReallocation", () => {
+    const buildingBeacons = [
+        beacon(1, 10, UUID, 1, 1),
+        beacon(2, 10, UUID, 1, 1),
+        beacon(3, 11, null, null, null),
+        beacon(4, 12, OTHER_UUID, 9, 1),
+        beacon(5, 12, UUID, 9, 1),
+    ];
+
+    it("renumbers duplicates, missing identities and identities outside the scheme", () => {
+        const plan = planBeaconIdReallocation(allocation, buildingBeacons, buildingBeacons, false);
+
+        expect(plan.map(p => [p.beacon.properties.id, p.reason, p.to])).toEqual([
+            [2, "duplicate", { uuid: UUID, major: 1, minor: 2 }],
+            [3, "missing", { uuid: UUID, major: 5, minor: 1 }],
+            [4, "outside-scheme", { uuid: UUID, major: 9, minor: 2 }],
+        ]);
+        expect(plan[0].from).toEqual({ uuid: UUID, major: 1, minor: 1 });
+    });
+
+    it("renumbers the building's beacon when another building's beacon has the same identity", () => {
+        const neighbour = beacon(20, 99, UUID, 1, 1);
+        const ours = beacon(21, 12, UUID, 1, 1);
+
+        const plan = planBeaconIdReallocation(allocation, [ours], [neighbour, ours], true);
+
+        expect(plan.map(p => p.beacon.properties.id)).toEqual([21]);
+    });
+
+    it("leaves everything but duplicates alone when asked to", () => {
+        const plan = planBeaconIdReallocation(allocation, buildingBeacons, buildingBeacons, true);
+
+        expect(plan.map(p => p.beacon.properties.id)).toEqual([2]);
+    });
+});
@@ -0,0 +1,301 @@
+import { Beacon } from "../interfaces/Beacon";
+import { Building } from "../interfaces/Building";
+import { Floor } from "../interfaces/Floor";
+import { toCsv } from "./csv";
+import { ValidationError } from "./validation";
+import { createLogger } from "./logger";
+
+const logger = createLogger("beaconIdAllocation");
+
+// Major and minor are unsigned 16-bit fields in the iBeacon advertisement
+export const MAX_IBEACON_ID = 65535;
+export const DEFAULT_MAJORS_PER_FLOOR = 4;
+
+export interface BeaconIdTuple {
+    uuid: string;
+    major: number;
+    minor: number;
+}
+
+/**
+ * How a building's beacons are numbered: one proximity UUID for the whole building and a block of
+ * consecutive majors per floor. Minors are handed out in order within the floor's majors.
+ */
+export interface BuildingBeaconAllocation {
+    buildingId: number;
+    uuid: string;
+    majorsPerFloor: number;
+    // First major of each floor's block, keyed by floor id
+    floorMajorStart: Record<number, number>;
+}
+
+export interface BeaconIdConflict {
+    tuple: BeaconIdTuple;
+    beacons: Beacon[];
+}
+
+export type ReallocationReason = "duplicate" | "missing" | "outside-scheme";
+
+export interface BeaconIdReassignment {
+    beacon: Beacon;
+    from: BeaconIdTuple | null;
+    to: BeaconIdTuple;
+    reason: ReallocationReason;
+}
+
+export function generateBeaconUuid(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    // Version 4, RFC 4122 variant
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+const normalizeUuid = (uuid: string) => uuid.trim().toLowerCase();
+
+export const beaconIdKey = (tuple: BeaconIdTuple) => `${normalizeUuid(tuple.uuid)}/${tuple.major}/${tuple.minor}`;
+
+/**
+ * The beacon's iBeacon identity, or null while any part of it is unset
+ */
+export function getBeaconIdTuple(beacon: Beacon): BeaconIdTuple | null {
+    const { uuid, major_id, minor_id } = beacon.properties;
+    if (!uuid || major_id === null || major_id === undefined || minor_id === null || minor_id === undefined) return null;
+    return { uuid: normalizeUuid(uuid), major: major_id, minor: minor_id };
+}
+
+/**
+ * Groups beacons advertising the same (uuid, major, minor); a phone can't tell these apart
+ */
+export function findDuplicateBeaconIds(beacons: Beacon[]): BeaconIdConflict[] {
+    const groups = new Map<string, BeaconIdConflict>();
+    beacons.forEach(beacon => {
+        const tuple = getBeaconIdTuple(beacon);
+        if (!tuple) return;
+        const key = beaconIdKey(tuple);
+        const group = groups.get(key);
+        if (group) {
+            group.beacons.push(beacon);
+        } else {
+            groups.set(key, { tuple, beacons: [beacon] });
+        }
+    });
+    return Array.from(groups.values()).filter(group => group.beacons.length > 1);
+}
+
+/**
+ * The floor's block of majors, or null when the floor has none yet
+ */
+export function getFloorMajorRange(allocation: BuildingBeaconAllocation, floorId: number): { first: number; last: number } | null {
+    const first = allocation.floorMajorStart[floorId];
+    if (first === undefined) return null;
+    return { first, last: first + allocation.majorsPerFloor - 1 };
+}
+
+export function isBeaconIdInScheme(beacon: Beacon, allocation: BuildingBeaconAllocation): boolean {
+    const tuple = getBeaconIdTuple(beacon);
+    const range = getFloorMajorRange(allocation, beacon.properties.floor_id);
+    return !!tuple && !!range
+        && tuple.uuid === normalizeUuid(allocation.uuid)
+        && tuple.major >= range.first && tuple.major <= range.last;
+}
+
+const byFloorNumber = (floors: Floor[]) => [...floors].sort((a, b) => a.floorNumber - b.floorNumber || a.id - b.id);
+
+/**
+ * Gives every floor without a block the next free one, in floor order
+ */
+export function assignFloorMajorRanges(allocation: BuildingBeaconAllocation, floors: Floor[]): BuildingBeaconAllocation {
+    const floorMajorStart = { ...allocation.floorMajorStart };
+    let next = Math.max(0, ...Object.values(floorMajorStart).map(start => start + allocation.majorsPerFloor - 1)) + 1;
+
+    byFloorNumber(floors).forEach(floor => {
+        if (floorMajorStart[floor.id] !== undefined) return;
+        if (next + allocation.majorsPerFloor - 1 > MAX_IBEACON_ID) {
+            throw new ValidationError(`No majors left for floor "${floor.name}"; use fewer majors per floor`, "majorsPerFloor");
+        }
+        floorMajorStart[floor.id] = next;
+        next += allocation.majorsPerFloor;
+    });
+    return { ...allocation, floorMajorStart };
+}
+
+/**
+ * Lays the building's floors out again from major 1 with a new block size. Beacons numbered under
+ * the old layout fall outside the scheme until they are re-allocated.
+ */
+export function resizeFloorMajorRanges(allocation: BuildingBeaconAllocation, floors: Floor[], majorsPerFloor: number): BuildingBeaconAllocation {
+    if (!Number.isInteger(majorsPerFloor) || majorsPerFloor < 1) {
+        throw new ValidationError("Each floor needs at least one major", "majorsPerFloor");
+    }
+    return assignFloorMajorRanges({ ...allocation, majorsPerFloor, floorMajorStart: {} }, floors);
+}
+
+/**
+ * The UUID most of the building's beacons carry, preferring one no other building's beacons use
+ */
+const pickBuildingUuid = (buildingBeacons: Beacon[], otherBeacons: Beacon[]): string | undefined => {
+    const usedElsewhere = new Set(otherBeacons.flatMap(b => b.properties.uuid ? [normalizeUuid(b.properties.uuid)] : []));
+    const uuidCounts = new Map<string, number>();
+    buildingBeacons.forEach(beacon => {
+        const uuid = beacon.properties.uuid ? normalizeUuid(beacon.properties.uuid) : null;
+        if (uuid) uuidCounts.set(uuid, (uuidCounts.get(uuid) ?? 0) + 1);
+    });
+    return Array.from(uuidCounts.entries())
+        .sort((a, b) => Number(usedElsewhere.has(a[0])) - Number(usedElsewhere.has(b[0])) || b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Reads a building's scheme off the beacons saved on the server, so every browser works from the
+ * same one. Each floor's block starts at the lowest major its beacons use under the building's
+ * UUID, and floors without beacons get the next free blocks. A building with no UUID yet gets a
+ * new one, which sticks once a beacon is saved with it.
+ */
+export function deriveBuildingAllocation(buildingId: number, floors: Floor[], allBeacons: Beacon[]): BuildingBeaconAllocation {
+    const floorIds = new Set(floors.map(f => f.id));
+    const buildingBeacons = allBeacons.filter(b => floorIds.has(b.properties.floor_id));
+    const uuid = pickBuildingUuid(buildingBeacons, allBeacons.filter(b => !floorIds.has(b.properties.floor_id)));
+
+    const floorMajors = new Map<number, number[]>();
+    buildingBeacons.forEach(beacon => {
+        const tuple = getBeaconIdTuple(beacon);
+        if (!tuple || tuple.uuid !== uuid) return;
+        floorMajors.set(beacon.properties.floor_id, [...(floorMajors.get(beacon.properties.floor_id) ?? []), tuple.major]);
+    });
+    const used = Array.from(floorMajors.entries())
+        .map(([floorId, majors]) => ({ floorId, first: Math.min(...majors), last: Math.max(...majors) }))
+        .sort((a, b) => a.first - b.first);
+
+    // Wide enough for every floor's majors and, with several floors, the spacing between their blocks
+    const widest = Math.max(1, ...used.map(u => u.last - u.first + 1));
+    const spacing = used.length > 1
+        ? Math.min(...used.slice(1).map((u, i) => u.first - used[i].first))
+        : DEFAULT_MAJORS_PER_FLOOR;
+    const majorsPerFloor = Math.max(widest, spacing);
+
+    // A floor whose majors run into the block before gets a fresh block, and its beacons fall outside the scheme
+    const floorMajorStart: Record<number, number> = {};
+    let previousLast = 0;
+    used.forEach(({ floorId, first }) => {
+        if (first <= previousLast) return;
+        floorMajorStart[floorId] = first;
+        previousLast = first + majorsPerFloor - 1;
+    });
+
+    logger.info("Beacon ID scheme derived", { buildingId, beaconCount: buildingBeacons.length, hasUuid: !!uuid });
+    return assignFloorMajorRanges({ buildingId, uuid: uuid ?? generateBeaconUuid(), majorsPerFloor, floorMajorStart }, floors);
+}
+
+/**
+ * Hands out the next `count` unused identities on a floor, lowest major and minor first
+ */
+export function allocateBeaconIds(
+    allocation: BuildingBeaconAllocation,
+    floorId: number,
+    usedKeys: Set<string>,
+    count: number
+): BeaconIdTuple[] {
+    const range = getFloorMajorRange(allocation, floorId);
+    if (!range) {
+        throw new ValidationError("The floor has no major range in the building's beacon ID scheme");
+    }
+
+    const allocated: BeaconIdTuple[] = [];
+    for (let major = range.first; major <= range.last && allocated.length < count; major++) {
+        // Minor 0 is skipped; some provisioning apps treat it as "unset"
+        for (let minor = 1; minor <= MAX_IBEACON_ID && allocated.length < count; minor++) {
+            const tuple = { uuid: normalizeUuid(allocation.uuid), major, minor };
+            if (!usedKeys.has(beaconIdKey(tuple))) allocated.push(tuple);
+        }
+    }
+    if (allocated.length < count) {
+        throw new ValidationError("The floor's major range is full; give floors more majors");
+    }
+    return allocated;
+}
+
+/**
+ * Works out new identities for a building's beacons. Beacons sharing a tuple keep it on one of
+ * them (one that fits the scheme if possible) and the rest are renumbered. Unless `duplicatesOnly`,
+ * beacons with no identity or one outside the scheme are renumbered too.
+ */
+export function planBeaconIdReallocation(
+    allocation: BuildingBeaconAllocation,
+    buildingBeacons: Beacon[],
+    allBeacons: Beacon[],
+    duplicatesOnly: boolean
+): BeaconIdReassignment[] {
+    const buildingIds = new Set(buildingBeacons.map(b => b.properties.id));
+    const reasons = new Map<number, ReallocationReason>();
+
+    findDuplicateBeaconIds(allBeacons).forEach(conflict => {
+        const keeper = conflict.beacons.find(b => buildingIds.has(b.properties.id) && isBeaconIdInScheme(b, allocation))
+            ?? [...conflict.beacons].sort((a, b) => a.properties.id - b.properties.id)[0];
+        conflict.beacons.forEach(beacon => {
+            if (beacon !== keeper && buildingIds.has(beacon.properties.id)) reasons.set(beacon.properties.id, "duplicate");
+        });
+    });
+
+    if (!duplicatesOnly) {
+        buildingBeacons.forEach(beacon => {
+            if (reasons.has(beacon.properties.id) || isBeaconIdInScheme(beacon, allocation)) return;
+            reasons.set(beacon.properties.id, getBeaconIdTuple(beacon) ? "outside-scheme" : "missing");
+        });
+    }
+
+    // Identities that stay in use, so nothing is handed out twice
+    const usedKeys = new Set<string>();
+    allBeacons.forEach(beacon => {
+        const tuple = getBeaconIdTuple(beacon);
+        if (tuple && !reasons.has(beacon.properties.id)) usedKeys.add(beaconIdKey(tuple));
+    });
+
+    const toRenumber = buildingBeacons
+        .filter(b => reasons.has(b.properties.id))
+        .sort((a, b) => a.properties.floor_id - b.properties.floor_id || a.properties.id - b.properties.id);
+
+    const plan = toRenumber.map(beacon => {
+        const [to] = allocateBeaconIds(allocation, beacon.properties.floor_id, usedKeys, 1);
+        usedKeys.add(beaconIdKey(to));
+        return { beacon, from: getBeaconIdTuple(beacon), to, reason: reasons.get(beacon.properties.id)! };
+    });
+    logger.info("Beacon ID re-allocation planned", { buildingId: allocation.buildingId, changeCount: plan.length, duplicatesOnly });
+    return plan;
+}
+
+/**
+ * A CSV the field technicians work through when flashing hardware: one row per beacon, in floor
+ * and ID order, with an empty column to tick off each flashed unit
+ */
+export function buildProvisioningSheet(building: Building, floors: Floor[], beacons: Beacon[]): string {
+    const floorsById = new Map(floors.map(f => [f.id, f]));
+    const header = ["Building", "Floor", "Floor number", "Beacon ID", "Beacon name", "Beacon type", "UUID", "Major", "Minor", "Longitude", "Latitude", "Flashed"];
+
+    const rows = [...beacons]
+        .sort((a, b) =>
+            (floorsById.get(a.properties.floor_id)?.floorNumber ?? 0) - (floorsById.get(b.properties.floor_id)?.floorNumber ?? 0)
+            || (a.properties.major_id ?? MAX_IBEACON_ID + 1) - (b.properties.major_id ?? MAX_IBEACON_ID + 1)
+            || (a.properties.minor_id ?? MAX_IBEACON_ID + 1) - (b.properties.minor_id ?? MAX_IBEACON_ID + 1))
+        .map(beacon => {
+            const floor = floorsById.get(beacon.properties.floor_id);
+            const [lng, lat] = beacon.geometry?.coordinates ?? [null, null];
+            return [
+                building.name,
+                floor?.name,
+                floor?.floorNumber,
+                beacon.properties.id,
+                beacon.properties.name,
+                beacon.properties.beacon_type?.name,
+                beacon.properties.uuid?.toUpperCase(),
+                beacon.properties.major_id,
+                beacon.properties.minor_id,
+                lng?.toFixed(7),
+                lat?.toFixed(7),
+                "",
+            ];
+        });
+
+    return toCsv([header, ...rows]);
+}
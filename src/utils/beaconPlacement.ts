@@ -0,0 +1,136 @@
+import { Beacon } from "../interfaces/Beacon";
+import { BeaconType } from "../interfaces/BeaconType";
+import { Polygon } from "../interfaces/Polygon";
+import { ValidationError } from "./validation";
+import { createLogger } from "./logger";
+import { CoverageSettings, Transmitter, createFloorRadioModel, getRadioProfile } from "./beaconCoverage";
+
+const logger = createLogger("beaconPlacement");
+
+export interface BeaconPlacementOptions {
+    beaconType: BeaconType;
+    // Every walkable point should hear at least this many beacons
+    minBeaconsHeard: number;
+    // Count the floor's active beacons towards the target instead of planning from scratch
+    keepExisting: boolean;
+    maxBeacons: number;
+    settings: CoverageSettings;
+}
+
+export interface BeaconPlacementProposal {
+    positions: [number, number][];
+    beaconTypeId: number;
+    // Share of the floor (0-1) meeting the target before and after adding the proposed beacons
+    coveredBefore: number;
+    coveredAfter: number;
+    // Share of the floor no placement can bring up to the target, e.g. pockets boxed in by walls
+    unreachable: number;
+}
+
+// Demand points and candidate positions share one grid; this keeps a large floor to about a second
+const MAX_SAMPLES = 2500;
+// Beacons bunched together give poor trilateration geometry, so keep them at least this share of their reach apart
+const SPACING_FACTOR = 0.4;
+const MIN_SPACING = 2;
+
+/**
+ * Proposes a near-minimal set of beacon positions so every walkable point hears the target number
+ * of beacons. Greedy multi-cover: repeatedly place the beacon that brings the most under-covered
+ * points closer to the target, then drop any beacon the result turns out not to need.
+ */
+export function optimizeBeaconPlacement(
+    polygons: Polygon[],
+    beacons: Beacon[],
+    beaconTypes: BeaconType[],
+    options: BeaconPlacementOptions
+): BeaconPlacementProposal {
+    const existingBeacons = options.keepExisting ? beacons.filter(b => b.properties.is_active && b.geometry) : [];
+    const model = createFloorRadioModel(polygons, existingBeacons.map(b => b.geometry!.coordinates), options.settings, MAX_SAMPLES);
+    if (!model || model.samples.length === 0) {
+        throw new ValidationError("Draw the floor's rooms before optimizing beacon placement");
+    }
+
+    const demand = model.samples;
+    const target = options.minBeaconsHeard;
+
+    // How many beacons each point already hears
+    const typesById = new Map(beaconTypes.map(t => [t.id, t]));
+    const heard = new Int32Array(demand.length);
+    const existingTransmitters = existingBeacons.map(b => model.createTransmitter(
+        b.geometry!.coordinates,
+        getRadioProfile(typesById.get(b.properties.beacon_type_id ?? -1), options.settings.sensitivity)
+    ));
+    existingTransmitters.forEach(transmitter => {
+        demand.forEach((point, d) => {
+            if (model.rssiAt(transmitter, point) !== null) heard[d]++;
+        });
+    });
+    const coveredBefore = heard.filter(h => h >= target).length / demand.length;
+
+    // Every sample point is also a candidate position; work out which points each one would reach
+    const profile = getRadioProfile(options.beaconType, options.settings.sensitivity);
+    const candidates: Transmitter[] = demand.map(point => model.createTransmitter(model.projection.toLngLat(point), profile));
+    const reaches = candidates.map(candidate => {
+        const reached: number[] = [];
+        demand.forEach((point, d) => {
+            if (model.rssiAt(candidate, point) !== null) reached.push(d);
+        });
+        return reached;
+    });
+
+    // Points that could never reach the target even with a beacon on every candidate only ask for what is possible
+    const candidateCount = new Int32Array(demand.length);
+    reaches.forEach(reached => reached.forEach(d => candidateCount[d]++));
+    const required = Array.from(demand, (_, d) => Math.min(target, heard[d] + candidateCount[d]));
+    const unreachable = required.filter(r => r < target).length / demand.length;
+    const need = Int32Array.from(required, (r, d) => Math.max(0, r - heard[d]));
+
+    const spacing = Math.max(MIN_SPACING, candidates[0].reach * SPACING_FACTOR);
+    const isFree = (candidate: Transmitter, placed: Transmitter[]) =>
+        placed.every(p => Math.hypot(p.position.x - candidate.position.x, p.position.y - candidate.position.y) >= spacing);
+
+    const chosen: number[] = [];
+    while (chosen.length < options.maxBeacons) {
+        const placed = [...existingTransmitters, ...chosen.map(c => candidates[c])];
+        let best = -1;
+        let bestGain = 0;
+        reaches.forEach((reached, c) => {
+            let gain = 0;
+            reached.forEach(d => { if (need[d] > 0) gain++; });
+            if (gain > bestGain && isFree(candidates[c], placed)) {
+                best = c;
+                bestGain = gain;
+            }
+        });
+        if (best === -1) break;
+
+        chosen.push(best);
+        reaches[best].forEach(d => {
+            heard[d]++;
+            need[d] = Math.max(0, need[d] - 1);
+        });
+    }
+
+    // Greedy picks made early can be made redundant by later ones; drop them, newest first
+    for (let i = chosen.length - 1; i >= 0; i--) {
+        const reached = reaches[chosen[i]];
+        if (reached.every(d => heard[d] - 1 >= required[d])) {
+            reached.forEach(d => heard[d]--);
+            chosen.splice(i, 1);
+        }
+    }
+
+    const proposal: BeaconPlacementProposal = {
+        positions: chosen.map(c => model.projection.toLngLat(demand[c])),
+        beaconTypeId: options.beaconType.id,
+        coveredBefore,
+        coveredAfter: heard.filter(h => h >= target).length / demand.length,
+        unreachable,
+    };
+    logger.info("Beacon placement optimized", {
+        beaconCount: proposal.positions.length,
+        coveredBefore: proposal.coveredBefore,
+        coveredAfter: proposal.coveredAfter,
+    });
+    return proposal;
+}
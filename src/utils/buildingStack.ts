@@ -0,0 +1,142 @@
+import { Floor } from "../interfaces/Floor";
+import { Polygon } from "../interfaces/Polygon";
+import { RouteNode } from "../interfaces/RouteNode";
+import { createLocalProjection, convexHull } from "./mapUtils";
+import { getOuterRings } from "./polygonGeometry";
+
+// Storey height used to space floors apart in the stacked view, in metres
+export const DEFAULT_FLOOR_SPACING = 6;
+
+const SLAB_THICKNESS = 0.2;
+const ROOM_HEIGHT = 0.6;
+// Walls stand taller so the floors' layouts read at a glance
+const WALL_HEIGHT = 2;
+// Width of the column drawn for a vertical link, in metres
+const CONNECTOR_WIDTH = 0.4;
+const SLAB_COLOR = "#cbd5e1";
+const CONNECTOR_COLOR = "#7c3aed";
+
+export interface StackedFloor {
+    floor: Floor;
+    polygons: Polygon[];
+    nodes: RouteNode[];
+}
+
+export interface StackedFeatureProperties {
+    floorId: number;
+    kind: "slab" | "polygon" | "connector";
+    base: number;
+    height: number;
+    color: string;
+}
+
+export type StackedFeature = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, StackedFeatureProperties>;
+
+export interface VerticalConnection {
+    from: RouteNode;
+    to: RouteNode;
+}
+
+/**
+ * Vertical position of each floor, lowest floor at the ground. Positions follow floor order
+ * rather than floor numbers, so basements and gaps in the numbering still stack tightly.
+ */
+export function getFloorElevations(floors: Floor[], spacing: number = DEFAULT_FLOOR_SPACING): Map<number, number> {
+    const sorted = [...floors].sort((a, b) => a.floorNumber - b.floorNumber);
+    return new Map(sorted.map((floor, index) => [floor.id, index * spacing]));
+}
+
+/**
+ * Links between route nodes on different floors, each listed once
+ */
+export function findVerticalConnections(nodes: RouteNode[]): VerticalConnection[] {
+    const nodesById = new Map(nodes.map(n => [n.properties.id, n]));
+    const connections: VerticalConnection[] = [];
+    nodes.forEach(node => {
+        node.properties.connections.forEach(otherId => {
+            const other = nodesById.get(otherId);
+            if (!other || other.properties.floor_id === node.properties.floor_id || otherId < node.properties.id) return;
+            connections.push({ from: node, to: other });
+        });
+    });
+    return connections;
+}
+
+const squareAround = (coordinates: [number, number], size: number): number[][] => {
+    const projection = createLocalProjection(coordinates);
+    const half = size / 2;
+    return [
+        projection.toLngLat({ x: -half, y: -half }),
+        projection.toLngLat({ x: half, y: -half }),
+        projection.toLngLat({ x: half, y: half }),
+        projection.toLngLat({ x: -half, y: half }),
+        projection.toLngLat({ x: -half, y: -half }),
+    ];
+};
+
+/**
+ * Extrusion features for a building: a slab under each floor's footprint, its polygons raised
+ * on top, and a thin column for every vertical link between two shown floors.
+ */
+export function buildStackedFeatures(
+    stacked: StackedFloor[],
+    hiddenFloorIds: Set<number>,
+    spacing: number = DEFAULT_FLOOR_SPACING
+): StackedFeature[] {
+    const elevations = getFloorElevations(stacked.map(s => s.floor), spacing);
+    const shown = stacked.filter(s => !hiddenFloorIds.has(s.floor.id));
+    const features: StackedFeature[] = [];
+
+    shown.forEach(({ floor, polygons }) => {
+        const base = elevations.get(floor.id) ?? 0;
+        const rings = polygons.filter(p => p.properties.is_visible && getOuterRings(p.geometry).some(ring => ring.length >= 4));
+        const corners = rings.flatMap(p => getOuterRings(p.geometry).flat());
+        if (corners.length === 0) return;
+
+        // The slab is what makes the whole floor clickable, not only its rooms
+        const projection = createLocalProjection([corners[0][0], corners[0][1]]);
+        const hull = convexHull(corners.map(projection.toLocal)).map(projection.toLngLat);
+        features.push({
+            type: "Feature",
+            geometry: { type: "Polygon", coordinates: [[...hull, hull[0]]] },
+            properties: { floorId: floor.id, kind: "slab", base, height: base + SLAB_THICKNESS, color: SLAB_COLOR },
+        });
+
+        rings.forEach(polygon => {
+            const isWall = polygon.properties.type === "Wall";
+            features.push({
+                type: "Feature",
+                geometry: polygon.geometry,
+                properties: {
+                    floorId: floor.id,
+                    kind: "polygon",
+                    base: base + SLAB_THICKNESS,
+                    height: base + SLAB_THICKNESS + (isWall ? WALL_HEIGHT : ROOM_HEIGHT),
+                    color: polygon.properties.color,
+                },
+            });
+        });
+    });
+
+    const shownFloorIds = new Set(shown.map(s => s.floor.id));
+    findVerticalConnections(stacked.flatMap(s => s.nodes)).forEach(({ from, to }) => {
+        if (!from.geometry || !to.geometry) return;
+        if (!shownFloorIds.has(from.properties.floor_id) || !shownFloorIds.has(to.properties.floor_id)) return;
+        const fromElevation = elevations.get(from.properties.floor_id) ?? 0;
+        const toElevation = elevations.get(to.properties.floor_id) ?? 0;
+        const lower = fromElevation <= toElevation ? from : to;
+        features.push({
+            type: "Feature",
+            geometry: { type: "Polygon", coordinates: [squareAround(lower.geometry!.coordinates, CONNECTOR_WIDTH)] },
+            properties: {
+                floorId: lower.properties.floor_id,
+                kind: "connector",
+                base: Math.min(fromElevation, toElevation) + SLAB_THICKNESS,
+                height: Math.max(fromElevation, toElevation) + SLAB_THICKNESS,
+                color: CONNECTOR_COLOR,
+            },
+        });
+    });
+
+    return features;
+}
@@ -0,0 +1,236 @@
+import { Polygon, PolygonBuilder } from "../interfaces/Polygon";
+import { Beacon, BeaconBuilder } from "../interfaces/Beacon";
+import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { HistoryCommand, combineCommands, deleteEntityCommand, editEntityCommand } from "./editHistory";
+import { createLocalProjection, isPointInPolygon } from "./mapUtils";
+import { getGeometryVertices, getPolygonParts, mapGeometryPoints } from "./polygonGeometry";
+
+export type SelectableType = "polygon" | "beacon" | "node";
+
+export interface SelectionItem {
+    type: SelectableType;
+    id: number;
+}
+
+export interface SelectableLayout {
+    polygons: Polygon[];
+    beacons: Beacon[];
+    nodes: RouteNode[];
+}
+
+/**
+ * Node types that can be set on many nodes at once. Elevators and stairs are left out: they
+ * belong to shafts, which link them across floors.
+ */
+export const BULK_NODE_TYPES = ["waypoint", "entrance", "exit", "junction", "escalator", "door", "landmark", "checkpoint"];
+
+/**
+ * A move in metres (east and north) and a clockwise rotation in degrees about the selection's centre
+ */
+export interface BulkTransform {
+    east: number;
+    north: number;
+    rotation: number;
+}
+
+export interface BulkNodeUpdate {
+    nodeType?: string | null;
+    level?: number;
+}
+
+export interface BulkPolygonUpdate {
+    color?: string;
+    categoryId?: number | null;
+}
+
+const isSameItem = (a: SelectionItem, b: SelectionItem) => a.type === b.type && a.id === b.id;
+
+export function isItemSelected(items: SelectionItem[], item: SelectionItem): boolean {
+    return items.some(i => isSameItem(i, item));
+}
+
+/**
+ * Adds the item to the selection, or removes it if it was already selected
+ */
+export function toggleSelectionItem(items: SelectionItem[], item: SelectionItem): SelectionItem[] {
+    return isItemSelected(items, item) ? items.filter(i => !isSameItem(i, item)) : [...items, item];
+}
+
+export function getSelectedIds(items: SelectionItem[], type: SelectableType): number[] {
+    return items.filter(i => i.type === type).map(i => i.id);
+}
+
+export const getSelectionItemKey = (item: SelectionItem) => `${item.type}-${item.id}`;
+
+/**
+ * The layout as the editor shows it, with the items hidden in the layers panel turned invisible.
+ * Only copies change, so hiding never reaches the staged layout or anything built from it.
+ */
+export function applyHiddenItems(layout: SelectableLayout, hiddenKeys: ReadonlySet<string>): SelectableLayout {
+    if (hiddenKeys.size === 0) return layout;
+    const hide = <T extends { properties: { id: number; is_visible: boolean } }>(entities: T[], type: SelectableType): T[] =>
+        entities.map(entity => hiddenKeys.has(getSelectionItemKey({ type, id: entity.properties.id }))
+            ? { ...entity, properties: { ...entity.properties, is_visible: false } }
+            : entity);
+    return {
+        polygons: hide(layout.polygons, "polygon"),
+        beacons: hide(layout.beacons, "beacon"),
+        nodes: hide(layout.nodes, "node"),
+    };
+}
+
+/**
+ * The visible items inside a [lng, lat] ring. Polygons count only when all of their corners are inside.
+ */
+export function findItemsInRing(ring: number[][], layout: SelectableLayout): SelectionItem[] {
+    const inside = ([lng, lat]: number[]) => isPointInPolygon(lng, lat, ring);
+    return [
+        ...layout.polygons
+            .filter(p => p.properties.is_visible && getGeometryVertices(p.geometry).every(inside))
+            .map(p => ({ type: "polygon" as const, id: p.properties.id })),
+        ...layout.beacons
+            .filter(b => b.properties.is_visible && b.geometry && inside(b.geometry.coordinates))
+            .map(b => ({ type: "beacon" as const, id: b.properties.id })),
+        ...layout.nodes
+            .filter(n => n.properties.is_visible && n.geometry && inside(n.geometry.coordinates))
+            .map(n => ({ type: "node" as const, id: n.properties.id })),
+    ];
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * "2 polygons, 1 beacon and 3 route nodes"
+ */
+export function describeSelection(items: SelectionItem[]): string {
+    const parts = [
+        [getSelectedIds(items, "polygon").length, "polygon"],
+        [getSelectedIds(items, "beacon").length, "beacon"],
+        [getSelectedIds(items, "node").length, "route node"],
+    ] as const;
+    const described = parts.filter(([count]) => count > 0).map(([count, noun]) => plural(count, noun));
+    return described.length > 1
+        ? `${described.slice(0, -1).join(", ")} and ${described[described.length - 1]}`
+        : described[0] ?? "nothing";
+}
+
+/**
+ * The selected entities that still exist, in the layout's current (staged) state
+ */
+export function getSelectedEntities(items: SelectionItem[], layout: SelectableLayout): SelectableLayout {
+    const pick = <T extends { properties: { id: number } }>(entities: T[], type: SelectableType) => {
+        const ids = getSelectedIds(items, type);
+        return entities.filter(e => ids.includes(e.properties.id));
+    };
+    return {
+        polygons: pick(layout.polygons, "polygon"),
+        beacons: pick(layout.beacons, "beacon"),
+        nodes: pick(layout.nodes, "node"),
+    };
+}
+
+/**
+ * The items that still exist, once deletes, undo or a floor change have removed some
+ */
+export function keepExistingItems(items: SelectionItem[], layout: SelectableLayout): SelectionItem[] {
+    const entitiesOf = (type: SelectableType): { properties: { id: number } }[] =>
+        type === "polygon" ? layout.polygons : type === "beacon" ? layout.beacons : layout.nodes;
+    return items.filter(item => entitiesOf(item.type).some(e => e.properties.id === item.id));
+}
+
+export function buildBulkDeleteCommand(selected: SelectableLayout): HistoryCommand {
+    return combineCommands("Delete selection", [
+        ...selected.polygons.map(p => deleteEntityCommand(OBJECT_TYPES.POLYGON, p)),
+        ...selected.beacons.map(b => deleteEntityCommand(OBJECT_TYPES.BEACON, b)),
+        ...selected.nodes.map(n => deleteEntityCommand(OBJECT_TYPES.NODE, n)),
+    ]);
+}
+
+const selectionPoints = (selected: SelectableLayout): number[][] => [
+    ...selected.polygons.flatMap(p => getGeometryVertices(p.geometry)),
+    ...selected.beacons.flatMap(b => (b.geometry ? [b.geometry.coordinates] : [])),
+    ...selected.nodes.flatMap(n => (n.geometry ? [n.geometry.coordinates] : [])),
+];
+
+/**
+ * Moves and rotates the selection as one rigid shape, in one undoable step. Nodes returned by
+ * `getLinkedNodes` (such as the same shaft on other floors) follow the node they are linked to.
+ */
+export function buildBulkTransformCommand(
+    selected: SelectableLayout,
+    transform: BulkTransform,
+    getLinkedNodes: (node: RouteNode) => RouteNode[] = () => []
+): HistoryCommand {
+    const points = selectionPoints(selected);
+    const center: [number, number] = [
+        points.reduce((sum, p) => sum + p[0], 0) / points.length,
+        points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    ];
+    const projection = createLocalProjection(center);
+    const angle = -transform.rotation * Math.PI / 180;
+    const move = (coordinates: number[]): [number, number] => {
+        const { x, y } = projection.toLocal(coordinates);
+        return projection.toLngLat({
+            x: x * Math.cos(angle) - y * Math.sin(angle) + transform.east,
+            y: x * Math.sin(angle) + y * Math.cos(angle) + transform.north,
+        });
+    };
+
+    const moveNode = (node: RouteNode, coordinates: [number, number]) =>
+        editEntityCommand(OBJECT_TYPES.NODE, node, RouteNodeBuilder.fromRouteNode(node).setLocation(...coordinates).build());
+
+    return combineCommands("Move selection", [
+        ...selected.polygons.map(p => editEntityCommand(
+            OBJECT_TYPES.POLYGON,
+            p,
+            PolygonBuilder.fromPolygon(p).setParts(mapGeometryPoints(p.geometry, move)).build()
+        )),
+        ...selected.beacons.flatMap(b => {
+            if (!b.geometry) return [];
+            const [lng, lat] = move(b.geometry.coordinates);
+            return [editEntityCommand(OBJECT_TYPES.BEACON, b, BeaconBuilder.fromBeacon(b).setGeometry(lng, lat).build())];
+        }),
+        ...selected.nodes.flatMap(n => {
+            if (!n.geometry) return [];
+            const coordinates = move(n.geometry.coordinates);
+            return [moveNode(n, coordinates), ...getLinkedNodes(n).map(linked => moveNode(linked, coordinates))];
+        }),
+    ]);
+}
+
+export function buildBulkNodeUpdateCommand(nodes: RouteNode[], update: BulkNodeUpdate): HistoryCommand {
+    return combineCommands("Edit selected route nodes", nodes.map(node => {
+        const builder = RouteNodeBuilder.fromRouteNode(node);
+        if (update.nodeType !== undefined) builder.setNodeType(update.nodeType ?? undefined);
+        if (update.level !== undefined) builder.setLevel(update.level);
+        return editEntityCommand(OBJECT_TYPES.NODE, node, builder.build());
+    }));
+}
+
+export function buildBulkPolygonUpdateCommand(polygons: Polygon[], update: BulkPolygonUpdate): HistoryCommand {
+    return combineCommands("Edit selected polygons", polygons.map(polygon => {
+        const builder = PolygonBuilder.fromPolygon(polygon);
+        if (update.color !== undefined) builder.setColor(update.color);
+        if (update.categoryId !== undefined) builder.setCategoryId(update.categoryId);
+        return editEntityCommand(OBJECT_TYPES.POLYGON, polygon, builder.build());
+    }));
+}
+
+/**
+ * The parts of every polygon, for merging them into the first
+ */
+export const getMergedPolygonParts = (polygons: Polygon[]): number[][][][] =>
+    polygons.flatMap(polygon => getPolygonParts(polygon.geometry));
+
+/**
+ * Merges the polygons into the first one, which becomes a MultiPolygon with every part and keeps
+ * its name, type and colour. The others are deleted.
+ */
+export function buildMergePolygonsCommand(polygons: Polygon[]): HistoryCommand {
+    const [target, ...others] = polygons;
+    return combineCommands(`Merge ${polygons.length} polygons`, [
+        editEntityCommand(OBJECT_TYPES.POLYGON, target, PolygonBuilder.fromPolygon(target).setParts(getMergedPolygonParts(polygons)).validateGeometry().build()),
+        ...others.map(polygon => deleteEntityCommand(OBJECT_TYPES.POLYGON, polygon)),
+    ]);
+}
@@ -0,0 +1,165 @@
+import { ChangePayload, ChangeQueueItem } from "../interfaces/ChangeQueueItem";
+import { Beacon } from "../interfaces/Beacon";
+import { RouteNode } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { createChangeQueueItem, enqueueChange, remapChangeIds, sortForCommit } from "./changeQueue";
+
+const FLOOR_ID = 1;
+
+const node = (id: number, connections: number[] = []): RouteNode => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50, 26] },
+    properties: { id, floor_id: FLOOR_ID, is_visible: true, connections },
+});
+
+const beacon = (id: number, name: string): Beacon => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50, 26] },
+    properties: { id, floor_id: FLOOR_ID, name, is_active: true, is_visible: true, battery_level: 100 },
+});
+
+// Builds the queue the way the editor does, one change at a time
+const queueOf = (...changes: ChangePayload[]): ChangeQueueItem[] =>
+    changes.reduce<ChangeQueueItem[]>((queue, change) => enqueueChange(queue, createChangeQueueItem(queue, change)), []);
+
+describe("enqueueChange", () => {
+    it("folds an edit of a pending add into the add", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.BEACON, data: beacon(-1, "Entrance") },
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.BEACON, data: beacon(-1, "Main entrance") },
+        );
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ id: 1, type: CHANGE_TYPES.ADD, data: beacon(-1, "Main entrance") });
+    });
+
+    it("keeps only the latest edit of a saved entity", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.BEACON, data: beacon(5, "Lobby") },
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.BEACON, data: beacon(5, "Main lobby") },
+        );
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ type: CHANGE_TYPES.EDIT, data: beacon(5, "Main lobby") });
+    });
+
+    it("drops everything queued for a pending add once it is deleted", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.NODE, data: node(-1) },
+            { type: CHANGE_TYPES.CONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: -1, nodeId2: 7 } },
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.BEACON, data: beacon(5, "Lobby") },
+            { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.NODE, data: { id: -1 } },
+        );
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ objectType: OBJECT_TYPES.BEACON, type: CHANGE_TYPES.EDIT });
+    });
+
+    it("queues the delete of a saved entity in place of its other changes", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.NODE, data: node(3) },
+            { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.NODE, data: { id: 3 } },
+        );
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ type: CHANGE_TYPES.DELETE, data: { id: 3 } });
+    });
+
+    it("cancels a connect with the opposite disconnect, in either node order", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.CONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: 1, nodeId2: 2 } },
+            { type: CHANGE_TYPES.DISCONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: 2, nodeId2: 1 } },
+        );
+
+        expect(queue).toEqual([]);
+    });
+
+    it("turns re-adding an entity whose delete is pending into an edit", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.BEACON, data: { id: 5 } },
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.BEACON, data: beacon(5, "Lobby") },
+        );
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ type: CHANGE_TYPES.EDIT, data: beacon(5, "Lobby") });
+    });
+});
+
+describe("sortForCommit", () => {
+    it("orders adds, edits, connects, disconnects and deletes, then by queue order", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.BEACON, data: { id: 9 } },
+            { type: CHANGE_TYPES.DISCONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: 3, nodeId2: 4 } },
+            { type: CHANGE_TYPES.CONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: -1, nodeId2: 3 } },
+            { type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.NODE, data: node(3) },
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.NODE, data: node(-1) },
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.BEACON, data: beacon(-2, "New") },
+        );
+
+        expect(sortForCommit(queue).map(item => [item.type, item.id])).toEqual([
+            [CHANGE_TYPES.ADD, 5],
+            [CHANGE_TYPES.ADD, 6],
+            [CHANGE_TYPES.EDIT, 4],
+            [CHANGE_TYPES.CONNECT, 3],
+            [CHANGE_TYPES.DISCONNECT, 2],
+            [CHANGE_TYPES.DELETE, 1],
+        ]);
+    });
+
+    it("does not reorder the queue it is given", () => {
+        const queue = queueOf(
+            { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.BEACON, data: { id: 9 } },
+            { type: CHANGE_TYPES.ADD, objectType: OBJECT_TYPES.NODE, data: node(-1) },
+        );
+
+        sortForCommit(queue);
+
+        expect(queue.map(item => item.type)).toEqual([CHANGE_TYPES.DELETE, CHANGE_TYPES.ADD]);
+    });
+});
+
+describe("remapChangeIds", () => {
+    const idMap = new Map([[-1, 101], [-2, 102]]);
+
+    it("rewrites both nodes of a connection", () => {
+        const change: ChangePayload = { type: CHANGE_TYPES.CONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: -1, nodeId2: -2 } };
+
+        expect(remapChangeIds(change, idMap).data).toEqual({ nodeId1: 101, nodeId2: 102 });
+    });
+
+    it("leaves IDs without a mapping alone", () => {
+        const change: ChangePayload = { type: CHANGE_TYPES.DISCONNECT, objectType: OBJECT_TYPES.NODE, data: { nodeId1: -1, nodeId2: 7 } };
+
+        expect(remapChangeIds(change, idMap).data).toEqual({ nodeId1: 101, nodeId2: 7 });
+    });
+
+    it("rewrites a node's ID, connections and edge attributes", () => {
+        const data = node(-1, [-2, 7]);
+        data.properties.edge_attributes = [{
+            node_id: -2,
+            wheelchair_accessible: true,
+            has_steps: false,
+            slope_percent: null,
+            width_m: null,
+            one_way_to: -2,
+            closed: false,
+        }];
+
+        const remapped = remapChangeIds({ type: CHANGE_TYPES.EDIT, objectType: OBJECT_TYPES.NODE, data }, idMap);
+
+        expect(remapped.data).toMatchObject({
+            properties: {
+                id: 101,
+                connections: [102, 7],
+                edge_attributes: [{ node_id: 102, one_way_to: 102 }],
+            },
+        });
+    });
+
+    it("rewrites the target of a delete and keeps the queue item's own ID", () => {
+        const item = createChangeQueueItem([], { type: CHANGE_TYPES.DELETE, objectType: OBJECT_TYPES.BEACON, data: { id: -2 } });
+
+        expect(remapChangeIds(item, idMap)).toMatchObject({ id: item.id, data: { id: 102 } });
+    });
+});
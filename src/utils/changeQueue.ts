@@ -0,0 +1,372 @@
+import {
+    ChangePayload,
+    ChangeQueueItem,
+    ChangeObjectType,
+    ChangeType,
+    ConnectionChange,
+    ConnectionChangeType,
+    EntityChangeType
+} from "../interfaces/ChangeQueueItem";
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { Polygon } from "../interfaces/Polygon";
+import { Beacon } from "../interfaces/Beacon";
+import { RouteNode, remapEdgeAttributeIds } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { STORAGE_KEYS } from "../components/FloorEditor/enums/STORAGE_KEYS";
+import { generateEdgeKey } from "./mapUtils";
+import { createLogger } from "./logger";
+
+const logger = createLogger("ChangeQueue");
+
+type Entity = Polygon | Beacon | RouteNode;
+
+/**
+ * Entities created locally get negative IDs until the backend assigns real ones
+ */
+export function isTemporaryId(id: number | null | undefined): boolean {
+    return typeof id === "number" && id < 0;
+}
+
+/**
+ * Returns the next free temporary ID for the queue
+ */
+export function getNextTemporaryId(queue: ChangeQueueItem[]): number {
+    const lowest = queue.reduce((min, item) => {
+        const ids = getReferencedIds(item);
+        return Math.min(min, ...ids);
+    }, 0);
+    return lowest - 1;
+}
+
+/**
+ * Whether a change adds or removes an edge between two nodes
+ */
+export function isConnectionChange<T extends ChangePayload>(item: T): item is Extract<T, { type: ConnectionChangeType }> {
+    return item.type === CHANGE_TYPES.CONNECT || item.type === CHANGE_TYPES.DISCONNECT;
+}
+
+/**
+ * Whether a change adds or edits a whole entity
+ */
+export function isEntityChange<T extends ChangePayload>(item: T): item is Extract<T, { type: EntityChangeType }> {
+    return item.type === CHANGE_TYPES.ADD || item.type === CHANGE_TYPES.EDIT;
+}
+
+/**
+ * Gets the ID of the entity an add/edit/delete change targets
+ */
+export function getTargetId(item: ChangeQueueItem): number | null {
+    if (isConnectionChange(item)) return null;
+    if (item.type === CHANGE_TYPES.DELETE) return item.data.id;
+    return item.data.properties.id ?? null;
+}
+
+/**
+ * Gets every entity ID a change refers to
+ */
+export function getReferencedIds(item: ChangeQueueItem): number[] {
+    if (isConnectionChange(item)) {
+        const { nodeId1, nodeId2 } = item.data;
+        return [nodeId1, nodeId2];
+    }
+    const id = getTargetId(item);
+    return id === null ? [] : [id];
+}
+
+/**
+ * Builds a queue item. IDs only need to be unique inside one queue.
+ */
+export function createChangeQueueItem(queue: ChangeQueueItem[], change: ChangePayload): ChangeQueueItem {
+    const id = queue.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+    return { ...change, id, createdAt: new Date().toISOString() };
+}
+
+const refersToEntity = (item: ChangeQueueItem, objectType: ChangeObjectType, id: number): boolean => {
+    if (isConnectionChange(item)) {
+        return objectType === OBJECT_TYPES.NODE && getReferencedIds(item).includes(id);
+    }
+    return item.objectType === objectType && getTargetId(item) === id;
+};
+
+const isSameConnection = (item: ChangeQueueItem, change: ConnectionChange): boolean => {
+    if (!isConnectionChange(item)) return false;
+    const { nodeId1, nodeId2 } = item.data;
+    return generateEdgeKey(nodeId1, nodeId2) === generateEdgeKey(change.nodeId1, change.nodeId2);
+};
+
+/**
+ * Appends a change to the queue, folding it into earlier changes where possible:
+ * edits of a pending add are merged into the add, repeated edits replace each other,
+ * deleting a pending entity simply drops everything queued for it, and opposite
+ * connect/disconnect changes cancel out. Re-adding an entity whose delete is still
+ * pending cancels the delete and restores the entity's state as an edit.
+ */
+export function enqueueChange(queue: ChangeQueueItem[], item: ChangeQueueItem): ChangeQueueItem[] {
+    switch (item.type) {
+        case CHANGE_TYPES.ADD: {
+            const targetId = getTargetId(item)!;
+            const pendingDelete = !isTemporaryId(targetId) &&
+                queue.find(q => q.type === CHANGE_TYPES.DELETE && refersToEntity(q, item.objectType, targetId));
+            if (pendingDelete) {
+                return [...queue.filter(q => q !== pendingDelete), { ...item, type: CHANGE_TYPES.EDIT }];
+            }
+            return [...queue, item];
+        }
+
+        case CHANGE_TYPES.EDIT: {
+            const targetId = getTargetId(item)!;
+            const pendingAdd = queue.find(q => q.type === CHANGE_TYPES.ADD && refersToEntity(q, item.objectType, targetId));
+            if (pendingAdd) {
+                return queue.map(q => q === pendingAdd ? { ...item, id: q.id, type: CHANGE_TYPES.ADD, createdAt: q.createdAt } : q);
+            }
+            return [
+                ...queue.filter(q => !(q.type === CHANGE_TYPES.EDIT && refersToEntity(q, item.objectType, targetId))),
+                item,
+            ];
+        }
+
+        case CHANGE_TYPES.DELETE: {
+            const targetId = getTargetId(item)!;
+            const remaining = queue.filter(q => !refersToEntity(q, item.objectType, targetId));
+            return isTemporaryId(targetId) ? remaining : [...remaining, item];
+        }
+
+        case CHANGE_TYPES.CONNECT:
+        case CHANGE_TYPES.DISCONNECT: {
+            const change = item.data;
+            if (change.nodeId1 === change.nodeId2) return queue;
+
+            const pending = queue.find(q => isSameConnection(q, change));
+            if (!pending) return [...queue, item];
+            // The same change is already queued, or the opposite one cancels this out
+            return pending.type === item.type ? queue : queue.filter(q => q !== pending);
+        }
+
+        default:
+            return [...queue, item];
+    }
+}
+
+/**
+ * Removes a single change from the queue. Discarding a pending add also discards
+ * everything that depends on the temporary entity it would have created.
+ */
+export function discardChange(queue: ChangeQueueItem[], itemId: number): ChangeQueueItem[] {
+    const item = queue.find(q => q.id === itemId);
+    if (!item) return queue;
+
+    if (item.type === CHANGE_TYPES.ADD) {
+        const targetId = getTargetId(item)!;
+        return queue.filter(q => !refersToEntity(q, item.objectType, targetId));
+    }
+    return queue.filter(q => q.id !== itemId);
+}
+
+const upsert = <T extends Entity>(list: T[], entity: T): T[] => {
+    const exists = list.some(e => e.properties.id === entity.properties.id);
+    return exists
+        ? list.map(e => e.properties.id === entity.properties.id ? entity : e)
+        : [...list, entity];
+};
+
+const setConnections = (node: RouteNode, connections: number[]): RouteNode => ({
+    ...node,
+    properties: { ...node.properties, connections },
+});
+
+/**
+ * Applies the queued changes on top of the server data so the editor shows the staged state.
+ * Connections are owned by connect changes and deletes; node adds and edits keep whatever
+ * connections the node already had.
+ */
+export function applyChangeQueue(layout: FloorLayoutData, queue: ChangeQueueItem[], floorId: number): FloorLayoutData {
+    let { polygons, beacons, nodes } = layout;
+
+    for (const item of queue) {
+        switch (item.type) {
+            case CHANGE_TYPES.ADD:
+            case CHANGE_TYPES.EDIT: {
+                if (item.data.properties.floor_id !== floorId) break;
+                if (item.objectType === OBJECT_TYPES.POLYGON) {
+                    polygons = upsert(polygons, item.data);
+                } else if (item.objectType === OBJECT_TYPES.BEACON) {
+                    beacons = upsert(beacons, item.data);
+                } else {
+                    const node = item.data;
+                    const existing = nodes.find(n => n.properties.id === node.properties.id);
+                    nodes = upsert(nodes, setConnections(node, existing?.properties.connections ?? []));
+                }
+                break;
+            }
+
+            case CHANGE_TYPES.DELETE: {
+                const id = item.data.id;
+                if (item.objectType === OBJECT_TYPES.POLYGON) {
+                    polygons = polygons.filter(p => p.properties.id !== id);
+                } else if (item.objectType === OBJECT_TYPES.BEACON) {
+                    beacons = beacons.filter(b => b.properties.id !== id);
+                } else {
+                    nodes = nodes
+                        .filter(n => n.properties.id !== id)
+                        .map(n => n.properties.connections.includes(id)
+                            ? setConnections(n, n.properties.connections.filter(c => c !== id))
+                            : n);
+                }
+                break;
+            }
+
+            case CHANGE_TYPES.CONNECT: {
+                const { nodeId1, nodeId2 } = item.data;
+                nodes = nodes.map(n => {
+                    const otherId = n.properties.id === nodeId1 ? nodeId2 : n.properties.id === nodeId2 ? nodeId1 : null;
+                    if (otherId === null || n.properties.connections.includes(otherId)) return n;
+                    return setConnections(n, [...n.properties.connections, otherId]);
+                });
+                break;
+            }
+
+            case CHANGE_TYPES.DISCONNECT: {
+                const { nodeId1, nodeId2 } = item.data;
+                nodes = nodes.map(n => {
+                    const otherId = n.properties.id === nodeId1 ? nodeId2 : n.properties.id === nodeId2 ? nodeId1 : null;
+                    if (otherId === null || !n.properties.connections.includes(otherId)) return n;
+                    return setConnections(n, n.properties.connections.filter(c => c !== otherId));
+                });
+                break;
+            }
+        }
+    }
+
+    return { polygons, beacons, nodes };
+}
+
+const COMMIT_ORDER: ChangeType[] = [
+    CHANGE_TYPES.ADD,
+    CHANGE_TYPES.EDIT,
+    CHANGE_TYPES.CONNECT,
+    CHANGE_TYPES.DISCONNECT,
+    CHANGE_TYPES.DELETE,
+];
+
+/**
+ * Position of a change type in dependency order (creates before edits, connections and deletes)
+ */
+export function getChangeTypeOrder(type: ChangeType): number {
+    return COMMIT_ORDER.indexOf(type);
+}
+
+/**
+ * Orders the queue so every change runs after the changes it depends on:
+ * creates first (so temporary IDs can be resolved), then edits, connection changes and finally deletes.
+ */
+export function sortForCommit(queue: ChangeQueueItem[]): ChangeQueueItem[] {
+    return [...queue].sort((a, b) => {
+        const byType = getChangeTypeOrder(a.type) - getChangeTypeOrder(b.type);
+        return byType !== 0 ? byType : a.id - b.id;
+    });
+}
+
+const mapId = (id: number, idMap: Map<number, number>): number => idMap.get(id) ?? id;
+
+const withEntityId = <E extends Entity>(entity: E, idMap: Map<number, number>): E =>
+    ({ ...entity, properties: { ...entity.properties, id: mapId(entity.properties.id, idMap) } });
+
+/**
+ * Rewrites temporary IDs in a change with the server IDs they were committed as
+ */
+export function remapChangeIds(item: ChangeQueueItem, idMap: Map<number, number>): ChangeQueueItem;
+export function remapChangeIds(item: ChangePayload, idMap: Map<number, number>): ChangePayload;
+export function remapChangeIds(item: ChangePayload, idMap: Map<number, number>): ChangePayload {
+    if (idMap.size === 0) return item;
+
+    if (isConnectionChange(item)) {
+        const { nodeId1, nodeId2 } = item.data;
+        return { ...item, data: { nodeId1: mapId(nodeId1, idMap), nodeId2: mapId(nodeId2, idMap) } };
+    }
+
+    if (item.type === CHANGE_TYPES.DELETE) {
+        return { ...item, data: { id: mapId(item.data.id, idMap) } };
+    }
+
+    if (item.objectType === OBJECT_TYPES.POLYGON) {
+        return { ...item, data: withEntityId(item.data, idMap) };
+    }
+    if (item.objectType === OBJECT_TYPES.BEACON) {
+        return { ...item, data: withEntityId(item.data, idMap) };
+    }
+
+    const node = withEntityId(item.data, idMap);
+    const { connections, edge_attributes } = node.properties;
+    return {
+        ...item,
+        data: {
+            ...node,
+            properties: {
+                ...node.properties,
+                ...(Array.isArray(connections) && { connections: connections.map(c => mapId(c, idMap)) }),
+                ...(Array.isArray(edge_attributes) && { edge_attributes: remapEdgeAttributeIds(edge_attributes, id => mapId(id, idMap)) }),
+            },
+        },
+    };
+}
+
+const nameOf = (entity: Entity): string | undefined =>
+    "name" in entity.properties ? entity.properties.name : undefined;
+
+/**
+ * Human readable summary of a change for the review list
+ */
+export function describeChange(item: ChangeQueueItem): string {
+    const label = item.objectType === OBJECT_TYPES.NODE ? "route node" : item.objectType;
+
+    switch (item.type) {
+        case CHANGE_TYPES.ADD: {
+            const name = nameOf(item.data);
+            return `Add ${label}${name ? ` "${name}"` : ""}`;
+        }
+        case CHANGE_TYPES.EDIT: {
+            const name = nameOf(item.data);
+            return `Edit ${label} ${name ? `"${name}"` : `#${item.data.properties.id}`}`;
+        }
+        case CHANGE_TYPES.DELETE:
+            return `Delete ${label} #${item.data.id}`;
+        case CHANGE_TYPES.CONNECT:
+            return `Connect node #${item.data.nodeId1} to node #${item.data.nodeId2}`;
+        case CHANGE_TYPES.DISCONNECT:
+            return `Disconnect node #${item.data.nodeId1} from node #${item.data.nodeId2}`;
+    }
+}
+
+const storageKey = (floorId: number) => `${STORAGE_KEYS.CHANGE_QUEUE}_${floorId}`;
+
+/**
+ * Loads the persisted queue for a floor
+ */
+export function loadChangeQueue(floorId: number): ChangeQueueItem[] {
+    try {
+        const raw = localStorage.getItem(storageKey(floorId));
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        logger.error("Failed to load change queue", error as Error, { floorId });
+        return [];
+    }
+}
+
+/**
+ * Persists the queue for a floor, removing the entry entirely once it is empty. Returns false when
+ * the browser refused to store it; the queue in memory is still complete.
+ */
+export function saveChangeQueue(floorId: number, queue: ChangeQueueItem[]): boolean {
+    try {
+        if (queue.length === 0) {
+            localStorage.removeItem(storageKey(floorId));
+        } else {
+            localStorage.setItem(storageKey(floorId), JSON.stringify(queue));
+        }
+        return true;
+    } catch (error) {
+        logger.error("Failed to persist change queue", error as Error, { floorId });
+        return false;
+    }
+}
@@ -0,0 +1,13 @@
+export type CsvValue = string | number | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows into CSV text, quoting only the cells that need it
+ */
+export function toCsv(rows: CsvValue[][]): string {
+    return rows.map(row => row.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,114 @@
+import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import {
+    HistoryCommand,
+    combineCommands,
+    connectNodesCommand,
+    createEntityCommand,
+    disconnectNodesCommand,
+    editEntityCommand
+} from "./editHistory";
+import { calculateGeodesicDistance } from "./mapUtils";
+import {
+    EdgeAttributeValues,
+    getEdgeAttributes,
+    hasEdgeAttributes,
+    withEdgeAttributes,
+    withoutEdgeAttributes
+} from "./routeAccessibility";
+
+/**
+ * An edge of the route graph, as the IDs of the two nodes it joins
+ */
+export type Edge = [number, number];
+
+export function isSameEdge(a: Edge, b: Edge): boolean {
+    return (a[0] === b[0] && a[1] === b[1]) || (a[0] === b[1] && a[1] === b[0]);
+}
+
+/**
+ * Adds the edge to the selection, or removes it if it was already selected
+ */
+export function toggleEdge(edges: Edge[], edge: Edge): Edge[] {
+    return edges.some(e => isSameEdge(e, edge)) ? edges.filter(e => !isSameEdge(e, edge)) : [...edges, edge];
+}
+
+/**
+ * Length of an edge in metres, or null when either end has no location
+ */
+export function getEdgeLength(nodes: RouteNode[], [nodeId1, nodeId2]: Edge): number | null {
+    const from = nodes.find(n => n.properties.id === nodeId1)?.geometry?.coordinates;
+    const to = nodes.find(n => n.properties.id === nodeId2)?.geometry?.coordinates;
+    return from && to ? calculateGeodesicDistance(from, to) : null;
+}
+
+/**
+ * Removes edges in one undoable step. Whatever was described about them goes too, with a single
+ * edit per node even when several of its edges are removed.
+ */
+export function buildDeleteEdgesCommand(nodes: RouteNode[], edges: Edge[]): HistoryCommand {
+    const removedByNode = new Map<number, number[]>();
+    edges.forEach(([a, b]) => {
+        removedByNode.set(a, [...(removedByNode.get(a) ?? []), b]);
+        removedByNode.set(b, [...(removedByNode.get(b) ?? []), a]);
+    });
+
+    const attributeEdits = Array.from(removedByNode.entries()).flatMap(([nodeId, otherIds]) => {
+        const node = nodes.find(n => n.properties.id === nodeId);
+        if (!node || !otherIds.some(otherId => hasEdgeAttributes(node, otherId))) return [];
+        return [editEntityCommand(OBJECT_TYPES.NODE, node, withoutEdgeAttributes(node, otherIds))];
+    });
+
+    const label = edges.length === 1 ? "Delete connection" : `Delete ${edges.length} connections`;
+    return combineCommands(label, [
+        ...edges.map(([a, b]) => disconnectNodesCommand(a, b)),
+        ...attributeEdits,
+    ]);
+}
+
+/**
+ * The attributes each half of a split edge inherits. A one-way edge stays one-way in the same direction.
+ */
+const splitAttributes = (values: EdgeAttributeValues, nodeId1: number, nodeId2: number, midId: number): [EdgeAttributeValues, EdgeAttributeValues] => {
+    const towardsNode2 = values.one_way_to === nodeId2;
+    const towardsNode1 = values.one_way_to === nodeId1;
+    return [
+        { ...values, one_way_to: towardsNode2 ? midId : towardsNode1 ? nodeId1 : null },
+        { ...values, one_way_to: towardsNode2 ? nodeId2 : towardsNode1 ? midId : null },
+    ];
+};
+
+/**
+ * Splits an edge by inserting a new node at its midpoint, in one undoable step. Both halves keep
+ * what was described about the original edge.
+ */
+export function buildSplitEdgeCommand(node1: RouteNode, node2: RouteNode, midId: number): HistoryCommand {
+    const id1 = node1.properties.id;
+    const id2 = node2.properties.id;
+    const [[lng1, lat1], [lng2, lat2]] = [node1.geometry!.coordinates, node2.geometry!.coordinates];
+
+    let midNode = new RouteNodeBuilder()
+        .setId(midId)
+        .setFloorId(node1.properties.floor_id)
+        .setLocation((lng1 + lng2) / 2, (lat1 + lat2) / 2)
+        .setIsVisible(true)
+        .build();
+
+    const attributeEdits: HistoryCommand[] = [];
+    if (hasEdgeAttributes(node1, id2)) {
+        const [first, second] = splitAttributes(getEdgeAttributes(node1, id2), id1, id2, midId);
+        midNode = withEdgeAttributes(withEdgeAttributes(midNode, id1, first), id2, second);
+        attributeEdits.push(
+            editEntityCommand(OBJECT_TYPES.NODE, node1, withEdgeAttributes(withoutEdgeAttributes(node1, [id2]), midId, first)),
+            editEntityCommand(OBJECT_TYPES.NODE, node2, withEdgeAttributes(withoutEdgeAttributes(node2, [id1]), midId, second))
+        );
+    }
+
+    return combineCommands("Split connection", [
+        createEntityCommand(OBJECT_TYPES.NODE, midNode),
+        disconnectNodesCommand(id1, id2),
+        connectNodesCommand(id1, midId),
+        connectNodesCommand(midId, id2),
+        ...attributeEdits,
+    ]);
+}
@@ -0,0 +1,105 @@
+import { ChangeQueueItem } from "../interfaces/ChangeQueueItem";
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { RouteNode } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { applyChangeQueue, createChangeQueueItem, enqueueChange } from "./changeQueue";
+import {
+    HistoryChange,
+    combineCommands,
+    connectNodesCommand,
+    createEntityCommand,
+    deleteEntityCommand,
+    orderHistoryChanges,
+    remapCommandIds
+} from "./editHistory";
+
+const FLOOR_ID = 1;
+
+const node = (id: number, connections: number[] = []): RouteNode => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50, 26] },
+    properties: { id, floor_id: FLOOR_ID, is_visible: true, connections },
+});
+
+// Stages changes the way useEditHistory does
+const stage = (queue: ChangeQueueItem[], changes: HistoryChange[]): ChangeQueueItem[] =>
+    orderHistoryChanges(changes).reduce((q, change) => enqueueChange(q, createChangeQueueItem(q, change)), queue);
+
+const connectionsOf = (layout: FloorLayoutData) =>
+    Object.fromEntries(layout.nodes.map(n => [n.properties.id, [...n.properties.connections].sort((a, b) => a - b)]));
+
+describe("deleteEntityCommand", () => {
+    const layout: FloorLayoutData = {
+        polygons: [],
+        beacons: [],
+        nodes: [node(1, [2]), node(2, [1, 3]), node(3, [2])],
+    };
+
+    it("removes a route node together with its edges", () => {
+        const command = deleteEntityCommand(OBJECT_TYPES.NODE, layout.nodes[1]);
+
+        const shown = applyChangeQueue(layout, stage([], command.changes), FLOOR_ID);
+
+        expect(connectionsOf(shown)).toEqual({ 1: [], 3: [] });
+    });
+
+    it("restores the node and reconnects it on undo", () => {
+        const command = deleteEntityCommand(OBJECT_TYPES.NODE, layout.nodes[1]);
+        const deleted = stage([], command.changes);
+
+        const undone = stage(deleted, command.inverse);
+
+        expect(undone.map(item => item.type)).not.toContain(CHANGE_TYPES.DELETE);
+        expect(connectionsOf(applyChangeQueue(layout, undone, FLOOR_ID))).toEqual(connectionsOf(layout));
+    });
+
+    it("reconnects a node that was only staged when its delete is undone", () => {
+        const added = stage([], createEntityCommand(OBJECT_TYPES.NODE, node(-1)).changes);
+        const connected = stage(added, connectNodesCommand(-1, 1).changes);
+        const command = deleteEntityCommand(OBJECT_TYPES.NODE, node(-1, [1]));
+
+        const undone = stage(stage(connected, command.changes), command.inverse);
+
+        expect(connectionsOf(applyChangeQueue(layout, undone, FLOOR_ID))).toMatchObject({ [-1]: [1], 1: [-1, 2] });
+    });
+});
+
+describe("combineCommands", () => {
+    it("runs the changes in order and undoes them in reverse", () => {
+        const create = createEntityCommand(OBJECT_TYPES.NODE, node(-1));
+        const connect = connectNodesCommand(-1, 1);
+
+        const combined = combineCommands("Add and connect", [create, connect]);
+
+        expect(combined.label).toBe("Add and connect");
+        expect(combined.changes).toEqual([...create.changes, ...connect.changes]);
+        expect(combined.inverse).toEqual([...connect.inverse, ...create.inverse]);
+    });
+});
+
+describe("remapCommandIds", () => {
+    it("rewrites temporary IDs in both the changes and the inverse", () => {
+        const command = combineCommands("Add and connect", [
+            createEntityCommand(OBJECT_TYPES.NODE, node(-1)),
+            connectNodesCommand(-1, 4),
+        ]);
+
+        const remapped = remapCommandIds(command, new Map([[-1, 101]]));
+
+        expect(remapped.changes).toMatchObject([
+            { type: CHANGE_TYPES.ADD, data: { properties: { id: 101 } } },
+            { type: CHANGE_TYPES.CONNECT, data: { nodeId1: 101, nodeId2: 4 } },
+        ]);
+        expect(remapped.inverse).toMatchObject([
+            { type: CHANGE_TYPES.DISCONNECT, data: { nodeId1: 101, nodeId2: 4 } },
+            { type: CHANGE_TYPES.DELETE, data: { id: 101 } },
+        ]);
+    });
+
+    it("returns the same command when nothing was remapped", () => {
+        const command = connectNodesCommand(1, 2);
+
+        expect(remapCommandIds(command, new Map())).toBe(command);
+    });
+});
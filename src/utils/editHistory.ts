@@ -0,0 +1,121 @@
+import {
+    ChangeEntities,
+    ChangeObjectType,
+    ChangePayload,
+    ConnectionChangeType,
+    EntityChangeType
+} from "../interfaces/ChangeQueueItem";
+import { RouteNode } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { getChangeTypeOrder, remapChangeIds } from "./changeQueue";
+
+/**
+ * A single change as it would be handed to the change queue
+ */
+export type HistoryChange = ChangePayload;
+
+/**
+ * One undoable user operation: the changes it made and the changes that revert them
+ */
+export interface HistoryCommand {
+    label: string;
+    changes: HistoryChange[];
+    inverse: HistoryChange[];
+}
+
+const objectLabel = (objectType: ChangeObjectType): string =>
+    objectType === OBJECT_TYPES.NODE ? "route node" : objectType;
+
+const connectionChange = (type: ConnectionChangeType, nodeId1: number, nodeId2: number): HistoryChange => ({
+    type,
+    objectType: OBJECT_TYPES.NODE,
+    data: { nodeId1, nodeId2 },
+});
+
+// TypeScript can't tell that a generic object type and its entity still match once combined
+const entityChange = <O extends ChangeObjectType>(type: EntityChangeType, objectType: O, entity: ChangeEntities[O]) =>
+    ({ type, objectType, data: entity }) as HistoryChange;
+
+export function createEntityCommand<O extends ChangeObjectType>(objectType: O, entity: ChangeEntities[O], label = `Add ${objectLabel(objectType)}`): HistoryCommand {
+    return {
+        label,
+        changes: [entityChange(CHANGE_TYPES.ADD, objectType, entity)],
+        inverse: [{ type: CHANGE_TYPES.DELETE, objectType, data: { id: entity.properties.id } }],
+    };
+}
+
+export function editEntityCommand<O extends ChangeObjectType>(objectType: O, before: ChangeEntities[O], after: ChangeEntities[O], label = `Edit ${objectLabel(objectType)}`): HistoryCommand {
+    return {
+        label,
+        changes: [entityChange(CHANGE_TYPES.EDIT, objectType, after)],
+        inverse: [entityChange(CHANGE_TYPES.EDIT, objectType, before)],
+    };
+}
+
+/**
+ * Deleting a route node also removes its edges, so undoing it re-adds the node and reconnects it
+ */
+export function deleteEntityCommand<O extends ChangeObjectType>(objectType: O, entity: ChangeEntities[O], label = `Delete ${objectLabel(objectType)}`): HistoryCommand {
+    const id = entity.properties.id;
+    const inverse: HistoryChange[] = [entityChange(CHANGE_TYPES.ADD, objectType, entity)];
+
+    if (objectType === OBJECT_TYPES.NODE) {
+        for (const connectedId of (entity as RouteNode).properties.connections ?? []) {
+            inverse.push(connectionChange(CHANGE_TYPES.CONNECT, id, connectedId));
+        }
+    }
+
+    return {
+        label,
+        changes: [{ type: CHANGE_TYPES.DELETE, objectType, data: { id } }],
+        inverse,
+    };
+}
+
+export function connectNodesCommand(nodeId1: number, nodeId2: number, label = "Connect nodes"): HistoryCommand {
+    return {
+        label,
+        changes: [connectionChange(CHANGE_TYPES.CONNECT, nodeId1, nodeId2)],
+        inverse: [connectionChange(CHANGE_TYPES.DISCONNECT, nodeId1, nodeId2)],
+    };
+}
+
+export function disconnectNodesCommand(nodeId1: number, nodeId2: number, label = "Disconnect nodes"): HistoryCommand {
+    return {
+        label,
+        changes: [connectionChange(CHANGE_TYPES.DISCONNECT, nodeId1, nodeId2)],
+        inverse: [connectionChange(CHANGE_TYPES.CONNECT, nodeId1, nodeId2)],
+    };
+}
+
+/**
+ * Groups several commands so they are undone and redone as one step
+ */
+export function combineCommands(label: string, commands: HistoryCommand[]): HistoryCommand {
+    return {
+        label,
+        changes: commands.flatMap(c => c.changes),
+        inverse: [...commands].reverse().flatMap(c => c.inverse),
+    };
+}
+
+/**
+ * Orders changes so entities exist before they are edited or connected
+ */
+export function orderHistoryChanges(changes: HistoryChange[]): HistoryChange[] {
+    // Array.prototype.sort is stable, so changes of the same type keep their original order
+    return [...changes].sort((a, b) => getChangeTypeOrder(a.type) - getChangeTypeOrder(b.type));
+}
+
+/**
+ * Rewrites IDs in a command after the queue has been committed
+ */
+export function remapCommandIds(command: HistoryCommand, idMap: Map<number, number>): HistoryCommand {
+    if (idMap.size === 0) return command;
+    return {
+        ...command,
+        changes: command.changes.map(c => remapChangeIds(c, idMap)),
+        inverse: command.inverse.map(c => remapChangeIds(c, idMap)),
+    };
+}
@@ -0,0 +1,58 @@
+import { FEATURE_KEY, diffFeatures } from "./featureSource";
+
+const point = (key: string, coordinates: number[], properties: Record<string, unknown> = {}): GeoJSON.Feature => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates },
+    properties: { [FEATURE_KEY]: key, ...properties },
+});
+
+describe("diffFeatures", () => {
+    const features = [point("node-1", [50, 26], { selected: false }), point("node-2", [50.001, 26])];
+    const { next: sent } = diffFeatures({}, features);
+
+    it("adds every feature the first time", () => {
+        const { diff, changes, next } = diffFeatures({}, features);
+
+        expect(diff).toEqual({ add: features, update: [], remove: [] });
+        expect(changes).toBe(2);
+        expect(Object.keys(next)).toEqual(["node-1", "node-2"]);
+    });
+
+    it("sends nothing when nothing changed", () => {
+        const { diff, changes, next } = diffFeatures(sent, [point("node-1", [50, 26], { selected: false }), point("node-2", [50.001, 26])]);
+
+        expect(changes).toBe(0);
+        expect(diff).toEqual({ add: [], update: [], remove: [] });
+        expect(next).toEqual(sent);
+    });
+
+    it("replaces the geometry and every property of a changed feature", () => {
+        const moved = point("node-1", [50.002, 26], { label: "Lift" });
+
+        const { diff, changes } = diffFeatures(sent, [moved, features[1]]);
+
+        expect(changes).toBe(1);
+        expect(diff.update).toEqual([{
+            id: "node-1",
+            newGeometry: moved.geometry,
+            removeAllProperties: true,
+            addOrUpdateProperties: [{ key: FEATURE_KEY, value: "node-1" }, { key: "label", value: "Lift" }],
+        }]);
+    });
+
+    it("notices a property change with the geometry untouched", () => {
+        const { diff } = diffFeatures(sent, [point("node-1", [50, 26], { selected: true }), features[1]]);
+
+        expect(diff.update?.map(u => u.id)).toEqual(["node-1"]);
+    });
+
+    it("removes features that are gone by key and adds new ones", () => {
+        const added = point("node-3", [50, 26.001]);
+
+        const { diff, changes, next } = diffFeatures(sent, [features[1], added]);
+
+        expect(diff).toEqual({ add: [added], update: [], remove: ["node-1"] });
+        expect(changes).toBe(2);
+        expect(Object.keys(next).sort()).toEqual(["node-2", "node-3"]);
+    });
+});
@@ -0,0 +1,132 @@
+import { GeoJSONSource, GeoJSONSourceDiff, Map } from "@maptiler/sdk";
+
+// Every feature carries its key in this property, and sources promote it to the feature ID
+export const FEATURE_KEY = "key";
+
+interface FeatureSourceCache {
+    // What was last sent to the source, by feature key
+    features: Record<string, string>;
+    // Keys with each feature-state flag set
+    flags: Record<string, Set<string>>;
+}
+
+// Kept per map; a source that has gone missing (the style was reloaded) is created again from scratch
+const caches = new WeakMap<Map, Record<string, FeatureSourceCache>>();
+
+const getCache = (map: Map, sourceId: string): FeatureSourceCache => {
+    const sources = caches.get(map) ?? {};
+    caches.set(map, sources);
+    sources[sourceId] = sources[sourceId] ?? { features: {}, flags: {} };
+    return sources[sourceId];
+};
+
+const keyOf = (feature: GeoJSON.Feature) => String(feature.properties?.[FEATURE_KEY]);
+
+const serialize = (feature: GeoJSON.Feature) => JSON.stringify([feature.geometry, feature.properties]);
+
+export interface FeatureDiff {
+    diff: GeoJSONSourceDiff;
+    // Number of features added, removed or changed
+    changes: number;
+    next: Record<string, string>;
+}
+
+/**
+ * The changes that turn the features last sent to a source (`previous`, serialized by key) into
+ * `features`. Each feature needs a unique `key` property.
+ */
+export function diffFeatures(previous: Record<string, string>, features: GeoJSON.Feature[]): FeatureDiff {
+    const next: Record<string, string> = {};
+    const add: GeoJSON.Feature[] = [];
+    const update: NonNullable<GeoJSONSourceDiff["update"]> = [];
+
+    features.forEach(feature => {
+        const key = keyOf(feature);
+        const serialized = serialize(feature);
+        next[key] = serialized;
+        if (!(key in previous)) {
+            add.push(feature);
+        } else if (previous[key] !== serialized) {
+            update.push({
+                id: key,
+                newGeometry: feature.geometry,
+                removeAllProperties: true,
+                addOrUpdateProperties: Object.entries(feature.properties ?? {}).map(([name, value]) => ({ key: name, value })),
+            });
+        }
+    });
+    const remove = Object.keys(previous).filter(key => !(key in next));
+
+    return { diff: { add, update, remove }, changes: add.length + update.length + remove.length, next };
+}
+
+/**
+ * Brings a GeoJSON source up to date with `features`, sending only what changed. The source is
+ * created the first time, and `addLayers` is called then to draw it; later calls never touch the
+ * layers, so paint expressions and feature-state do all the styling.
+ */
+export function syncFeatureSource(map: Map, sourceId: string, features: GeoJSON.Feature[], addLayers: () => void) {
+    const cache = getCache(map, sourceId);
+    const source = map.getSource(sourceId) as GeoJSONSource | undefined;
+
+    if (!source) {
+        map.addSource(sourceId, {
+            type: "geojson",
+            data: { type: "FeatureCollection", features },
+            promoteId: FEATURE_KEY,
+        });
+        addLayers();
+        cache.features = diffFeatures({}, features).next;
+        cache.flags = {};
+        return;
+    }
+
+    const { diff, changes, next } = diffFeatures(cache.features, features);
+    cache.features = next;
+    if (changes === 0) return;
+
+    // Past a point one full replacement is cheaper than patching most of the features
+    if (changes > features.length / 2) {
+        source.setData({ type: "FeatureCollection", features });
+    } else {
+        source.updateData(diff);
+    }
+
+    // Removed features take their state with them, so a key used again starts clean
+    diff.remove?.forEach(key => {
+        map.removeFeatureState({ source: sourceId, id: key });
+        Object.values(cache.flags).forEach(keys => keys.delete(String(key)));
+    });
+}
+
+/**
+ * Sets a boolean feature-state flag (e.g. "selected") on exactly the given features, touching
+ * only those whose flag changes
+ */
+export function setFeatureFlag(map: Map, sourceId: string, flag: string, keys: string[]) {
+    if (!map.getSource(sourceId)) return;
+    const cache = getCache(map, sourceId);
+    const previous = cache.flags[flag] ?? new Set<string>();
+    const next = new Set(keys.filter(key => key in cache.features));
+
+    previous.forEach(key => {
+        if (!next.has(key)) map.setFeatureState({ source: sourceId, id: key }, { [flag]: false });
+    });
+    next.forEach(key => {
+        if (!previous.has(key)) map.setFeatureState({ source: sourceId, id: key }, { [flag]: true });
+    });
+    cache.flags[flag] = next;
+}
+
+/**
+ * Moves one feature without a full sync, for previews while something is dragged. The next sync
+ * brings the feature back in line with the data, whether or not the drag was kept.
+ */
+export function updateFeatureGeometry(map: Map, sourceId: string, key: string, geometry: GeoJSON.Geometry) {
+    const source = map.getSource(sourceId) as GeoJSONSource | undefined;
+    const cache = getCache(map, sourceId);
+    if (!source || !(key in cache.features)) return;
+
+    source.updateData({ update: [{ id: key, newGeometry: geometry }] });
+    cache.features[key] = "";
+}
@@ -0,0 +1,135 @@
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { Floor } from "../interfaces/Floor";
+import { PolygonBuilder } from "../interfaces/Polygon";
+import { BeaconBuilder } from "../interfaces/Beacon";
+import { RouteNodeBuilder } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { ValidationError } from "./validation";
+import {
+    buildLayoutImportCommand,
+    diffFloorLayout,
+    floorLayoutToFeatureCollection,
+    parseFloorLayoutFeatureCollection
+} from "./floorLayoutGeoJson";
+
+const floor: Floor = { id: 7, name: "Ground floor", floorNumber: 0, buildingId: 3 };
+
+const square = [[50, 26], [50.001, 26], [50.001, 26.001], [50, 26.001], [50, 26]];
+
+const layout: FloorLayoutData = {
+    polygons: [
+        new PolygonBuilder().setId(1).setFloorId(floor.id).setName("Lobby").setType("Room").setColor("#ff0000").setGeometry([square]).build(),
+    ],
+    beacons: [
+        new BeaconBuilder().setId(2).setFloorId(floor.id).setName("Entrance").setUuid("b9407f30-f5f8-466e-aff9-25556b57fe6d")
+            .setMajorId(1).setMinorId(2).setGeometry(50.0005, 26.0005).setIsActive(true).setIsVisible(true).setBatteryLevel(80).build(),
+    ],
+    nodes: [
+        new RouteNodeBuilder().setId(3).setFloorId(floor.id).setLocation(50.0002, 26.0002).setConnections([4])
+            .setNodeType("elevator").setShaftName("North lift").setOutOfService(true).build(),
+        new RouteNodeBuilder().setId(4).setFloorId(floor.id).setLocation(50.0004, 26.0002).setConnections([3]).setHasDoor(true).build(),
+    ],
+};
+
+// What a user downloads and uploads again
+const exportLayout = (data: FloorLayoutData) => JSON.parse(JSON.stringify(floorLayoutToFeatureCollection(data, floor)));
+
+describe("floorLayoutToFeatureCollection", () => {
+    it("tags every feature with its kind and floor", () => {
+        const collection = floorLayoutToFeatureCollection(layout, floor);
+
+        expect(collection.name).toBe("Ground floor");
+        expect(collection.features.map(f => f.properties.kind)).toEqual([OBJECT_TYPES.POLYGON, OBJECT_TYPES.BEACON, OBJECT_TYPES.NODE, OBJECT_TYPES.NODE]);
+        expect(collection.features[0].properties).toMatchObject({ floor_id: 7, floor_name: "Ground floor", floor_number: 0, building_id: 3 });
+    });
+});
+
+describe("parseFloorLayoutFeatureCollection", () => {
+    it("reads back an exported floor unchanged", () => {
+        const parsed = parseFloorLayoutFeatureCollection(exportLayout(layout), floor.id);
+
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.sourceFloorId).toBe(floor.id);
+        expect(parsed.layout).toEqual(layout);
+        expect(diffFloorLayout(layout, parsed.layout, true, false)).toMatchObject({ added: [], updated: [], removed: [], unchangedCount: 4 });
+    });
+
+    it("rejects anything that isn't a FeatureCollection", () => {
+        expect(() => parseFloorLayoutFeatureCollection({ type: "Feature" }, floor.id)).toThrow(ValidationError);
+        expect(() => parseFloorLayoutFeatureCollection([], floor.id)).toThrow(ValidationError);
+    });
+
+    it("infers the kind of features from other tools", () => {
+        const parsed = parseFloorLayoutFeatureCollection({
+            type: "FeatureCollection",
+            features: [
+                { type: "Feature", geometry: { type: "Polygon", coordinates: [square] }, properties: { name: "Shop" } },
+                { type: "Feature", geometry: { type: "Point", coordinates: [50, 26] }, properties: { name: "Beacon" } },
+                { type: "Feature", geometry: { type: "Point", coordinates: [50, 26] }, properties: { connections: [] } },
+            ],
+        }, floor.id);
+
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.sourceFloorId).toBeNull();
+        expect(parsed.layout.polygons).toHaveLength(1);
+        expect(parsed.layout.beacons).toHaveLength(1);
+        expect(parsed.layout.nodes).toHaveLength(1);
+        // Features without an ID still get one unique within the file
+        expect(parsed.layout.nodes[0].properties.id).toBe(-3);
+    });
+
+    it("reports features with the wrong kind of values and leaves them out", () => {
+        const parsed = parseFloorLayoutFeatureCollection({
+            type: "FeatureCollection",
+            features: [
+                { type: "Feature", geometry: { type: "Point", coordinates: [50, 26] }, properties: { kind: "beacon", name: "Lift", is_visible: "yes" } },
+                { type: "Feature", geometry: { type: "Point", coordinates: [50, 26] }, properties: { kind: "node", connections: ["4"] } },
+                { type: "Feature", geometry: { type: "Point", coordinates: [50] }, properties: { kind: "node", connections: [] } },
+                { type: "Feature", geometry: { type: "Polygon", coordinates: [square] }, properties: { name: "Hall", type: "Garden" } },
+                { type: "Feature", geometry: { type: "LineString", coordinates: [[50, 26], [50.001, 26]] }, properties: {} },
+                { type: "Feature", geometry: { type: "Point", coordinates: [50, 26] }, properties: { kind: "node", connections: [], out_of_service: 1 } },
+            ],
+        }, floor.id);
+
+        expect(parsed.layout).toEqual({ polygons: [], beacons: [], nodes: [] });
+        expect(parsed.errors).toEqual([
+            'Feature 1 (beacon "Lift"): "is_visible" must be true or false',
+            "Feature 2 (node): Route node connections must be a list of node IDs",
+            "Feature 3 (node): Point geometry must be [longitude, latitude]",
+            'Feature 4 (polygon "Hall"): Unknown polygon type "Garden"',
+            'Feature 5: unsupported geometry "LineString"',
+            'Feature 6 (node): "out_of_service" must be true or false',
+        ]);
+    });
+
+    it("rejects a polygon whose outline crosses itself", () => {
+        const bowTie = [[50, 26], [50.001, 26.001], [50.001, 26], [50, 26.001], [50, 26]];
+
+        const parsed = parseFloorLayoutFeatureCollection({
+            type: "FeatureCollection",
+            features: [{ type: "Feature", geometry: { type: "Polygon", coordinates: [bowTie] }, properties: { name: "Hall" } }],
+        }, floor.id);
+
+        expect(parsed.layout.polygons).toEqual([]);
+        expect(parsed.errors[0]).toMatch(/crosses itself/);
+    });
+});
+
+describe("buildLayoutImportCommand", () => {
+    it("creates the imported nodes under temporary IDs and connects them", () => {
+        const empty: FloorLayoutData = { polygons: [], beacons: [], nodes: [] };
+        const imported = parseFloorLayoutFeatureCollection(exportLayout(layout), 8).layout;
+        let nextId = 0;
+
+        const { command, droppedConnections } = buildLayoutImportCommand(
+            diffFloorLayout(empty, imported, false, false), imported, empty, () => --nextId);
+
+        expect(droppedConnections).toBe(0);
+        expect(command.changes.map(c => c.type)).toEqual([
+            CHANGE_TYPES.ADD, CHANGE_TYPES.ADD, CHANGE_TYPES.ADD, CHANGE_TYPES.ADD, CHANGE_TYPES.CONNECT,
+        ]);
+        expect(command.changes[2]).toMatchObject({ data: { properties: { id: -3, floor_id: 8, connections: [], shaft_name: "North lift" } } });
+        expect(command.changes[4]).toMatchObject({ data: { nodeId1: -3, nodeId2: -4 } });
+    });
+});
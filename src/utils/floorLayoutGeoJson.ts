@@ -0,0 +1,432 @@
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { Floor } from "../interfaces/Floor";
+import { Polygon, PolygonBuilder, PolygonType } from "../interfaces/Polygon";
+import { Beacon, BeaconBuilder } from "../interfaces/Beacon";
+import { EdgeAttributes, RouteNode, RouteNodeBuilder, remapEdgeAttributeIds } from "../interfaces/RouteNode";
+import { ChangeObjectType } from "../interfaces/ChangeQueueItem";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { generateEdgeKey } from "./mapUtils";
+import { ValidationError } from "./validation";
+import {
+    HistoryCommand,
+    combineCommands,
+    connectNodesCommand,
+    createEntityCommand,
+    deleteEntityCommand,
+    disconnectNodesCommand,
+    editEntityCommand,
+} from "./editHistory";
+
+type Entity = Polygon | Beacon | RouteNode;
+
+export interface FloorLayoutFeatureCollection {
+    type: "FeatureCollection";
+    name: string;
+    features: Array<{
+        type: "Feature";
+        geometry: Entity["geometry"];
+        properties: Record<string, unknown>;
+    }>;
+}
+
+export interface LayoutEntity {
+    kind: ChangeObjectType;
+    entity: Entity;
+}
+
+export interface ParsedFloorLayout {
+    layout: FloorLayoutData;
+    sourceFloorId: number | null;
+    errors: string[];
+}
+
+export interface LayoutDiff {
+    replace: boolean;
+    added: LayoutEntity[];
+    updated: Array<{ kind: ChangeObjectType; before: Entity; after: Entity }>;
+    removed: LayoutEntity[];
+    unchangedCount: number;
+}
+
+const POLYGON_TYPES: PolygonType[] = ["Room", "Stairs", "Elevator", "Wall"];
+
+const entitiesOf = (layout: FloorLayoutData): LayoutEntity[] => [
+    ...layout.polygons.map(entity => ({ kind: OBJECT_TYPES.POLYGON as ChangeObjectType, entity })),
+    ...layout.beacons.map(entity => ({ kind: OBJECT_TYPES.BEACON as ChangeObjectType, entity })),
+    ...layout.nodes.map(entity => ({ kind: OBJECT_TYPES.NODE as ChangeObjectType, entity })),
+];
+
+const entityKey = (kind: ChangeObjectType, id: number) => `${kind}-${id}`;
+
+export const describeLayoutEntity = ({ kind, entity }: LayoutEntity): string => {
+    const name = (entity.properties as { name?: string }).name;
+    const label = kind === OBJECT_TYPES.NODE ? "Route node" : kind === OBJECT_TYPES.BEACON ? "Beacon" : "Polygon";
+    return name ? `${label} "${name}"` : `${label} #${entity.properties.id}`;
+};
+
+/**
+ * Exports a floor as one FeatureCollection. Every feature carries its kind and the floor it came
+ * from in its properties; route nodes also carry their connections.
+ */
+export function floorLayoutToFeatureCollection(layout: FloorLayoutData, floor: Floor): FloorLayoutFeatureCollection {
+    const floorProperties = {
+        floor_id: floor.id,
+        floor_name: floor.name,
+        floor_number: floor.floorNumber,
+        building_id: floor.buildingId,
+    };
+
+    return {
+        type: "FeatureCollection",
+        name: floor.name,
+        features: entitiesOf(layout).map(({ kind, entity }) => {
+            const { connected_node_ids, ...properties } = entity.properties as RouteNode["properties"];
+            return {
+                type: "Feature",
+                geometry: entity.geometry,
+                properties: {
+                    ...properties,
+                    ...floorProperties,
+                    kind,
+                    ...(kind === OBJECT_TYPES.NODE && { connections: (entity as RouteNode).properties.connections ?? [] }),
+                },
+            };
+        }),
+    };
+}
+
+// An imported feature with its parts checked for shape, but not yet for content
+interface ImportedFeature {
+    geometry: Record<string, unknown> | null;
+    properties: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toImportedFeature = (value: unknown): ImportedFeature => ({
+    geometry: isRecord(value) && isRecord(value.geometry) ? value.geometry : null,
+    properties: isRecord(value) && isRecord(value.properties) ? value.properties : {},
+});
+
+const optionalValue = <T>(
+    properties: Record<string, unknown>,
+    key: string,
+    isValid: (value: unknown) => value is T,
+    expected: string
+): T | undefined => {
+    const value = properties[key];
+    if (value === undefined || value === null) return undefined;
+    if (!isValid(value)) {
+        throw new ValidationError(`"${key}" must be ${expected}`, key);
+    }
+    return value;
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+const isNumberOrNull = (value: unknown): value is number | null => value === null || isNumber(value);
+
+const optionalString = (properties: Record<string, unknown>, key: string) => optionalValue(properties, key, isString, "text");
+const optionalNumber = (properties: Record<string, unknown>, key: string) => optionalValue(properties, key, isNumber, "a number");
+const optionalBoolean = (properties: Record<string, unknown>, key: string) => optionalValue(properties, key, isBoolean, "true or false");
+
+const isPosition = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.length >= 2 && value.every(isNumber);
+const isRingList = (value: unknown): value is number[][][] =>
+    Array.isArray(value) && value.every(ring => Array.isArray(ring) && ring.every(isPosition));
+
+const isEdgeAttributes = (value: unknown): value is EdgeAttributes =>
+    isRecord(value)
+    && isNumber(value.node_id)
+    && isBoolean(value.wheelchair_accessible)
+    && isBoolean(value.has_steps)
+    && isNumberOrNull(value.slope_percent)
+    && isNumberOrNull(value.width_m)
+    && isNumberOrNull(value.one_way_to)
+    && isBoolean(value.closed);
+
+const isPolygonType = (value: string): value is PolygonType => (POLYGON_TYPES as string[]).includes(value);
+
+const inferKind = ({ geometry, properties }: ImportedFeature): ChangeObjectType | null => {
+    const kind = properties.kind;
+    if (kind === OBJECT_TYPES.POLYGON || kind === OBJECT_TYPES.BEACON || kind === OBJECT_TYPES.NODE) return kind;
+
+    // Files from other tools have no kind: polygons are POIs, points with connections are route nodes
+    if (geometry?.type === "Polygon" || geometry?.type === "MultiPolygon") return OBJECT_TYPES.POLYGON;
+    if (geometry?.type === "Point") {
+        return Array.isArray(properties.connections) ? OBJECT_TYPES.NODE : OBJECT_TYPES.BEACON;
+    }
+    return null;
+};
+
+const pointOf = ({ geometry }: ImportedFeature): [number, number] => {
+    const coordinates = geometry?.coordinates;
+    if (!isPosition(coordinates)) {
+        throw new ValidationError("Point geometry must be [longitude, latitude]");
+    }
+    return [coordinates[0], coordinates[1]];
+};
+
+const polygonPartsOf = ({ geometry }: ImportedFeature): number[][][][] => {
+    const coordinates = geometry?.coordinates;
+    if (geometry?.type === "MultiPolygon" && Array.isArray(coordinates) && coordinates.every(isRingList)) {
+        return coordinates;
+    }
+    if (geometry?.type === "Polygon" && isRingList(coordinates)) {
+        return [coordinates];
+    }
+    throw new ValidationError("Polygon geometry must be rings of [longitude, latitude] points");
+};
+
+const buildPolygon = (feature: ImportedFeature, id: number, floorId: number): Polygon => {
+    const props = feature.properties;
+    const type = optionalString(props, "type") ?? "Room";
+    if (!isPolygonType(type)) {
+        throw new ValidationError(`Unknown polygon type "${type}"`);
+    }
+    return new PolygonBuilder()
+        .setId(id)
+        .setFloorId(floorId)
+        .setName(optionalString(props, "name") ?? "")
+        .setDescription(optionalString(props, "description") ?? "")
+        .setType(type)
+        .setIsVisible(optionalBoolean(props, "is_visible") ?? true)
+        .setColor(optionalString(props, "color") ?? "#3b82f6")
+        .setCategoryId(optionalNumber(props, "category_id") ?? null)
+        .setParts(polygonPartsOf(feature))
+        .validateGeometry()
+        .build();
+};
+
+const buildBeacon = (feature: ImportedFeature, id: number, floorId: number): Beacon => {
+    const props = feature.properties;
+    const [lng, lat] = pointOf(feature);
+    return new BeaconBuilder()
+        .setId(id)
+        .setFloorId(floorId)
+        .setName(optionalString(props, "name") ?? "")
+        .setBeaconTypeId(optionalNumber(props, "beacon_type_id") ?? null)
+        .setUuid(optionalString(props, "uuid") ?? null)
+        .setMajorId(optionalNumber(props, "major_id") ?? null)
+        .setMinorId(optionalNumber(props, "minor_id") ?? null)
+        .setGeometry(lng, lat)
+        .setIsActive(optionalBoolean(props, "is_active") ?? true)
+        .setIsVisible(optionalBoolean(props, "is_visible") ?? true)
+        .setBatteryLevel(optionalNumber(props, "battery_level") ?? 100)
+        .build();
+};
+
+const buildNode = (feature: ImportedFeature, id: number, floorId: number): RouteNode => {
+    const props = feature.properties;
+    const [lng, lat] = pointOf(feature);
+    const connections = props.connections ?? props.connected_node_ids ?? [];
+    if (!Array.isArray(connections) || !connections.every(isNumber)) {
+        throw new ValidationError("Route node connections must be a list of node IDs");
+    }
+    const edgeAttributes = props.edge_attributes ?? [];
+    if (!Array.isArray(edgeAttributes) || !edgeAttributes.every(isEdgeAttributes)) {
+        throw new ValidationError("Route node edge attributes must each name the connected node and describe the edge");
+    }
+    return new RouteNodeBuilder()
+        .setId(id)
+        .setFloorId(floorId)
+        .setLocation(lng, lat)
+        .setIsVisible(optionalBoolean(props, "is_visible") ?? true)
+        .setNodeType(optionalString(props, "node_type"))
+        // null is a level of its own ("none"), so it is kept rather than dropped
+        .setLevel(props.level === null ? null : optionalNumber(props, "level"))
+        .setConnections(connections)
+        .setEdgeAttributes(edgeAttributes)
+        .setHasRamp(optionalBoolean(props, "has_ramp"))
+        .setHasEscalator(optionalBoolean(props, "has_escalator"))
+        .setHasDoor(optionalBoolean(props, "has_door"))
+        .setShaftName(optionalString(props, "shaft_name"))
+        .setOutOfService(optionalBoolean(props, "out_of_service"))
+        .build();
+};
+
+/**
+ * Parses an imported FeatureCollection into entities for the given floor. Every feature goes
+ * through its builder's validation; invalid features are reported and left out. Entities keep
+ * the IDs from the file so connections can be resolved before they are remapped.
+ */
+export function parseFloorLayoutFeatureCollection(input: unknown, floorId: number): ParsedFloorLayout {
+    if (!isRecord(input) || input.type !== "FeatureCollection" || !Array.isArray(input.features)) {
+        throw new ValidationError("The file is not a GeoJSON FeatureCollection");
+    }
+
+    const layout: FloorLayoutData = { polygons: [], beacons: [], nodes: [] };
+    const errors: string[] = [];
+    const floorIds = new Set<number>();
+
+    input.features.forEach((value: unknown, index: number) => {
+        const feature = toImportedFeature(value);
+        const kind = inferKind(feature);
+        const props = feature.properties;
+        if (!kind) {
+            errors.push(`Feature ${index + 1}: unsupported geometry "${feature.geometry?.type}"`);
+            return;
+        }
+
+        // Features without an ID still need one that is unique within the file
+        const id = isNumber(props.id) ? props.id : -(index + 1);
+        if (isNumber(props.floor_id)) floorIds.add(props.floor_id);
+
+        try {
+            if (kind === OBJECT_TYPES.POLYGON) {
+                layout.polygons.push(buildPolygon(feature, id, floorId));
+            } else if (kind === OBJECT_TYPES.BEACON) {
+                layout.beacons.push(buildBeacon(feature, id, floorId));
+            } else {
+                layout.nodes.push(buildNode(feature, id, floorId));
+            }
+        } catch (error) {
+            const name = isString(props.name) && props.name ? ` "${props.name}"` : "";
+            errors.push(`Feature ${index + 1} (${kind}${name}): ${(error as Error).message}`);
+        }
+    });
+
+    return {
+        layout,
+        sourceFloorId: floorIds.size === 1 ? Array.from(floorIds)[0] : null,
+        errors,
+    };
+}
+
+const sortedConnections = (entity: Entity) =>
+    [...((entity.properties as RouteNode["properties"]).connections ?? [])].sort((a, b) => a - b);
+
+/**
+ * Only the fields the file carries are compared, so server-only fields don't count as changes
+ */
+const isSameEntity = (before: Entity, after: Entity): boolean => {
+    if (JSON.stringify(before.geometry) !== JSON.stringify(after.geometry)) return false;
+    const beforeProperties = before.properties as Record<string, unknown>;
+    const sameProperties = Object.entries(after.properties)
+        .filter(([key]) => key !== "connections" && key !== "connected_node_ids")
+        .every(([key, value]) => JSON.stringify(beforeProperties[key] ?? null) === JSON.stringify(value ?? null));
+    return sameProperties && JSON.stringify(sortedConnections(before)) === JSON.stringify(sortedConnections(after));
+};
+
+/**
+ * Compares an imported layout with the floor. Imported features only update existing entities
+ * when the file was exported from this same floor; otherwise everything is new. With `replace`,
+ * entities missing from the file are removed.
+ */
+export function diffFloorLayout(current: FloorLayoutData, imported: FloorLayoutData, matchExisting: boolean, replace: boolean): LayoutDiff {
+    const existing = new Map(entitiesOf(current).map(e => [entityKey(e.kind, e.entity.properties.id), e]));
+    const diff: LayoutDiff = { replace, added: [], updated: [], removed: [], unchangedCount: 0 };
+    const matched = new Set<string>();
+
+    entitiesOf(imported).forEach(({ kind, entity }) => {
+        const key = entityKey(kind, entity.properties.id);
+        const before = matchExisting ? existing.get(key) : undefined;
+        if (!before) {
+            diff.added.push({ kind, entity });
+            return;
+        }
+        matched.add(key);
+        if (isSameEntity(before.entity, entity)) {
+            diff.unchangedCount++;
+        } else {
+            // Keep server-only fields the file doesn't carry
+            const after = { ...entity, properties: { ...before.entity.properties, ...entity.properties } } as Entity;
+            diff.updated.push({ kind, before: before.entity, after });
+        }
+    });
+
+    if (replace) {
+        existing.forEach((entry, key) => {
+            if (!matched.has(key)) diff.removed.push(entry);
+        });
+    }
+
+    return diff;
+}
+
+/**
+ * Turns a diff into one undoable command. New entities get temporary IDs and imported connections
+ * are remapped onto them; committing the queue then creates everything and resolves real IDs.
+ */
+export function buildLayoutImportCommand(
+    diff: LayoutDiff,
+    imported: FloorLayoutData,
+    current: FloorLayoutData,
+    nextTemporaryId: () => number
+): { command: HistoryCommand; droppedConnections: number } {
+    const idMap = new Map<number, number>();
+    const commands: HistoryCommand[] = [];
+
+    const added = diff.added.map(({ kind, entity }) => {
+        const newId = nextTemporaryId();
+        if (kind === OBJECT_TYPES.NODE) idMap.set(entity.properties.id, newId);
+        return { kind, entity, newId };
+    });
+    diff.updated.forEach(({ kind, after }) => {
+        if (kind === OBJECT_TYPES.NODE) idMap.set(after.properties.id, after.properties.id);
+    });
+
+    // Unchanged nodes keep their IDs too, so connections to them resolve
+    const currentNodeIds = new Set(current.nodes.map(n => n.properties.id));
+    imported.nodes.forEach(node => {
+        if (!idMap.has(node.properties.id) && currentNodeIds.has(node.properties.id)) {
+            idMap.set(node.properties.id, node.properties.id);
+        }
+    });
+
+    // Edge attributes name the other node by its ID in the file, like connections do
+    const withRemappedEdges = ({ properties }: RouteNode): RouteNode["properties"] => properties.edge_attributes
+        ? { ...properties, edge_attributes: remapEdgeAttributeIds(properties.edge_attributes, id => idMap.get(id)) }
+        : properties;
+
+    added.forEach(({ kind, entity, newId }) => {
+        const properties = kind === OBJECT_TYPES.NODE
+            ? { ...withRemappedEdges(entity as RouteNode), id: newId, connections: [] }
+            : { ...entity.properties, id: newId };
+        commands.push(createEntityCommand(kind, { ...entity, properties } as Entity));
+    });
+
+    diff.updated.forEach(({ kind, before, after }) => {
+        const updated = kind === OBJECT_TYPES.NODE ? { ...after, properties: withRemappedEdges(after as RouteNode) } : after;
+        commands.push(editEntityCommand(kind, before, updated as Entity));
+    });
+
+    diff.removed.forEach(({ kind, entity }) => commands.push(deleteEntityCommand(kind, entity)));
+
+    const existingEdges = new Map<string, [number, number]>();
+    current.nodes.forEach(node => node.properties.connections.forEach(c => {
+        existingEdges.set(generateEdgeKey(node.properties.id, c), [node.properties.id, c]);
+    }));
+
+    const importedEdges = new Set<string>();
+    let droppedConnections = 0;
+    imported.nodes.forEach(node => {
+        const from = idMap.get(node.properties.id)!;
+        node.properties.connections.forEach(connectedId => {
+            const to = idMap.get(connectedId);
+            if (to === undefined) {
+                droppedConnections++;
+                return;
+            }
+            const key = generateEdgeKey(from, to);
+            if (importedEdges.has(key)) return;
+            importedEdges.add(key);
+            if (!existingEdges.has(key)) commands.push(connectNodesCommand(from, to));
+        });
+    });
+
+    // When replacing, edges between kept nodes that the file doesn't have are removed as well.
+    // Edges of removed nodes go away with the nodes.
+    if (diff.replace) {
+        const keptNodeIds = new Set(idMap.values());
+        existingEdges.forEach(([a, b], key) => {
+            if (!importedEdges.has(key) && keptNodeIds.has(a) && keptNodeIds.has(b)) {
+                commands.push(disconnectNodesCommand(a, b));
+            }
+        });
+    }
+
+    return { command: combineCommands("Import GeoJSON layout", commands), droppedConnections };
+}
@@ -0,0 +1,98 @@
+import { ValidationError } from "./validation";
+import { createLogger } from "./logger";
+
+const logger = createLogger("floorPlanImage");
+
+export interface FloorPlanImage {
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+// Larger plans are scaled down: map textures are capped in size and the image is kept in local storage
+const MAX_IMAGE_SIZE = 4096;
+// Longest side a PDF page is rendered at
+const PDF_RENDER_SIZE = 3000;
+
+export const FLOOR_PLAN_ACCEPT = "image/png,image/jpeg,application/pdf";
+
+const isPdf = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ValidationError("The file could not be read as an image"));
+    image.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width);
+    canvas.height = Math.round(height);
+    const context = canvas.getContext("2d");
+    if (!context) {
+        throw new Error("Canvas rendering is not available in this browser");
+    }
+    return { canvas, context };
+};
+
+const fromRasterFile = async (file: File): Promise<FloorPlanImage> => {
+    const dataUrl = await readAsDataUrl(file);
+    const image = await loadImage(dataUrl);
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    if (scale === 1) {
+        return { dataUrl, width: image.naturalWidth, height: image.naturalHeight };
+    }
+
+    const { canvas, context } = createCanvas(image.naturalWidth * scale, image.naturalHeight * scale);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    logger.info("Floor plan image scaled down", { from: [image.naturalWidth, image.naturalHeight], to: [canvas.width, canvas.height] });
+    return { dataUrl: canvas.toDataURL(file.type === "image/jpeg" ? "image/jpeg" : "image/png"), width: canvas.width, height: canvas.height };
+};
+
+const fromPdfFile = async (file: File, pageNumber: number): Promise<FloorPlanImage> => {
+    // pdf.js is large, so it is only loaded once someone actually uploads a PDF
+    const pdfjs = await import("pdfjs-dist");
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.js", import.meta.url).toString();
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        if (pageNumber < 1 || pageNumber > pdf.numPages) {
+            throw new ValidationError(`The PDF has ${pdf.numPages} page(s); page ${pageNumber} does not exist`);
+        }
+
+        const page = await pdf.getPage(pageNumber);
+        const unscaled = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_SIZE / Math.max(unscaled.width, unscaled.height) });
+        const { canvas, context } = createCanvas(viewport.width, viewport.height);
+
+        // PDF pages are transparent; plans read better over the basemap on white
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: context, viewport }).promise;
+
+        return { dataUrl: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height };
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+/**
+ * Decodes an uploaded PNG, JPG or PDF page into an image the map can show
+ */
+export async function loadFloorPlanImage(file: File, pdfPageNumber: number = 1): Promise<FloorPlanImage> {
+    if (isPdf(file)) {
+        return fromPdfFile(file, pdfPageNumber);
+    }
+    if (file.type === "image/png" || file.type === "image/jpeg") {
+        return fromRasterFile(file);
+    }
+    throw new ValidationError("Floor plans must be PNG, JPG or PDF files");
+}
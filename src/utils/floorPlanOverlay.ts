@@ -0,0 +1,254 @@
+import { STORAGE_KEYS } from "../components/FloorEditor/enums/STORAGE_KEYS";
+import { ValidationError } from "./validation";
+import { createLogger } from "./logger";
+
+const logger = createLogger("floorPlanOverlay");
+
+export type LngLatTuple = [number, number];
+
+/**
+ * Image corners in MapLibre image source order: top-left, top-right, bottom-right, bottom-left
+ */
+export type FloorPlanCorners = [LngLatTuple, LngLatTuple, LngLatTuple, LngLatTuple];
+
+export interface FloorPlanOverlay {
+    floorId: number;
+    fileName: string;
+    imageUrl: string;
+    imageWidth: number;
+    imageHeight: number;
+    // Corners before rotation; the rendered corners are these turned by `rotation` about their centre
+    corners: FloorPlanCorners;
+    rotation: number;
+    opacity: number;
+    locked: boolean;
+}
+
+/**
+ * One control point: a pixel on the plan image and the map position it belongs at
+ */
+export interface FloorPlanControlPoint {
+    pixel: [number, number] | null;
+    lngLat: LngLatTuple | null;
+}
+
+export interface MapBounds {
+    west: number;
+    south: number;
+    east: number;
+    north: number;
+}
+
+export const CONTROL_POINT_COUNT = 3;
+
+// Share of the visible map a freshly uploaded plan covers
+const INITIAL_FIT_RATIO = 0.6;
+
+/**
+ * Maps lng/lat onto a local plane around `origin` where both axes use the same unit, so
+ * rotations and affine fits don't skew the plan at higher latitudes
+ */
+const toLocal = ([lng, lat]: LngLatTuple, origin: LngLatTuple): [number, number] => [
+    (lng - origin[0]) * Math.cos(origin[1] * Math.PI / 180),
+    lat - origin[1],
+];
+
+const fromLocal = ([x, y]: [number, number], origin: LngLatTuple): LngLatTuple => [
+    origin[0] + x / Math.cos(origin[1] * Math.PI / 180),
+    origin[1] + y,
+];
+
+const centroidOf = (corners: FloorPlanCorners): LngLatTuple => [
+    corners.reduce((sum, c) => sum + c[0], 0) / corners.length,
+    corners.reduce((sum, c) => sum + c[1], 0) / corners.length,
+];
+
+/**
+ * Rotates corners clockwise (as seen on the map) by `degrees` about their centre
+ */
+export function rotateCorners(corners: FloorPlanCorners, degrees: number): FloorPlanCorners {
+    if (!degrees) return corners;
+
+    const center = centroidOf(corners);
+    const angle = -degrees * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return corners.map(corner => {
+        const [x, y] = toLocal(corner, center);
+        return fromLocal([x * cos - y * sin, x * sin + y * cos], center);
+    }) as FloorPlanCorners;
+}
+
+/**
+ * The corners the image is actually drawn at
+ */
+export const getRenderedCorners = (overlay: FloorPlanOverlay): FloorPlanCorners =>
+    rotateCorners(overlay.corners, overlay.rotation);
+
+/**
+ * Moves one rendered corner and returns the unrotated corners that produce the new shape
+ */
+export function moveRenderedCorner(overlay: FloorPlanOverlay, index: number, position: LngLatTuple): FloorPlanCorners {
+    const rendered = [...getRenderedCorners(overlay)] as FloorPlanCorners;
+    rendered[index] = position;
+    return rotateCorners(rendered, -overlay.rotation);
+}
+
+/**
+ * Places an image upright in the middle of the visible map, keeping its aspect ratio
+ */
+export function fitImageToBounds(bounds: MapBounds, imageWidth: number, imageHeight: number): FloorPlanCorners {
+    const center: LngLatTuple = [(bounds.west + bounds.east) / 2, (bounds.south + bounds.north) / 2];
+    const [halfViewWidth, halfViewHeight] = toLocal([bounds.east, bounds.north], center);
+
+    const scale = Math.min(halfViewWidth / imageWidth, halfViewHeight / imageHeight) * INITIAL_FIT_RATIO;
+    const halfWidth = imageWidth * scale;
+    const halfHeight = imageHeight * scale;
+
+    return [
+        fromLocal([-halfWidth, halfHeight], center),
+        fromLocal([halfWidth, halfHeight], center),
+        fromLocal([halfWidth, -halfHeight], center),
+        fromLocal([-halfWidth, -halfHeight], center),
+    ];
+}
+
+/**
+ * Solves the affine transform that takes the control points' pixels onto their map positions
+ * and returns where the image corners land. Three pairs pin down translation, rotation, scale
+ * and shear exactly.
+ */
+export function fitCornersToControlPoints(
+    controlPoints: FloorPlanControlPoint[],
+    imageWidth: number,
+    imageHeight: number
+): FloorPlanCorners {
+    const pairs = controlPoints.filter(p => p.pixel && p.lngLat) as Array<{ pixel: [number, number]; lngLat: LngLatTuple }>;
+    if (pairs.length !== CONTROL_POINT_COUNT) {
+        throw new ValidationError(`Exactly ${CONTROL_POINT_COUNT} complete control point pairs are needed`);
+    }
+
+    const origin = pairs[0].lngLat;
+    const [[u1, v1], [u2, v2], [u3, v3]] = pairs.map(p => p.pixel);
+    const targets = pairs.map(p => toLocal(p.lngLat, origin));
+
+    // Cramer's rule on [u v 1] * [a b c]^T = target, once for x and once for y
+    const determinant = u1 * (v2 - v3) - v1 * (u2 - u3) + (u2 * v3 - u3 * v2);
+    if (Math.abs(determinant) < 1e-6) {
+        throw new ValidationError("Control points on the image must not lie on one line");
+    }
+
+    const solve = (t1: number, t2: number, t3: number) => ({
+        a: (t1 * (v2 - v3) - v1 * (t2 - t3) + (t2 * v3 - t3 * v2)) / determinant,
+        b: (u1 * (t2 - t3) - t1 * (u2 - u3) + (u2 * t3 - u3 * t2)) / determinant,
+        c: (u1 * (v2 * t3 - v3 * t2) - v1 * (u2 * t3 - u3 * t2) + t1 * (u2 * v3 - u3 * v2)) / determinant,
+    });
+    const x = solve(targets[0][0], targets[1][0], targets[2][0]);
+    const y = solve(targets[0][1], targets[1][1], targets[2][1]);
+
+    const project = (u: number, v: number): LngLatTuple =>
+        fromLocal([x.a * u + x.b * v + x.c, y.a * u + y.b * v + y.c], origin);
+
+    return [
+        project(0, 0),
+        project(imageWidth, 0),
+        project(imageWidth, imageHeight),
+        project(0, imageHeight),
+    ];
+}
+
+// The georeference is small and goes to local storage. Images are kept in IndexedDB, which has
+// room for them, so a large plan never uses up the space the change queue needs.
+const storageKey = (floorId: number) => `${STORAGE_KEYS.FLOOR_PLAN}_${floorId}`;
+// Where images were kept before they moved to IndexedDB
+const legacyImageStorageKey = (floorId: number) => `${STORAGE_KEYS.FLOOR_PLAN}_image_${floorId}`;
+
+const IMAGE_DATABASE = "floorEditor";
+const IMAGE_STORE = "floorPlanImages";
+
+const openImageDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(IMAGE_DATABASE, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IMAGE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs one request against the image store and resolves once its transaction has completed
+ */
+async function withImageStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openImageDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction(IMAGE_STORE, mode);
+            const request = run(transaction.objectStore(IMAGE_STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        database.close();
+    }
+}
+
+async function loadStoredImage(floorId: number): Promise<string | null> {
+    const imageUrl = await withImageStore<string | undefined>("readonly", store => store.get(floorId));
+    if (imageUrl) return imageUrl;
+
+    const legacyImageUrl = localStorage.getItem(legacyImageStorageKey(floorId));
+    if (legacyImageUrl && await saveFloorPlanImage(floorId, legacyImageUrl)) {
+        localStorage.removeItem(legacyImageStorageKey(floorId));
+    }
+    return legacyImageUrl;
+}
+
+/**
+ * Loads the stored floor plan for a floor
+ */
+export async function loadFloorPlanOverlay(floorId: number): Promise<FloorPlanOverlay | null> {
+    try {
+        const raw = localStorage.getItem(storageKey(floorId));
+        if (!raw) return null;
+        const imageUrl = await loadStoredImage(floorId);
+        return imageUrl ? { ...JSON.parse(raw), imageUrl } : null;
+    } catch (error) {
+        logger.error("Failed to load floor plan", error as Error, { floorId });
+        return null;
+    }
+}
+
+/**
+ * Persists the georeference and display settings of a floor's plan, or forgets the plan entirely.
+ * Returns false when the browser refused to store it.
+ */
+export function saveFloorPlanOverlay(floorId: number, overlay: FloorPlanOverlay | null): boolean {
+    try {
+        if (overlay) {
+            const { imageUrl, ...georeference } = overlay;
+            localStorage.setItem(storageKey(floorId), JSON.stringify(georeference));
+        } else {
+            localStorage.removeItem(storageKey(floorId));
+            localStorage.removeItem(legacyImageStorageKey(floorId));
+            withImageStore("readwrite", store => store.delete(floorId)).catch(error =>
+                logger.error("Failed to remove floor plan image", error as Error, { floorId }));
+        }
+        return true;
+    } catch (error) {
+        logger.error("Failed to persist floor plan", error as Error, { floorId });
+        return false;
+    }
+}
+
+/**
+ * Persists a floor's plan image. Resolves to false when the browser refused to store it.
+ */
+export async function saveFloorPlanImage(floorId: number, imageUrl: string): Promise<boolean> {
+    try {
+        await withImageStore("readwrite", store => store.put(imageUrl, floorId));
+        return true;
+    } catch (error) {
+        logger.error("Failed to persist floor plan image", error as Error, { floorId });
+        return false;
+    }
+}
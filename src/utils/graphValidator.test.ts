@@ -0,0 +1,128 @@
+import { ChangeQueueItem } from "../interfaces/ChangeQueueItem";
+import { RouteNode } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { applyChangeQueue, createChangeQueueItem, enqueueChange } from "./changeQueue";
+import { HistoryCommand, orderHistoryChanges } from "./editHistory";
+import { GraphFindingKind, validateRouteGraph } from "./graphValidator";
+
+const FLOOR_ID = 1;
+const OTHER_FLOOR_ID = 2;
+
+const node = (id: number, lng: number, connections: number[], extra: Partial<RouteNode["properties"]> = {}): RouteNode => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50 + lng, 26] },
+    properties: { id, floor_id: FLOOR_ID, is_visible: true, connections, ...extra },
+});
+
+const kindsOf = (floorNodes: RouteNode[], otherFloorNodes: RouteNode[] = []): GraphFindingKind[] =>
+    validateRouteGraph(floorNodes, otherFloorNodes).map(f => f.kind);
+
+const findingOf = (kind: GraphFindingKind, floorNodes: RouteNode[], otherFloorNodes: RouteNode[] = []) => {
+    const finding = validateRouteGraph(floorNodes, otherFloorNodes).find(f => f.kind === kind);
+    if (!finding) throw new Error(`No ${kind} finding`);
+    return finding;
+};
+
+// Applies a fix the way the editor does: staged on the change queue, then shown on top of the floor
+const applyFix = (floorNodes: RouteNode[], fix: HistoryCommand | undefined): RouteNode[] => {
+    const queue = orderHistoryChanges(fix?.changes ?? [])
+        .reduce<ChangeQueueItem[]>((q, change) => enqueueChange(q, createChangeQueueItem(q, change)), []);
+    return applyChangeQueue({ polygons: [], beacons: [], nodes: floorNodes }, queue, FLOOR_ID).nodes;
+};
+
+const connectionsOf = (nodes: RouteNode[], id: number) =>
+    [...(nodes.find(n => n.properties.id === id)?.properties.connections ?? [])].sort((a, b) => a - b);
+
+describe("validateRouteGraph", () => {
+    it("reports nothing for a well-formed floor", () => {
+        expect(kindsOf([node(1, 0, [2]), node(2, 0.0001, [1])])).toEqual([]);
+    });
+
+    it("reports a node without connections and offers to delete it", () => {
+        const finding = findingOf("orphan-node", [node(1, 0, [2]), node(2, 0.0001, [1]), node(3, 0.0002, [])]);
+
+        expect(finding.nodeIds).toEqual([3]);
+        expect(finding.fix?.changes).toMatchObject([{ type: CHANGE_TYPES.DELETE, data: { id: 3 } }]);
+    });
+
+    it("reports a connection to a node that doesn't exist and offers to remove it", () => {
+        const finding = findingOf("dangling-connection", [node(1, 0, [2, 9]), node(2, 0.0001, [1])]);
+
+        expect(finding.severity).toBe("error");
+        expect(finding.fix?.changes).toMatchObject([{ type: CHANGE_TYPES.DISCONNECT, data: { nodeId1: 1, nodeId2: 9 } }]);
+    });
+
+    it("reports a one-way connection once and makes it two-way", () => {
+        const floor = [node(1, 0, [2]), node(2, 0.0001, [3]), node(3, 0.0002, [2])];
+
+        const findings = validateRouteGraph(floor, []).filter(f => f.kind === "one-way-connection");
+        const fixed = applyFix(floor, findings[0].fix);
+
+        expect(findings).toHaveLength(1);
+        expect(connectionsOf(fixed, 2)).toEqual([1, 3]);
+        expect(kindsOf(fixed)).toEqual([]);
+    });
+
+    it("makes a one-way connection from another floor two-way on this floor", () => {
+        const floor = [node(1, 0, [2], { node_type: "elevator" }), node(2, 0.0001, [1])];
+        const otherFloor = [node(10, 0, [1], { node_type: "elevator", floor_id: OTHER_FLOOR_ID })];
+
+        const finding = findingOf("one-way-connection", floor, otherFloor);
+        const fixed = applyFix(floor, finding.fix);
+
+        expect(finding.nodeIds).toEqual([1, 10]);
+        expect(connectionsOf(fixed, 1)).toEqual([2, 10]);
+        expect(kindsOf(fixed, otherFloor)).toEqual([]);
+    });
+
+    it("merges nodes at the same location, keeping the removed node's edges", () => {
+        const floor = [
+            node(1, 0, [3]),
+            node(2, 0, [4]),
+            node(3, 0.0001, [1, 4]),
+            node(4, 0.0002, [2, 3]),
+        ];
+
+        const finding = findingOf("duplicate-location", floor);
+        const fixed = applyFix(floor, finding.fix);
+
+        expect(finding.nodeIds).toEqual([1, 2]);
+        expect(fixed.map(n => n.properties.id)).toEqual([1, 3, 4]);
+        expect(connectionsOf(fixed, 1)).toEqual([3, 4]);
+        expect(connectionsOf(fixed, 4)).toEqual([1, 3]);
+        expect(kindsOf(fixed)).toEqual([]);
+    });
+
+    it("reports an elevator that isn't linked to another floor and links it to the shaft above", () => {
+        const floor = [node(1, 0, [2], { node_type: "elevator" }), node(2, 0.0001, [1])];
+        const otherFloor = [
+            node(10, 0, [11], { node_type: "elevator", floor_id: OTHER_FLOOR_ID }),
+            node(11, 0.0001, [10], { floor_id: OTHER_FLOOR_ID }),
+        ];
+
+        const finding = findingOf("missing-vertical-link", floor, otherFloor);
+
+        expect(finding.fix?.changes).toMatchObject([{ type: CHANGE_TYPES.CONNECT, data: { nodeId1: 1, nodeId2: 10 } }]);
+    });
+
+    it("offers no fix for a vertical node with no counterpart nearby", () => {
+        const floor = [node(1, 0, [2], { node_type: "stairs" }), node(2, 0.0001, [1])];
+
+        expect(findingOf("missing-vertical-link", floor).fix).toBeUndefined();
+    });
+
+    it("reports an island of nodes cut off from the main graph", () => {
+        const floor = [
+            node(1, 0, [2]),
+            node(2, 0.0001, [1, 3]),
+            node(3, 0.0002, [2]),
+            node(4, 0.001, [5]),
+            node(5, 0.0011, [4]),
+        ];
+
+        const finding = findingOf("disconnected-component", floor);
+
+        expect([...finding.nodeIds].sort((a, b) => a - b)).toEqual([4, 5]);
+        expect(finding.fix).toBeUndefined();
+    });
+});
@@ -0,0 +1,225 @@
+import { RouteNode } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { calculateGeodesicDistance, generateEdgeKey } from "./mapUtils";
+import {
+    HistoryCommand,
+    combineCommands,
+    connectNodesCommand,
+    deleteEntityCommand,
+    disconnectNodesCommand,
+} from "./editHistory";
+
+export type GraphFindingKind =
+    | "disconnected-component"
+    | "orphan-node"
+    | "one-way-connection"
+    | "dangling-connection"
+    | "duplicate-location"
+    | "missing-vertical-link";
+
+export interface GraphFinding {
+    id: string;
+    kind: GraphFindingKind;
+    severity: "error" | "warning";
+    message: string;
+    nodeIds: number[]; // the first one is where the editor zooms to
+    fixLabel?: string;
+    fix?: HistoryCommand;
+}
+
+// Nodes closer than this are treated as the same point
+const DUPLICATE_DISTANCE_METERS = 0.05;
+// Elevator/stairs nodes on other floors within this distance are assumed to be the same shaft
+const VERTICAL_LINK_DISTANCE_METERS = 1;
+
+const isVerticalNode = (node: RouteNode) =>
+    node.properties.node_type === "elevator" || node.properties.node_type === "stairs";
+
+const distanceBetween = (a: RouteNode, b: RouteNode) =>
+    calculateGeodesicDistance(a.geometry!.coordinates, b.geometry!.coordinates);
+
+/**
+ * Groups the building graph into connected components, treating every edge as undirected
+ */
+const findComponents = (nodesById: Map<number, RouteNode>): number[][] => {
+    const adjacency = new Map<number, Set<number>>();
+    nodesById.forEach((_, id) => adjacency.set(id, new Set()));
+    nodesById.forEach(node => {
+        node.properties.connections.forEach(otherId => {
+            if (!nodesById.has(otherId)) return;
+            adjacency.get(node.properties.id)!.add(otherId);
+            adjacency.get(otherId)!.add(node.properties.id);
+        });
+    });
+
+    const visited = new Set<number>();
+    const components: number[][] = [];
+    adjacency.forEach((_, startId) => {
+        if (visited.has(startId)) return;
+        const component: number[] = [];
+        const stack = [startId];
+        visited.add(startId);
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            component.push(id);
+            adjacency.get(id)!.forEach(next => {
+                if (!visited.has(next)) {
+                    visited.add(next);
+                    stack.push(next);
+                }
+            });
+        }
+        components.push(component);
+    });
+    return components;
+};
+
+/**
+ * Lints the route graph of one floor. `floorNodes` is the floor being edited (including staged
+ * changes); `otherFloorNodes` is the rest of the building, used to resolve vertical links.
+ * Only problems touching the edited floor are reported. Fixes are only offered where they can't
+ * lose routing information, and are plain history commands so they can be undone.
+ */
+export function validateRouteGraph(floorNodes: RouteNode[], otherFloorNodes: RouteNode[]): GraphFinding[] {
+    const findings: GraphFinding[] = [];
+    const floorNodeIds = new Set(floorNodes.map(n => n.properties.id));
+    const nodesById = new Map<number, RouteNode>();
+    [...otherFloorNodes, ...floorNodes].forEach(n => nodesById.set(n.properties.id, n));
+
+    const reportedEdges = new Set<string>();
+
+    floorNodes.forEach(node => {
+        const id = node.properties.id;
+        const connections = node.properties.connections;
+
+        if (connections.length === 0) {
+            findings.push({
+                id: `orphan-node-${id}`,
+                kind: "orphan-node",
+                severity: "warning",
+                message: `Node #${id} has no connections`,
+                nodeIds: [id],
+                fixLabel: "Delete node",
+                fix: deleteEntityCommand(OBJECT_TYPES.NODE, node, "Delete orphan node"),
+            });
+        }
+
+        connections.forEach(otherId => {
+            const other = nodesById.get(otherId);
+            if (!other) {
+                findings.push({
+                    id: `dangling-connection-${id}-${otherId}`,
+                    kind: "dangling-connection",
+                    severity: "error",
+                    message: `Node #${id} is connected to node #${otherId}, which doesn't exist`,
+                    nodeIds: [id],
+                    fixLabel: "Remove connection",
+                    fix: disconnectNodesCommand(id, otherId, "Remove dangling connection"),
+                });
+            } else if (!other.properties.connections.includes(id)) {
+                reportedEdges.add(generateEdgeKey(id, otherId));
+                findings.push({
+                    id: `one-way-connection-${id}-${otherId}`,
+                    kind: "one-way-connection",
+                    severity: "error",
+                    message: `Node #${id} connects to node #${otherId}, but not the other way round`,
+                    nodeIds: [id, otherId],
+                    fixLabel: "Make two-way",
+                    fix: connectNodesCommand(id, otherId, "Fix one-way connection"),
+                });
+            }
+        });
+    });
+
+    // Edges from other floors into this floor that this floor doesn't know about
+    otherFloorNodes.forEach(other => {
+        other.properties.connections.forEach(id => {
+            const node = floorNodeIds.has(id) ? nodesById.get(id)! : null;
+            if (!node || node.properties.connections.includes(other.properties.id)) return;
+            if (reportedEdges.has(generateEdgeKey(id, other.properties.id))) return;
+            findings.push({
+                id: `one-way-connection-${other.properties.id}-${id}`,
+                kind: "one-way-connection",
+                severity: "error",
+                message: `Node #${other.properties.id} on another floor connects to node #${id}, but not the other way round`,
+                nodeIds: [id, other.properties.id],
+                fixLabel: "Make two-way",
+                fix: connectNodesCommand(id, other.properties.id, "Fix one-way connection"),
+            });
+        });
+    });
+
+    // Duplicates: merging keeps every edge of the removed node on the kept one
+    const located = floorNodes.filter(n => n.geometry);
+    const merged = new Set<number>();
+    located.forEach((node, i) => {
+        if (merged.has(node.properties.id)) return;
+        for (let j = i + 1; j < located.length; j++) {
+            const duplicate = located[j];
+            if (merged.has(duplicate.properties.id) || distanceBetween(node, duplicate) > DUPLICATE_DISTANCE_METERS) continue;
+
+            merged.add(duplicate.properties.id);
+            const keptId = node.properties.id;
+            const reconnect = duplicate.properties.connections
+                .filter(c => c !== keptId && !node.properties.connections.includes(c))
+                .map(c => connectNodesCommand(keptId, c));
+
+            findings.push({
+                id: `duplicate-location-${keptId}-${duplicate.properties.id}`,
+                kind: "duplicate-location",
+                severity: "warning",
+                message: `Nodes #${keptId} and #${duplicate.properties.id} are at the same location`,
+                nodeIds: [keptId, duplicate.properties.id],
+                fixLabel: `Merge into #${keptId}`,
+                fix: combineCommands("Merge duplicate nodes", [
+                    ...reconnect,
+                    deleteEntityCommand(OBJECT_TYPES.NODE, duplicate),
+                ]),
+            });
+        }
+    });
+
+    // Elevators and stairs must lead somewhere
+    floorNodes.filter(isVerticalNode).forEach(node => {
+        const hasVerticalLink = node.properties.connections.some(c => {
+            const other = nodesById.get(c);
+            return other && other.properties.floor_id !== node.properties.floor_id;
+        });
+        if (hasVerticalLink || !node.geometry) return;
+
+        const counterpart = otherFloorNodes.find(other =>
+            other.geometry &&
+            other.properties.node_type === node.properties.node_type &&
+            distanceBetween(node, other) <= VERTICAL_LINK_DISTANCE_METERS
+        );
+
+        findings.push({
+            id: `missing-vertical-link-${node.properties.id}`,
+            kind: "missing-vertical-link",
+            severity: "error",
+            message: `${node.properties.node_type === "elevator" ? "Elevator" : "Stairs"} node #${node.properties.id} isn't linked to any other floor`,
+            nodeIds: [node.properties.id],
+            ...(counterpart && {
+                fixLabel: `Link to #${counterpart.properties.id}`,
+                fix: connectNodesCommand(node.properties.id, counterpart.properties.id, "Link vertical connector"),
+            }),
+        });
+    });
+
+    // Components: everything outside the largest component can't be reached from the rest of the building.
+    // Single nodes are already reported as orphans.
+    const components = findComponents(nodesById).sort((a, b) => b.length - a.length);
+    components.slice(1).forEach(component => {
+        const onFloor = component.filter(id => floorNodeIds.has(id));
+        if (onFloor.length < 2) return;
+        findings.push({
+            id: `disconnected-component-${onFloor[0]}`,
+            kind: "disconnected-component",
+            severity: "warning",
+            message: `${onFloor.length} nodes form an island that isn't connected to the main graph`,
+            nodeIds: onFloor,
+        });
+    });
+
+    return findings;
+}
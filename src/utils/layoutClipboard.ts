@@ -0,0 +1,166 @@
+import FloorLayoutData from "../interfaces/FloorLayoutData";
+import { PolygonBuilder } from "../interfaces/Polygon";
+import { BeaconBuilder } from "../interfaces/Beacon";
+import { RouteNode, RouteNodeBuilder, remapEdgeAttributeIds } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { STORAGE_KEYS } from "../components/FloorEditor/enums/STORAGE_KEYS";
+import { HistoryCommand, combineCommands, connectNodesCommand, createEntityCommand } from "./editHistory";
+import { SelectableLayout, SelectionItem, describeSelection } from "./bulkEdit";
+import { createLocalProjection, generateEdgeKey } from "./mapUtils";
+import { getGeometryVertices, mapGeometryPoints } from "./polygonGeometry";
+import { createLogger } from "./logger";
+
+const logger = createLogger("layoutClipboard");
+
+/**
+ * Copied items, remembered across floors (and sessions) so they can be pasted onto another
+ * floor of the same building
+ */
+export interface LayoutClipboard {
+    buildingId: number;
+    floorId: number;
+    layout: FloorLayoutData;
+}
+
+/**
+ * A move in metres, east and north
+ */
+export interface PasteOffset {
+    east: number;
+    north: number;
+}
+
+// Pastes onto the floor they were copied from land beside the originals instead of on top of them
+export const SAME_FLOOR_PASTE_OFFSET: PasteOffset = { east: 2, north: -2 };
+
+/**
+ * Node edges and their descriptions, keeping only those between the given nodes
+ */
+const withInternalEdges = (node: RouteNode, nodeIds: Set<number>): RouteNode => {
+    const { connected_node_ids, ...properties } = node.properties;
+    const isInternal = (id: number) => (nodeIds.has(id) ? id : undefined);
+    return {
+        ...node,
+        properties: {
+            ...properties,
+            connections: (properties.connections ?? connected_node_ids ?? []).filter(id => nodeIds.has(id)),
+            ...(properties.edge_attributes && { edge_attributes: remapEdgeAttributeIds(properties.edge_attributes, isInternal) }),
+        },
+    };
+};
+
+/**
+ * The selection as a standalone layout. Connections to nodes outside it are left behind.
+ */
+export function copyLayout(selected: SelectableLayout): FloorLayoutData {
+    const nodeIds = new Set(selected.nodes.map(n => n.properties.id));
+    return {
+        polygons: selected.polygons,
+        beacons: selected.beacons,
+        nodes: selected.nodes.map(node => withInternalEdges(node, nodeIds)),
+    };
+}
+
+/**
+ * "2 polygons and 3 route nodes", as for a selection
+ */
+export function describeLayout(layout: FloorLayoutData): string {
+    return describeSelection([
+        ...layout.polygons.map(p => ({ type: "polygon" as const, id: p.properties.id })),
+        ...layout.beacons.map(b => ({ type: "beacon" as const, id: b.properties.id })),
+        ...layout.nodes.map(n => ({ type: "node" as const, id: n.properties.id })),
+    ]);
+}
+
+const anyPoint = (layout: FloorLayoutData): number[] | undefined =>
+    (layout.polygons[0] && getGeometryVertices(layout.polygons[0].geometry)[0]) ??
+    layout.beacons.find(b => b.geometry)?.geometry?.coordinates ??
+    layout.nodes.find(n => n.geometry)?.geometry?.coordinates;
+
+/**
+ * Stages a copy of the layout on a floor in one undoable step, moved by `offset` metres. Everything
+ * gets a new temporary ID and connections between copied nodes are recreated between the copies.
+ * Beacons lose their UUID, major and minor so no two beacons broadcast the same identity.
+ */
+export function buildPasteCommand(
+    layout: FloorLayoutData,
+    floorId: number,
+    offset: PasteOffset,
+    nextTemporaryId: () => number
+): { command: HistoryCommand; items: SelectionItem[] } {
+    const projection = createLocalProjection((anyPoint(layout) ?? [0, 0]) as [number, number]);
+    const move = (coordinates: number[]): [number, number] => {
+        const { x, y } = projection.toLocal(coordinates);
+        return projection.toLngLat({ x: x + offset.east, y: y + offset.north });
+    };
+
+    const idMap = new Map<number, number>();
+    layout.nodes.forEach(node => idMap.set(node.properties.id, nextTemporaryId()));
+    const items: SelectionItem[] = [];
+    const commands: HistoryCommand[] = [];
+
+    layout.polygons.forEach(polygon => {
+        const id = nextTemporaryId();
+        items.push({ type: "polygon", id });
+        commands.push(createEntityCommand(OBJECT_TYPES.POLYGON, PolygonBuilder.fromPolygon(polygon)
+            .setId(id)
+            .setFloorId(floorId)
+            .setParts(mapGeometryPoints(polygon.geometry, move))
+            .build()));
+    });
+
+    layout.beacons.forEach(beacon => {
+        const id = nextTemporaryId();
+        const builder = BeaconBuilder.fromBeacon(beacon)
+            .setId(id)
+            .setFloorId(floorId)
+            .setUuid(null)
+            .setMajorId(null)
+            .setMinorId(null)
+            .setLastSeen(null);
+        if (beacon.geometry) builder.setGeometry(...move(beacon.geometry.coordinates));
+        items.push({ type: "beacon", id });
+        commands.push(createEntityCommand(OBJECT_TYPES.BEACON, builder.build()));
+    });
+
+    layout.nodes.forEach(node => {
+        const id = idMap.get(node.properties.id)!;
+        items.push({ type: "node", id });
+        commands.push(createEntityCommand(OBJECT_TYPES.NODE, RouteNodeBuilder.fromRouteNode(node)
+            .setId(id)
+            .setFloorId(floorId)
+            .setGeometry(node.geometry && { type: "Point", coordinates: move(node.geometry.coordinates) })
+            .setConnections([])
+            .setEdgeAttributes(remapEdgeAttributeIds(node.properties.edge_attributes ?? [], otherId => idMap.get(otherId)))
+            .build()));
+    });
+
+    const pastedEdges = new Set<string>();
+    layout.nodes.forEach(node => node.properties.connections.forEach(connectedId => {
+        const from = idMap.get(node.properties.id)!;
+        const to = idMap.get(connectedId);
+        if (to === undefined || pastedEdges.has(generateEdgeKey(from, to))) return;
+        pastedEdges.add(generateEdgeKey(from, to));
+        commands.push(connectNodesCommand(from, to));
+    }));
+
+    return { command: combineCommands(`Paste ${describeSelection(items)}`, commands), items };
+}
+
+export function loadLayoutClipboard(): LayoutClipboard | null {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEYS.CLIPBOARD);
+        return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+        logger.error("Failed to load the layout clipboard", error as Error);
+        return null;
+    }
+}
+
+export function saveLayoutClipboard(clipboard: LayoutClipboard): void {
+    try {
+        localStorage.setItem(STORAGE_KEYS.CLIPBOARD, JSON.stringify(clipboard));
+    } catch (error) {
+        logger.error("Failed to persist the layout clipboard", error as Error);
+    }
+}
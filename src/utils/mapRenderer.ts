@@ -1,8 +1,30 @@
-import { Map, Marker, Popup } from "@maptiler/sdk";
+import { GeoJSONSource, ImageSource, Map, Marker, Popup } from "@maptiler/sdk";
 import { Polygon } from "../interfaces/Polygon";
 import { Beacon } from "../interfaces/Beacon";
 import { RouteNode } from "../interfaces/RouteNode";
-import { calculatePolygonCenter, generateEdgeKey } from "./mapUtils";
+import { calculateGeodesicDistance, formatDistance, generateEdgeKey } from "./mapUtils";
+import { FloorPlanControlPoint, FloorPlanCorners } from "./floorPlanOverlay";
+import { SnapResult } from "./snapping";
+import { WalkwayGraphPreview } from "./walkwayGraph";
+import { CoverageDisplayMode, CoverageMap, MIN_BEACONS_FOR_POSITIONING } from "./beaconCoverage";
+import { EdgeStyle, getEdgeStyle } from "./routeAccessibility";
+import { Edge } from "./edgeEditing";
+import {
+    getBearing,
+    getGeometryVertices,
+    getPolygonLabelPoint,
+    getPolygonParts,
+    getRingCenter,
+    getRingMidpoints,
+    getRingVertices,
+    insertRingVertex,
+    moveRingVertex,
+    replacePolygonPart,
+    rotateRings,
+    toPolygonGeometry,
+    translateRings,
+} from "./polygonGeometry";
+import { FEATURE_KEY, setFeatureFlag, syncFeatureSource, updateFeatureGeometry } from "./featureSource";
 import { createLogger } from "./logger";
 
 const logger = createLogger("MapRenderer");
@@ -14,75 +36,263 @@ export interface MapRenderingRefs {
 }
 
 /**
- * Renders polygons on the map
+ * Called with the marker's final position when a drag ends
+ */
+export type MarkerDragEndHandler = (id: number, lng: number, lat: number) => void;
+
+// Font for text drawn on the map; one the MapTiler styles ship glyphs for
+const LABEL_FONT = ["Noto Sans Regular"];
+
+/**
+ * Updates the geometry of an already rendered GeoJSON source in place
+ */
+const setSourceGeometry = (map: Map, sourceId: string, geometry: GeoJSON.Geometry) => {
+    const source = map.getSource(sourceId) as GeoJSONSource | undefined;
+    source?.setData({ type: "Feature", geometry, properties: {} });
+};
+
+const POLYGON_SOURCE_ID = "polygons-source";
+const POLYGON_FILL_LAYER_ID = "polygons-fill";
+const POLYGON_BORDER_LAYER_ID = "polygons-border";
+const POLYGON_LABEL_SOURCE_ID = "polygon-labels-source";
+const POLYGON_LABEL_LAYER_ID = "polygon-labels";
+
+/**
+ * The lowest layer the floor's items are drawn in, for things that go underneath them
+ */
+export function getItemsBottomLayerId(map: Map): string | undefined {
+    return map.getLayer(POLYGON_FILL_LAYER_ID) ? POLYGON_FILL_LAYER_ID : undefined;
+}
+
+/**
+ * Renders polygons on the map: every polygon is a feature of one source, coloured by its own
+ * `color` property and highlighted through feature-state, so a change only sends the polygons
+ * that changed. Named polygons get a text label; each also gets a marker for its popup.
  */
 export function renderPolygons(
     map: Map,
     polygons: Polygon[],
     refs: MapRenderingRefs,
-    selectedItemId?: number
+    selectedIds: number[] = []
 ) {
-    polygons.forEach((p) => {
+    const rendered = polygons.filter(p => p.properties.is_visible && getGeometryVertices(p.geometry).length >= 3);
+    const labelPoints = rendered.map(p => getPolygonLabelPoint(p.geometry));
+
+    // Holes and extra parts render as they are; the fill leaves holes empty
+    syncFeatureSource(map, POLYGON_SOURCE_ID, rendered.map((p): GeoJSON.Feature => ({
+        type: "Feature",
+        geometry: p.geometry,
+        properties: { [FEATURE_KEY]: String(p.properties.id), color: p.properties.color },
+    })), () => {
+        map.addLayer({
+            id: POLYGON_FILL_LAYER_ID,
+            type: "fill",
+            source: POLYGON_SOURCE_ID,
+            paint: {
+                "fill-color": ["get", "color"],
+                "fill-opacity": ["case", ["boolean", ["feature-state", "selected"], false], 0.8, 0.6],
+            },
+        });
+        map.addLayer({
+            id: POLYGON_BORDER_LAYER_ID,
+            type: "line",
+            source: POLYGON_SOURCE_ID,
+            paint: {
+                "line-color": ["case", ["boolean", ["feature-state", "selected"], false], "#ef4444", ["get", "color"]],
+                "line-width": ["case", ["boolean", ["feature-state", "selected"], false], 4, 2],
+            },
+        });
+    });
+    setFeatureFlag(map, POLYGON_SOURCE_ID, "selected", selectedIds.map(String));
+
+    // Name labels that grow with the zoom; walls carry no name worth showing
+    syncFeatureSource(map, POLYGON_LABEL_SOURCE_ID, rendered.flatMap((p, i): GeoJSON.Feature[] =>
+        p.properties.name && p.properties.type !== "Wall"
+            ? [{
+                type: "Feature",
+                geometry: { type: "Point", coordinates: labelPoints[i] },
+                properties: { [FEATURE_KEY]: String(p.properties.id), name: p.properties.name },
+            }]
+            : []
+    ), () => {
+        map.addLayer({
+            id: POLYGON_LABEL_LAYER_ID,
+            type: "symbol",
+            source: POLYGON_LABEL_SOURCE_ID,
+            layout: {
+                "text-field": ["get", "name"],
+                "text-font": LABEL_FONT,
+                "text-size": ["interpolate", ["exponential", 1.5], ["zoom"], 16, 9, 22, 24],
+                "text-max-width": 8,
+                // Sits just under the marker pin
+                "text-offset": [0, 0.8],
+                "text-anchor": "top",
+            },
+            paint: {
+                "text-color": "#1f2937",
+                "text-halo-color": "#ffffff",
+                "text-halo-width": 1.5,
+            },
+        });
+    });
+
+    rendered.forEach((p, i) => {
         const polygon = p.properties;
-        if (polygon.is_visible && p.geometry.coordinates[0].length >= 3) {
-            const coordinates = p.geometry.coordinates;
-            const sourceId = `polygon-source-${polygon.id}`;
-            const layerId = `polygon-layer-${polygon.id}`;
-
-            map.addSource(sourceId, {
-                type: "geojson",
-                data: {
-                    type: "Feature",
-                    geometry: {
-                        type: "Polygon",
-                        coordinates: coordinates,
-                    },
-                    properties: {},
-                },
-            });
+        // Add center marker for interaction
+        refs.mapMarkers.current[`polygon-${polygon.id}`] = new Marker({
+            color: polygon.color,
+            scale: 0.8,
+        })
+            .setLngLat(labelPoints[i])
+            .setPopup(
+                new Popup().setHTML(
+                    `<strong>${polygon.name}</strong><br>Type: ${polygon.type}`
+                )
+            )
+            .addTo(map);
+    });
+}
 
-            map.addLayer({
-                id: layerId,
-                type: "fill",
-                source: sourceId,
-                paint: {
-                    "fill-color": polygon.color,
-                    "fill-opacity": selectedItemId === polygon.id ? 0.8 : 0.6,
-                },
-            });
+/**
+ * Renders draggable handles on every vertex of a polygon, holes and every part included. The
+ * fill follows the handle while dragging and the full geometry is reported once the drag ends.
+ */
+export function renderPolygonVertexHandles(
+    map: Map,
+    polygon: Polygon,
+    refs: MapRenderingRefs,
+    onDragEnd: (polygonId: number, parts: number[][][][]) => void
+) {
+    const polygonId = polygon.properties.id;
+    if (!polygon.properties.is_visible) return;
 
-            // Add border
-            const borderLayerId = `polygon-border-${polygon.id}`;
-            map.addLayer({
-                id: borderLayerId,
-                type: "line",
-                source: sourceId,
-                paint: {
-                    "line-color": selectedItemId === polygon.id ? "#ef4444" : polygon.color,
-                    "line-width": selectedItemId === polygon.id ? 4 : 2,
-                },
-            });
+    const parts = getPolygonParts(polygon.geometry);
+    parts.forEach((rings, partIndex) => rings.forEach((ring, ringIndex) => {
+        const moveVertex = (index: number, lng: number, lat: number): number[][][][] =>
+            replacePolygonPart(parts, partIndex, rings.map((r, i) => (i === ringIndex ? moveRingVertex(r, index, [lng, lat]) : r)));
 
-            // Track sources and layers
-            refs.mapSources.current[`polygon-${polygon.id}`] = sourceId;
-            refs.mapLayers.current[`polygon-${polygon.id}`] = layerId;
-            refs.mapLayers.current[`polygon-border-${polygon.id}`] = borderLayerId;
+        // The ring is closed, so the last point mirrors the first and gets no handle of its own
+        getRingVertices(ring).forEach((vertex, index) => {
+            const handleElement = document.createElement("div");
+            handleElement.className = "polygon-vertex-handle";
 
-            // Add center marker for interaction
-            const center = calculatePolygonCenter(p.geometry.coordinates);
-            refs.mapMarkers.current[`polygon-${polygon.id}`] = new Marker({
-                color: polygon.color,
-                scale: 0.8,
-            })
-                .setLngLat([center.lng, center.lat])
-                .setPopup(
-                    new Popup().setHTML(
-                        `<strong>${polygon.name}</strong><br>Type: ${polygon.type}`
-                    )
-                )
+            const marker = new Marker({ element: handleElement, draggable: true })
+                .setLngLat([vertex[0], vertex[1]])
                 .addTo(map);
-        }
+
+            marker.on("drag", () => {
+                const { lng, lat } = marker.getLngLat();
+                updateFeatureGeometry(map, POLYGON_SOURCE_ID, String(polygonId), toPolygonGeometry(moveVertex(index, lng, lat)));
+            });
+            marker.on("dragend", () => {
+                const { lng, lat } = marker.getLngLat();
+                onDragEnd(polygonId, moveVertex(index, lng, lat));
+            });
+
+            refs.mapMarkers.current[`polygon-vertex-${polygonId}-${partIndex}-${ringIndex}-${index}`] = marker;
+        });
+    }));
+}
+
+// Corners are addressed by ring (0 for the outer ring, then the holes) within the active part
+export interface PolygonShapeEditHandlers {
+    onVertexMove: (ringIndex: number, index: number, point: number[]) => void;
+    onVertexInsert: (ringIndex: number, afterIndex: number, point: number[]) => void;
+    onVertexRemove: (ringIndex: number, index: number) => void;
+    onTranslate: (from: number[], to: number[]) => void;
+    onRotate: (degrees: number) => void;
+}
+
+const SHAPE_EDIT_SOURCE_ID = "polygon-shape-edit-source";
+// How far above the shape (in pixels) the rotate handle sits
+const ROTATE_HANDLE_OFFSET_PX = 30;
+
+const createHandle = (map: Map, className: string, coordinates: number[], title: string) => {
+    const element = document.createElement("div");
+    element.className = className;
+    element.title = title;
+    return new Marker({ element, draggable: true }).setLngLat([coordinates[0], coordinates[1]]).addTo(map);
+};
+
+/**
+ * Draws a polygon being reshaped, with handles to drag its corners, drag side midpoints out into
+ * new corners, right-click a corner away, and move or rotate the whole shape. Drags preview live;
+ * each handler is called once the drag ends. Invalid shapes are outlined in red. Every part is
+ * drawn, but only the corners of part `partIndex` (its outer ring and holes) get handles.
+ */
+export function renderPolygonShapeEditor(
+    map: Map,
+    parts: number[][][][],
+    partIndex: number,
+    isValid: boolean,
+    refs: MapRenderingRefs,
+    handlers: PolygonShapeEditHandlers
+) {
+    const rings = parts[partIndex];
+    const vertices = getRingVertices(rings[0]);
+    const center = getRingCenter(rings[0]);
+    const preview = (updated: number[][][][]) => setSourceGeometry(map, SHAPE_EDIT_SOURCE_ID, toPolygonGeometry(updated));
+    const withRing = (ringIndex: number, ring: number[][]) =>
+        replacePolygonPart(parts, partIndex, rings.map((r, i) => (i === ringIndex ? ring : r)));
+    const transformAll = (transform: (part: number[][][]) => number[][][]) => parts.map(transform);
+
+    map.addSource(SHAPE_EDIT_SOURCE_ID, {
+        type: "geojson",
+        data: { type: "Feature", geometry: toPolygonGeometry(parts), properties: {} },
+    });
+    map.addLayer({
+        id: "polygon-shape-edit-fill",
+        type: "fill",
+        source: SHAPE_EDIT_SOURCE_ID,
+        paint: { "fill-color": isValid ? "#3b82f6" : "#ef4444", "fill-opacity": 0.25 },
     });
+    map.addLayer({
+        id: "polygon-shape-edit-line",
+        type: "line",
+        source: SHAPE_EDIT_SOURCE_ID,
+        paint: { "line-color": isValid ? "#1d4ed8" : "#ef4444", "line-width": 2, "line-dasharray": [3, 2] },
+    });
+    refs.mapSources.current["polygon-shape-edit"] = SHAPE_EDIT_SOURCE_ID;
+    refs.mapLayers.current["polygon-shape-edit-fill"] = "polygon-shape-edit-fill";
+    refs.mapLayers.current["polygon-shape-edit-line"] = "polygon-shape-edit-line";
+
+    rings.forEach((ring, ringIndex) => {
+        getRingVertices(ring).forEach((vertex, index) => {
+            const marker = createHandle(map, "polygon-vertex-handle", vertex, "Drag to move, right-click to delete");
+            const moved = () => moveRingVertex(ring, index, marker.getLngLat().toArray());
+            marker.on("drag", () => preview(withRing(ringIndex, moved())));
+            marker.on("dragend", () => handlers.onVertexMove(ringIndex, index, marker.getLngLat().toArray()));
+            marker.getElement().addEventListener("contextmenu", (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                handlers.onVertexRemove(ringIndex, index);
+            });
+            refs.mapMarkers.current[`polygon-shape-vertex-${ringIndex}-${index}`] = marker;
+        });
+
+        getRingMidpoints(ring).forEach((midpoint, index) => {
+            const marker = createHandle(map, "polygon-midpoint-handle", midpoint, "Drag to add a corner");
+            const inserted = () => insertRingVertex(ring, index, marker.getLngLat().toArray());
+            marker.on("drag", () => preview(withRing(ringIndex, inserted())));
+            marker.on("dragend", () => handlers.onVertexInsert(ringIndex, index, marker.getLngLat().toArray()));
+            refs.mapMarkers.current[`polygon-shape-midpoint-${ringIndex}-${index}`] = marker;
+        });
+    });
+
+    const moveHandle = createHandle(map, "polygon-move-handle", center, "Drag to move the shape");
+    moveHandle.getElement().textContent = "✥";
+    moveHandle.on("drag", () => preview(transformAll(part => translateRings(part, center, moveHandle.getLngLat().toArray()))));
+    moveHandle.on("dragend", () => handlers.onTranslate(center, moveHandle.getLngLat().toArray()));
+    refs.mapMarkers.current["polygon-shape-move"] = moveHandle;
+
+    const top = Math.min(...vertices.map(v => map.project([v[0], v[1]]).y));
+    const rotateStart = map.unproject([map.project(center).x, top - ROTATE_HANDLE_OFFSET_PX]).toArray();
+    const rotateHandle = createHandle(map, "polygon-rotate-handle", rotateStart, "Drag to rotate the shape");
+    rotateHandle.getElement().textContent = "↻";
+    const rotation = () => getBearing(center, rotateHandle.getLngLat().toArray()) - getBearing(center, rotateStart);
+    rotateHandle.on("drag", () => preview(transformAll(part => rotateRings(part, center, rotation()))));
+    rotateHandle.on("dragend", () => handlers.onRotate(rotation()));
+    refs.mapMarkers.current["polygon-shape-rotate"] = rotateHandle;
 }
 
 /**
@@ -92,15 +302,17 @@ export function renderBeacons(
     map: Map,
     beacons: Beacon[],
     refs: MapRenderingRefs,
-    selectedItemId?: number
+    selectedIds: number[] = [],
+    onDragEnd?: MarkerDragEndHandler
 ) {
     beacons.forEach((b) => {
         const beacon = b.properties;
         if (beacon.is_visible && b.geometry) {
-            const isSelected = selectedItemId === beacon.id;
-            refs.mapMarkers.current[`beacon-${beacon.id}`] = new Marker({
+            const isSelected = selectedIds.includes(beacon.id);
+            const marker = new Marker({
                 color: isSelected ? "#ef4444" : "#fbbf24",
                 scale: isSelected ? 1.2 : 1.0,
+                draggable: !!onDragEnd,
             })
                 .setLngLat(b.geometry.coordinates)
                 .setPopup(
@@ -109,6 +321,16 @@ export function renderBeacons(
                     )
                 )
                 .addTo(map);
+
+            if (onDragEnd) {
+                marker.getElement().style.cursor = "move";
+                marker.on("dragend", () => {
+                    const { lng, lat } = marker.getLngLat();
+                    onDragEnd(beacon.id, lng, lat);
+                });
+            }
+
+            refs.mapMarkers.current[`beacon-${beacon.id}`] = marker;
         }
     });
 }
@@ -121,7 +343,8 @@ export function renderRouteNodes(
     nodes: RouteNode[],
     refs: MapRenderingRefs,
     selectedNodeId?: number | null,
-    selectedItemId?: number
+    selectedIds: number[] = [],
+    onDragEnd?: MarkerDragEndHandler
 ) {
     logger.info("Processing nodes for rendering", {
         totalNodes: nodes.length,
@@ -131,13 +354,18 @@ export function renderRouteNodes(
     nodes.forEach((node) => {
         if (node.properties.is_visible && node.geometry) {
             const isSelectedForConnection = selectedNodeId === node.properties.id;
-            const isSelectedItem = selectedItemId === node.properties.id;
+            const isSelectedItem = selectedIds.includes(node.properties.id);
             const nodeType = node.properties.node_type;
+            const badge = nodeType === 'elevator' ? 'E' :
+                          nodeType === 'stairs' ? 'S' :
+                          node.properties.has_escalator ? 'ES' :
+                          node.properties.has_ramp ? 'R' :
+                          node.properties.has_door ? 'D' : null;
             
             let markerElement: HTMLElement | undefined;
             
-            // Create custom marker for elevator/stairs nodes
-            if (nodeType === 'elevator' || nodeType === 'stairs') {
+            // Create custom marker for elevator/stairs nodes and the ones marked as ramp, escalator or door
+            if (badge) {
                 markerElement = document.createElement('div');
                 markerElement.className = 'custom-node-marker';
                 const backgroundColor = isSelectedItem ? '#ef4444' : 
@@ -157,7 +385,7 @@ export function renderRouteNodes(
                     color: white;
                     cursor: pointer;
                 `;
-                markerElement.textContent = nodeType === 'elevator' ? 'E' : 'S';
+                markerElement.textContent = badge;
             }
             
             const markerColor = isSelectedItem ? "#ef4444" : 
@@ -165,12 +393,25 @@ export function renderRouteNodes(
             const markerScale = isSelectedItem ? 1.2 : 1.0;
             
             const marker = markerElement 
-                ? new Marker({ element: markerElement })
-                : new Marker({ color: markerColor, scale: markerScale });
+                ? new Marker({ element: markerElement, draggable: !!onDragEnd })
+                : new Marker({ color: markerColor, scale: markerScale, draggable: !!onDragEnd });
             
             refs.mapMarkers.current[`node-${node.properties.id}`] = marker
                 .setLngLat(node.geometry.coordinates)
                 .addTo(map);
+
+            if (onDragEnd) {
+                marker.getElement().style.cursor = "move";
+                // Edges follow the marker while it is dragged
+                marker.on("drag", () => {
+                    const { lng, lat } = marker.getLngLat();
+                    updateNodeConnections(map, node, nodes, [lng, lat]);
+                });
+                marker.on("dragend", () => {
+                    const { lng, lat } = marker.getLngLat();
+                    onDragEnd(node.properties.id, lng, lat);
+                });
+            }
                 
             logger.info("Node marker added to map", {
                 nodeId: node.properties.id,
@@ -182,77 +423,660 @@ export function renderRouteNodes(
     });
 }
 
+// Edges the accessibility attributes mark stand out from undescribed ones (plain blue)
+const EDGE_STYLE_PAINT: Record<EdgeStyle, { color: string; width: number; dash?: number[] }> = {
+    default: { color: "#3b82f6", width: 3 },
+    accessible: { color: "#16a34a", width: 4 },
+    inaccessible: { color: "#dc2626", width: 3 },
+    steps: { color: "#f59e0b", width: 3, dash: [2, 1] },
+    "one-way": { color: "#7c3aed", width: 3, dash: [4, 1, 1, 1] },
+    closed: { color: "#6b7280", width: 2, dash: [1, 2] },
+};
+
+const EDGE_SOURCE_ID = "edges-source";
+const EDGE_SELECTION_LAYER_ID = "edges-selection";
+// Dash patterns can't come from feature data, so each edge style gets a layer of its own
+const EDGE_STYLE_LAYER_IDS = (Object.keys(EDGE_STYLE_PAINT) as EdgeStyle[]).map(style => `edges-${style}`);
+// Edges are thin, so clicks this close (in pixels) still hit them
+const EDGE_CLICK_TOLERANCE = 5;
+const EDGE_HOVER_EXTRA_WIDTH = 3;
+const EDGE_SELECTION_COLOR = "#facc15";
+
 /**
- * Renders connections between route nodes
+ * Renders connections between route nodes, styled by their accessibility attributes. All edges
+ * share one source keyed by edge, so only edges that changed are sent on an update. Selected
+ * edges get a halo underneath; hovering an edge widens it (see `setEdgeHovered`).
  */
 export function renderConnections(
     map: Map,
     nodes: RouteNode[],
-    refs: MapRenderingRefs
+    selectedEdges: Edge[] = []
 ) {
-    const renderedEdges = new Set<string>();
-
     logger.info("Processing connections for all nodes", {
         totalNodes: nodes.length,
         nodesWithConnections: nodes.filter(n => n.properties.connections && n.properties.connections.length > 0).length
     });
 
-    nodes.forEach((node) => {
-        if (!node.properties.is_visible || !node.geometry) return;
+    const visibleNodes = nodes.filter(node => node.properties.is_visible && node.geometry);
+    const nodesById: Record<number, RouteNode> = {};
+    visibleNodes.forEach(node => {
+        nodesById[node.properties.id] = node;
+    });
+
+    const features: Record<string, GeoJSON.Feature> = {};
+    visibleNodes.forEach(node => {
+        (node.properties.connections ?? []).forEach(connectedNodeId => {
+            const targetNode = nodesById[connectedNodeId];
+            // Prevent duplicate edges
+            const edgeKey = generateEdgeKey(node.properties.id, connectedNodeId);
+            if (!targetNode || features[edgeKey]) return;
+
+            const style = getEdgeStyle(node, connectedNodeId);
+            features[edgeKey] = {
+                type: "Feature",
+                geometry: { type: "LineString", coordinates: [node.geometry!.coordinates, targetNode.geometry!.coordinates] },
+                properties: {
+                    [FEATURE_KEY]: edgeKey,
+                    nodeId1: node.properties.id,
+                    nodeId2: connectedNodeId,
+                    style,
+                    // Read by the selection halo, which is drawn wider than the edge
+                    width: EDGE_STYLE_PAINT[style].width,
+                },
+            };
+        });
+    });
+
+    syncFeatureSource(map, EDGE_SOURCE_ID, Object.values(features), () => {
+        // Labels stay on top of the edges
+        const beforeId = map.getLayer(POLYGON_LABEL_LAYER_ID) ? POLYGON_LABEL_LAYER_ID : undefined;
+        map.addLayer({
+            id: EDGE_SELECTION_LAYER_ID,
+            type: "line",
+            source: EDGE_SOURCE_ID,
+            paint: {
+                "line-color": EDGE_SELECTION_COLOR,
+                "line-width": ["+", ["get", "width"], 8],
+                "line-opacity": ["case", ["boolean", ["feature-state", "selected"], false], 0.7, 0],
+            },
+        }, beforeId);
+        (Object.entries(EDGE_STYLE_PAINT) as [EdgeStyle, typeof EDGE_STYLE_PAINT[EdgeStyle]][]).forEach(([style, paint]) => {
+            map.addLayer({
+                id: `edges-${style}`,
+                type: "line",
+                source: EDGE_SOURCE_ID,
+                filter: ["==", ["get", "style"], style],
+                paint: {
+                    "line-color": paint.color,
+                    "line-width": ["case", ["boolean", ["feature-state", "hover"], false], paint.width + EDGE_HOVER_EXTRA_WIDTH, paint.width],
+                    "line-opacity": ["case", ["boolean", ["feature-state", "hover"], false], 1, 0.8],
+                    ...(paint.dash && { "line-dasharray": paint.dash }),
+                },
+            }, beforeId);
+        });
+    });
+    setFeatureFlag(map, EDGE_SOURCE_ID, "selected", selectedEdges.map(([a, b]) => generateEdgeKey(a, b)));
+}
+
+/**
+ * The rendered edge under a screen point, as the IDs of its two nodes
+ */
+export function findEdgeAtPoint(map: Map, point: { x: number; y: number }): Edge | null {
+    const edgeLayers = EDGE_STYLE_LAYER_IDS.filter(id => map.getLayer(id));
+    if (edgeLayers.length === 0) return null;
+
+    const [feature] = map.queryRenderedFeatures(
+        [[point.x - EDGE_CLICK_TOLERANCE, point.y - EDGE_CLICK_TOLERANCE], [point.x + EDGE_CLICK_TOLERANCE, point.y + EDGE_CLICK_TOLERANCE]],
+        { layers: edgeLayers }
+    );
+    const { nodeId1, nodeId2 } = (feature?.properties ?? {}) as { nodeId1?: number; nodeId2?: number };
+    return nodeId1 !== undefined && nodeId2 !== undefined ? [nodeId1, nodeId2] : null;
+}
+
+/**
+ * Highlights or un-highlights a rendered edge without redrawing the map
+ */
+export function setEdgeHovered(map: Map, edge: Edge, hovered: boolean) {
+    if (!map.getSource(EDGE_SOURCE_ID)) return;
+    map.setFeatureState({ source: EDGE_SOURCE_ID, id: generateEdgeKey(edge[0], edge[1]) }, { hover: hovered });
+}
+
+export interface MapPopupAction {
+    label: string;
+    onClick: () => void;
+    danger?: boolean;
+}
+
+/**
+ * Opens a popup with a title, a few lines of detail and action buttons. Built from DOM nodes
+ * rather than HTML so labels are never interpreted as markup.
+ */
+export function openActionPopup(
+    map: Map,
+    lngLat: [number, number],
+    title: string,
+    details: string[],
+    actions: MapPopupAction[]
+): Popup {
+    const content = document.createElement("div");
+    content.className = "map-action-popup";
+
+    const heading = document.createElement("strong");
+    heading.textContent = title;
+    content.appendChild(heading);
+
+    details.forEach(detail => {
+        const line = document.createElement("div");
+        line.className = "map-action-popup-detail";
+        line.textContent = detail;
+        content.appendChild(line);
+    });
+
+    const popup = new Popup({ closeOnClick: false, maxWidth: "260px" });
+    const buttons = document.createElement("div");
+    buttons.className = "map-action-popup-actions";
+    actions.forEach(action => {
+        const button = document.createElement("button");
+        button.type = "button";
+        button.className = action.danger ? "map-action-popup-button danger" : "map-action-popup-button";
+        button.textContent = action.label;
+        button.addEventListener("click", () => {
+            popup.remove();
+            action.onClick();
+        });
+        buttons.appendChild(button);
+    });
+    content.appendChild(buttons);
 
-        if (!node.properties.connections || !Array.isArray(node.properties.connections)) {
-            return;
+    return popup.setLngLat(lngLat).setDOMContent(content).addTo(map);
+}
+
+/**
+ * Renders a test route: the legs on the current floor as a highlighted line, plus start and
+ * length labels. Legs on other floors are left out since this floor can't show them.
+ */
+export function renderRoutePath(
+    map: Map,
+    routeNodes: RouteNode[],
+    totalDistance: number,
+    floorId: number,
+    refs: MapRenderingRefs
+) {
+    const legs: number[][][] = [];
+    for (let i = 1; i < routeNodes.length; i++) {
+        const from = routeNodes[i - 1];
+        const to = routeNodes[i];
+        if (from.properties.floor_id === floorId && to.properties.floor_id === floorId) {
+            legs.push([from.geometry!.coordinates, to.geometry!.coordinates]);
         }
+    }
 
-        node.properties.connections.forEach((connectedNodeId) => {
-            const targetNode = nodes.find(n => n.properties.id === connectedNodeId);
+    const sourceId = "route-path-source";
+    const layerId = "route-path-layer";
 
-            if (!targetNode || !targetNode.properties.is_visible || !targetNode.geometry) {
-                return;
-            }
+    map.addSource(sourceId, {
+        type: "geojson",
+        data: {
+            type: "Feature",
+            geometry: { type: "MultiLineString", coordinates: legs },
+            properties: {},
+        },
+    });
 
-            // Prevent duplicate edges
-            const edgeKey = generateEdgeKey(node.properties.id, connectedNodeId);
-            if (renderedEdges.has(edgeKey)) return;
-            renderedEdges.add(edgeKey);
+    map.addLayer({
+        id: layerId,
+        type: "line",
+        source: sourceId,
+        layout: {
+            "line-cap": "round",
+            "line-join": "round",
+        },
+        paint: {
+            "line-color": "#f97316",
+            "line-width": 6,
+            "line-opacity": 0.9,
+        },
+    });
 
-            const sourceId = `edge-source-${edgeKey}`;
-            const layerId = `edge-layer-${edgeKey}`;
+    refs.mapSources.current["route-path"] = sourceId;
+    refs.mapLayers.current["route-path"] = layerId;
+
+    const floorNodes = routeNodes.filter(n => n.properties.floor_id === floorId);
+    const addLabel = (key: string, node: RouteNode | undefined, text: string) => {
+        if (!node?.geometry) return;
+        const labelElement = document.createElement("div");
+        labelElement.className = "route-path-label";
+        labelElement.textContent = text;
+        refs.mapMarkers.current[key] = new Marker({ element: labelElement, anchor: "bottom", offset: [0, -12] })
+            .setLngLat(node.geometry.coordinates)
+            .addTo(map);
+    };
+
+    addLabel("route-start", floorNodes[0], "Start");
+    addLabel("route-end", floorNodes[floorNodes.length - 1], formatDistance(totalDistance));
+}
 
-            const fromCoords = node.geometry!.coordinates;
-            const toCoords = targetNode.geometry.coordinates;
+/**
+ * Draws a generated walkway graph that has not been accepted yet: dashed edges, with door nodes
+ * in a separate colour so they are easy to check against the rooms
+ */
+export function renderWalkwayGraphPreview(map: Map, preview: WalkwayGraphPreview, refs: MapRenderingRefs) {
+    const coordinatesById: { [id: number]: number[] } = {};
+    preview.nodes.forEach(n => { coordinatesById[n.properties.id] = n.geometry!.coordinates; });
+    const doorIds = new Set(preview.doorNodeIds);
 
-            map.addSource(sourceId, {
-                type: "geojson",
-                data: {
+    const edges: GeoJSON.Feature[] = [];
+    preview.nodes.forEach(node => {
+        node.properties.connections
+            .filter(otherId => node.properties.id < otherId)
+            .forEach(otherId => {
+                edges.push({
                     type: "Feature",
-                    geometry: {
-                        type: "LineString",
-                        coordinates: [fromCoords, toCoords],
-                    },
+                    geometry: { type: "LineString", coordinates: [coordinatesById[node.properties.id], coordinatesById[otherId]] },
                     properties: {},
-                },
+                });
             });
+    });
+    const points: GeoJSON.Feature[] = preview.nodes.map(node => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: node.geometry!.coordinates },
+        properties: { door: doorIds.has(node.properties.id) },
+    }));
 
-            map.addLayer({
-                id: layerId,
-                type: "line",
-                source: sourceId,
-                paint: {
-                    "line-color": "#3b82f6",
-                    "line-width": 3,
-                    "line-opacity": 0.8,
-                },
-            });
+    const sourceId = "walkway-preview-source";
+    const edgeLayerId = "walkway-preview-edges";
+    const nodeLayerId = "walkway-preview-nodes";
+
+    map.addSource(sourceId, {
+        type: "geojson",
+        data: { type: "FeatureCollection", features: [...edges, ...points] },
+    });
+
+    map.addLayer({
+        id: edgeLayerId,
+        type: "line",
+        source: sourceId,
+        filter: ["==", ["geometry-type"], "LineString"],
+        paint: {
+            "line-color": "#7c3aed",
+            "line-width": 3,
+            "line-dasharray": [2, 1.5],
+        },
+    });
+
+    map.addLayer({
+        id: nodeLayerId,
+        type: "circle",
+        source: sourceId,
+        filter: ["==", ["geometry-type"], "Point"],
+        paint: {
+            "circle-radius": ["case", ["get", "door"], 6, 4],
+            "circle-color": ["case", ["get", "door"], "#f59e0b", "#7c3aed"],
+            "circle-stroke-color": "#ffffff",
+            "circle-stroke-width": 1.5,
+        },
+    });
+
+    refs.mapSources.current["walkway-preview"] = sourceId;
+    refs.mapLayers.current["walkway-preview-edges"] = edgeLayerId;
+    refs.mapLayers.current["walkway-preview-nodes"] = nodeLayerId;
+}
+
+/**
+ * Draws the beacon coverage grid, coloured by the strongest expected RSSI ("signal") or by the
+ * number of beacons heard ("count"). Dead zones, where too few beacons are heard to trilaterate,
+ * are tinted red in both modes.
+ */
+export function renderCoverageHeatmap(map: Map, coverage: CoverageMap, mode: CoverageDisplayMode, refs: MapRenderingRefs) {
+    const sourceId = "coverage-source";
+    const heatLayerId = "coverage-heat-layer";
+    const deadZoneLayerId = "coverage-dead-zone-layer";
+    // Above the polygons so coverage inside rooms stays visible, below the edges and labels
+    const beforeId = map.getLayer(EDGE_SELECTION_LAYER_ID) ? EDGE_SELECTION_LAYER_ID : undefined;
+
+    map.addSource(sourceId, {
+        type: "geojson",
+        data: {
+            type: "FeatureCollection",
+            features: coverage.cells.map(cell => ({
+                type: "Feature",
+                geometry: { type: "Polygon", coordinates: [cell.ring] },
+                properties: { rssi: cell.bestRssi ?? -120, heard: cell.heardCount },
+            })),
+        },
+    });
+
+    map.addLayer({
+        id: heatLayerId,
+        type: "fill",
+        source: sourceId,
+        paint: {
+            "fill-color": mode === "signal"
+                ? ["interpolate", ["linear"], ["get", "rssi"], -100, "#1e3a8a", -85, "#3b82f6", -75, "#22c55e", -65, "#eab308", -55, "#ef4444"]
+                : ["step", ["get", "heard"], "#1e293b", 1, "#64748b", 2, "#94a3b8", MIN_BEACONS_FOR_POSITIONING, "#22c55e", 5, "#15803d"],
+            "fill-opacity": 0.45,
+            "fill-antialias": false,
+        },
+    }, beforeId);
+
+    map.addLayer({
+        id: deadZoneLayerId,
+        type: "fill",
+        source: sourceId,
+        filter: ["<", ["get", "heard"], MIN_BEACONS_FOR_POSITIONING],
+        paint: {
+            "fill-color": "#dc2626",
+            "fill-opacity": 0.25,
+            "fill-antialias": false,
+        },
+    }, beforeId);
+
+    refs.mapSources.current["coverage"] = sourceId;
+    refs.mapLayers.current["coverage-heat"] = heatLayerId;
+    refs.mapLayers.current["coverage-dead-zone"] = deadZoneLayerId;
+}
+
+/**
+ * Shows proposed beacon positions as translucent markers until they are accepted or discarded
+ */
+export function renderBeaconGhosts(map: Map, positions: [number, number][], refs: MapRenderingRefs) {
+    positions.forEach((position, index) => {
+        const marker = new Marker({ color: "#fbbf24" })
+            .setLngLat(position)
+            .setPopup(new Popup().setHTML(`<strong>Proposed beacon ${index + 1}</strong>`))
+            .addTo(map);
+        marker.addClassName("beacon-ghost");
+        refs.mapMarkers.current[`beacon-ghost-${index}`] = marker;
+    });
+}
+
+const FLOOR_PLAN_SOURCE_ID = "floor-plan-source";
+const FLOOR_PLAN_LAYER_ID = "floor-plan-layer";
+
+/**
+ * Shows the floor plan image stretched over the given corners. The plan lives outside the
+ * regular render refs so redrawing the floor's items leaves it alone; it is kept below
+ * `beforeLayerId` so it never covers them.
+ */
+export function renderFloorPlanOverlay(
+    map: Map,
+    imageUrl: string,
+    corners: FloorPlanCorners,
+    opacity: number,
+    beforeLayerId?: string
+) {
+    const source = map.getSource(FLOOR_PLAN_SOURCE_ID) as ImageSource | undefined;
+    if (source && source.url === imageUrl) {
+        source.setCoordinates(corners);
+    } else if (source) {
+        source.updateImage({ url: imageUrl, coordinates: corners });
+    } else {
+        map.addSource(FLOOR_PLAN_SOURCE_ID, { type: "image", url: imageUrl, coordinates: corners });
+    }
+
+    if (!map.getLayer(FLOOR_PLAN_LAYER_ID)) {
+        map.addLayer({
+            id: FLOOR_PLAN_LAYER_ID,
+            type: "raster",
+            source: FLOOR_PLAN_SOURCE_ID,
+            paint: { "raster-fade-duration": 0 },
+        }, beforeLayerId && map.getLayer(beforeLayerId) ? beforeLayerId : undefined);
+    }
+    map.setPaintProperty(FLOOR_PLAN_LAYER_ID, "raster-opacity", opacity);
+}
+
+/**
+ * Moves the floor plan without re-rendering it, for live feedback while a corner is dragged
+ */
+export function updateFloorPlanCorners(map: Map, corners: FloorPlanCorners) {
+    (map.getSource(FLOOR_PLAN_SOURCE_ID) as ImageSource | undefined)?.setCoordinates(corners);
+}
+
+export function removeFloorPlanOverlay(map: Map) {
+    if (map.getLayer(FLOOR_PLAN_LAYER_ID)) {
+        map.removeLayer(FLOOR_PLAN_LAYER_ID);
+    }
+    if (map.getSource(FLOOR_PLAN_SOURCE_ID)) {
+        map.removeSource(FLOOR_PLAN_SOURCE_ID);
+    }
+}
+
+/**
+ * Renders draggable handles on the floor plan's corners. The image follows a handle while it is
+ * dragged; the corner's final position is reported once the drag ends.
+ */
+export function renderFloorPlanCornerHandles(
+    map: Map,
+    corners: FloorPlanCorners,
+    onDragEnd: (index: number, lng: number, lat: number) => void
+): Marker[] {
+    return corners.map((corner, index) => {
+        const handleElement = document.createElement("div");
+        handleElement.className = "floor-plan-corner-handle";
+
+        const marker = new Marker({ element: handleElement, draggable: true })
+            .setLngLat(corner)
+            .addTo(map);
+
+        marker.on("drag", () => {
+            const { lng, lat } = marker.getLngLat();
+            const moved = [...corners] as FloorPlanCorners;
+            moved[index] = [lng, lat];
+            updateFloorPlanCorners(map, moved);
+        });
+        marker.on("dragend", () => {
+            const { lng, lat } = marker.getLngLat();
+            onDragEnd(index, lng, lat);
+        });
+
+        return marker;
+    });
+}
+
+/**
+ * Renders numbered markers for the control points already placed on the map
+ */
+export function renderFloorPlanControlPoints(map: Map, controlPoints: FloorPlanControlPoint[]): Marker[] {
+    return controlPoints.flatMap((point, index) => {
+        if (!point.lngLat) return [];
+
+        const labelElement = document.createElement("div");
+        labelElement.className = "floor-plan-control-point";
+        labelElement.textContent = String(index + 1);
+        return [new Marker({ element: labelElement }).setLngLat(point.lngLat).addTo(map)];
+    });
+}
+
+const SNAP_GUIDE_SOURCE_ID = "snap-guide-source";
+const SNAP_GUIDE_LAYER_ID = "snap-guide-layer";
+
+/**
+ * Shows where a click would land after snapping, plus a dashed guide for angle snaps. The
+ * indicator marker is reused between calls so it can follow the cursor cheaply.
+ */
+export function renderSnapIndicator(map: Map, snap: SnapResult, indicator: Marker | null): Marker {
+    let marker = indicator;
+    if (!marker) {
+        // The marker's own element is positioned by MapLibre, so the styled shape sits inside it
+        const element = document.createElement("div");
+        element.style.pointerEvents = "none";
+        element.appendChild(document.createElement("div"));
+        marker = new Marker({ element }).setLngLat(snap.coordinates).addTo(map);
+    }
+    (marker.getElement().firstChild as HTMLElement).className = `snap-indicator snap-indicator--${snap.kind}`;
+    marker.setLngLat(snap.coordinates);
+
+    const guide: GeoJSON.Geometry = {
+        type: "LineString",
+        coordinates: snap.guideFrom ? [snap.guideFrom, snap.coordinates] : [],
+    };
+    if (map.getSource(SNAP_GUIDE_SOURCE_ID)) {
+        setSourceGeometry(map, SNAP_GUIDE_SOURCE_ID, guide);
+    } else {
+        map.addSource(SNAP_GUIDE_SOURCE_ID, { type: "geojson", data: { type: "Feature", geometry: guide, properties: {} } });
+        map.addLayer({
+            id: SNAP_GUIDE_LAYER_ID,
+            type: "line",
+            source: SNAP_GUIDE_SOURCE_ID,
+            paint: {
+                "line-color": "#d946ef",
+                "line-width": 1.5,
+                "line-dasharray": [4, 3],
+            },
+        });
+    }
+
+    return marker;
+}
+
+export function clearSnapIndicator(map: Map, indicator: Marker | null) {
+    indicator?.remove();
+    if (map.getLayer(SNAP_GUIDE_LAYER_ID)) {
+        map.removeLayer(SNAP_GUIDE_LAYER_ID);
+    }
+    if (map.getSource(SNAP_GUIDE_SOURCE_ID)) {
+        map.removeSource(SNAP_GUIDE_SOURCE_ID);
+    }
+}
+
+const SELECTION_SHAPE_SOURCE_ID = "selection-shape-source";
+const SELECTION_SHAPE_FILL_LAYER_ID = "selection-shape-fill";
+const SELECTION_SHAPE_LINE_LAYER_ID = "selection-shape-line";
+
+/**
+ * Draws the box or lasso being dragged out to select items, as a closed [lng, lat] ring
+ */
+export function renderSelectionShape(map: Map, ring: number[][]) {
+    const shape: GeoJSON.Geometry = { type: "Polygon", coordinates: ring.length >= 3 ? [ring] : [] };
+    if (map.getSource(SELECTION_SHAPE_SOURCE_ID)) {
+        setSourceGeometry(map, SELECTION_SHAPE_SOURCE_ID, shape);
+        return;
+    }
+
+    map.addSource(SELECTION_SHAPE_SOURCE_ID, { type: "geojson", data: { type: "Feature", geometry: shape, properties: {} } });
+    map.addLayer({
+        id: SELECTION_SHAPE_FILL_LAYER_ID,
+        type: "fill",
+        source: SELECTION_SHAPE_SOURCE_ID,
+        paint: { "fill-color": "#3b82f6", "fill-opacity": 0.1 },
+    });
+    map.addLayer({
+        id: SELECTION_SHAPE_LINE_LAYER_ID,
+        type: "line",
+        source: SELECTION_SHAPE_SOURCE_ID,
+        paint: { "line-color": "#3b82f6", "line-width": 1.5, "line-dasharray": [3, 2] },
+    });
+}
+
+export function clearSelectionShape(map: Map) {
+    [SELECTION_SHAPE_LINE_LAYER_ID, SELECTION_SHAPE_FILL_LAYER_ID].forEach(layerId => {
+        if (map.getLayer(layerId)) {
+            map.removeLayer(layerId);
+        }
+    });
+    if (map.getSource(SELECTION_SHAPE_SOURCE_ID)) {
+        map.removeSource(SELECTION_SHAPE_SOURCE_ID);
+    }
+}
+
+const RULER_SOURCE_ID = "ruler-source";
+const RULER_LINE_LAYER_ID = "ruler-line";
+const RULER_POINT_LAYER_ID = "ruler-points";
+const RULER_LABEL_LAYER_ID = "ruler-labels";
+
+/**
+ * Draws the ruler's path through the given [lng, lat] points, with each segment's length at its
+ * middle. Updates the drawing in place when it is already on the map.
+ */
+export function renderRuler(map: Map, coordinates: number[][]) {
+    const segments = coordinates.slice(1).map((point, i): GeoJSON.Feature => {
+        const from = coordinates[i];
+        return {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [(from[0] + point[0]) / 2, (from[1] + point[1]) / 2] },
+            properties: { label: formatDistance(calculateGeodesicDistance([from[0], from[1]], [point[0], point[1]])) },
+        };
+    });
+    const data: GeoJSON.FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+            { type: "Feature", geometry: { type: "LineString", coordinates }, properties: {} },
+            ...coordinates.map((point): GeoJSON.Feature => ({ type: "Feature", geometry: { type: "Point", coordinates: point }, properties: {} })),
+            ...segments,
+        ],
+    };
+
+    const source = map.getSource(RULER_SOURCE_ID) as GeoJSONSource | undefined;
+    if (source) {
+        source.setData(data);
+        return;
+    }
+
+    map.addSource(RULER_SOURCE_ID, { type: "geojson", data });
+    map.addLayer({
+        id: RULER_LINE_LAYER_ID,
+        type: "line",
+        source: RULER_SOURCE_ID,
+        filter: ["==", ["geometry-type"], "LineString"],
+        paint: { "line-color": "#f97316", "line-width": 2, "line-dasharray": [3, 2] },
+    });
+    map.addLayer({
+        id: RULER_POINT_LAYER_ID,
+        type: "circle",
+        source: RULER_SOURCE_ID,
+        // Segment labels are points too, but carry a label
+        filter: ["all", ["==", ["geometry-type"], "Point"], ["!", ["has", "label"]]],
+        paint: { "circle-radius": 4, "circle-color": "#ffffff", "circle-stroke-color": "#f97316", "circle-stroke-width": 2 },
+    });
+    map.addLayer({
+        id: RULER_LABEL_LAYER_ID,
+        type: "symbol",
+        source: RULER_SOURCE_ID,
+        filter: ["has", "label"],
+        layout: {
+            "text-field": ["get", "label"],
+            "text-font": LABEL_FONT,
+            "text-size": 12,
+            "text-allow-overlap": true,
+        },
+        paint: { "text-color": "#9a3412", "text-halo-color": "#ffffff", "text-halo-width": 1.5 },
+    });
+}
+
+export function clearRuler(map: Map) {
+    [RULER_LABEL_LAYER_ID, RULER_POINT_LAYER_ID, RULER_LINE_LAYER_ID].forEach(layerId => {
+        if (map.getLayer(layerId)) {
+            map.removeLayer(layerId);
+        }
+    });
+    if (map.getSource(RULER_SOURCE_ID)) {
+        map.removeSource(RULER_SOURCE_ID);
+    }
+}
+
+/**
+ * Redraws the rendered edges of a node as if it were at the given coordinates
+ */
+export function updateNodeConnections(
+    map: Map,
+    node: RouteNode,
+    nodes: RouteNode[],
+    coordinates: [number, number]
+) {
+    (node.properties.connections ?? []).forEach((connectedNodeId) => {
+        const targetNode = nodes.find(n => n.properties.id === connectedNodeId);
+        if (!targetNode?.geometry) return;
 
-            refs.mapSources.current[`edge-${edgeKey}`] = sourceId;
-            refs.mapLayers.current[`edge-${edgeKey}`] = layerId;
+        updateFeatureGeometry(map, EDGE_SOURCE_ID, generateEdgeKey(node.properties.id, connectedNodeId), {
+            type: "LineString",
+            coordinates: [coordinates, targetNode.geometry.coordinates],
         });
     });
 }
 
 /**
- * Clears all map layers and markers
+ * Clears the markers and the layers drawn for a single update. The shared polygon and edge
+ * sources stay; the next render brings them up to date.
  */
 export function clearMapData(map: Map, refs: MapRenderingRefs) {
     // Clear existing markers and layers
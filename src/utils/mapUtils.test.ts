@@ -0,0 +1,105 @@
+import {
+    calculateGeodesicBearing,
+    calculateGeodesicDistance,
+    calculatePathLength,
+    convexHull,
+    createLocalProjection,
+    formatArea,
+    formatBearing,
+    formatDistance
+} from "./mapUtils";
+
+// One degree along a great circle on the mean Earth sphere
+const METRES_PER_DEGREE = 111195.08;
+
+describe("calculateGeodesicDistance", () => {
+    it("measures a degree of latitude anywhere and a degree of longitude at the equator the same", () => {
+        expect(calculateGeodesicDistance([0, 0], [0, 1])).toBeCloseTo(METRES_PER_DEGREE, 0);
+        expect(calculateGeodesicDistance([50, 60], [50, 61])).toBeCloseTo(METRES_PER_DEGREE, 0);
+        expect(calculateGeodesicDistance([0, 0], [1, 0])).toBeCloseTo(METRES_PER_DEGREE, 0);
+    });
+
+    it("shrinks a degree of longitude away from the equator", () => {
+        expect(calculateGeodesicDistance([0, 60], [1, 60])).toBeCloseTo(METRES_PER_DEGREE / 2, -1);
+    });
+
+    it("is zero between a point and itself, either way round", () => {
+        expect(calculateGeodesicDistance([50, 26], [50, 26])).toBe(0);
+        expect(calculateGeodesicDistance([50, 26], [50.001, 26.001])).toBe(calculateGeodesicDistance([50.001, 26.001], [50, 26]));
+    });
+});
+
+describe("calculateGeodesicBearing", () => {
+    it("measures clockwise from north", () => {
+        expect(calculateGeodesicBearing([0, 0], [0, 1])).toBeCloseTo(0);
+        expect(calculateGeodesicBearing([0, 0], [1, 0])).toBeCloseTo(90);
+        expect(calculateGeodesicBearing([0, 0], [0, -1])).toBeCloseTo(180);
+        expect(calculateGeodesicBearing([0, 0], [-1, 0])).toBeCloseTo(270);
+    });
+});
+
+describe("calculatePathLength", () => {
+    it("adds up the legs of the path", () => {
+        expect(calculatePathLength([[0, 0], [0, 1], [1, 1], [1, 0]])).toBeCloseTo(
+            calculateGeodesicDistance([0, 0], [0, 1]) * 2 + calculateGeodesicDistance([0, 1], [1, 1]), 6);
+    });
+
+    it("is zero without at least two points", () => {
+        expect(calculatePathLength([])).toBe(0);
+        expect(calculatePathLength([[50, 26]])).toBe(0);
+    });
+});
+
+describe("createLocalProjection", () => {
+    const projection = createLocalProjection([50, 26]);
+
+    it("puts the origin at zero and round-trips points", () => {
+        expect(projection.toLocal([50, 26])).toEqual({ x: 0, y: 0 });
+
+        const [lng, lat] = projection.toLngLat(projection.toLocal([50.0012, 25.9993]));
+
+        expect(lng).toBeCloseTo(50.0012, 10);
+        expect(lat).toBeCloseTo(25.9993, 10);
+    });
+
+    it("stays within half a percent of the geodesic distance at building scale", () => {
+        const corner: [number, number] = [50.001, 26.0008];
+        const { x, y } = projection.toLocal(corner);
+
+        expect(Math.hypot(x, y) / calculateGeodesicDistance([50, 26], corner)).toBeCloseTo(1, 2);
+    });
+});
+
+describe("convexHull", () => {
+    it("keeps the outer corners counter-clockwise and drops inner and collinear points", () => {
+        const hull = convexHull([
+            { x: 2, y: 2 },
+            { x: 0, y: 0 },
+            { x: 4, y: 4 },
+            { x: 2, y: 0 },
+            { x: 4, y: 0 },
+            { x: 0, y: 4 },
+        ]);
+
+        expect(hull).toEqual([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 }]);
+    });
+
+    it("returns fewer than three points as they are", () => {
+        expect(convexHull([{ x: 1, y: 0 }, { x: 0, y: 0 }])).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }]);
+    });
+});
+
+describe("formatting", () => {
+    it("switches to kilometres and hectares for large values", () => {
+        expect(formatDistance(12.345)).toBe("12.3 m");
+        expect(formatDistance(1500)).toBe("1.50 km");
+        expect(formatArea(12.34)).toBe("12.3 m²");
+        expect(formatArea(25000)).toBe("2.50 ha");
+    });
+
+    it("names the nearest compass point and wraps at north", () => {
+        expect(formatBearing(44.6)).toBe("45° NE");
+        expect(formatBearing(200)).toBe("200° S");
+        expect(formatBearing(359.6)).toBe("0° N");
+    });
+});
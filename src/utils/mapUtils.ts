@@ -7,55 +7,160 @@ export function convertPointsToCoordinates(points: Point[]): number[][][] {
     return [points.map(p => [p.x, p.y])];
 }
 
-/**
- * Calculates the center point of a polygon
- */
-export function calculatePolygonCenter(coordinates: number[][][]): { lng: number; lat: number } {
-    const ring = coordinates[0]; // outer ring
-    const centerX = ring.reduce((sum, point) => sum + point[0], 0) / ring.length;
-    const centerY = ring.reduce((sum, point) => sum + point[1], 0) / ring.length;
-    return { lng: centerX, lat: centerY };
-}
+const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
 
 /**
- * Checks if a clicked point is close to the first point (for polygon closure)
+ * Calculates the great-circle distance in metres between two [lng, lat] points (haversine)
  */
-export function isCloseToFirstPoint(
-    lng: number,
-    lat: number,
-    firstPoint: Point,
-    maxDelta: number = 0.00001
-): boolean {
-    const deltaLng = Math.abs(lng - firstPoint.x);
-    const deltaLat = Math.abs(lat - firstPoint.y);
-    return deltaLng < maxDelta && deltaLat < maxDelta;
+export function calculateGeodesicDistance(
+    coord1: [number, number],
+    coord2: [number, number]
+): number {
+    const dLat = toRadians(coord2[1] - coord1[1]);
+    const dLng = toRadians(coord2[0] - coord1[0]);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(coord1[1])) * Math.cos(toRadians(coord2[1])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
 }
 
 /**
- * Calculates distance between two coordinate points
+ * Initial compass bearing in degrees (0–360, clockwise from north) of the great circle from
+ * `coord1` to `coord2`
  */
-export function calculateDistance(
+export function calculateGeodesicBearing(
     coord1: [number, number],
     coord2: [number, number]
 ): number {
-    return Math.sqrt(
-        (coord1[0] - coord2[0]) ** 2 + (coord1[1] - coord2[1]) ** 2
-    );
+    const dLng = toRadians(coord2[0] - coord1[0]);
+    const lat1 = toRadians(coord1[1]);
+    const lat2 = toRadians(coord2[1]);
+    const y = Math.sin(dLng) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Length in metres of the path through the given [lng, lat] points
+ */
+export function calculatePathLength(coordinates: number[][]): number {
+    return coordinates.slice(1).reduce((sum, point, i) =>
+        sum + calculateGeodesicDistance([coordinates[i][0], coordinates[i][1]], [point[0], point[1]]), 0);
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * A point on a local metre plane, see `createLocalProjection`
+ */
+export interface LocalPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * A flat x/y plane in metres around `origin` (equirectangular), plenty accurate at building
+ * scale. Lets geometry code work in metres instead of degrees.
+ */
+export function createLocalProjection(origin: [number, number]) {
+    const lngScale = Math.cos(toRadians(origin[1])) * METERS_PER_DEGREE;
+    return {
+        toLocal: ([lng, lat]: number[]): LocalPoint => ({ x: (lng - origin[0]) * lngScale, y: (lat - origin[1]) * METERS_PER_DEGREE }),
+        toLngLat: ({ x, y }: LocalPoint): [number, number] => [origin[0] + x / lngScale, origin[1] + y / METERS_PER_DEGREE],
+    };
+}
+
+const cross = (o: LocalPoint, a: LocalPoint, b: LocalPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+/**
+ * Convex hull of a set of points (monotone chain), counter-clockwise
+ */
+export function convexHull(points: LocalPoint[]): LocalPoint[] {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+
+    const lower: LocalPoint[] = [];
+    sorted.forEach(p => {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+        lower.push(p);
+    });
+    const upper: LocalPoint[] = [];
+    [...sorted].reverse().forEach(p => {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+        upper.push(p);
+    });
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * `isPointInPolygon` for rings on a local metre plane
+ */
+export function isPointInLocalRing(p: LocalPoint, ring: LocalPoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i];
+        const b = ring[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Formats a length in metres for display
+ */
+export function formatDistance(meters: number): string {
+    return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(1)} m`;
+}
+
+/**
+ * Formats an area in square metres for display
+ */
+export function formatArea(squareMeters: number): string {
+    return squareMeters >= 10000 ? `${(squareMeters / 10000).toFixed(2)} ha` : `${squareMeters.toFixed(1)} m²`;
+}
+
+/**
+ * Formats a compass bearing for display, e.g. "45° NE"
+ */
+export function formatBearing(degrees: number): string {
+    const points = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+    return `${Math.round(degrees) % 360}° ${points[Math.round(degrees / 45) % 8]}`;
 }
 
 /**
- * Finds a node near the clicked coordinates
+ * Checks whether a point lies inside a polygon ring (ray casting)
+ */
+export function isPointInPolygon(lng: number, lat: number, ring: number[][]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// Clicks this close to a route node (in metres) count as clicking the node
+export const NODE_PROXIMITY_METERS = 1;
+
+/**
+ * Finds a node within `thresholdMeters` of the clicked coordinates
  */
 export function findNodeNearCoordinates<T extends { geometry: { coordinates: [number, number] } | null; properties: { is_visible: boolean } }>(
     nodes: T[],
     lng: number,
     lat: number,
-    threshold: number = 0.00001
+    thresholdMeters: number = NODE_PROXIMITY_METERS
 ): T | null {
     return nodes.find((node) => {
         if (!node.properties.is_visible || !node.geometry) return false;
-        const distance = calculateDistance(node.geometry.coordinates, [lng, lat]);
-        return distance < threshold;
+        const distance = calculateGeodesicDistance(node.geometry.coordinates, [lng, lat]);
+        return distance < thresholdMeters;
     }) || null;
 }
 
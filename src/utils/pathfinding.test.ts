@@ -0,0 +1,73 @@
+import { RouteNode } from "../interfaces/RouteNode";
+import { findShortestPath } from "./pathfinding";
+
+const node = (id: number, floorId: number, lng: number, connections: number[], nodeType = "waypoint"): RouteNode => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [50 + lng, 26] },
+    properties: { id, floor_id: floorId, is_visible: true, connections, node_type: nodeType },
+});
+
+const routeIds = (nodes: RouteNode[], startId: number, goalId: number, options?: Parameters<typeof findShortestPath>[3]) =>
+    findShortestPath(nodes, startId, goalId, options)?.nodes.map(n => n.properties.id) ?? null;
+
+describe("findShortestPath", () => {
+    // 1 - 2 - 3 along a straight line, with a longer way round through 4
+    const floor = [
+        node(1, 1, 0, [2, 4]),
+        node(2, 1, 0.0001, [1, 3]),
+        node(3, 1, 0.0002, [2, 4]),
+        node(4, 1, 0.0005, [1, 3]),
+    ];
+
+    it("takes the shortest of several routes", () => {
+        const route = findShortestPath(floor, 1, 3);
+
+        expect(route?.nodes.map(n => n.properties.id)).toEqual([1, 2, 3]);
+        expect(route?.floorIds).toEqual([1]);
+        expect(route?.totalDistance).toBeGreaterThan(15);
+        expect(route?.totalDistance).toBeLessThan(30);
+    });
+
+    it("returns null when the goal can't be reached", () => {
+        const island = node(5, 1, 0.0003, []);
+
+        expect(findShortestPath([...floor, island], 1, 5)).toBeNull();
+    });
+
+    it("returns null when an endpoint is not in the graph", () => {
+        expect(findShortestPath(floor, 1, 99)).toBeNull();
+    });
+
+    describe("between floors", () => {
+        // A lift right next to the start and stairs further away, both reaching floor 2
+        const building = [
+            node(1, 1, 0, [2, 4]),
+            node(2, 1, 0.0001, [1, 3], "elevator"),
+            node(3, 2, 0.0001, [2, 6], "elevator"),
+            node(4, 1, 0.0005, [1, 5], "stairs"),
+            node(5, 2, 0.0005, [4, 6], "stairs"),
+            node(6, 2, 0.0002, [3, 5]),
+        ];
+        const liftIds = new Set([2, 3]);
+
+        it("changes floors through the nearest shaft", () => {
+            const route = findShortestPath(building, 1, 6);
+
+            expect(route?.nodes.map(n => n.properties.id)).toEqual([1, 2, 3, 6]);
+            expect(route?.floorIds).toEqual([1, 2]);
+        });
+
+        it("detours around an out-of-service shaft", () => {
+            expect(routeIds(building, 1, 6, { closedNodeIds: liftIds })).toEqual([1, 4, 5, 6]);
+        });
+
+        it("avoids stairs when only accessible routes are allowed", () => {
+            const stairsOnly = building.filter(n => !liftIds.has(n.properties.id));
+
+            expect(routeIds(building, 1, 6, { accessibleOnly: true })).toEqual([1, 2, 3, 6]);
+            expect(routeIds(building, 1, 6, { accessibleOnly: true, closedNodeIds: liftIds })).toBeNull();
+            expect(routeIds(stairsOnly, 1, 6)).toEqual([1, 4, 5, 6]);
+            expect(routeIds(stairsOnly, 1, 6, { accessibleOnly: true })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import { RouteNode } from "../interfaces/RouteNode";
+import { calculateGeodesicDistance } from "./mapUtils";
+import { canTraverseEdge } from "./routeAccessibility";
+import { createLogger } from "./logger";
+
+const logger = createLogger("Pathfinding");
+
+export interface RouteOptions {
+    // Nodes of out-of-service shafts: their vertical links are skipped, the nodes can still be walked past
+    closedNodeIds?: Set<number>;
+    // Only use edges and nodes a wheelchair can pass
+    accessibleOnly?: boolean;
+}
+
+export interface RouteResult {
+    nodes: RouteNode[];
+    totalDistance: number; // metres
+    floorIds: number[]; // floors in the order the route visits them
+}
+
+const coordinatesOf = (node: RouteNode): [number, number] => node.geometry!.coordinates;
+
+const buildRouteResult = (nodes: RouteNode[]): RouteResult => {
+    let totalDistance = 0;
+    const floorIds: number[] = [];
+
+    nodes.forEach((node, index) => {
+        if (index > 0) {
+            totalDistance += calculateGeodesicDistance(coordinatesOf(nodes[index - 1]), coordinatesOf(node));
+        }
+        if (floorIds[floorIds.length - 1] !== node.properties.floor_id) {
+            floorIds.push(node.properties.floor_id);
+        }
+    });
+
+    return { nodes, totalDistance, floorIds };
+};
+
+/**
+ * Finds the shortest route between two nodes with A* over `properties.connections`.
+ * Edges are weighted by geodesic distance and the straight-line distance to the goal is the
+ * heuristic. Vertical links between stacked elevator/stairs nodes have no horizontal length,
+ * so floor changes cost nothing beyond the walk to reach them. Closed edges and one-way edges
+ * against their direction are never used.
+ */
+export function findShortestPath(
+    nodes: RouteNode[],
+    startId: number,
+    goalId: number,
+    { closedNodeIds = new Set(), accessibleOnly = false }: RouteOptions = {}
+): RouteResult | null {
+    const nodesById = new Map<number, RouteNode>();
+    nodes.forEach(node => {
+        if (node.geometry) nodesById.set(node.properties.id, node);
+    });
+
+    const start = nodesById.get(startId);
+    const goal = nodesById.get(goalId);
+    if (!start || !goal) {
+        logger.warn("Route endpoints are not part of the graph", { startId, goalId });
+        return null;
+    }
+
+    const heuristic = (node: RouteNode) => calculateGeodesicDistance(coordinatesOf(node), coordinatesOf(goal));
+
+    const gScore = new Map<number, number>([[startId, 0]]);
+    const fScore = new Map<number, number>([[startId, heuristic(start)]]);
+    const cameFrom = new Map<number, number>();
+    const open = new Set<number>([startId]);
+    const closed = new Set<number>();
+
+    while (open.size > 0) {
+        // Floor graphs are a few hundred nodes, so a linear scan of the open set is fast enough
+        let currentId = -1;
+        let lowest = Infinity;
+        open.forEach(id => {
+            const score = fScore.get(id) ?? Infinity;
+            if (score < lowest) {
+                lowest = score;
+                currentId = id;
+            }
+        });
+
+        if (currentId === goalId) {
+            const path = [goal];
+            let id = goalId;
+            while (cameFrom.has(id)) {
+                id = cameFrom.get(id)!;
+                path.unshift(nodesById.get(id)!);
+            }
+            return buildRouteResult(path);
+        }
+
+        open.delete(currentId);
+        closed.add(currentId);
+        const current = nodesById.get(currentId)!;
+
+        for (const neighborId of current.properties.connections ?? []) {
+            const neighbor = nodesById.get(neighborId);
+            if (!neighbor || closed.has(neighborId)) continue;
+            const isVertical = neighbor.properties.floor_id !== current.properties.floor_id;
+            if (isVertical && (closedNodeIds.has(currentId) || closedNodeIds.has(neighborId))) continue;
+            if (!canTraverseEdge(current, neighbor, accessibleOnly)) continue;
+
+            const tentative = gScore.get(currentId)! + calculateGeodesicDistance(coordinatesOf(current), coordinatesOf(neighbor));
+            if (tentative < (gScore.get(neighborId) ?? Infinity)) {
+                cameFrom.set(neighborId, currentId);
+                gScore.set(neighborId, tentative);
+                fScore.set(neighborId, tentative + heuristic(neighbor));
+                open.add(neighborId);
+            }
+        }
+    }
+
+    logger.info("No route found", { startId, goalId });
+    return null;
+}
+
+/**
+ * Finds the node closest to a point, e.g. to route to or from a POI
+ */
+export function findClosestNode(nodes: RouteNode[], coordinates: [number, number]): RouteNode | null {
+    let closest: RouteNode | null = null;
+    let closestDistance = Infinity;
+
+    nodes.forEach(node => {
+        if (!node.geometry) return;
+        const distance = calculateGeodesicDistance(coordinatesOf(node), coordinates);
+        if (distance < closestDistance) {
+            closest = node;
+            closestDistance = distance;
+        }
+    });
+
+    return closest;
+}
@@ -0,0 +1,148 @@
+import { Polygon } from "../interfaces/Polygon";
+import {
+    findPartContainingRing,
+    getPartArea,
+    getPolygonLabelPoint,
+    getSignedRingArea,
+    isPointInGeometry,
+    normalizeRings,
+    replacePolygonPart,
+    toPolygonGeometry
+} from "./polygonGeometry";
+
+// Roughly one metre in each direction near [50, 26]
+const METRE_LNG = 1 / 100000;
+const METRE_LAT = 1 / 111000;
+const at = (x: number, y: number) => [50 + x * METRE_LNG, 26 + y * METRE_LAT];
+const toMetres = ([lng, lat]: number[]) => [(lng - 50) / METRE_LNG, (lat - 26) / METRE_LAT];
+
+// A closed ring from corners given in metres
+const ring = (...corners: number[][]): number[][] => [...corners, corners[0]].map(([x, y]) => at(x, y));
+
+// Counter-clockwise, like GeoJSON outer rings
+const square = (x: number, y: number, size: number) => ring([x, y], [x + size, y], [x + size, y + size], [x, y + size]);
+const clockwise = (r: number[][]) => [...r].reverse();
+
+const polygon = (id: number, parts: number[][][][]): Polygon => ({
+    type: "Feature",
+    properties: { id, floor_id: 1, name: `Polygon ${id}`, description: "", type: "Room", is_visible: true, color: "#3b82f6", category_id: null },
+    geometry: toPolygonGeometry(parts),
+});
+
+describe("normalizeRings", () => {
+    it("winds the outer ring counter-clockwise and holes clockwise, whichever way they were drawn", () => {
+        const [outer, hole] = normalizeRings([clockwise(square(0, 0, 10)), square(2, 2, 4)]);
+
+        expect(getSignedRingArea(outer)).toBeGreaterThan(0);
+        expect(getSignedRingArea(hole)).toBeLessThan(0);
+    });
+
+    it("keeps rings that already wind the right way as they are", () => {
+        const rings = [square(0, 0, 10), clockwise(square(2, 2, 4))];
+
+        expect(normalizeRings(rings)).toEqual(rings);
+    });
+
+    it("closes the rings and drops repeated corners", () => {
+        const [outer] = normalizeRings([[at(0, 0), at(10, 0), at(10, 0), at(10, 10), at(0, 10)]]);
+
+        expect(outer).toEqual(square(0, 0, 10));
+    });
+});
+
+describe("getSignedRingArea", () => {
+    it("measures in square metres, signed by winding", () => {
+        expect(getSignedRingArea(square(0, 0, 10))).toBeCloseTo(100, 0);
+        expect(getSignedRingArea(clockwise(square(0, 0, 10)))).toBeCloseTo(-100, 0);
+    });
+});
+
+describe("holes and parts", () => {
+    const atrium = [square(0, 0, 20), clockwise(square(5, 5, 10))];
+
+    it("takes holes out of a part's area, whichever way they wind", () => {
+        const expected = getSignedRingArea(square(0, 0, 20)) - getSignedRingArea(square(5, 5, 10));
+
+        expect(getPartArea(atrium)).toBeCloseTo(expected);
+        expect(getPartArea([square(0, 0, 20), square(5, 5, 10)])).toBeCloseTo(expected);
+    });
+
+    it("doesn't count points in a hole as inside", () => {
+        const geometry = toPolygonGeometry([atrium, [square(30, 0, 5)]]);
+
+        expect(geometry.type).toBe("MultiPolygon");
+        expect(isPointInGeometry(at(2, 2), geometry)).toBe(true);
+        expect(isPointInGeometry(at(10, 10), geometry)).toBe(false);
+        expect(isPointInGeometry(at(32, 2), geometry)).toBe(true);
+    });
+
+    it("replaces or removes one part", () => {
+        const parts = [atrium, [square(30, 0, 5)]];
+
+        expect(replacePolygonPart(parts, 1, [square(40, 0, 5)])).toEqual([atrium, [square(40, 0, 5)]]);
+        expect(replacePolygonPart(parts, 0, null)).toEqual([[square(30, 0, 5)]]);
+    });
+
+    describe("findPartContainingRing", () => {
+        const hall = polygon(1, [atrium, [square(30, 0, 10)]]);
+        const office = polygon(2, [[square(31, 1, 8)]]);
+
+        it("picks the smallest part holding the whole ring", () => {
+            expect(findPartContainingRing([hall, office], square(32, 2, 2))).toEqual({ polygon: office, partIndex: 0 });
+            expect(findPartContainingRing([hall, office], square(1, 1, 2))).toEqual({ polygon: hall, partIndex: 0 });
+        });
+
+        it("finds nothing for a ring in an existing hole or across an outline", () => {
+            expect(findPartContainingRing([hall], square(6, 6, 2))).toBeNull();
+            expect(findPartContainingRing([hall], square(18, 2, 4))).toBeNull();
+        });
+    });
+});
+
+describe("getPolygonLabelPoint", () => {
+    it("puts the label in the middle of a rectangle", () => {
+        const [x, y] = toMetres(getPolygonLabelPoint(toPolygonGeometry([[square(0, 0, 10)]])));
+
+        expect(x).toBeCloseTo(5, 0);
+        expect(y).toBeCloseTo(5, 0);
+    });
+
+    it("keeps the label inside an L-shaped room, in its roomiest corner", () => {
+        const geometry = toPolygonGeometry([[ring([0, 0], [20, 0], [20, 4], [4, 4], [4, 20], [0, 20])]]);
+
+        const label = getPolygonLabelPoint(geometry);
+        const [x, y] = toMetres(label);
+
+        expect(isPointInGeometry(label, geometry)).toBe(true);
+        // The widest circle fits where the two arms meet, about 2.3 m from each outer wall
+        expect(x).toBeCloseTo(2.3, 0);
+        expect(y).toBeCloseTo(2.3, 0);
+    });
+
+    it("keeps the label off the gap of a U-shaped room", () => {
+        const geometry = toPolygonGeometry([[ring([0, 0], [12, 0], [12, 10], [9, 10], [9, 3], [3, 3], [3, 10], [0, 10])]]);
+
+        const label = getPolygonLabelPoint(geometry);
+
+        expect(isPointInGeometry(label, geometry)).toBe(true);
+        expect(isPointInGeometry(label, toPolygonGeometry([[square(3.5, 3.5, 5)]]))).toBe(false);
+    });
+
+    it("keeps the label out of an atrium", () => {
+        const geometry = toPolygonGeometry([[square(0, 0, 20), clockwise(square(5, 5, 10))]]);
+
+        const label = getPolygonLabelPoint(geometry);
+
+        expect(isPointInGeometry(label, geometry)).toBe(true);
+    });
+
+    it("labels the largest part", () => {
+        const label = getPolygonLabelPoint(toPolygonGeometry([[square(0, 0, 4)], [square(10, 0, 10)]]));
+
+        expect(isPointInGeometry(label, toPolygonGeometry([[square(10, 0, 10)]]))).toBe(true);
+    });
+
+    it("falls back to the origin without a usable outline", () => {
+        expect(getPolygonLabelPoint({ type: "Polygon", coordinates: [] })).toEqual([0, 0]);
+    });
+});
@@ -0,0 +1,473 @@
+import { Polygon, PolygonGeometry } from "../interfaces/Polygon";
+import { LocalPoint, calculatePathLength, createLocalProjection, isPointInPolygon } from "./mapUtils";
+
+/**
+ * The ring's corners, without the point repeating the first that closes a GeoJSON ring
+ */
+export function getRingVertices(ring: number[][]): number[][] {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * A closed ring through the given corners. Never changes the array it is given.
+ */
+export function closeRing(vertices: number[][]): number[][] {
+    return vertices.length > 0 ? [...vertices.map(v => [v[0], v[1]]), [vertices[0][0], vertices[0][1]]] : [];
+}
+
+export function moveRingVertex(ring: number[][], index: number, point: number[]): number[][] {
+    return closeRing(getRingVertices(ring).map((v, i) => (i === index ? point : v)));
+}
+
+/**
+ * Inserts a corner on the side that starts at corner `afterIndex`
+ */
+export function insertRingVertex(ring: number[][], afterIndex: number, point: number[]): number[][] {
+    const vertices = getRingVertices(ring);
+    return closeRing([...vertices.slice(0, afterIndex + 1), point, ...vertices.slice(afterIndex + 1)]);
+}
+
+/**
+ * Removes a corner, or returns null when fewer than three would be left
+ */
+export function removeRingVertex(ring: number[][], index: number): number[][] | null {
+    const vertices = getRingVertices(ring);
+    return vertices.length > 3 ? closeRing(vertices.filter((_, i) => i !== index)) : null;
+}
+
+/**
+ * Midpoints of the ring's sides, the first for the side from corner 0 to corner 1
+ */
+export function getRingMidpoints(ring: number[][]): number[][] {
+    const vertices = getRingVertices(ring);
+    return vertices.map((v, i) => {
+        const next = vertices[(i + 1) % vertices.length];
+        return [(v[0] + next[0]) / 2, (v[1] + next[1]) / 2];
+    });
+}
+
+/**
+ * Average of the ring's corners
+ */
+export function getRingCenter(ring: number[][]): [number, number] {
+    const vertices = getRingVertices(ring);
+    return [
+        vertices.reduce((sum, v) => sum + v[0], 0) / vertices.length,
+        vertices.reduce((sum, v) => sum + v[1], 0) / vertices.length,
+    ];
+}
+
+/**
+ * Moves every ring (outer ring and holes) so that `from` lands on `to`
+ */
+export function translateRings(rings: number[][][], from: number[], to: number[]): number[][][] {
+    const [dLng, dLat] = [to[0] - from[0], to[1] - from[1]];
+    return rings.map(ring => ring.map(([lng, lat]) => [lng + dLng, lat + dLat]));
+}
+
+/**
+ * Rotates every ring clockwise by `degrees` about `center`, on a metre plane so the shape keeps its proportions
+ */
+export function rotateRings(rings: number[][][], center: [number, number], degrees: number): number[][][] {
+    const projection = createLocalProjection(center);
+    const angle = -degrees * Math.PI / 180;
+    return rings.map(ring => ring.map(point => {
+        const { x, y } = projection.toLocal(point);
+        return projection.toLngLat({
+            x: x * Math.cos(angle) - y * Math.sin(angle),
+            y: x * Math.sin(angle) + y * Math.cos(angle),
+        });
+    }));
+}
+
+/**
+ * Compass bearing (clockwise from north, in degrees) from `center` to `point`
+ */
+export function getBearing(center: [number, number], point: number[]): number {
+    const { x, y } = createLocalProjection(center).toLocal(point);
+    return Math.atan2(x, y) * 180 / Math.PI;
+}
+
+const orientation = (a: number[], b: number[], c: number[]) =>
+    Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+const isOnSegment = (a: number[], b: number[], p: number[]) =>
+    Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+
+/**
+ * Whether segments ab and cd touch or cross
+ */
+export function doSegmentsIntersect(a: number[], b: number[], c: number[], d: number[]): boolean {
+    const [o1, o2, o3, o4] = [orientation(a, b, c), orientation(a, b, d), orientation(c, d, a), orientation(c, d, b)];
+    if (o1 !== o2 && o3 !== o4) return true;
+    return (o1 === 0 && isOnSegment(a, b, c)) ||
+        (o2 === 0 && isOnSegment(a, b, d)) ||
+        (o3 === 0 && isOnSegment(c, d, a)) ||
+        (o4 === 0 && isOnSegment(c, d, b));
+}
+
+/**
+ * The first two sides of the ring that cross each other, by the index of the corner each starts
+ * at, or null when the ring is simple. Neighbouring sides share a corner and are not compared.
+ */
+export function findSelfIntersection(ring: number[][]): [number, number] | null {
+    const vertices = getRingVertices(ring);
+    const count = vertices.length;
+    for (let i = 0; i < count; i++) {
+        for (let j = i + 2; j < count; j++) {
+            // The last side and the first share corner 0
+            if (i === 0 && j === count - 1) continue;
+            if (doSegmentsIntersect(vertices[i], vertices[(i + 1) % count], vertices[j], vertices[(j + 1) % count])) {
+                return [i, j];
+            }
+        }
+    }
+    return null;
+}
+
+// Corners and sides closer than this (in metres) count as touching
+const TOLERANCE_M = 0.01;
+
+const toPlane = (ring: number[][], projection: ReturnType<typeof createLocalProjection>): LocalPoint[] =>
+    getRingVertices(ring).map(point => projection.toLocal(point));
+
+const planeCross = (o: LocalPoint, a: LocalPoint, b: LocalPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const planeDistance = (a: LocalPoint, b: LocalPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToSide = (p: LocalPoint, a: LocalPoint, b: LocalPoint) => {
+    const length = planeDistance(a, b);
+    if (length === 0) return planeDistance(p, a);
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length)));
+    return planeDistance(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const sidesOf = (vertices: LocalPoint[]) => vertices.map((v, i) => [v, vertices[(i + 1) % vertices.length]]);
+
+const isOnBoundary = (p: LocalPoint, vertices: LocalPoint[]) =>
+    sidesOf(vertices).some(([a, b]) => distanceToSide(p, a, b) < TOLERANCE_M);
+
+// Even-odd ray casting; points on the boundary may land either way
+const isInside = (p: LocalPoint, vertices: LocalPoint[]) => sidesOf(vertices).reduce((inside, [a, b]) =>
+    (a.y > p.y) !== (b.y > p.y) && p.x < a.x + (p.y - a.y) * (b.x - a.x) / (b.y - a.y) ? !inside : inside, false);
+
+const isStrictlyInside = (p: LocalPoint, vertices: LocalPoint[]) => !isOnBoundary(p, vertices) && isInside(p, vertices);
+
+// Sides that cross through each other, not just touch or run along each other
+const doSidesCross = (a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint) => {
+    const [d1, d2] = [planeCross(a, b, c), planeCross(a, b, d)].map(v => v / (planeDistance(a, b) || 1));
+    const [d3, d4] = [planeCross(c, d, a), planeCross(c, d, b)].map(v => v / (planeDistance(c, d) || 1));
+    return d1 * d2 < 0 && d3 * d4 < 0 &&
+        Math.min(Math.abs(d1), Math.abs(d2), Math.abs(d3), Math.abs(d4)) > TOLERANCE_M;
+};
+
+// A point inside each stretch of the ring's sides between its corners and any corners of `other` on them
+const sidePieceMidpoints = (ring: LocalPoint[], other: LocalPoint[]) => sidesOf(ring).flatMap(([a, b]) => {
+    const lengthSquared = planeDistance(a, b) ** 2;
+    if (lengthSquared === 0) return [];
+    const cuts = other
+        .filter(p => distanceToSide(p, a, b) < TOLERANCE_M)
+        .map(p => ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSquared);
+    const stops = [0, ...cuts, 1].sort((x, y) => x - y);
+    return stops.slice(1).map((stop, i) => {
+        const t = (stops[i] + stop) / 2;
+        return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+    });
+});
+
+const doBoundariesCross = (first: LocalPoint[], second: LocalPoint[]) =>
+    sidesOf(first).some(([a, b]) => sidesOf(second).some(([c, d]) => doSidesCross(a, b, c, d)));
+
+/**
+ * Area enclosed by the ring in square metres, positive when its corners run counter-clockwise
+ */
+export function getSignedRingArea(ring: number[][]): number {
+    const vertices = toPlane(ring, createLocalProjection(getRingCenter(ring)));
+    return sidesOf(vertices).reduce((sum, [a, b]) => sum + a.x * b.y - b.x * a.y, 0) / 2;
+}
+
+/**
+ * The first corner that sits on the one before it (corner 0 follows the last), or null when every corner is distinct
+ */
+export function findRepeatedVertex(ring: number[][]): number | null {
+    const vertices = toPlane(ring, createLocalProjection(getRingCenter(ring)));
+    const index = vertices.findIndex((v, i) =>
+        vertices.length > 1 && planeDistance(v, vertices[(i + vertices.length - 1) % vertices.length]) < TOLERANCE_M);
+    return index >= 0 ? index : null;
+}
+
+/**
+ * The ring's corners without those that sit on the one before them, including the last on the first
+ */
+export function removeRepeatedVertices(ring: number[][]): number[][] {
+    const projection = createLocalProjection(getRingCenter(ring));
+    const kept: number[][] = [];
+    getRingVertices(ring).forEach(point => {
+        const previous = kept[kept.length - 1];
+        if (!previous || planeDistance(projection.toLocal(point), projection.toLocal(previous)) >= TOLERANCE_M) kept.push(point);
+    });
+    while (kept.length > 1 && planeDistance(projection.toLocal(kept[0]), projection.toLocal(kept[kept.length - 1])) < TOLERANCE_M) {
+        kept.pop();
+    }
+    return kept;
+}
+
+/**
+ * Closed copies of the rings without repeated corners, the outer ring counter-clockwise and holes
+ * clockwise as GeoJSON (RFC 7946) expects
+ */
+export function normalizeRings(rings: number[][][]): number[][][] {
+    return rings.map((ring, index) => {
+        const vertices = removeRepeatedVertices(ring);
+        const isCounterClockwise = getSignedRingArea(vertices) > 0;
+        return closeRing(isCounterClockwise === (index === 0) ? vertices : [...vertices].reverse());
+    });
+}
+
+/**
+ * Whether the insides of two rings share any area. Rings that only share a side or a corner,
+ * like neighbouring rooms, don't overlap.
+ */
+export function doRingsOverlap(first: number[][], second: number[][]): boolean {
+    const projection = createLocalProjection(getRingCenter(first));
+    const [a, b] = [toPlane(first, projection), toPlane(second, projection)];
+    if (a.length < 3 || b.length < 3) return false;
+    if (doBoundariesCross(a, b)) return true;
+    if (a.some(p => isStrictlyInside(p, b)) || b.some(p => isStrictlyInside(p, a))) return true;
+    // Sides that run into the other ring without crossing its outline, as when a corner rests on a side
+    if (sidePieceMidpoints(a, b).some(p => isStrictlyInside(p, b)) ||
+        sidePieceMidpoints(b, a).some(p => isStrictlyInside(p, a))) return true;
+
+    // Rings with all their corners on each other's outline, like a copy placed on the original
+    const [centerA, centerB] = [getRingCenter(first), getRingCenter(second)].map(c => projection.toLocal(c));
+    return (isStrictlyInside(centerA, a) && isStrictlyInside(centerA, b)) ||
+        (isStrictlyInside(centerB, b) && isStrictlyInside(centerB, a));
+}
+
+/**
+ * Whether the ring lies entirely inside `outer`, touching its outline at most
+ */
+export function isRingWithin(ring: number[][], outer: number[][]): boolean {
+    const projection = createLocalProjection(getRingCenter(outer));
+    const [inner, bounds] = [toPlane(ring, projection), toPlane(outer, projection)];
+    return inner.every(p => isOnBoundary(p, bounds) || isInside(p, bounds)) && !doBoundariesCross(inner, bounds);
+}
+
+/**
+ * Each part of a Polygon or MultiPolygon as its own list of rings, outer ring first
+ */
+export function getPolygonParts(geometry: PolygonGeometry): number[][][][] {
+    return geometry.type === "MultiPolygon" ? geometry.coordinates : [geometry.coordinates];
+}
+
+/**
+ * A Polygon for a single part and a MultiPolygon for several
+ */
+export function toPolygonGeometry(parts: number[][][][]): PolygonGeometry {
+    return parts.length === 1 ? { type: "Polygon", coordinates: parts[0] } : { type: "MultiPolygon", coordinates: parts };
+}
+
+/**
+ * The outer ring of every part
+ */
+export function getOuterRings(geometry: PolygonGeometry): number[][][] {
+    return getPolygonParts(geometry).map(rings => rings[0] ?? []);
+}
+
+/**
+ * Every ring of every part, holes included
+ */
+export function getAllRings(geometry: PolygonGeometry): number[][][] {
+    return getPolygonParts(geometry).flat();
+}
+
+/**
+ * Every corner of every ring, without the points that close them
+ */
+export function getGeometryVertices(geometry: PolygonGeometry): number[][] {
+    return getAllRings(geometry).flatMap(getRingVertices);
+}
+
+/**
+ * The parts with every point passed through `transform`
+ */
+export function mapGeometryPoints(geometry: PolygonGeometry, transform: (point: number[]) => number[]): number[][][][] {
+    return getPolygonParts(geometry).map(rings => rings.map(ring => ring.map(transform)));
+}
+
+/**
+ * The parts with part `index` replaced by `rings`, or left out when `rings` is null
+ */
+export function replacePolygonPart(parts: number[][][][], index: number, rings: number[][][] | null): number[][][][] {
+    return rings ? parts.map((part, i) => (i === index ? rings : part)) : parts.filter((_, i) => i !== index);
+}
+
+const isPointInPart = ([lng, lat]: number[], rings: number[][][]) =>
+    rings.length > 0 && isPointInPolygon(lng, lat, rings[0]) && !rings.slice(1).some(hole => isPointInPolygon(lng, lat, hole));
+
+/**
+ * Whether the point is inside one of the parts and not in any of its holes
+ */
+export function isPointInGeometry(point: number[], geometry: PolygonGeometry): boolean {
+    return getPolygonParts(geometry).some(rings => isPointInPart(point, rings));
+}
+
+/**
+ * Area of a part in square metres, its holes taken out
+ */
+export function getPartArea(rings: number[][][]): number {
+    return rings.reduce((sum, ring, i) => sum + (i === 0 ? 1 : -1) * Math.abs(getSignedRingArea(ring)), 0);
+}
+
+/**
+ * Area of every part together in square metres, holes taken out
+ */
+export function getPolygonArea(parts: number[][][][]): number {
+    return parts.reduce((sum, rings) => sum + getPartArea(rings), 0);
+}
+
+/**
+ * Length in metres of every side of the polygon, the sides around its holes included
+ */
+export function getPolygonPerimeter(geometry: PolygonGeometry): number {
+    return getAllRings(geometry).reduce((sum, ring) => sum + calculatePathLength(closeRing(getRingVertices(ring))), 0);
+}
+
+/**
+ * Whether two parts share any area. A part sitting in the other's hole, like a room in an
+ * atrium, doesn't count.
+ */
+export function doPartsOverlap(first: number[][][], second: number[][][]): boolean {
+    const [outerA, outerB] = [first[0], second[0]];
+    if (!outerA || !outerB || !doRingsOverlap(outerA, outerB)) return false;
+    return !second.slice(1).some(hole => isRingWithin(outerA, hole)) && !first.slice(1).some(hole => isRingWithin(outerB, hole));
+}
+
+/**
+ * Whether any part of one polygon overlaps any part of the other
+ */
+export function doPolygonsOverlap(first: number[][][][], second: number[][][][]): boolean {
+    return first.some(a => second.some(b => doPartsOverlap(a, b)));
+}
+
+// Label points are found to within this many metres
+const LABEL_PRECISION_M = 0.1;
+
+/**
+ * Centre of mass of a part on the local plane, holes taken into account; null when it has no area
+ */
+const getPlaneCentroid = (rings: LocalPoint[][]): LocalPoint | null => {
+    let [area, cx, cy] = [0, 0, 0];
+    rings.forEach((ring, i) => {
+        // Outer ring counted counter-clockwise and holes clockwise, whichever way they were drawn
+        const ringArea = sidesOf(ring).reduce((sum, [a, b]) => sum + planeCross({ x: 0, y: 0 }, a, b), 0) / 2;
+        const sign = (i === 0) === (ringArea > 0) ? 1 : -1;
+        sidesOf(ring).forEach(([a, b]) => {
+            const cross = sign * planeCross({ x: 0, y: 0 }, a, b);
+            area += cross / 2;
+            cx += (a.x + b.x) * cross;
+            cy += (a.y + b.y) * cross;
+        });
+    });
+    return area !== 0 ? { x: cx / (6 * area), y: cy / (6 * area) } : null;
+};
+
+/**
+ * Distance from the point to the part's nearest side; negative when the point is outside it
+ */
+const signedDistanceToPart = (p: LocalPoint, rings: LocalPoint[][]) => {
+    const inside = rings.filter(ring => isInside(p, ring)).length % 2 === 1;
+    const distance = Math.min(...rings.flatMap(sidesOf).map(([a, b]) => distanceToSide(p, a, b)));
+    return inside ? distance : -distance;
+};
+
+interface LabelCell {
+    x: number;
+    y: number;
+    // Half the cell's width
+    half: number;
+    distance: number;
+    // The best distance any point in the cell could have
+    potential: number;
+}
+
+const toLabelCell = (x: number, y: number, half: number, rings: LocalPoint[][]): LabelCell => {
+    const distance = signedDistanceToPart({ x, y }, rings);
+    return { x, y, half, distance, potential: distance + half * Math.SQRT2 };
+};
+
+/**
+ * The point of a part furthest from any of its sides, holes included (the "pole of
+ * inaccessibility", found the way polylabel does). Unlike the centre of mass it always lies
+ * well inside L-shaped and U-shaped rooms and around atriums.
+ */
+const getPoleOfInaccessibility = (rings: LocalPoint[][], precision: number): LocalPoint => {
+    const xs = rings[0].map(p => p.x);
+    const ys = rings[0].map(p => p.y);
+    const [minX, minY, maxX, maxY] = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+    const cellSize = Math.min(maxX - minX, maxY - minY);
+    if (cellSize === 0) return rings[0][0];
+
+    // Cover the outline with square cells, then keep splitting the most promising one
+    const queue: LabelCell[] = [];
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minY; y < maxY; y += cellSize) {
+            queue.push(toLabelCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2, rings));
+        }
+    }
+
+    const centroid = getPlaneCentroid(rings);
+    let best = toLabelCell((minX + maxX) / 2, (minY + maxY) / 2, 0, rings);
+    if (centroid) {
+        const centroidCell = toLabelCell(centroid.x, centroid.y, 0, rings);
+        if (centroidCell.distance > best.distance) best = centroidCell;
+    }
+
+    while (queue.length > 0) {
+        const index = queue.reduce((top, cell, i) => (cell.potential > queue[top].potential ? i : top), 0);
+        const [cell] = queue.splice(index, 1);
+        if (cell.distance > best.distance) best = cell;
+        // Nothing in this cell can beat the best point by more than the precision
+        if (cell.potential - best.distance <= precision) continue;
+
+        const half = cell.half / 2;
+        queue.push(
+            toLabelCell(cell.x - half, cell.y - half, half, rings),
+            toLabelCell(cell.x + half, cell.y - half, half, rings),
+            toLabelCell(cell.x - half, cell.y + half, half, rings),
+            toLabelCell(cell.x + half, cell.y + half, half, rings),
+        );
+    }
+    return { x: best.x, y: best.y };
+};
+
+/**
+ * Where a polygon's marker, name label and zoom target go: the point of its largest part that
+ * sits furthest inside it, so it never lands outside a concave room or in a hole
+ */
+export function getPolygonLabelPoint(geometry: PolygonGeometry): [number, number] {
+    const parts = getPolygonParts(geometry).filter(rings => getRingVertices(rings[0] ?? []).length >= 3);
+    if (parts.length === 0) return [0, 0];
+    const largest = parts.reduce((best, rings) => (getPartArea(rings) > getPartArea(best) ? rings : best));
+
+    const projection = createLocalProjection(getRingCenter(largest[0]));
+    const rings = largest.map(ring => toPlane(ring, projection));
+    return projection.toLngLat(getPoleOfInaccessibility(rings, LABEL_PRECISION_M));
+}
+
+/**
+ * The polygon part a newly drawn ring would cut a hole in: the smallest part holding the whole
+ * ring, leaving out parts where the ring falls in an existing hole. Null when there is none.
+ */
+export function findPartContainingRing(polygons: Polygon[], ring: number[][]): { polygon: Polygon; partIndex: number } | null {
+    const candidates = polygons.flatMap(polygon => getPolygonParts(polygon.geometry)
+        .map((rings, partIndex) => ({ polygon, partIndex, rings }))
+        .filter(({ rings }) => rings[0] && isRingWithin(ring, rings[0]) && !rings.slice(1).some(hole => isRingWithin(ring, hole))));
+    if (candidates.length === 0) return null;
+
+    const { polygon, partIndex } = candidates.reduce((best, c) => (getPartArea(c.rings) < getPartArea(best.rings) ? c : best));
+    return { polygon, partIndex };
+}
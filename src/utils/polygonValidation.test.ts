@@ -0,0 +1,114 @@
+import { Polygon, PolygonType } from "../interfaces/Polygon";
+import { PolygonIssueCode, hasBlockingIssue, validatePolygonGeometry } from "./polygonValidation";
+
+// Roughly one metre in each direction near [50, 26]
+const METRE_LNG = 1 / 100000;
+const METRE_LAT = 1 / 111000;
+
+// A closed ring from corners given in metres
+const ring = (...corners: number[][]): number[][] =>
+    [...corners, corners[0]].map(([x, y]) => [50 + x * METRE_LNG, 26 + y * METRE_LAT]);
+
+const square = (x: number, y: number, size: number) => ring([x, y], [x + size, y], [x + size, y + size], [x, y + size]);
+
+const room = (id: number, name: string, outer: number[][], type: PolygonType = "Room"): Polygon => ({
+    type: "Feature",
+    properties: { id, floor_id: 1, name, description: "", type, is_visible: true, color: "#3b82f6", category_id: null },
+    geometry: { type: "Polygon", coordinates: [outer] },
+});
+
+const codesOf = (parts: number[][][][], type: PolygonType = "Room", floorPolygons: Polygon[] = [], footprint?: number[][]): PolygonIssueCode[] =>
+    validatePolygonGeometry(parts, { type, floorPolygons, footprint }).map(issue => issue.code);
+
+describe("validatePolygonGeometry", () => {
+    it("accepts a plain room", () => {
+        expect(codesOf([[square(0, 0, 10)]])).toEqual([]);
+    });
+
+    it("needs three distinct corners", () => {
+        expect(codesOf([])).toEqual(["TOO_FEW_CORNERS"]);
+        expect(codesOf([[ring([0, 0], [10, 0], [10, 0.001])]])).toEqual(["REPEATED_CORNER", "TOO_FEW_CORNERS"]);
+    });
+
+    it("warns about a repeated corner without blocking the save", () => {
+        const issues = validatePolygonGeometry([[ring([0, 0], [10, 0], [10, 0], [10, 10], [0, 10])]], { type: "Room" });
+
+        expect(issues.map(issue => issue.code)).toEqual(["REPEATED_CORNER"]);
+        expect(issues[0].message).toBe("Corner 3 is on top of corner 2 and will be removed");
+        expect(hasBlockingIssue(issues)).toBe(false);
+    });
+
+    it("rejects an outline that crosses itself and skips the checks that need a clean outline", () => {
+        const bowTie = ring([0, 0], [10, 10], [10, 0], [0, 10]);
+
+        const issues = validatePolygonGeometry([[bowTie]], { type: "Room", floorPolygons: [room(2, "Hall", square(0, 0, 10))] });
+
+        expect(issues.map(issue => issue.code)).toEqual(["SELF_INTERSECTION"]);
+        expect(issues[0].message).toBe("The outline crosses itself (sides from corners 1 and 3)");
+    });
+
+    it("rejects rooms smaller than a square metre", () => {
+        expect(codesOf([[square(0, 0, 0.5)]])).toEqual(["TOO_SMALL"]);
+    });
+
+    describe("holes and parts", () => {
+        it("accepts holes inside the outline that keep apart", () => {
+            expect(codesOf([[square(0, 0, 20), square(2, 2, 4), square(10, 10, 4)]])).toEqual([]);
+        });
+
+        it("rejects a hole that pokes out of the outline", () => {
+            const issues = validatePolygonGeometry([[square(0, 0, 10), square(8, 2, 4)]], { type: "Room" });
+
+            expect(issues.map(issue => issue.message)).toEqual(["Hole 1 has to sit inside the outer ring"]);
+        });
+
+        it("rejects overlapping holes", () => {
+            expect(codesOf([[square(0, 0, 20), square(2, 2, 6), square(5, 5, 6)]])).toEqual(["HOLES_OVERLAP"]);
+        });
+
+        it("names the part and hole with a crossed outline", () => {
+            const crossedHole = ring([22, 2], [26, 6], [26, 2], [22, 6]);
+
+            const issues = validatePolygonGeometry([[square(0, 0, 5)], [square(20, 0, 10), crossedHole]], { type: "Room" });
+
+            expect(issues.map(issue => issue.message)).toEqual(["Part 2: Hole 1: The outline crosses itself (sides from corners 1 and 3)"]);
+        });
+
+        it("rejects parts that overlap each other", () => {
+            expect(codesOf([[square(0, 0, 10)], [square(5, 5, 10)]])).toEqual(["PARTS_OVERLAP"]);
+        });
+
+        it("accepts a part standing in another part's hole", () => {
+            expect(codesOf([[square(0, 0, 20), square(5, 5, 10)], [square(7, 7, 6)]])).toEqual([]);
+        });
+    });
+
+    describe("among the floor's rooms", () => {
+        const hall = room(2, "Hall", square(0, 0, 10));
+
+        it("rejects a room overlapping another room", () => {
+            const issues = validatePolygonGeometry([[square(5, 5, 10)]], { type: "Room", floorPolygons: [hall] });
+
+            expect(issues.map(issue => issue.message)).toEqual(['Overlaps the room "Hall"']);
+        });
+
+        it("accepts neighbouring rooms that only share a side", () => {
+            expect(codesOf([[square(10, 0, 10)]], "Room", [hall])).toEqual([]);
+        });
+
+        it("doesn't compare a room with itself or with walls", () => {
+            const wall = room(3, "Wall", square(5, 5, 10), "Wall");
+
+            expect(validatePolygonGeometry([[square(1, 1, 10)]], { type: "Room", polygonId: 2, floorPolygons: [hall, wall] })).toEqual([]);
+        });
+
+        it("only checks overlaps and the footprint for rooms", () => {
+            expect(codesOf([[square(5, 5, 10)]], "Wall", [hall], square(0, 0, 12))).toEqual([]);
+        });
+
+        it("keeps rooms inside the building footprint", () => {
+            expect(codesOf([[square(5, 5, 10)]], "Room", [], square(0, 0, 12))).toEqual(["OUTSIDE_FOOTPRINT"]);
+            expect(codesOf([[square(1, 1, 10)]], "Room", [], square(0, 0, 12))).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { Polygon, PolygonType } from "../interfaces/Polygon";
+import {
+    closeRing,
+    doPartsOverlap,
+    doPolygonsOverlap,
+    doRingsOverlap,
+    findRepeatedVertex,
+    findSelfIntersection,
+    getPolygonArea,
+    getPolygonParts,
+    getRingVertices,
+    isRingWithin,
+    removeRepeatedVertices,
+} from "./polygonGeometry";
+
+// Anything smaller is almost always a stray double-click rather than a real space
+export const MIN_POLYGON_AREA_M2 = 1;
+
+export type PolygonIssueCode =
+    | "TOO_FEW_CORNERS"
+    | "REPEATED_CORNER"
+    | "SELF_INTERSECTION"
+    | "HOLE_OUTSIDE"
+    | "HOLES_OVERLAP"
+    | "PARTS_OVERLAP"
+    | "TOO_SMALL"
+    | "OVERLAPS_ROOM"
+    | "OUTSIDE_FOOTPRINT";
+
+export interface PolygonIssue {
+    code: PolygonIssueCode;
+    message: string;
+    // Blocking issues stop the polygon from being saved; the others are fixed when it is
+    blocking: boolean;
+}
+
+export interface PolygonValidationContext {
+    type: PolygonType;
+    // The polygon being changed, left out of the overlap check
+    polygonId?: number;
+    // Everything else on the same floor
+    floorPolygons?: Polygon[];
+    // Outline the polygon has to stay inside, when the building has one
+    footprint?: number[][] | null;
+}
+
+/**
+ * Problems with one ring on its own; `label` names it in the messages ("Hole 2: ")
+ */
+const validateRing = (ring: number[][], label: string, issues: PolygonIssue[]): number[][] | null => {
+    const repeated = ring.length > 0 ? findRepeatedVertex(ring) : null;
+    if (repeated !== null) {
+        const count = getRingVertices(ring).length;
+        const previous = (repeated + count - 1) % count;
+        issues.push({
+            code: "REPEATED_CORNER",
+            message: `${label}Corner ${repeated + 1} is on top of corner ${previous + 1} and will be removed`,
+            blocking: false,
+        });
+    }
+
+    const vertices = ring.length > 0 ? removeRepeatedVertices(ring) : [];
+    if (vertices.length < 3) {
+        issues.push({ code: "TOO_FEW_CORNERS", message: `${label}A polygon needs at least 3 distinct corners`, blocking: true });
+        return null;
+    }
+
+    const intersection = findSelfIntersection(vertices);
+    if (intersection) {
+        issues.push({
+            code: "SELF_INTERSECTION",
+            message: `${label}The outline crosses itself (sides from corners ${intersection[0] + 1} and ${intersection[1] + 1})`,
+            blocking: true,
+        });
+        return null;
+    }
+    return closeRing(vertices);
+};
+
+/**
+ * Checks a polygon's outlines, its holes and parts, and for rooms how it sits among the floor's
+ * other rooms and the building footprint. `parts` holds the rings of each part, outer ring
+ * first. Returns every problem found, in the order they should be fixed.
+ */
+export function validatePolygonGeometry(parts: number[][][][], context: PolygonValidationContext): PolygonIssue[] {
+    const issues: PolygonIssue[] = [];
+    if (parts.length === 0) {
+        issues.push({ code: "TOO_FEW_CORNERS", message: "A polygon needs at least 3 distinct corners", blocking: true });
+        return issues;
+    }
+
+    const cleanParts = parts.map((rings, partIndex) => {
+        const part = parts.length > 1 ? `Part ${partIndex + 1}: ` : "";
+        const cleanRings = rings.map((ring, ringIndex) => validateRing(ring, ringIndex === 0 ? part : `${part}Hole ${ringIndex}: `, issues));
+        const [outer, ...holes] = cleanRings;
+        if (!outer) return null;
+
+        holes.forEach((hole, holeIndex) => {
+            if (hole && !isRingWithin(hole, outer)) {
+                issues.push({
+                    code: "HOLE_OUTSIDE",
+                    message: `${part}Hole ${holeIndex + 1} has to sit inside the outer ring`,
+                    blocking: true,
+                });
+            }
+            holes.slice(holeIndex + 1).forEach((other, otherIndex) => {
+                if (hole && other && doRingsOverlap(hole, other)) {
+                    issues.push({
+                        code: "HOLES_OVERLAP",
+                        message: `${part}Holes ${holeIndex + 1} and ${holeIndex + otherIndex + 2} overlap`,
+                        blocking: true,
+                    });
+                }
+            });
+        });
+        return cleanRings.every(ring => ring) ? cleanRings as number[][][] : null;
+    });
+
+    // Area and overlaps mean little for tangled outlines
+    if (cleanParts.some(rings => !rings)) return issues;
+    const validParts = cleanParts as number[][][][];
+
+    validParts.forEach((rings, partIndex) => validParts.slice(partIndex + 1).forEach((other, otherIndex) => {
+        if (doPartsOverlap(rings, other)) {
+            issues.push({
+                code: "PARTS_OVERLAP",
+                message: `Parts ${partIndex + 1} and ${partIndex + otherIndex + 2} overlap`,
+                blocking: true,
+            });
+        }
+    }));
+
+    const area = getPolygonArea(validParts);
+    if (area < MIN_POLYGON_AREA_M2) {
+        issues.push({
+            code: "TOO_SMALL",
+            message: `The area is ${area.toFixed(2)} m², below the minimum of ${MIN_POLYGON_AREA_M2} m²`,
+            blocking: true,
+        });
+    }
+
+    if (context.type !== "Room") return issues;
+
+    (context.floorPolygons ?? [])
+        .filter(other => other.properties.id !== context.polygonId && other.properties.type === "Room")
+        .filter(other => doPolygonsOverlap(validParts, getPolygonParts(other.geometry)))
+        .forEach(other => issues.push({
+            code: "OVERLAPS_ROOM",
+            message: `Overlaps the room "${other.properties.name}"`,
+            blocking: true,
+        }));
+
+    const footprint = context.footprint;
+    if (footprint && footprint.length >= 3 && !validParts.every(rings => isRingWithin(rings[0], footprint))) {
+        issues.push({ code: "OUTSIDE_FOOTPRINT", message: "Extends outside the building footprint", blocking: true });
+    }
+
+    return issues;
+}
+
+export const hasBlockingIssue = (issues: PolygonIssue[]) => issues.some(issue => issue.blocking);
@@ -0,0 +1,123 @@
+import { EdgeAttributes, RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { HistoryCommand, combineCommands, editEntityCommand } from "./editHistory";
+
+// Steepest ramp a wheelchair user can manage unaided (1:12)
+export const MAX_ACCESSIBLE_SLOPE_PERCENT = 8.33;
+// Narrowest clear passage for a wheelchair, in metres
+export const MIN_ACCESSIBLE_WIDTH_M = 0.9;
+
+export type EdgeAttributeValues = Omit<EdgeAttributes, "node_id">;
+
+/**
+ * Edges nobody has described yet are assumed open and passable both ways
+ */
+export const DEFAULT_EDGE_ATTRIBUTES: EdgeAttributeValues = {
+    wheelchair_accessible: true,
+    has_steps: false,
+    slope_percent: null,
+    width_m: null,
+    one_way_to: null,
+    closed: false,
+};
+
+export type EdgeStyle = "default" | "accessible" | "inaccessible" | "steps" | "one-way" | "closed";
+
+export const EDGE_STYLE_LABELS: Record<EdgeStyle, string> = {
+    default: "Not described",
+    accessible: "Wheelchair accessible",
+    inaccessible: "Not wheelchair accessible",
+    steps: "Has steps",
+    "one-way": "One-way",
+    closed: "Closed",
+};
+
+export interface NodeAccessibility {
+    hasRamp: boolean;
+    hasEscalator: boolean;
+    hasDoor: boolean;
+}
+
+const findEdgeAttributes = (node: RouteNode, otherId: number): EdgeAttributes | undefined =>
+    node.properties.edge_attributes?.find(e => e.node_id === otherId);
+
+export function getEdgeAttributes(node: RouteNode, otherId: number): EdgeAttributeValues {
+    const { node_id, ...values } = findEdgeAttributes(node, otherId) ?? { node_id: otherId, ...DEFAULT_EDGE_ATTRIBUTES };
+    return values;
+}
+
+export function getNodeAccessibility(node: RouteNode): NodeAccessibility {
+    return {
+        hasRamp: !!node.properties.has_ramp,
+        hasEscalator: !!node.properties.has_escalator,
+        hasDoor: !!node.properties.has_door,
+    };
+}
+
+export function isEdgeWheelchairAccessible(attributes: EdgeAttributeValues): boolean {
+    return attributes.wheelchair_accessible &&
+        !attributes.has_steps &&
+        (attributes.slope_percent === null || Math.abs(attributes.slope_percent) <= MAX_ACCESSIBLE_SLOPE_PERCENT) &&
+        (attributes.width_m === null || attributes.width_m >= MIN_ACCESSIBLE_WIDTH_M);
+}
+
+/**
+ * Stairs and escalators can't be used in a wheelchair, whatever their edges say
+ */
+export function isNodeWheelchairAccessible(node: RouteNode): boolean {
+    return node.properties.node_type !== "stairs" && !node.properties.has_escalator;
+}
+
+/**
+ * Whether a route may go from `from` to `to`. Closed edges and one-way edges against their
+ * direction are never used; `accessibleOnly` also rules out anything a wheelchair can't pass.
+ */
+export function canTraverseEdge(from: RouteNode, to: RouteNode, accessibleOnly: boolean): boolean {
+    const attributes = getEdgeAttributes(from, to.properties.id);
+    if (attributes.closed) return false;
+    if (attributes.one_way_to !== null && attributes.one_way_to !== to.properties.id) return false;
+    if (!accessibleOnly) return true;
+    return isEdgeWheelchairAccessible(attributes) && isNodeWheelchairAccessible(from) && isNodeWheelchairAccessible(to);
+}
+
+/**
+ * How an edge is drawn: the most restrictive thing known about it wins
+ */
+export function getEdgeStyle(node: RouteNode, otherId: number): EdgeStyle {
+    if (!findEdgeAttributes(node, otherId)) return "default";
+    const attributes = getEdgeAttributes(node, otherId);
+    if (attributes.closed) return "closed";
+    if (attributes.one_way_to !== null) return "one-way";
+    if (attributes.has_steps) return "steps";
+    return isEdgeWheelchairAccessible(attributes) ? "accessible" : "inaccessible";
+}
+
+export function hasEdgeAttributes(node: RouteNode, otherId: number): boolean {
+    return !!findEdgeAttributes(node, otherId);
+}
+
+export function withEdgeAttributes(node: RouteNode, otherId: number, values: EdgeAttributeValues): RouteNode {
+    const others = (node.properties.edge_attributes ?? []).filter(e => e.node_id !== otherId);
+    return RouteNodeBuilder.fromRouteNode(node)
+        .setEdgeAttributes([...others, { node_id: otherId, ...values }])
+        .build();
+}
+
+/**
+ * Forgets what was described about the edges to `otherIds`, once those edges are gone
+ */
+export function withoutEdgeAttributes(node: RouteNode, otherIds: number[]): RouteNode {
+    return RouteNodeBuilder.fromRouteNode(node)
+        .setEdgeAttributes((node.properties.edge_attributes ?? []).filter(e => !otherIds.includes(e.node_id)))
+        .build();
+}
+
+/**
+ * Describes an edge on both of its nodes in one undoable step
+ */
+export function buildEdgeAttributesCommand(node1: RouteNode, node2: RouteNode, values: EdgeAttributeValues): HistoryCommand {
+    return combineCommands("Edit edge accessibility", [
+        editEntityCommand(OBJECT_TYPES.NODE, node1, withEdgeAttributes(node1, node2.properties.id, values)),
+        editEntityCommand(OBJECT_TYPES.NODE, node2, withEdgeAttributes(node2, node1.properties.id, values)),
+    ]);
+}
@@ -0,0 +1,157 @@
+import { Floor } from "../interfaces/Floor";
+import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+
+export type ShaftType = "elevator" | "stairs";
+
+export const SHAFT_TYPE_LABELS: Record<ShaftType, string> = {
+    elevator: "Elevator",
+    stairs: "Stairs",
+};
+
+/**
+ * One elevator or stair core: its nodes on every floor it serves, lowest floor first
+ */
+export interface Shaft {
+    id: string;
+    type: ShaftType;
+    name: string;
+    outOfService: boolean;
+    nodes: RouteNode[];
+    floorIds: number[];
+}
+
+/**
+ * What the editor says about a shaft beyond its nodes. The backend has no shaft entity, so the
+ * details are stored on every node of the shaft (`shaft_name`, `out_of_service`).
+ */
+export type ShaftDetails = Pick<Shaft, "name" | "outOfService">;
+
+export function isShaftNode(node: RouteNode): boolean {
+    return node.properties.node_type === "elevator" || node.properties.node_type === "stairs";
+}
+
+/**
+ * The vertical links a shaft should have, given its nodes in floor order. An elevator stops at
+ * every served floor from any other; stairs only lead to the next floor up or down.
+ */
+export function getShaftLinks(type: ShaftType, orderedNodeIds: number[]): [number, number][] {
+    const links: [number, number][] = [];
+    for (let i = 0; i < orderedNodeIds.length; i++) {
+        const last = type === "stairs" ? Math.min(i + 1, orderedNodeIds.length - 1) : orderedNodeIds.length - 1;
+        for (let j = i + 1; j <= last; j++) {
+            links.push([orderedNodeIds[i], orderedNodeIds[j]]);
+        }
+    }
+    return links;
+}
+
+/**
+ * Vertical links to add and remove so a shaft's existing `members` plus any new nodes end up
+ * linked as `getShaftLinks` prescribes. New nodes have no links yet, so only members are checked.
+ */
+export function planShaftRelink(
+    type: ShaftType,
+    orderedNodeIds: number[],
+    members: RouteNode[]
+): { connect: [number, number][]; disconnect: [number, number][] } {
+    const pairKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+    const desired = getShaftLinks(type, orderedNodeIds);
+    const desiredKeys = new Set(desired.map(([a, b]) => pairKey(a, b)));
+
+    const membersById = new Map(members.map(n => [n.properties.id, n]));
+    const existing = new Map<string, [number, number]>();
+    members.forEach(node => {
+        node.properties.connections.forEach(otherId => {
+            const other = membersById.get(otherId);
+            if (!other || other.properties.floor_id === node.properties.floor_id) return;
+            existing.set(pairKey(node.properties.id, otherId), [node.properties.id, otherId]);
+        });
+    });
+
+    return {
+        connect: desired.filter(([a, b]) => !existing.has(pairKey(a, b))),
+        disconnect: Array.from(existing.entries()).filter(([key]) => !desiredKeys.has(key)).map(([, pair]) => pair),
+    };
+}
+
+/**
+ * Groups elevator and stairs nodes into shafts: nodes of the same type joined by links across
+ * floors belong to one shaft. A lone node is a shaft serving a single floor.
+ */
+export function findShafts(nodes: RouteNode[], floors: Floor[]): Shaft[] {
+    const shaftNodes = nodes.filter(isShaftNode);
+    const nodesById = new Map(shaftNodes.map(n => [n.properties.id, n]));
+    const floorOrder = new Map(floors.map(f => [f.id, f.floorNumber]));
+
+    // Union-find over the vertical links
+    const parent = new Map(shaftNodes.map(n => [n.properties.id, n.properties.id]));
+    const find = (id: number): number => {
+        let root = id;
+        while (parent.get(root) !== root) root = parent.get(root)!;
+        parent.set(id, root);
+        return root;
+    };
+    shaftNodes.forEach(node => {
+        node.properties.connections.forEach(otherId => {
+            const other = nodesById.get(otherId);
+            if (!other || other.properties.floor_id === node.properties.floor_id) return;
+            if (other.properties.node_type !== node.properties.node_type) return;
+            parent.set(find(node.properties.id), find(otherId));
+        });
+    });
+
+    const groups = new Map<number, RouteNode[]>();
+    shaftNodes.forEach(node => {
+        const root = find(node.properties.id);
+        groups.set(root, [...(groups.get(root) ?? []), node]);
+    });
+
+    return Array.from(groups.values()).map(members => {
+        const sorted = [...members].sort((a, b) =>
+            (floorOrder.get(a.properties.floor_id) ?? 0) - (floorOrder.get(b.properties.floor_id) ?? 0)
+        );
+        const memberIds = new Set(sorted.map(n => n.properties.id));
+        // Nodes joined to the shaft elsewhere may not carry its details yet
+        const named = sorted.find(n => n.properties.shaft_name);
+        const type = sorted[0].properties.node_type as ShaftType;
+        // Named after its oldest committed node; staged nodes only have temporary negative IDs
+        const committedIds = Array.from(memberIds).filter(id => id > 0);
+        const anchorId = committedIds.length > 0 ? Math.min(...committedIds) : Math.max(...Array.from(memberIds));
+        return {
+            id: `shaft-${anchorId}`,
+            type,
+            name: named?.properties.shaft_name ?? (anchorId > 0 ? `${SHAFT_TYPE_LABELS[type]} ${anchorId}` : `New ${SHAFT_TYPE_LABELS[type]}`),
+            outOfService: sorted.some(n => n.properties.out_of_service),
+            nodes: sorted,
+            floorIds: Array.from(new Set(sorted.map(n => n.properties.floor_id))),
+        };
+    });
+}
+
+/**
+ * Nodes whose vertical links routing must not use, because their shaft is out of service
+ */
+export function getClosedShaftNodeIds(shafts: Shaft[]): Set<number> {
+    return new Set(shafts.filter(s => s.outOfService).flatMap(s => s.nodes.map(n => n.properties.id)));
+}
+
+/**
+ * A shaft node carrying the shaft's details. A blank name is left out, so the default applies.
+ */
+export function withShaftDetails(node: RouteNode, details: ShaftDetails): RouteNode {
+    return RouteNodeBuilder.fromRouteNode(node)
+        .setShaftName(details.name.trim() || undefined)
+        .setOutOfService(details.outOfService)
+        .build();
+}
+
+/**
+ * The shaft nodes whose stored details differ from `details`, with the details applied
+ */
+export function planShaftDetailEdits(nodes: RouteNode[], details: ShaftDetails): { before: RouteNode; after: RouteNode }[] {
+    return nodes
+        .map(node => ({ before: node, after: withShaftDetails(node, details) }))
+        .filter(({ before, after }) =>
+            before.properties.shaft_name !== after.properties.shaft_name ||
+            !!before.properties.out_of_service !== !!after.properties.out_of_service);
+}
@@ -0,0 +1,67 @@
+import { Coordinates } from "../types/common";
+import { DEFAULT_SNAP_SETTINGS, MapProjector, SnapCandidates, SnapSettings, hitTestOnly, snapPoint } from "./snapping";
+
+// One coordinate unit is one pixel, so distances in the tests read as screen distances
+const projector: MapProjector = {
+    project: ([x, y]) => ({ x, y }),
+    unproject: ({ x, y }) => [x, y],
+};
+
+const noCandidates: SnapCandidates = { vertices: [], edges: [], nodes: [], beacons: [] };
+
+const snap = (cursor: Coordinates, candidates: Partial<SnapCandidates>, settings: Partial<SnapSettings> = {}) =>
+    snapPoint(cursor, { ...noCandidates, ...candidates }, { ...DEFAULT_SNAP_SETTINGS, ...settings }, projector);
+
+describe("snapPoint", () => {
+    it("leaves the cursor alone when nothing is within the tolerance", () => {
+        expect(snap([0, 0], { vertices: [[20, 0]] })).toEqual({ coordinates: [0, 0], kind: null });
+    });
+
+    it("snaps to the nearest point target", () => {
+        const result = snap([0, 0], {
+            vertices: [[8, 0]],
+            nodes: [{ id: 5, coordinates: [3, 4] }],
+        });
+
+        expect(result).toEqual({ coordinates: [3, 4], kind: "node", targetId: 5 });
+    });
+
+    it("prefers the first point of the polygon, which closes it", () => {
+        expect(snap([0, 0], { firstPoint: [5, 0], vertices: [[5, 0]] }).kind).toBe("first-point");
+    });
+
+    it("prefers a point over a closer edge", () => {
+        const result = snap([0, 0], {
+            beacons: [{ id: 2, coordinates: [10, 0] }],
+            edges: [[[-50, 1], [50, 1]]],
+        });
+
+        expect(result).toMatchObject({ kind: "beacon", targetId: 2 });
+    });
+
+    it("snaps onto the closest point of an edge", () => {
+        expect(snap([4, 3], { edges: [[[0, 0], [10, 0]]] })).toEqual({ coordinates: [4, 0], kind: "edge" });
+    });
+
+    it("follows 45° guides out of the previous point", () => {
+        const result = snap([100, 97], { previousPoint: [0, 0] });
+
+        expect(result.kind).toBe("angle");
+        expect(result.coordinates[0]).toBeCloseTo(98.5);
+        expect(result.coordinates[1]).toBeCloseTo(98.5);
+        expect(result.guideFrom).toEqual([0, 0]);
+    });
+
+    it("ignores target kinds that are switched off", () => {
+        const candidates: Partial<SnapCandidates> = { vertices: [[3, 0]], edges: [[[0, 2], [10, 2]]] };
+
+        expect(snap([0, 0], candidates, { vertices: false }).kind).toBe("edge");
+        expect(snap([0, 0], candidates, { vertices: false, edges: false }).kind).toBeNull();
+    });
+
+    it("still picks nodes when only hit testing", () => {
+        const candidates: Partial<SnapCandidates> = { vertices: [[2, 0]], nodes: [{ id: 1, coordinates: [4, 0] }] };
+
+        expect(snap([0, 0], candidates, hitTestOnly({ ...DEFAULT_SNAP_SETTINGS, nodes: false }))).toMatchObject({ kind: "node", targetId: 1 });
+    });
+});
@@ -0,0 +1,171 @@
+import { STORAGE_KEYS } from "../components/FloorEditor/enums/STORAGE_KEYS";
+import { Coordinates } from "../types/common";
+import { createLogger } from "./logger";
+
+const logger = createLogger("snapping");
+
+export type SnapKind = "first-point" | "node" | "vertex" | "beacon" | "edge" | "angle";
+
+export interface SnapSettings {
+    enabled: boolean;
+    // Pull radius in screen pixels, so snapping feels the same at every zoom level
+    tolerance: number;
+    vertices: boolean;
+    edges: boolean;
+    nodes: boolean;
+    beacons: boolean;
+    angles: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+    enabled: true,
+    tolerance: 12,
+    vertices: true,
+    edges: true,
+    nodes: true,
+    beacons: true,
+    angles: true,
+};
+
+/**
+ * Everything a point being placed can snap to
+ */
+export interface SnapCandidates {
+    // First vertex of the polygon being drawn; snapping onto it closes the polygon
+    firstPoint?: Coordinates | null;
+    // Last placed point, used for angle snapping
+    previousPoint?: Coordinates | null;
+    vertices: Coordinates[];
+    edges: Array<[Coordinates, Coordinates]>;
+    nodes: Array<{ id: number; coordinates: Coordinates }>;
+    beacons: Array<{ id: number; coordinates: Coordinates }>;
+}
+
+export interface SnapResult {
+    coordinates: Coordinates;
+    kind: SnapKind | null;
+    // ID of the node or beacon snapped to
+    targetId?: number;
+    // Start of the guide line drawn for angle snaps
+    guideFrom?: Coordinates;
+}
+
+/**
+ * Converts between map coordinates and screen pixels (`map.project` / `map.unproject`)
+ */
+export interface MapProjector {
+    project: (coordinates: Coordinates) => { x: number; y: number };
+    unproject: (point: { x: number; y: number }) => Coordinates;
+}
+
+const ANGLE_STEP = Math.PI / 4;
+
+const pixelDistance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const closestPointOnSegment = (
+    point: { x: number; y: number },
+    start: { x: number; y: number },
+    end: { x: number; y: number }
+) => {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return { x: start.x + t * dx, y: start.y + t * dy };
+};
+
+/**
+ * Snaps a cursor position to the nearest target within the tolerance. Point targets (the first
+ * vertex, nodes, vertices, beacons) win over edges, and edges win over angle guides. All
+ * distances are measured on screen.
+ */
+export function snapPoint(
+    cursor: Coordinates,
+    candidates: SnapCandidates,
+    settings: SnapSettings,
+    projector: MapProjector
+): SnapResult {
+    const cursorPixel = projector.project(cursor);
+
+    const nearest = (options: Array<{ result: SnapResult; pixel: { x: number; y: number } }>): SnapResult | null => {
+        let best: SnapResult | null = null;
+        let bestDistance = settings.tolerance;
+        options.forEach(({ result, pixel }) => {
+            const distance = pixelDistance(cursorPixel, pixel);
+            // Ties go to the option listed first, e.g. the first point over a vertex it was snapped onto
+            if (distance < bestDistance || (distance === bestDistance && !best)) {
+                best = result;
+                bestDistance = distance;
+            }
+        });
+        return best;
+    };
+
+    const pointOption = (result: SnapResult) => ({ result, pixel: projector.project(result.coordinates) });
+    const pointSnap = nearest([
+        ...(candidates.firstPoint ? [pointOption({ coordinates: candidates.firstPoint, kind: "first-point" })] : []),
+        ...(settings.nodes ? candidates.nodes.map(({ id, coordinates }) => pointOption({ coordinates, kind: "node", targetId: id })) : []),
+        ...(settings.vertices ? candidates.vertices.map(coordinates => pointOption({ coordinates, kind: "vertex" })) : []),
+        ...(settings.beacons ? candidates.beacons.map(({ id, coordinates }) => pointOption({ coordinates, kind: "beacon", targetId: id })) : []),
+    ]);
+    if (pointSnap) return pointSnap;
+
+    if (settings.edges) {
+        const edgeSnap = nearest(candidates.edges.map(([start, end]) => {
+            const pixel = closestPointOnSegment(cursorPixel, projector.project(start), projector.project(end));
+            return { result: { coordinates: projector.unproject(pixel), kind: "edge" }, pixel };
+        }));
+        if (edgeSnap) return edgeSnap;
+    }
+
+    if (settings.angles && candidates.previousPoint) {
+        // Project the cursor onto the closest 45° ray out of the previous point
+        const origin = projector.project(candidates.previousPoint);
+        const dx = cursorPixel.x - origin.x;
+        const dy = cursorPixel.y - origin.y;
+        const angle = Math.round(Math.atan2(dy, dx) / ANGLE_STEP) * ANGLE_STEP;
+        const along = dx * Math.cos(angle) + dy * Math.sin(angle);
+        const pixel = { x: origin.x + along * Math.cos(angle), y: origin.y + along * Math.sin(angle) };
+        const angleSnap = nearest([{
+            result: { coordinates: projector.unproject(pixel), kind: "angle", guideFrom: candidates.previousPoint },
+            pixel,
+        }]);
+        if (angleSnap) return angleSnap;
+    }
+
+    return { coordinates: cursor, kind: null };
+}
+
+/**
+ * Settings used while snapping is switched off or bypassed with the modifier key: nothing pulls
+ * the cursor, but clicking right on a node or the polygon's first vertex still picks it
+ */
+export const hitTestOnly = (settings: SnapSettings): SnapSettings => ({
+    ...settings,
+    vertices: false,
+    edges: false,
+    beacons: false,
+    angles: false,
+    nodes: true,
+});
+
+/**
+ * Loads the user's snapping settings, which apply to every floor
+ */
+export function loadSnapSettings(): SnapSettings {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEYS.SNAP_SETTINGS);
+        return raw ? { ...DEFAULT_SNAP_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SNAP_SETTINGS;
+    } catch (error) {
+        logger.error("Failed to load snap settings", error as Error);
+        return DEFAULT_SNAP_SETTINGS;
+    }
+}
+
+export function saveSnapSettings(settings: SnapSettings): void {
+    try {
+        localStorage.setItem(STORAGE_KEYS.SNAP_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+        logger.error("Failed to persist snap settings", error as Error);
+    }
+}
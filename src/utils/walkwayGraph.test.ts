@@ -0,0 +1,91 @@
+import { Polygon, PolygonBuilder, PolygonType } from "../interfaces/Polygon";
+import { RouteNode } from "../interfaces/RouteNode";
+import { CHANGE_TYPES } from "../components/FloorEditor/enums/CHANGE_TYPES";
+import { ValidationError } from "./validation";
+import { buildWalkwayGraphCommand, generateWalkwayGraph } from "./walkwayGraph";
+
+const FLOOR_ID = 1;
+
+// Roughly one metre in each direction near [50, 26]
+const METRE_LNG = 1 / 100000;
+const METRE_LAT = 1 / 111000;
+
+const rectangle = (id: number, name: string, [x1, y1, x2, y2]: number[], type: PolygonType = "Room"): Polygon => {
+    const corner = (x: number, y: number) => [50 + x * METRE_LNG, 26 + y * METRE_LAT];
+    return new PolygonBuilder()
+        .setId(id)
+        .setFloorId(FLOOR_ID)
+        .setName(name)
+        .setType(type)
+        .setGeometry([[corner(x1, y1), corner(x2, y1), corner(x2, y2), corner(x1, y2), corner(x1, y1)]])
+        .build();
+};
+
+const isConnected = (nodes: RouteNode[]) => {
+    const byId = new Map(nodes.map(n => [n.properties.id, n]));
+    const seen = new Set([nodes[0].properties.id]);
+    const stack = [nodes[0]];
+    while (stack.length) {
+        stack.pop()!.properties.connections.forEach(id => {
+            if (!seen.has(id)) {
+                seen.add(id);
+                stack.push(byId.get(id)!);
+            }
+        });
+    }
+    return seen.size === nodes.length;
+};
+
+// Two 10 x 4 m rooms facing each other across a 3 m corridor
+const rooms = [rectangle(1, "North", [0, 7, 10, 11]), rectangle(2, "South", [0, 0, 10, 4])];
+
+describe("generateWalkwayGraph", () => {
+    it("runs a connected walkway down the corridor with a door on each room", () => {
+        const preview = generateWalkwayGraph(rooms, FLOOR_ID);
+
+        expect(preview.warnings).toEqual([]);
+        expect(preview.doorNodeIds).toHaveLength(2);
+        expect(preview.nodes.length).toBeGreaterThan(2);
+        expect(isConnected(preview.nodes)).toBe(true);
+        preview.nodes.forEach(node => {
+            const [, lat] = node.geometry!.coordinates;
+            // Everything stays in the corridor, between the rooms
+            expect(lat).toBeGreaterThan(26 + 4 * METRE_LAT);
+            expect(lat).toBeLessThan(26 + 7 * METRE_LAT);
+            expect(node.properties.floor_id).toBe(FLOOR_ID);
+        });
+        expect(preview.edgeCount).toBe(preview.nodes.reduce((sum, n) => sum + n.properties.connections.length, 0) / 2);
+    });
+
+    it("gives walls no door", () => {
+        const preview = generateWalkwayGraph([rooms[0], rectangle(3, "Wall", [0, 0, 10, 4], "Wall")], FLOOR_ID);
+
+        expect(preview.doorNodeIds).toHaveLength(1);
+    });
+
+    it("warns when the gap between the polygons is narrower than a corridor", () => {
+        const preview = generateWalkwayGraph(rooms, FLOOR_ID, { minCorridorWidth: 5, spurLength: 2, simplifyTolerance: 0.5 });
+
+        expect(preview.warnings[0]).toMatch(/No walkable space at least 5 m wide/);
+    });
+
+    it("needs at least two polygons", () => {
+        expect(() => generateWalkwayGraph([rooms[0]], FLOOR_ID)).toThrow(ValidationError);
+    });
+});
+
+describe("buildWalkwayGraphCommand", () => {
+    it("creates every node under a temporary ID and connects each edge once", () => {
+        const preview = generateWalkwayGraph(rooms, FLOOR_ID);
+        let nextId = -100;
+
+        const command = buildWalkwayGraphCommand(preview, () => nextId--);
+        const adds = command.changes.filter(c => c.type === CHANGE_TYPES.ADD);
+        const connects = command.changes.filter(c => c.type === CHANGE_TYPES.CONNECT);
+
+        expect(adds).toEqual(preview.nodes.map((_, i) => expect.objectContaining({
+            data: expect.objectContaining({ properties: expect.objectContaining({ id: -100 - i, connections: [] }) }),
+        })));
+        expect(connects).toHaveLength(preview.edgeCount);
+    });
+});
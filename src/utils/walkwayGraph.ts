@@ -0,0 +1,582 @@
+import { Polygon } from "../interfaces/Polygon";
+import { RouteNode, RouteNodeBuilder } from "../interfaces/RouteNode";
+import { OBJECT_TYPES } from "../components/FloorEditor/enums/OBJECT_TYPES";
+import { ValidationError } from "./validation";
+import { createLogger } from "./logger";
+import { LocalPoint, convexHull, createLocalProjection, isPointInLocalRing } from "./mapUtils";
+import { getOuterRings } from "./polygonGeometry";
+import { HistoryCommand, combineCommands, connectNodesCommand, createEntityCommand } from "./editHistory";
+
+const logger = createLogger("walkwayGraph");
+
+export interface WalkwayGraphOptions {
+    // Gaps narrower than this (metres) are not treated as walkways
+    minCorridorWidth: number;
+    // Dead-end branches shorter than this (metres) are pruned as skeleton noise
+    spurLength: number;
+    // How far (metres) the graph may stray from the centre line when straightening it
+    simplifyTolerance: number;
+}
+
+export const DEFAULT_WALKWAY_OPTIONS: WalkwayGraphOptions = {
+    minCorridorWidth: 1,
+    spurLength: 2,
+    simplifyTolerance: 0.5,
+};
+
+/**
+ * A generated graph waiting to be accepted. Node IDs are local to the preview and are swapped
+ * for temporary IDs when it is staged.
+ */
+export interface WalkwayGraphPreview {
+    nodes: RouteNode[];
+    doorNodeIds: number[];
+    edgeCount: number;
+    warnings: string[];
+}
+
+// Keeps the grid small enough to generate in well under a second on large floors
+const MAX_GRID_CELLS = 160000;
+const MIN_CELL_SIZE = 0.25;
+const DOOR_TARGETS_PER_SAMPLE = 3;
+
+const closestPointOnSegment = (p: LocalPoint, a: LocalPoint, b: LocalPoint): LocalPoint => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+const distance = (a: LocalPoint, b: LocalPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Occupancy grid over the floor. Cells on the outer border are never walkable, so neighbour
+ * lookups never need bounds checks.
+ */
+class FloorGrid {
+    readonly cols: number;
+    readonly rows: number;
+    readonly walkable: Uint8Array;
+
+    constructor(readonly minX: number, readonly minY: number, width: number, height: number, readonly cellSize: number) {
+        this.cols = Math.ceil(width / cellSize) + 2;
+        this.rows = Math.ceil(height / cellSize) + 2;
+        this.walkable = new Uint8Array(this.cols * this.rows);
+    }
+
+    center(index: number): LocalPoint {
+        return {
+            x: this.minX + ((index % this.cols) + 0.5) * this.cellSize,
+            y: this.minY + (Math.floor(index / this.cols) + 0.5) * this.cellSize,
+        };
+    }
+
+    indexAt(p: LocalPoint): number {
+        const col = Math.floor((p.x - this.minX) / this.cellSize);
+        const row = Math.floor((p.y - this.minY) / this.cellSize);
+        if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return -1;
+        return row * this.cols + col;
+    }
+
+    isWalkableAt(p: LocalPoint): boolean {
+        const index = this.indexAt(p);
+        return index !== -1 && this.walkable[index] === 1;
+    }
+
+    /**
+     * Scanline-fills a ring: every cell whose centre lies inside it gets `value`
+     */
+    fill(ring: LocalPoint[], value: 0 | 1) {
+        const ys = ring.map(p => p.y);
+        const firstRow = Math.max(1, Math.floor((Math.min(...ys) - this.minY) / this.cellSize));
+        const lastRow = Math.min(this.rows - 2, Math.ceil((Math.max(...ys) - this.minY) / this.cellSize));
+
+        for (let row = firstRow; row <= lastRow; row++) {
+            const y = this.minY + (row + 0.5) * this.cellSize;
+            const crossings: number[] = [];
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const a = ring[i];
+                const b = ring[j];
+                if ((a.y <= y && y < b.y) || (b.y <= y && y < a.y)) {
+                    crossings.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+                }
+            }
+            crossings.sort((a, b) => a - b);
+            for (let k = 0; k + 1 < crossings.length; k += 2) {
+                const firstCol = Math.max(1, Math.ceil((crossings[k] - this.minX) / this.cellSize - 0.5));
+                const lastCol = Math.min(this.cols - 2, Math.floor((crossings[k + 1] - this.minX) / this.cellSize - 0.5));
+                this.walkable.fill(value, row * this.cols + firstCol, row * this.cols + lastCol + 1);
+            }
+        }
+    }
+
+    /**
+     * Distance in metres from every walkable cell to the nearest blocked one (two-pass chamfer)
+     */
+    clearance(): Float32Array {
+        const { cols, rows } = this;
+        const result = new Float32Array(cols * rows);
+        this.walkable.forEach((w, i) => { result[i] = w ? Infinity : 0; });
+
+        const diagonal = Math.SQRT2;
+        for (let row = 1; row < rows - 1; row++) {
+            for (let col = 1; col < cols - 1; col++) {
+                const i = row * cols + col;
+                if (!result[i]) continue;
+                result[i] = Math.min(result[i], result[i - cols - 1] + diagonal, result[i - cols] + 1, result[i - cols + 1] + diagonal, result[i - 1] + 1);
+            }
+        }
+        for (let row = rows - 2; row >= 1; row--) {
+            for (let col = cols - 2; col >= 1; col--) {
+                const i = row * cols + col;
+                if (!result[i]) continue;
+                result[i] = Math.min(result[i], result[i + cols + 1] + diagonal, result[i + cols] + 1, result[i + cols - 1] + diagonal, result[i + 1] + 1);
+            }
+        }
+        return result.map(d => d * this.cellSize);
+    }
+
+    /**
+     * Whether a straight walk between two points stays on walkable cells
+     */
+    hasLineOfSight(a: LocalPoint, b: LocalPoint): boolean {
+        const steps = Math.max(1, Math.ceil(distance(a, b) / (this.cellSize / 2)));
+        for (let s = 0; s <= steps; s++) {
+            const t = s / steps;
+            if (!this.isWalkableAt({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })) return false;
+        }
+        return true;
+    }
+}
+
+/**
+ * Zhang-Suen thinning: peels the mask down to a one-cell-wide centre line
+ */
+const thin = (mask: Uint8Array, cols: number) => {
+    const neighbours = (i: number) => [
+        mask[i - cols], mask[i - cols + 1], mask[i + 1], mask[i + cols + 1],
+        mask[i + cols], mask[i + cols - 1], mask[i - 1], mask[i - cols - 1],
+    ];
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const step of [0, 1]) {
+            const toClear: number[] = [];
+            for (let i = cols; i < mask.length - cols; i++) {
+                if (!mask[i]) continue;
+                const [p2, p3, p4, p5, p6, p7, p8, p9] = neighbours(i);
+                const count = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+                if (count < 2 || count > 6) continue;
+                const sequence = [p2, p3, p4, p5, p6, p7, p8, p9, p2];
+                let transitions = 0;
+                for (let k = 0; k < 8; k++) {
+                    if (!sequence[k] && sequence[k + 1]) transitions++;
+                }
+                if (transitions !== 1) continue;
+                if (step === 0 ? (p2 * p4 * p6 || p4 * p6 * p8) : (p2 * p4 * p8 || p2 * p6 * p8)) continue;
+                toClear.push(i);
+            }
+            toClear.forEach(i => { mask[i] = 0; });
+            changed = changed || toClear.length > 0;
+        }
+    }
+};
+
+/**
+ * Douglas-Peucker: keeps the points a polyline needs to stay within `tolerance` of its shape
+ */
+const simplifyPath = (points: LocalPoint[], tolerance: number): LocalPoint[] => {
+    if (points.length <= 2) return points;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    let farthest = 0;
+    let farthestDistance = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = distance(points[i], closestPointOnSegment(points[i], first, last));
+        if (d > farthestDistance) {
+            farthest = i;
+            farthestDistance = d;
+        }
+    }
+    if (farthestDistance <= tolerance) return [first, last];
+    return [
+        ...simplifyPath(points.slice(0, farthest + 1), tolerance).slice(0, -1),
+        ...simplifyPath(points.slice(farthest), tolerance),
+    ];
+};
+
+/**
+ * A chain of skeleton cells between two graph nodes (junctions or dead ends)
+ */
+interface SkeletonChain {
+    from: number;
+    to: number;
+    cells: number[];
+}
+
+/**
+ * Turns the skeleton cells into chains between junctions and dead ends. Diagonal steps are
+ * ignored where an L-shaped pair of straight steps covers them, which keeps staircase-shaped
+ * lines from looking like junctions.
+ */
+const traceSkeleton = (mask: Uint8Array, cols: number) => {
+    const neighbourCache = new Map<number, number[]>();
+    const neighboursOf = (i: number): number[] => {
+        let result = neighbourCache.get(i);
+        if (result) return result;
+        result = [];
+        for (const [dr, dc] of [[-1, 0], [0, 1], [1, 0], [0, -1]]) {
+            if (mask[i + dr * cols + dc]) result.push(i + dr * cols + dc);
+        }
+        for (const [dr, dc] of [[-1, -1], [-1, 1], [1, 1], [1, -1]]) {
+            const j = i + dr * cols + dc;
+            if (mask[j] && !mask[i + dr * cols] && !mask[i + dc]) result.push(j);
+        }
+        neighbourCache.set(i, result);
+        return result;
+    };
+
+    const cells: number[] = [];
+    mask.forEach((m, i) => { if (m) cells.push(i); });
+
+    // Neighbouring junction cells form a single junction
+    const clusterOf = new Map<number, number>();
+    const isNodeCell = (i: number) => neighboursOf(i).length !== 2;
+    cells.filter(isNodeCell).forEach(start => {
+        if (clusterOf.has(start)) return;
+        const stack = [start];
+        clusterOf.set(start, start);
+        while (stack.length) {
+            const current = stack.pop()!;
+            neighboursOf(current).forEach(n => {
+                if (!clusterOf.has(n) && isNodeCell(n) && neighboursOf(n).length > 2 && neighboursOf(current).length > 2) {
+                    clusterOf.set(n, start);
+                    stack.push(n);
+                }
+            });
+        }
+    });
+
+    const chains: SkeletonChain[] = [];
+    const visited = new Set<number>();
+    const directLinks = new Set<string>();
+
+    const traceFrom = (start: number) => {
+        neighboursOf(start).forEach(first => {
+            if (clusterOf.has(first)) {
+                const a = clusterOf.get(start)!;
+                const b = clusterOf.get(first)!;
+                const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+                if (a !== b && !directLinks.has(key)) {
+                    directLinks.add(key);
+                    chains.push({ from: a, to: b, cells: [start, first] });
+                }
+                return;
+            }
+            if (visited.has(first)) return;
+
+            const chain = [start, first];
+            visited.add(first);
+            let previous = start;
+            let current = first;
+            for (;;) {
+                // Cells inside a chain have exactly two neighbours: where we came from and where we go
+                const [left, right] = neighboursOf(current);
+                const next = left === previous ? right : left;
+                if (visited.has(next) && !clusterOf.has(next)) break;
+                chain.push(next);
+                if (clusterOf.has(next)) break;
+                visited.add(next);
+                previous = current;
+                current = next;
+            }
+
+            const end = chain[chain.length - 1];
+            if (clusterOf.has(end)) {
+                chains.push({ from: clusterOf.get(start)!, to: clusterOf.get(end)!, cells: chain });
+            }
+        });
+    };
+
+    Array.from(clusterOf.keys()).forEach(traceFrom);
+
+    // Closed loops have no junction or dead end; give each one an anchor of its own
+    cells.forEach(i => {
+        if (visited.has(i) || clusterOf.has(i)) return;
+        clusterOf.set(i, i);
+        traceFrom(i);
+    });
+
+    return { chains, clusterOf };
+};
+
+interface DoorCandidate {
+    door: LocalPoint;
+    // Where the door joins the walkway: a point on `segment`, or the isolated node `pointIndex`
+    target: LocalPoint;
+    segment: [number, number] | null;
+    pointIndex: number | null;
+    score: number;
+}
+
+/**
+ * Proposes a route graph for a floor: the centre lines of the space between its polygons, plus
+ * a door node on every room, stair and elevator, connected to the nearest walkway.
+ */
+export function generateWalkwayGraph(
+    polygons: Polygon[],
+    floorId: number,
+    options: WalkwayGraphOptions = DEFAULT_WALKWAY_OPTIONS
+): WalkwayGraphPreview {
+    // Each part of a room is an obstacle of its own and gets its own door
+    const rings = polygons.flatMap(p => getOuterRings(p.geometry)
+        .filter(ring => ring.length >= 4)
+        .map(coordinates => ({ polygon: p, coordinates })));
+    if (rings.length < 2) {
+        throw new ValidationError("Draw at least two rooms or walls before generating a walkway graph");
+    }
+
+    const allCoordinates = rings.flatMap(r => r.coordinates);
+    const origin: [number, number] = [
+        allCoordinates.reduce((sum, c) => sum + c[0], 0) / allCoordinates.length,
+        allCoordinates.reduce((sum, c) => sum + c[1], 0) / allCoordinates.length,
+    ];
+    const projection = createLocalProjection(origin);
+    const localRings = rings.map(r => ({ polygon: r.polygon, ring: r.coordinates.slice(0, -1).map(projection.toLocal) }));
+
+    // Without a drawn building outline, the hull of everything on the floor is the best guess
+    // at where people can walk
+    const hull = convexHull(localRings.flatMap(r => r.ring));
+    const xs = hull.map(p => p.x);
+    const ys = hull.map(p => p.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    const cellSize = Math.max(MIN_CELL_SIZE, Math.sqrt(width * height / MAX_GRID_CELLS), options.minCorridorWidth / 6);
+
+    const grid = new FloorGrid(Math.min(...xs) - cellSize, Math.min(...ys) - cellSize, width, height, cellSize);
+    grid.fill(hull, 1);
+    localRings.forEach(({ ring }) => grid.fill(ring, 0));
+
+    // Walkways are the centre lines of space at least as wide as a corridor
+    const clearance = grid.clearance();
+    const skeleton = new Uint8Array(grid.walkable.length);
+    clearance.forEach((c, i) => { skeleton[i] = c >= options.minCorridorWidth / 2 ? 1 : 0; });
+    thin(skeleton, grid.cols);
+
+    const { chains, clusterOf } = traceSkeleton(skeleton, grid.cols);
+
+    // Prune dead-end branches that only run off towards corners; in wide halls they scale with the hall
+    const degree = new Map<number, number>();
+    const countDegrees = () => {
+        degree.clear();
+        chains.forEach(c => {
+            degree.set(c.from, (degree.get(c.from) ?? 0) + 1);
+            degree.set(c.to, (degree.get(c.to) ?? 0) + 1);
+        });
+    };
+    const chainLength = (chain: SkeletonChain) =>
+        chain.cells.slice(1).reduce((sum, cell, i) => sum + distance(grid.center(chain.cells[i]), grid.center(cell)), 0);
+    for (let pass = 0; pass < 3; pass++) {
+        countDegrees();
+        const before = chains.length;
+        for (let i = chains.length - 1; i >= 0; i--) {
+            const chain = chains[i];
+            const fromDegree = degree.get(chain.from)!;
+            const toDegree = degree.get(chain.to)!;
+            const junction = fromDegree === 1 ? chain.to : toDegree === 1 ? chain.from : null;
+            if (junction === null || (fromDegree === 1 && toDegree === 1) || degree.get(junction)! < 3) continue;
+            if (chainLength(chain) < Math.max(options.spurLength, 1.5 * clearance[junction])) {
+                chains.splice(i, 1);
+                degree.set(junction, degree.get(junction)! - 1);
+            }
+        }
+        if (chains.length === before) break;
+    }
+
+    // Build the graph, straightening each chain into as few segments as its shape allows
+    const points: LocalPoint[] = [];
+    const adjacency: Set<number>[] = [];
+    const addPoint = (p: LocalPoint) => {
+        points.push(p);
+        adjacency.push(new Set());
+        return points.length - 1;
+    };
+    const link = (a: number, b: number) => {
+        if (a === b) return;
+        adjacency[a].add(b);
+        adjacency[b].add(a);
+    };
+    const unlink = (a: number, b: number) => {
+        adjacency[a].delete(b);
+        adjacency[b].delete(a);
+    };
+
+    const clusterCells = new Map<number, number[]>();
+    clusterOf.forEach((cluster, cell) => clusterCells.set(cluster, [...(clusterCells.get(cluster) ?? []), cell]));
+    const clusterPoint = new Map<number, number>();
+    const pointForCluster = (cluster: number) => {
+        let index = clusterPoint.get(cluster);
+        if (index === undefined) {
+            const centers = clusterCells.get(cluster)!.map(c => grid.center(c));
+            index = addPoint({
+                x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+                y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length,
+            });
+            clusterPoint.set(cluster, index);
+        }
+        return index;
+    };
+
+    chains.forEach(chain => {
+        const simplified = simplifyPath(chain.cells.map(c => grid.center(c)), options.simplifyTolerance);
+        let previous = pointForCluster(chain.from);
+        simplified.slice(1, -1).forEach(p => {
+            const index = addPoint(p);
+            link(previous, index);
+            previous = index;
+        });
+        link(previous, pointForCluster(chain.to));
+    });
+
+    // Drop specks of walkway too small to matter (alcoves, gaps between furniture-sized polygons)
+    const removed = new Set<number>();
+    const seen = new Set<number>();
+    points.forEach((_, start) => {
+        if (seen.has(start)) return;
+        const component: number[] = [];
+        const stack = [start];
+        seen.add(start);
+        while (stack.length) {
+            const current = stack.pop()!;
+            component.push(current);
+            adjacency[current].forEach(n => {
+                if (!seen.has(n)) {
+                    seen.add(n);
+                    stack.push(n);
+                }
+            });
+        }
+        const length = component.reduce((sum, i) => sum + Array.from(adjacency[i]).reduce((s, n) => s + distance(points[i], points[n]), 0), 0) / 2;
+        if (length < options.spurLength) component.forEach(i => removed.add(i));
+    });
+
+    const warnings: string[] = [];
+    if (removed.size === points.length) {
+        warnings.push(`No walkable space at least ${options.minCorridorWidth} m wide was found between the polygons`);
+    }
+
+    // One door per room: the point just outside its outline that is closest to a walkway it can see
+    const doorPoints = new Set<number>();
+    const doorOffset = Math.max(cellSize, 0.3);
+    const sampleStep = Math.max(cellSize, 0.5);
+    localRings.filter(({ polygon }) => polygon.properties.type !== "Wall").forEach(({ polygon, ring }) => {
+        // Doors attach to the walkway itself, never to another room's door
+        const segments: Array<[number, number]> = [];
+        points.forEach((_, a) => {
+            if (removed.has(a) || doorPoints.has(a)) return;
+            adjacency[a].forEach(b => { if (a < b && !doorPoints.has(b)) segments.push([a, b]); });
+        });
+        const isolatedPoints = points.map((_, i) => i).filter(i => !removed.has(i) && !doorPoints.has(i) && adjacency[i].size === 0);
+
+        const candidates: DoorCandidate[] = [];
+        ring.forEach((a, i) => {
+            const b = ring[(i + 1) % ring.length];
+            const length = distance(a, b);
+            if (length === 0) return;
+            const edgeNormal = { x: (b.y - a.y) / length, y: -(b.x - a.x) / length };
+
+            for (let along = sampleStep / 2; along < length; along += sampleStep) {
+                const onEdge = { x: a.x + (b.x - a.x) * along / length, y: a.y + (b.y - a.y) * along / length };
+                // Rings may wind either way, so check which side of the edge is outside
+                const normal = isPointInLocalRing({ x: onEdge.x + edgeNormal.x * doorOffset, y: onEdge.y + edgeNormal.y * doorOffset }, ring)
+                    ? { x: -edgeNormal.x, y: -edgeNormal.y }
+                    : edgeNormal;
+                const door = { x: onEdge.x + normal.x * doorOffset, y: onEdge.y + normal.y * doorOffset };
+                // Skip slivers between neighbouring polygons that are too narrow to walk through
+                const approach = { x: door.x + normal.x * options.minCorridorWidth / 2, y: door.y + normal.y * options.minCorridorWidth / 2 };
+                if (!grid.isWalkableAt(door) || !grid.isWalkableAt(approach)) continue;
+
+                // Among equally close spots, prefer the middle of a wall over its corners
+                const offCentre = Math.abs(along - length / 2) * 0.1;
+                const sampleCandidates: DoorCandidate[] = [
+                    ...segments.map(segment => {
+                        const target = closestPointOnSegment(door, points[segment[0]], points[segment[1]]);
+                        return { door, target, segment, pointIndex: null, score: distance(door, target) + offCentre };
+                    }),
+                    ...isolatedPoints.map(pointIndex =>
+                        ({ door, target: points[pointIndex], segment: null, pointIndex, score: distance(door, points[pointIndex]) + offCentre })),
+                ];
+                // A few of the nearest walkways per spot are plenty to find one in sight
+                candidates.push(...sampleCandidates.sort((x, y) => x.score - y.score).slice(0, DOOR_TARGETS_PER_SAMPLE));
+            }
+        });
+
+        // Line of sight is the expensive check, so only test candidates until one passes
+        const chosen = candidates
+            .sort((a, b) => a.score - b.score)
+            .find(candidate => grid.hasLineOfSight(candidate.door, candidate.target));
+
+        const name = polygon.properties.name || `#${polygon.properties.id}`;
+        if (!chosen) {
+            warnings.push(`No walkway is reachable from "${name}", so it got no door node`);
+            return;
+        }
+
+        let attachTo = chosen.pointIndex;
+        if (chosen.segment) {
+            const [a, b] = chosen.segment;
+            // Reuse an end of the segment when the walkway already has a node right there
+            if (distance(chosen.target, points[a]) <= cellSize) attachTo = a;
+            else if (distance(chosen.target, points[b]) <= cellSize) attachTo = b;
+            else {
+                attachTo = addPoint(chosen.target);
+                unlink(a, b);
+                link(a, attachTo);
+                link(attachTo, b);
+            }
+        }
+        const doorIndex = addPoint(chosen.door);
+        link(doorIndex, attachTo!);
+        doorPoints.add(doorIndex);
+    });
+
+    // Preview IDs are negative so they can never clash with anything on the server
+    const kept = points.map((_, i) => i).filter(i => !removed.has(i));
+    const previewId = new Map(kept.map((pointIndex, i) => [pointIndex, -(i + 1)]));
+    const nodes = kept.map(pointIndex => new RouteNodeBuilder()
+        .setId(previewId.get(pointIndex)!)
+        .setFloorId(floorId)
+        .setLocation(...projection.toLngLat(points[pointIndex]))
+        .setIsVisible(true)
+        .setConnections(Array.from(adjacency[pointIndex]).filter(n => previewId.has(n)).map(n => previewId.get(n)!))
+        .build());
+    const edgeCount = nodes.reduce((sum, n) => sum + n.properties.connections.length, 0) / 2;
+
+    logger.info("Walkway graph generated", { floorId, cellSize, nodeCount: nodes.length, edgeCount, doorCount: doorPoints.size });
+    return {
+        nodes,
+        doorNodeIds: Array.from(doorPoints).map(i => previewId.get(i)!),
+        edgeCount,
+        warnings,
+    };
+}
+
+/**
+ * Stages an accepted preview as one undoable command, swapping the preview IDs for temporary IDs
+ */
+export function buildWalkwayGraphCommand(preview: WalkwayGraphPreview, nextTemporaryId: () => number): HistoryCommand {
+    const idMap = new Map(preview.nodes.map(node => [node.properties.id, nextTemporaryId()]));
+
+    const creates = preview.nodes.map(node => createEntityCommand(OBJECT_TYPES.NODE, {
+        ...node,
+        properties: { ...node.properties, id: idMap.get(node.properties.id)!, connections: [] },
+    }));
+    const connects = preview.nodes.flatMap(node => node.properties.connections
+        .filter(otherId => node.properties.id < otherId)
+        .map(otherId => connectNodesCommand(idMap.get(node.properties.id)!, idMap.get(otherId)!)));
+
+    return combineCommands("Generate walkway graph", [...creates, ...connects]);
+}